@@ -0,0 +1,41 @@
+/**
+ * Audit log archival job
+ * Moves entries past their retention into the monthly archives (the server also does this daily)
+ * Run with: npm run archive-audit
+ */
+
+import { archiveAuditLog, getRetentionPolicy } from '../src/lib/auditretention';
+
+async function archiveAudit() {
+    console.log('USGRP Auth - Audit Log Archival');
+    console.log('===============================\n');
+
+    const policy = getRetentionPolicy();
+    const describe = (days: number | null) => days === null ? 'forever' : `${days} days`;
+
+    console.log('Retention:');
+    for (const [category, days] of Object.entries(policy.categories)) {
+        console.log(`  ${category}: ${describe(days)}`);
+    }
+    for (const { prefix, days } of policy.prefixes) {
+        console.log(`  ${prefix}*: ${describe(days)}`);
+    }
+    for (const [action, days] of Object.entries(policy.actions)) {
+        console.log(`  ${action}: ${describe(days)}`);
+    }
+    console.log('');
+
+    const { archived, months } = archiveAuditLog();
+
+    if (archived === 0) {
+        console.log('✓ Nothing is past its retention.');
+        return;
+    }
+
+    console.log(`✓ Archived ${archived} entries into ${months.join(', ')}.`);
+}
+
+archiveAudit().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -39,6 +39,7 @@ async function initAdmin() {
         enabled: 1,
         totp_secret: null,
         totp_enabled: 0,
+        must_change_password: 1,  // The printed password is only good for the first sign-in
     });
 
     if (user) {
@@ -46,7 +47,7 @@ async function initAdmin() {
         console.log('  Email:', ADMIN_EMAIL);
         console.log('  Password:', ADMIN_PASSWORD);
         console.log('  Authority: SUPERUSER\n');
-        console.log('⚠ IMPORTANT: Change the password after first login!');
+        console.log('⚠ A new password must be chosen at first sign-in.');
     } else {
         console.error('✗ Failed to create admin user');
     }
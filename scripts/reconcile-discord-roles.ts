@@ -0,0 +1,36 @@
+/**
+ * Discord role reconciliation job
+ * Reports accounts that have drifted from their Discord roles; pass --apply to fix them
+ * Run with: npm run reconcile-roles [-- --apply]
+ */
+
+import { reconcileDiscordRoles } from '../src/lib/rolesync';
+
+const APPLY = process.argv.includes('--apply');
+
+async function reconcileRoles() {
+    console.log('USGRP Auth - Discord Role Reconciliation');
+    console.log('========================================\n');
+
+    const changes = reconcileDiscordRoles(APPLY, null, 'reconcile-job');
+
+    if (changes.length === 0) {
+        console.log('✓ No drift - every linked account matches its Discord roles.');
+        return;
+    }
+
+    for (const change of changes) {
+        console.log(`${change.email} (Discord ${change.discordId})`);
+        console.log(`  Authority: ${change.from.authorityLevel} -> ${change.to.authorityLevel}`);
+        console.log(`  Roles: [${change.from.roles.join(', ')}] -> [${change.to.roles.join(', ')}]`);
+        console.log(`  Permissions: [${change.from.permissions.join(', ')}] -> [${change.to.permissions.join(', ')}]\n`);
+    }
+
+    if (APPLY) {
+        console.log(`✓ Applied changes to ${changes.length} users.`);
+    } else {
+        console.log(`⚠ ${changes.length} users have drifted. Re-run with --apply to fix them.`);
+    }
+}
+
+reconcileRoles().catch(console.error);
@@ -0,0 +1,48 @@
+/**
+ * Audit chain verification
+ * Recomputes the audit log hash chain, checks the archives and signed checkpoints and reports the first broken link.
+ * Pass --deep to re-hash archived entries too, and --checkpoint to sign the current head afterwards (only if the chain is intact)
+ * Run with: npm run verify-audit [-- --deep] [-- --checkpoint]
+ */
+
+import { verifyAuditChain, checkpointAuditChain } from '../src/lib/auditchain';
+
+const DEEP = process.argv.includes('--deep');
+const CHECKPOINT = process.argv.includes('--checkpoint');
+
+async function verifyAudit() {
+    console.log('USGRP Auth - Audit Chain Verification');
+    console.log('=====================================\n');
+
+    const result = verifyAuditChain(DEEP);
+
+    console.log(`Entries checked:     ${result.entriesChecked}`);
+    console.log(`Archived (bridged):  ${result.archivedEntriesBridged}`);
+    console.log(`Archives checked:    ${result.archivesChecked}${DEEP ? ' (deep)' : ''}`);
+    console.log(`Checkpoints checked: ${result.checkpointsChecked}`);
+    if (result.lastCheckpoint) {
+        console.log(`Last checkpoint:     #${result.lastCheckpoint.id} at entry ${result.lastCheckpoint.lastEntryId} (${result.lastCheckpoint.createdAt})`);
+    }
+    console.log('');
+
+    if (!result.valid && result.brokenAt) {
+        const checkpoint = result.brokenAt.checkpointId ? ` (checkpoint #${result.brokenAt.checkpointId})` : '';
+        console.log(`✗ Chain broken at entry ${result.brokenAt.entryId}${checkpoint}: ${result.brokenAt.reason}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    console.log('✓ Audit chain intact.');
+
+    if (CHECKPOINT) {
+        const checkpoint = checkpointAuditChain();
+        console.log(checkpoint
+            ? `✓ Signed checkpoint #${checkpoint.id} at entry ${checkpoint.last_entry_id}.`
+            : 'No new entries since the last checkpoint.');
+    }
+}
+
+verifyAudit().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getJwks } from '@/lib/keys';
+
+// Public signing keys (RFC 7517) for offline token verification
+export async function GET() {
+    return NextResponse.json(getJwks(), {
+        // Short cache so retired keys drop out of verifiers quickly
+        headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { getDiscoveryDocument } from '@/lib/oauth';
+
+// OpenID Provider discovery (OpenID Connect Discovery 1.0)
+export async function GET() {
+    return NextResponse.json(getDiscoveryDocument(), {
+        headers: { 'Cache-Control': 'public, max-age=3600' },
+    });
+}
@@ -0,0 +1,163 @@
+/**
+ * Service API Keys API
+ *
+ * Mint, list and revoke the scoped keys used by bots and other USGRP services
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { getAuthenticatedSession } from '@/lib/session';
+import { createApiKey, getAllApiKeys, getApiKeyById, revokeApiKey, logAudit, type ApiKey } from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { API_KEY_SCOPES, generateApiKey, parseKeyList } from '@/lib/apikeys';
+
+function formatKey(k: ApiKey) {
+    return {
+        id: k.id,
+        name: k.name,
+        prefix: k.key_prefix,
+        ownerId: k.owner_id,
+        scopes: parseKeyList(k.scopes),
+        allowedIps: parseKeyList(k.allowed_ips),
+        expiresAt: k.expires_at,
+        lastUsedAt: k.last_used_at,
+        lastUsedIp: k.last_used_ip,
+        revokedAt: k.revoked_at,
+        createdAt: k.created_at,
+    };
+}
+
+// GET - List API keys (SUPERUSER only, never includes key material)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        return NextResponse.json({
+            keys: getAllApiKeys().map(formatKey),
+            availableScopes: API_KEY_SCOPES,
+        });
+
+    } catch (error) {
+        console.error('API keys GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Mint a new key (SUPERUSER only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { name, scopes, expiresInDays, allowedIps } = await request.json();
+
+        if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+            return NextResponse.json({ error: 'Name and at least one scope required' }, { status: 400 });
+        }
+
+        const invalidScope = scopes.find((s: string) => !(API_KEY_SCOPES as readonly string[]).includes(s));
+        if (invalidScope) {
+            return NextResponse.json({ error: `Unknown scope: ${invalidScope}` }, { status: 400 });
+        }
+
+        if (allowedIps !== undefined && !Array.isArray(allowedIps)) {
+            return NextResponse.json({ error: 'Allowed IPs must be a list' }, { status: 400 });
+        }
+
+        if (expiresInDays !== undefined && expiresInDays !== null && !(Number(expiresInDays) > 0)) {
+            return NextResponse.json({ error: 'Expiry must be a positive number of days' }, { status: 400 });
+        }
+
+        const generated = generateApiKey();
+
+        const key = createApiKey({
+            id: crypto.randomUUID(),
+            name,
+            key_prefix: generated.prefix,
+            key_hash: generated.hash,
+            owner_id: session.user.userId,
+            scopes: JSON.stringify(scopes),
+            allowed_ips: JSON.stringify((allowedIps || []).map((ip: string) => ip.trim()).filter(Boolean)),
+            expires_at: expiresInDays
+                ? new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000).toISOString()
+                : null,
+        });
+
+        if (!key) {
+            return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 });
+        }
+
+        logAudit(
+            session.user.userId,
+            'API_KEY_CREATED',
+            key.id,
+            JSON.stringify({ name, scopes, expiresAt: key.expires_at }),
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({
+            success: true,
+            key: formatKey(key),
+            // Only time the key is shown
+            apiKey: generated.key,
+        });
+
+    } catch (error) {
+        console.error('API keys POST error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Revoke a key immediately (SUPERUSER only)
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Key ID required' }, { status: 400 });
+        }
+
+        const key = getApiKeyById(id);
+        if (!key || !revokeApiKey(id, session.user.userId)) {
+            return NextResponse.json({ error: 'Key not found or already revoked' }, { status: 404 });
+        }
+
+        logAudit(
+            session.user.userId,
+            'API_KEY_REVOKED',
+            id,
+            `Revoked API key ${key.name}`,
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('API keys DELETE error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
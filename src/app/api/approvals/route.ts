@@ -5,11 +5,21 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
-import { getDb, logAudit, ApprovalRequest } from '@/lib/db';
-import crypto from 'crypto';
+import { getAuthenticatedSession } from '@/lib/session';
+import {
+    getDb,
+    getUserById,
+    logAudit,
+    getSessionById,
+    deleteSession,
+    deleteAllUserSessions,
+    deleteAllSessions,
+    createApprovalRequest,
+    ApprovalRequest
+} from '@/lib/db';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import type { AuthToken } from '@/lib/auth';
+import { emitUserEvent, emitUserChanges } from '@/lib/webhooks';
 
 // Actions that require approval
 const APPROVAL_REQUIRED_ACTIONS = [
@@ -18,13 +28,45 @@ const APPROVAL_REQUIRED_ACTIONS = [
     'USER_SUSPEND',
     'USER_UNSUSPEND',
     'RESET_2FA_ADMIN',  // Resetting 2FA for admins
+    'SESSION_KILL_ADMIN',  // Signing out one session of an admin
+    'SESSIONS_KILL_ALL_ADMIN',  // Signing out every session of an admin
+    'GLOBAL_SIGN_OUT',  // Signing out every user (incident response)
 ];
 
+// Approvals that sign an administrator out
+const ADMIN_SIGN_OUT_ACTIONS = ['SESSION_KILL_ADMIN', 'SESSIONS_KILL_ALL_ADMIN'];
+
+interface Actor {
+    userId: string;
+    authorityLevel: number;
+}
+
+// Why this user may not request or approve a sign-out, or null when they may
+// Checked at request time and again at approval - either side's authority may have changed
+function checkSignOutAuthority(actor: Actor, actionType: string, targetUserId: string | null): string | null {
+    if (actionType === 'GLOBAL_SIGN_OUT') {
+        return actor.authorityLevel < AUTHORITY_LEVELS.SUPERUSER ? 'Global sign-out requires SUPERUSER' : null;
+    }
+    if (!ADMIN_SIGN_OUT_ACTIONS.includes(actionType)) return null;
+
+    const target = targetUserId ? getUserById(targetUserId) : null;
+    if (!target) {
+        return 'Target user not found';
+    }
+    if (target.id === actor.userId) {
+        return 'Manage your own sessions from the Security page';
+    }
+    if (target.authority_level >= actor.authorityLevel) {
+        return 'Cannot sign out a user at or above your own authority';
+    }
+    return null;
+}
+
 // GET - List pending approvals
 export async function GET(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -72,8 +114,8 @@ export async function GET(request: NextRequest) {
 // POST - Create approval request
 export async function POST(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -96,26 +138,25 @@ export async function POST(request: NextRequest) {
             }, { status: 400 });
         }
 
-        const db = getDb();
-        const id = crypto.randomUUID();
+        const refusal = checkSignOutAuthority(session.user, actionType, targetUser || null);
+        if (refusal) {
+            return NextResponse.json({ error: refusal }, { status: 403 });
+        }
 
-        // Approval expires in 24 hours
-        const expiresAt = new Date();
-        expiresAt.setHours(expiresAt.getHours() + 24);
+        if (actionType === 'SESSION_KILL_ADMIN') {
+            const targetSession = actionData?.sessionId ? getSessionById(actionData.sessionId) : null;
+            if (!targetSession || targetSession.user_id !== targetUser) {
+                return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+            }
+        }
 
-        db.prepare(`
-            INSERT INTO approval_requests 
-            (id, requester_id, action_type, target_user, action_data, reason, expires_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?)
-        `).run(
-            id,
-            session.user.userId,
-            actionType,
-            targetUser || null,
-            actionData ? JSON.stringify(actionData) : null,
+        const id = createApprovalRequest({
+            requester_id: session.user.userId,
+            action_type: actionType,
+            target_user: targetUser || null,
+            action_data: actionData ? JSON.stringify(actionData) : null,
             reason,
-            expiresAt.toISOString()
-        );
+        });
 
         logAudit(
             session.user.userId,
@@ -140,8 +181,8 @@ export async function POST(request: NextRequest) {
 // PUT - Approve or deny request
 export async function PUT(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -188,6 +229,18 @@ export async function PUT(request: NextRequest) {
             return NextResponse.json({ error: 'Request has expired' }, { status: 400 });
         }
 
+        // The requester must still be allowed to ask for it, and the approver to carry it out
+        if (decision === 'approved') {
+            const requester = getUserById(approval.requester_id);
+            const refusal = !requester || !requester.enabled || requester.suspended
+                ? 'Requester no longer has access'
+                : checkSignOutAuthority({ userId: requester.id, authorityLevel: requester.authority_level }, approval.action_type, approval.target_user) ||
+                  checkSignOutAuthority(session.user, approval.action_type, approval.target_user);
+            if (refusal) {
+                return NextResponse.json({ error: refusal }, { status: 403 });
+            }
+        }
+
         // Update the approval
         db.prepare(`
             UPDATE approval_requests 
@@ -195,18 +248,20 @@ export async function PUT(request: NextRequest) {
             WHERE id = ?
         `).run(decision, session.user.userId, approverReason || null, approvalId);
 
+        const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip');
+
         logAudit(
             session.user.userId,
             decision === 'approved' ? 'APPROVAL_APPROVED' : 'APPROVAL_DENIED',
             approval.target_user,
             `${decision} request for ${approval.action_type}${approverReason ? `: ${approverReason}` : ''}`,
-            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+            ip
         );
 
         // If approved, execute the action
         let actionResult = null;
         if (decision === 'approved') {
-            actionResult = await executeApprovedAction(approval, db);
+            actionResult = await executeApprovedAction(approval, db, session.user, ip);
         }
 
         return NextResponse.json({
@@ -223,13 +278,25 @@ export async function PUT(request: NextRequest) {
 }
 
 // Execute an approved action
-async function executeApprovedAction(approval: ApprovalRequest, db: ReturnType<typeof getDb>) {
+// The approver's session is spared by a global sign-out so they can see the result
+async function executeApprovedAction(
+    approval: ApprovalRequest,
+    db: ReturnType<typeof getDb>,
+    approver: AuthToken,
+    ip: string | null
+) {
     const actionData = approval.action_data ? JSON.parse(approval.action_data) : {};
+    // Identity changes are announced to webhooks from before/after snapshots
+    const before = approval.target_user ? getUserById(approval.target_user) : null;
+    const webhookData = { approvalId: approval.id };
+    // Sign-outs are audited like the direct ones, naming who asked for them
+    const auditData = { approvalId: approval.id, requestedBy: approval.requester_id };
 
     switch (approval.action_type) {
         case 'USER_DELETE':
             if (approval.target_user) {
                 db.prepare('DELETE FROM users WHERE id = ?').run(approval.target_user);
+                if (before) emitUserEvent('user.deleted', before, webhookData);
                 return { executed: true, action: 'User deleted' };
             }
             break;
@@ -243,6 +310,7 @@ async function executeApprovedAction(approval: ApprovalRequest, db: ReturnType<t
                 `).run(actionData.reason || approval.reason, approval.requester_id, approval.target_user);
                 // Also clear their sessions
                 db.prepare('DELETE FROM sessions WHERE user_id = ?').run(approval.target_user);
+                emitUserChanges(before, getUserById(approval.target_user), webhookData);
                 return { executed: true, action: 'User suspended' };
             }
             break;
@@ -254,6 +322,7 @@ async function executeApprovedAction(approval: ApprovalRequest, db: ReturnType<t
                     SET suspended = 0, suspended_reason = NULL, suspended_at = NULL, suspended_by = NULL
                     WHERE id = ?
                 `).run(approval.target_user);
+                emitUserChanges(before, getUserById(approval.target_user), webhookData);
                 return { executed: true, action: 'User unsuspended' };
             }
             break;
@@ -262,6 +331,7 @@ async function executeApprovedAction(approval: ApprovalRequest, db: ReturnType<t
             if (approval.target_user && actionData.newLevel !== undefined) {
                 db.prepare('UPDATE users SET authority_level = ? WHERE id = ?')
                     .run(actionData.newLevel, approval.target_user);
+                emitUserChanges(before, getUserById(approval.target_user), webhookData);
                 return { executed: true, action: `Authority changed to ${actionData.newLevel}` };
             }
             break;
@@ -276,6 +346,44 @@ async function executeApprovedAction(approval: ApprovalRequest, db: ReturnType<t
                 return { executed: true, action: '2FA reset' };
             }
             break;
+
+        case 'SESSION_KILL_ADMIN':
+            if (approval.target_user && actionData.sessionId) {
+                const targetSession = getSessionById(actionData.sessionId);
+                if (!targetSession || targetSession.user_id !== approval.target_user) {
+                    return { executed: false, action: 'Session already ended' };
+                }
+                deleteSession(targetSession.id, 'revoked');
+                logAudit(
+                    approver.userId,
+                    'ADMIN_SESSION_KILL',
+                    approval.target_user,
+                    { email: before?.email, device: targetSession.device_name, ip: targetSession.ip, ...auditData },
+                    ip
+                );
+                return { executed: true, action: 'Session terminated' };
+            }
+            break;
+
+        case 'SESSIONS_KILL_ALL_ADMIN':
+            if (approval.target_user) {
+                const count = deleteAllUserSessions(approval.target_user, undefined, 'revoked');
+                logAudit(
+                    approver.userId,
+                    'ADMIN_SESSIONS_KILL_ALL',
+                    approval.target_user,
+                    { email: before?.email, sessionsRevoked: count, ...auditData },
+                    ip
+                );
+                return { executed: true, action: `${count} session(s) terminated` };
+            }
+            break;
+
+        case 'GLOBAL_SIGN_OUT': {
+            const count = deleteAllSessions(approver.sessionId, 'revoked');
+            logAudit(approver.userId, 'GLOBAL_SIGN_OUT', null, { sessionsRevoked: count, ...auditData }, ip);
+            return { executed: true, action: `Global sign-out: ${count} session(s) terminated` };
+        }
     }
 
     return { executed: false, action: 'Unknown action' };
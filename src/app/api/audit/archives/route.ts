@@ -0,0 +1,43 @@
+/**
+ * Audit Archives API
+ *
+ * Monthly archives of entries past their retention, and the retention policy that
+ * decides when entries move there. Search an archive with GET /api/audit?archive=YYYY-MM
+ */
+
+import { NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { getAuditArchives } from '@/lib/db';
+import { getRetentionPolicy } from '@/lib/auditretention';
+
+// GET: List archived months (ADMIN+ only)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const archives = getAuditArchives().reverse().map(archive => ({
+            month: archive.month,
+            entries: archive.entries,
+            sha256: archive.sha256,
+            firstEntryId: archive.first_entry_id,
+            lastEntryId: archive.last_entry_id,
+            updatedAt: archive.updated_at,
+        }));
+
+        return NextResponse.json({ archives, retention: getRetentionPolicy() });
+
+    } catch (error: unknown) {
+        console.error('Audit archives error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * Audit Forwarding Status API
+ *
+ * Configured SIEM sinks, how far each has got and how many events are parked
+ * in its dead-letter buffer
+ */
+
+import { NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { getAuditChainHead } from '@/lib/db';
+import { getAuditForwardingStatus } from '@/lib/auditforward';
+
+// GET: Forwarding status (ADMIN+ only)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        return NextResponse.json({
+            headEntryId: getAuditChainHead()?.id ?? null,
+            sinks: getAuditForwardingStatus(),
+        });
+
+    } catch (error: unknown) {
+        console.error('Audit forwarding status error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { createTestUser, fakeSession, signedInSessionData } from '@/test/fixtures';
+import { queryAuditLog } from '@/lib/db';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { GET } from './route';
+
+const cookie = vi.hoisted(() => ({ session: null as unknown }));
+
+vi.mock('next/headers', () => ({
+    cookies: async () => ({ get: () => undefined }),
+    headers: async () => new Headers(),
+}));
+vi.mock('iron-session', async importOriginal => ({
+    ...await importOriginal<typeof import('iron-session')>(),
+    getIronSession: async () => cookie.session,
+}));
+
+describe('GET /api/audit', () => {
+    it('records the proxy-reported address for an export, not the one the client claims', async () => {
+        const admin = createTestUser({ authority_level: AUTHORITY_LEVELS.ADMIN });
+        cookie.session = fakeSession(signedInSessionData(admin));
+
+        const response = await GET(new NextRequest('https://auth.usgrp.xyz/api/audit?format=jsonl', {
+            headers: { 'x-forwarded-for': '10.0.0.1, 198.51.100.7' },
+        }));
+        expect(response.status).toBe(200);
+
+        const { entries } = queryAuditLog({ actor: admin.id, actions: ['AUDIT_EXPORTED'] }, 1);
+        expect(entries[0]?.ip).toBe('198.51.100.7');
+    });
+});
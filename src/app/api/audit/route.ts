@@ -1,40 +1,199 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
-import { logAudit, getAuditLog, getAuditLogByUser } from '@/lib/db';
+import { getAuthenticatedSession } from '@/lib/session';
+import { logAudit, queryAuditLog, getAuditArchive, type AuditLogFilters } from '@/lib/db';
 import { requiresAuthority } from '@/lib/auth';
 import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { requireApiKey, getTrustedClientIp } from '@/lib/apikeys';
+import {
+    AUDIT_CATEGORIES,
+    getAuditActionsInCategory,
+    type AuditCategory
+} from '@/lib/auditevents';
+import {
+    AUDIT_EXPORT_FORMATS,
+    toAuditRecord,
+    formatAuditRecord,
+    getAuditExportHeader,
+    type AuditExportFormat
+} from '@/lib/auditexport';
+import { searchAuditArchive } from '@/lib/auditretention';
+
+const MAX_LIMIT = 500;
+
+// Exports are read in pages of this size and capped at EXPORT_MAX_ROWS
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_MAX_ROWS = 500000;
+
+const EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+type AuditQuery = typeof queryAuditLog;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date-only "to" includes that whole day
+function endOfRange(to: string): string {
+    if (!DATE_ONLY.test(to)) return to;
+    const next = new Date(`${to}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().slice(0, 10);
+}
+
+// Query string to filters - null filters means nothing can match (an action outside the chosen category)
+function parseFilters(searchParams: URLSearchParams): { filters: AuditLogFilters | null; error?: string } {
+    const filters: AuditLogFilters = {
+        actor: searchParams.get('actor') || searchParams.get('userId') || undefined,
+        target: searchParams.get('target') || undefined,
+        ip: searchParams.get('ip') || undefined,
+        search: searchParams.get('q') || undefined,
+    };
+
+    const actions = (searchParams.get('action') || '').split(',').map(a => a.trim()).filter(Boolean);
+    const category = searchParams.get('category');
+    if (category) {
+        if (!(category in AUDIT_CATEGORIES)) {
+            return { filters: null, error: 'Unknown category' };
+        }
+        const inCategory: string[] = getAuditActionsInCategory(category as AuditCategory);
+        filters.actions = actions.length > 0 ? actions.filter(a => inCategory.includes(a)) : inCategory;
+        if (filters.actions.length === 0) {
+            return { filters: null };
+        }
+    } else if (actions.length > 0) {
+        filters.actions = actions;
+    }
+
+    for (const key of ['from', 'to'] as const) {
+        const value = searchParams.get(key);
+        if (!value) continue;
+        if (isNaN(Date.parse(value))) {
+            return { filters: null, error: `Invalid "${key}" date` };
+        }
+        filters[key] = key === 'to' ? endOfRange(value) : value;
+    }
+
+    return { filters };
+}
+
+// An archived month as a query - retention can remove the archive while an export is still streaming
+function queryArchive(month: string): AuditQuery {
+    return (filters, limit, cursor) => {
+        const result = searchAuditArchive(month, filters, limit, cursor);
+        if (!result) {
+            throw new Error(`Audit archive ${month} is no longer available`);
+        }
+        return result;
+    };
+}
 
-// API key for bot authentication
-const BOT_API_KEY = 'usgrp-admin-2026-secure-key-x7k9m2p4';
+// Newest first, page by page, so large ranges never sit in memory
+function streamExport(query: AuditQuery, filters: AuditLogFilters | null, format: AuditExportFormat): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cursor: number | null = null;
+    let rows = 0;
+    let started = false;
+
+    return new ReadableStream({
+        pull(controller) {
+            if (!started) {
+                started = true;
+                controller.enqueue(encoder.encode(getAuditExportHeader(format)));
+                if (!filters) {
+                    controller.close();
+                }
+                return;
+            }
+
+            const { entries, nextCursor } = query(filters!, Math.min(EXPORT_PAGE_SIZE, EXPORT_MAX_ROWS - rows), cursor);
+            controller.enqueue(encoder.encode(
+                entries.map(entry => formatAuditRecord(toAuditRecord(entry), format)).join('')
+            ));
+
+            rows += entries.length;
+            cursor = nextCursor;
+            if (!nextCursor || rows >= EXPORT_MAX_ROWS) {
+                controller.close();
+            }
+        },
+    });
+}
 
-// GET: Retrieve audit logs (ADMIN+ only)
+// GET: Query audit logs (ADMIN+, or a service key with audit:read)
+// Filters: actor (or userId), target, action (comma separated), category, ip, from, to, q; paged with cursor
+// archive=YYYY-MM searches that archived month instead of the live log
+// format=csv or format=jsonl downloads every matching entry instead of a page
 export async function GET(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        // Services send their key; the dashboard uses its session cookie
+        let actorId: string | null = null;
+        let apiKeyId: string | null = null;
+        if (request.headers.get('authorization')) {
+            const { key, response } = requireApiKey(request, 'audit:read');
+            if (response) {
+                return response;
+            }
+            apiKeyId = key.id;
+        } else {
+            const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
+            if (!session) {
+                return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+            }
 
-        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
-            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+            if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+                return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+            }
+            actorId = session.user.userId;
         }
 
         const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
-        const limit = parseInt(searchParams.get('limit') || '100');
-        const offset = parseInt(searchParams.get('offset') || '0');
+        const { filters, error } = parseFilters(searchParams);
+        if (error) {
+            return NextResponse.json({ error }, { status: 400 });
+        }
 
-        let logs;
-        if (userId) {
-            logs = getAuditLogByUser(userId, limit);
-        } else {
-            logs = getAuditLog(limit, offset);
+        // Archived months are searched on demand, with the same filters and paging
+        const archive = searchParams.get('archive');
+        if (archive && !getAuditArchive(archive)) {
+            return NextResponse.json({ error: 'No archive for that month' }, { status: 404 });
+        }
+        const query: AuditQuery = archive ? queryArchive(archive) : queryAuditLog;
+
+        const format = searchParams.get('format');
+        if (format) {
+            if (!AUDIT_EXPORT_FORMATS.includes(format as AuditExportFormat)) {
+                return NextResponse.json({ error: 'Format must be "csv" or "jsonl"' }, { status: 400 });
+            }
+
+            logAudit(
+                actorId,
+                'AUDIT_EXPORTED',
+                null,
+                { format, filters: Object.fromEntries(searchParams), ...(apiKeyId ? { apiKeyId } : {}) },
+                getTrustedClientIp(request)
+            );
+
+            const filename = `audit-log-${archive || new Date().toISOString().slice(0, 10)}.${format}`;
+            return new Response(streamExport(query, filters, format as AuditExportFormat), {
+                headers: {
+                    'Content-Type': EXPORT_CONTENT_TYPES[format as AuditExportFormat],
+                    'Content-Disposition': `attachment; filename="${filename}"`,
+                    'Cache-Control': 'no-store',
+                },
+            });
         }
 
-        return NextResponse.json({ logs });
+        if (!filters) {
+            return NextResponse.json({ logs: [], nextCursor: null });
+        }
+
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), MAX_LIMIT);
+        const cursor = parseInt(searchParams.get('cursor') || '') || null;
+        const { entries, nextCursor } = query(filters, limit, cursor);
+
+        return NextResponse.json({ logs: entries.map(toAuditRecord), nextCursor });
 
     } catch (error: unknown) {
         console.error('Get audit log error:', error);
@@ -43,28 +202,35 @@ export async function GET(request: NextRequest) {
 }
 
 // POST: Create audit log entry (Bot API)
+// Services only ever write EXTERNAL_EVENT, stamped with their key - they cannot pose as Auth's own
+// events or as a user; the action name and userId they send are kept in the details
 export async function POST(request: NextRequest) {
     try {
         // Verify API key
-        const authHeader = request.headers.get('authorization');
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
-        const apiKey = authHeader.substring(7);
-        if (apiKey !== BOT_API_KEY) {
-            return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+        const { key, response } = requireApiKey(request, 'audit:write');
+        if (response) {
+            return response;
         }
 
         const { userId, action, target, details } = await request.json();
 
-        if (!action) {
+        if (!action || typeof action !== 'string') {
             return NextResponse.json({ error: 'Action required' }, { status: 400 });
         }
 
-        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'bot';
-
-        logAudit(userId || null, action, target || null, details || null, ip);
+        logAudit(
+            null,
+            'EXTERNAL_EVENT',
+            target || null,
+            {
+                event: action,
+                userId: userId || null,
+                apiKeyId: key.id,
+                apiKeyName: key.name,
+                details: details ?? null,
+            },
+            getTrustedClientIp(request)
+        );
 
         return NextResponse.json({ success: true });
 
@@ -73,4 +239,3 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Failed to log audit' }, { status: 500 });
     }
 }
-
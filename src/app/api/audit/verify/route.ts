@@ -0,0 +1,34 @@
+/**
+ * Audit Chain Verification API
+ *
+ * Recomputes the audit log hash chain and checks it against the archive files and the
+ * signed checkpoints. Reports the first broken link, if any. ?deep=1 also re-hashes archived entries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { verifyAuditChain } from '@/lib/auditchain';
+
+// GET: Verify the audit chain (ADMIN+ only)
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const deep = new URL(request.url).searchParams.get('deep') === '1';
+        return NextResponse.json(verifyAuditChain(deep));
+
+    } catch (error: unknown) {
+        console.error('Audit chain verification error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * TOTP Confirmation API
+ * 
+ * Activate a pending authenticator secret once the user proves they can generate codes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { getUserById, updateUser, logAudit } from '@/lib/db';
+import { verifyTotp } from '@/lib/totp';
+
+// POST - Confirm enrollment with a code from the authenticator app
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { code } = await request.json();
+
+        if (!code) {
+            return NextResponse.json({ error: 'Verification code required' }, { status: 400 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (user.totp_enabled) {
+            return NextResponse.json({ error: '2FA is already enabled' }, { status: 400 });
+        }
+
+        if (!user.totp_secret) {
+            return NextResponse.json({ error: 'No 2FA setup in progress' }, { status: 400 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip');
+        const counter = verifyTotp(user.totp_secret, String(code));
+
+        if (counter === null) {
+            logAudit(user.id, 'TOTP_SETUP_FAILED', null, 'Invalid confirmation code', ip);
+            return NextResponse.json({ error: 'Invalid verification code' }, { status: 401 });
+        }
+
+        updateUser(user.id, {
+            totp_enabled: 1,
+            totp_last_counter: counter,
+        });
+
+        logAudit(user.id, 'TOTP_ENABLED', null, 'Authenticator app enrolled', ip);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Two-factor authentication enabled',
+        });
+
+    } catch (error) {
+        console.error('2FA confirm error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * TOTP Enrollment API
+ * 
+ * Generate an authenticator secret and QR code for the current user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { getAuthenticatedSession } from '@/lib/session';
+import { getUserById, updateUser, logAudit } from '@/lib/db';
+import { generateTotpSecret, buildOtpauthUri } from '@/lib/totp';
+
+// GET - Current 2FA status for the logged-in user
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            totpEnabled: !!user.totp_enabled,
+            enrollmentPending: !user.totp_enabled && !!user.totp_secret,
+            mfaEnforced: !!user.mfa_enforced,
+        });
+
+    } catch (error) {
+        console.error('2FA status error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Start enrollment: generate a new secret, otpauth URI and QR code
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (user.totp_enabled) {
+            return NextResponse.json({ error: '2FA is already enabled' }, { status: 400 });
+        }
+
+        // Secret is stored but not active until confirmed with a valid code
+        const secret = generateTotpSecret();
+        updateUser(user.id, {
+            totp_secret: secret,
+            totp_enabled: 0,
+            totp_last_counter: null,
+        });
+
+        const otpauthUri = buildOtpauthUri(secret, user.email);
+        const qrCode = await QRCode.toDataURL(otpauthUri);
+
+        logAudit(
+            user.id,
+            'TOTP_SETUP_STARTED',
+            null,
+            null,
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({
+            success: true,
+            secret,
+            otpauthUri,
+            qrCode,
+        });
+
+    } catch (error) {
+        console.error('2FA setup error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * TOTP Verification API
+ * 
+ * Complete a pending login with an authenticator code
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import {
+    sessionOptions,
+    SessionData,
+    hasPending2FA,
+    clearPending2FA,
+    completePendingLogin,
+    beginPendingPasswordChange
+} from '@/lib/session';
+import { getUserById, updateUser, addRememberedDevice, logAudit } from '@/lib/db';
+import { createUserSession } from '@/lib/auth';
+import { verifyTotp } from '@/lib/totp';
+import {
+    DEVICE_COOKIE_NAME,
+    REMEMBERED_DEVICE_DAYS,
+    deviceCookieOptions,
+    readDeviceFingerprint,
+    createDeviceCookie,
+    parseUserAgent
+} from '@/lib/devices';
+import { checkLoginRateLimit, recordLoginFailure, resetLoginFailures, rateLimitedResponse } from '@/lib/ratelimit';
+import { getPasswordChangeReason } from '@/lib/passwordpolicy';
+import { checkSessionLimit } from '@/lib/sessionpolicy';
+import { getTrustedClientIp } from '@/lib/apikeys';
+
+// POST - Verify the second factor and create the session
+export async function POST(request: NextRequest) {
+    try {
+        const cookieStore = await cookies();
+        const session = await getIronSession<SessionData>(cookieStore, sessionOptions);
+
+        if (!session.pending2FA || !session.pendingUserId) {
+            return NextResponse.json({ error: 'No pending 2FA verification' }, { status: 400 });
+        }
+
+        if (!hasPending2FA(session)) {
+            clearPending2FA(session);
+            await session.save();
+            return NextResponse.json({ error: 'Verification expired. Please sign in again.' }, { status: 401 });
+        }
+
+        const { code, returnUrl, trustDevice } = await request.json();
+
+        if (!code) {
+            return NextResponse.json({ error: 'Verification code required' }, { status: 400 });
+        }
+
+        const ip = getTrustedClientIp(request);
+        const userAgent = request.headers.get('user-agent') || 'unknown';
+
+        const user = getUserById(session.pendingUserId!);
+        if (!user || !user.enabled || !user.totp_enabled || !user.totp_secret) {
+            return NextResponse.json({ error: 'Invalid verification state' }, { status: 400 });
+        }
+
+        if (user.security_key_required) {
+            return NextResponse.json({ error: 'A security key is required for this account' }, { status: 403 });
+        }
+
+        const limit = checkLoginRateLimit(user.email, ip, user);
+        if (!limit.allowed) {
+            return rateLimitedResponse(limit);
+        }
+
+        const counter = verifyTotp(user.totp_secret, String(code), user.totp_last_counter);
+
+        if (counter === null) {
+            recordLoginFailure('totp', user.email, ip, user);
+            logAudit(user.id, 'LOGIN_FAILED', user.email, 'Invalid 2FA code', ip);
+            return NextResponse.json({ error: 'Invalid verification code' }, { status: 401 });
+        }
+
+        // Record the accepted time step so the same code cannot be replayed
+        updateUser(user.id, { totp_last_counter: counter });
+        resetLoginFailures(user);
+
+        // Trust this device: reuse the existing device cookie if it is still valid
+        let deviceFingerprint = await readDeviceFingerprint(cookieStore.get(DEVICE_COOKIE_NAME)?.value);
+        if (trustDevice) {
+            if (!deviceFingerprint) {
+                const deviceCookie = await createDeviceCookie();
+                cookieStore.set(DEVICE_COOKIE_NAME, deviceCookie.value, deviceCookieOptions);
+                deviceFingerprint = deviceCookie.fingerprint;
+            }
+
+            addRememberedDevice(user.id, deviceFingerprint, parseUserAgent(userAgent), ip);
+            logAudit(
+                user.id,
+                'DEVICE_TRUSTED',
+                null,
+                `Trusted ${parseUserAgent(userAgent)} for ${REMEMBERED_DEVICE_DAYS} days`,
+                ip
+            );
+        }
+
+        const sessionLimit = checkSessionLimit(user);
+        if (!sessionLimit.allowed) {
+            logAudit(user.id, 'LOGIN_FAILED', user.email, 'Session limit reached', ip);
+            return NextResponse.json({ error: sessionLimit.error }, { status: 403 });
+        }
+
+        // Forced or expired password - hold the login at the change-password interstitial
+        const passwordChange = getPasswordChangeReason(user);
+        if (passwordChange) {
+            logAudit(user.id, 'LOGIN_PASSWORD_CHANGE_REQUIRED', user.email, { method: 'totp', reason: passwordChange }, ip);
+            await beginPendingPasswordChange(session, user.id, !!session.pendingRememberMe);
+            return NextResponse.json({ success: true, requiresPasswordChange: true });
+        }
+
+        const result = await createUserSession(user, ip, userAgent, !!session.pendingRememberMe, deviceFingerprint);
+
+        logAudit(user.id, 'LOGIN_SUCCESS', user.email, { method: 'totp' }, ip);
+
+        await completePendingLogin(session, result);
+
+        return NextResponse.json({
+            success: true,
+            token: result.token,
+            expiresIn: result.expiresIn,
+            user: result.user,
+            returnUrl: returnUrl || null,
+        });
+
+    } catch (error) {
+        console.error('2FA verify error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
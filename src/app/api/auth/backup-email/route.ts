@@ -0,0 +1,88 @@
+/**
+ * Backup Email API
+ *
+ * View and change the address password reset links are sent to
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { getUserById, updateUser, logAudit } from '@/lib/db';
+import { verifyPassword } from '@/lib/auth';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// GET - Current backup email
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ backupEmail: user.backup_email });
+
+    } catch (error) {
+        console.error('Backup email GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// PUT - Set or clear the backup email (requires the current password)
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { backupEmail, currentPassword } = await request.json();
+
+        if (!currentPassword) {
+            return NextResponse.json({ error: 'Current password required' }, { status: 400 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const normalized = typeof backupEmail === 'string' ? backupEmail.trim().toLowerCase() : '';
+
+        if (normalized && !EMAIL_PATTERN.test(normalized)) {
+            return NextResponse.json({ error: 'Invalid email address' }, { status: 400 });
+        }
+
+        // A reset link sent to the account's own mailbox is no use to someone locked out of it
+        if (normalized === user.email) {
+            return NextResponse.json({ error: 'Backup email must differ from your account email' }, { status: 400 });
+        }
+
+        if (!await verifyPassword(currentPassword, user.password_hash)) {
+            return NextResponse.json({ error: 'Current password is incorrect' }, { status: 401 });
+        }
+
+        updateUser(user.id, { backup_email: normalized || null });
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        logAudit(
+            user.id,
+            'BACKUP_EMAIL_CHANGED',
+            user.email,
+            normalized ? `Set to ${normalized}` : 'Removed',
+            ip
+        );
+
+        return NextResponse.json({ success: true, backupEmail: normalized || null });
+
+    } catch (error) {
+        console.error('Backup email PUT error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * Discord OAuth Callback
+ *
+ * Discord redirects here after the user approves; the account ID is only
+ * trusted once the state matches and the code has been exchanged with Discord
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import { loginWithDiscord, type SessionTokens } from '@/lib/auth';
+import {
+    sessionOptions,
+    SessionData,
+    setSessionTokens,
+    beginPending2FA,
+    beginPendingPasswordChange,
+    clearPending2FA,
+    getAuthenticatedSession
+} from '@/lib/session';
+import { getUserById, getUserByDiscordId, updateUser, logAudit } from '@/lib/db';
+import { emitUserChanges } from '@/lib/webhooks';
+import { exchangeDiscordCode } from '@/lib/discord';
+import { DEVICE_COOKIE_NAME, readDeviceFingerprint } from '@/lib/devices';
+import { getTrustedClientIp } from '@/lib/apikeys';
+
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const redirectTo = (path: string) => NextResponse.redirect(new URL(path, request.url));
+
+    try {
+        const cookieStore = await cookies();
+        const session = await getIronSession<SessionData>(cookieStore, sessionOptions);
+
+        const intent = session.discordIntent || 'login';
+        const returnUrl = session.discordReturnUrl;
+        const failurePath = intent === 'link' ? '/dashboard/profile' : '/login';
+        const stateValid = !!session.discordState &&
+            session.discordState === searchParams.get('state') &&
+            (session.discordStateExpiresAt || 0) > Date.now();
+
+        // State is single-use
+        session.discordState = undefined;
+        session.discordIntent = undefined;
+        session.discordReturnUrl = undefined;
+        session.discordStateExpiresAt = undefined;
+        await session.save();
+
+        if (!stateValid) {
+            return redirectTo(`${failurePath}?error=discord_state`);
+        }
+
+        // User cancelled on Discord
+        const code = searchParams.get('code');
+        if (!code) {
+            return redirectTo(`${failurePath}?error=discord_cancelled`);
+        }
+
+        const discordUser = await exchangeDiscordCode(code);
+        if (!discordUser) {
+            return redirectTo(`${failurePath}?error=discord_failed`);
+        }
+
+        const ip = getTrustedClientIp(request);
+        const userAgent = request.headers.get('user-agent') || 'unknown';
+
+        // Link Discord to the signed-in account
+        if (intent === 'link') {
+            if (!await getAuthenticatedSession(session) || !session.user) {
+                return redirectTo('/login?return=/dashboard/profile');
+            }
+
+            const existing = getUserByDiscordId(discordUser.id);
+            if (existing && existing.id !== session.user.userId) {
+                logAudit(session.user.userId, 'DISCORD_LINK_FAILED', discordUser.id, 'Already linked to another account', ip);
+                return redirectTo('/dashboard/profile?error=discord_in_use');
+            }
+
+            const before = getUserById(session.user.userId);
+            updateUser(session.user.userId, { discord_id: discordUser.id });
+
+            session.user = { ...session.user, discordId: discordUser.id };
+            await session.save();
+
+            logAudit(session.user.userId, 'DISCORD_LINKED', discordUser.id, `@${discordUser.username}`, ip);
+            emitUserChanges(before, getUserById(session.user.userId));
+
+            return redirectTo('/dashboard/profile?discord=linked');
+        }
+
+        // Sign in with Discord
+        const deviceFingerprint = await readDeviceFingerprint(cookieStore.get(DEVICE_COOKIE_NAME)?.value);
+        const result = await loginWithDiscord(discordUser.id, ip, userAgent, deviceFingerprint);
+        const returnQuery = returnUrl ? `?return=${encodeURIComponent(returnUrl)}` : '';
+
+        if (!result.success) {
+            const error = result.retryAfter ? 'rate_limited'
+                : result.error === 'Account disabled' ? 'account_disabled'
+                    : result.error === 'Discord account not linked' ? 'discord_not_linked'
+                        : 'session_limit';
+            return redirectTo(`/login?error=${error}`);
+        }
+
+        if (result.requires2FA) {
+            await beginPending2FA(session, result.pendingUserId!, false);
+
+            return redirectTo(`/login/2fa${returnQuery}`);
+        }
+
+        if (result.requiresPasswordChange) {
+            await beginPendingPasswordChange(session, result.pendingUserId!, false);
+            return redirectTo(`/login/change-password${returnQuery}`);
+        }
+
+        setSessionTokens(session, result as SessionTokens);
+        session.user = {
+            ...result.user!,
+            sessionId: result.sessionId!,
+        };
+        session.isLoggedIn = true;
+        session.lastActivity = Date.now();
+        clearPending2FA(session);
+        await session.save();
+
+        // The login page sends signed-in users on to the return URL (including the SSO hand-off)
+        return redirectTo(returnUrl ? `/login${returnQuery}` : '/dashboard');
+
+    } catch (error) {
+        console.error('Discord callback error:', error);
+        return redirectTo('/login?error=discord_failed');
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * Discord Account API
+ *
+ * GET starts Discord OAuth to sign in (?intent=login) or link the signed-in account (?intent=link)
+ * DELETE unlinks the signed-in user's Discord account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import { sessionOptions, SessionData, getAuthenticatedSession } from '@/lib/session';
+import { getUserById, updateUser, logAudit } from '@/lib/db';
+import { emitUserChanges } from '@/lib/webhooks';
+import {
+    isDiscordConfigured,
+    generateDiscordState,
+    getDiscordAuthorizeUrl,
+    DISCORD_STATE_TTL_MS
+} from '@/lib/discord';
+
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const intent = searchParams.get('intent') === 'link' ? 'link' : 'login';
+    const returnUrl = searchParams.get('return');
+    const failurePath = intent === 'link' ? '/dashboard/profile' : '/login';
+
+    try {
+        if (!isDiscordConfigured()) {
+            return NextResponse.redirect(new URL(`${failurePath}?error=discord_unavailable`, request.url));
+        }
+
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+
+        if (intent === 'link' && !await getAuthenticatedSession(session)) {
+            return NextResponse.redirect(new URL('/login?return=/dashboard/profile', request.url));
+        }
+
+        const state = generateDiscordState();
+        session.discordState = state;
+        session.discordIntent = intent;
+        session.discordReturnUrl = returnUrl || undefined;
+        session.discordStateExpiresAt = Date.now() + DISCORD_STATE_TTL_MS;
+        await session.save();
+
+        return NextResponse.redirect(getDiscordAuthorizeUrl(state));
+
+    } catch (error) {
+        console.error('Discord start error:', error);
+        return NextResponse.redirect(new URL(`${failurePath}?error=discord_failed`, request.url));
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user || !user.discord_id) {
+            return NextResponse.json({ error: 'No Discord account linked' }, { status: 400 });
+        }
+
+        updateUser(user.id, { discord_id: null });
+
+        session.user = { ...session.user, discordId: null };
+        await session.save();
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        logAudit(user.id, 'DISCORD_UNLINKED', user.discord_id, null, ip);
+        emitUserChanges(user, getUserById(user.id));
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Discord unlink error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
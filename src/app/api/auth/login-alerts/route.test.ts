@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestUser, fakeSession, jsonRequest, signedInSessionData } from '@/test/fixtures';
+import { createLoginAlert, getLoginAlertById, getSessionById, getUserById } from '@/lib/db';
+import { hashAlertToken } from '@/lib/loginalerts';
+import { POST } from './route';
+
+const cookie = vi.hoisted(() => ({ session: null as unknown }));
+
+vi.mock('next/headers', () => ({
+    cookies: async () => ({ get: () => undefined }),
+    headers: async () => new Headers(),
+}));
+vi.mock('iron-session', async importOriginal => ({
+    ...await importOriginal<typeof import('iron-session')>(),
+    getIronSession: async () => cookie.session,
+}));
+
+describe('POST /api/auth/login-alerts', () => {
+    beforeEach(() => {
+        // Mail-in-a-Box is out of reach in tests
+        vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('unavailable', { status: 503 }));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('still accepts the emailed report after whoever signed in dismissed the alert', async () => {
+        const user = createTestUser({ password_hash: 'original-hash' });
+        const intruder = signedInSessionData(user);
+        const token = crypto.randomBytes(32).toString('base64url');
+        const alertId = crypto.randomUUID();
+        createLoginAlert({
+            id: alertId,
+            user_id: user.id,
+            session_id: intruder.user!.sessionId,
+            ip: '203.0.113.9',
+            device_name: 'Unknown device',
+            location: null,
+            reasons: JSON.stringify(['new_device']),
+            token_hash: hashAlertToken(token),
+            expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        });
+
+        cookie.session = fakeSession(intruder);
+        const confirmed = await POST(jsonRequest('/api/auth/login-alerts', { alertId, action: 'confirm' }));
+        expect(confirmed.status).toBe(200);
+        expect(getLoginAlertById(alertId)?.status).toBe('confirmed');
+
+        // The owner clicks "this wasn't me" in the email
+        cookie.session = fakeSession();
+        const reported = await POST(jsonRequest('/api/auth/login-alerts', { token, action: 'report' }));
+        expect(reported.status).toBe(200);
+        expect(getLoginAlertById(alertId)?.status).toBe('reported');
+        expect(getSessionById(intruder.user!.sessionId)).toBeUndefined();
+        expect(getUserById(user.id)?.password_hash).not.toBe('original-hash');
+
+        const again = await POST(jsonRequest('/api/auth/login-alerts', { token, action: 'report' }));
+        expect(again.status).toBe(400);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * Login Alerts API
+ *
+ * Suspicious sign-ins flagged for the user. "This was me" dismisses an alert from the dashboard;
+ * "this wasn't me" (from the dashboard or the emailed link) signs the account out
+ * everywhere and locks the account and mailbox password until it is reset from the backup email.
+ * A dismissed alert can still be reported until it expires - whoever signed in can dismiss it too
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import crypto from 'crypto';
+import { sessionOptions, SessionData, getAuthenticatedSession } from '@/lib/session';
+import {
+    getUserById,
+    updateUser,
+    getLoginAlertById,
+    getLoginAlertByToken,
+    getPendingLoginAlerts,
+    resolveLoginAlert,
+    deleteAllUserSessions,
+    logAudit
+} from '@/lib/db';
+import { hashPassword } from '@/lib/auth';
+import { hashAlertToken } from '@/lib/loginalerts';
+import { rememberPreviousPassword } from '@/lib/passwordpolicy';
+import { requestPasswordReset } from '@/lib/passwordreset';
+import { changeMailPassword } from '@/lib/miab';
+import { forgetMailPassword } from '@/lib/vault';
+import { getTrustedClientIp } from '@/lib/apikeys';
+
+// GET - Unresolved alerts for the current user
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const alerts = getPendingLoginAlerts(session.user.userId).map(alert => ({
+            id: alert.id,
+            ip: alert.ip || 'Unknown',
+            device: alert.device_name || 'Unknown device',
+            location: alert.location,
+            reasons: JSON.parse(alert.reasons) as string[],
+            createdAt: alert.created_at,
+            isCurrentSession: alert.session_id === session.user!.sessionId,
+        }));
+
+        return NextResponse.json({ alerts });
+
+    } catch (error) {
+        console.error('Login alerts GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Resolve an alert: { alertId, action: 'confirm' | 'report' } signed in, or { token } from the email
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const { alertId, token, action } = await request.json();
+
+        if (action !== 'confirm' && action !== 'report') {
+            return NextResponse.json({ error: 'Action must be "confirm" or "report"' }, { status: 400 });
+        }
+
+        let alert;
+        if (token) {
+            // The emailed link can only report - confirming needs a signed-in user
+            if (action !== 'report') {
+                return NextResponse.json({ error: 'Sign in to dismiss this alert' }, { status: 400 });
+            }
+            alert = getLoginAlertByToken(hashAlertToken(String(token)));
+        } else {
+            const signedIn = await getAuthenticatedSession(session);
+            if (!signedIn) {
+                return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+            }
+            if (!alertId) {
+                return NextResponse.json({ error: 'Alert ID required' }, { status: 400 });
+            }
+            alert = getLoginAlertById(alertId);
+            if (alert && alert.user_id !== signedIn.user.userId) {
+                alert = null;
+            }
+        }
+
+        const handled = alert && (alert.status === 'reported' || (action === 'confirm' && alert.status !== 'pending'));
+        if (!alert || handled || new Date(alert.expires_at) < new Date()) {
+            return NextResponse.json({ error: 'This alert is invalid, expired or already handled' }, { status: 400 });
+        }
+
+        const ip = getTrustedClientIp(request);
+
+        const user = getUserById(alert.user_id);
+        if (!user) {
+            return NextResponse.json({ error: 'This alert is invalid, expired or already handled' }, { status: 400 });
+        }
+
+        if (action === 'confirm') {
+            resolveLoginAlert(alert.id, 'confirmed');
+            logAudit(user.id, 'LOGIN_ALERT_CONFIRMED', alert.session_id, { device: alert.device_name }, ip);
+            return NextResponse.json({ success: true, message: 'Thanks - alert dismissed' });
+        }
+
+        // Another click may have reported it already
+        if (!resolveLoginAlert(alert.id, 'reported')) {
+            return NextResponse.json({ error: 'This alert is invalid, expired or already handled' }, { status: 400 });
+        }
+
+        // Whoever signed in may hold other sessions too, and knows the password
+        const sessionsRevoked = deleteAllUserSessions(user.id, undefined, 'revoked');
+        const lockedPassword = crypto.randomBytes(32).toString('hex');
+        rememberPreviousPassword(user.id);
+        updateUser(user.id, { password_hash: await hashPassword(lockedPassword) });
+
+        // The mailbox shares that password, and the vault still holds a copy of it
+        const mailResult = await changeMailPassword(user.email, lockedPassword);
+        if (!mailResult.ok) {
+            console.error('Login alert mail password lock failed:', mailResult.error);
+        }
+        forgetMailPassword(user.id);
+
+        logAudit(
+            user.id,
+            'LOGIN_ALERT_REPORTED',
+            alert.session_id,
+            {
+                device: alert.device_name,
+                ip: alert.ip,
+                sessionsRevoked,
+                passwordLocked: true,
+                mailPasswordLocked: mailResult.ok,
+            },
+            ip
+        );
+
+        // Reset link goes to the backup email, if the account has one
+        await requestPasswordReset(user.email, ip);
+
+        if (session.isLoggedIn && session.user?.userId === user.id) {
+            session.destroy();
+        }
+
+        return NextResponse.json({
+            success: true,
+            signedOut: true,
+            message: user.backup_email
+                ? 'We signed your account out everywhere and locked your password. Check your backup email for a link to set a new one.'
+                : 'We signed your account out everywhere and locked your password. Contact an administrator to set a new one.',
+        });
+
+    } catch (error) {
+        console.error('Login alerts POST error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
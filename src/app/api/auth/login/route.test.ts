@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fakeSession, jsonRequest } from '@/test/fixtures';
+import { POST } from './route';
+
+// Read when ratelimit.ts loads - keep the per-IP limit small
+vi.hoisted(() => {
+    process.env.LOGIN_IP_FAILURE_LIMIT = '3';
+});
+
+vi.mock('next/headers', () => ({
+    cookies: async () => ({ get: () => undefined }),
+    headers: async () => new Headers(),
+}));
+vi.mock('iron-session', async importOriginal => ({
+    ...await importOriginal<typeof import('iron-session')>(),
+    getIronSession: async () => fakeSession(),
+}));
+
+describe('POST /api/auth/login', () => {
+    it('keeps the per-IP limit when the client rewrites X-Forwarded-For', async () => {
+        const attempt = (n: number) => POST(jsonRequest('/api/auth/login', {
+            email: `nobody-${n}@usgrp.xyz`,
+            password: 'wrong password',
+        }, {
+            // The proxy appends the real address after whatever the client sent
+            'x-forwarded-for': `10.0.0.${n}, 198.51.100.7`,
+        }));
+
+        for (let n = 1; n <= 3; n++) {
+            expect((await attempt(n)).status).toBe(401);
+        }
+
+        const blocked = await attempt(4);
+        expect(blocked.status).toBe(429);
+        expect(blocked.headers.get('Retry-After')).toBeTruthy();
+    });
+});
@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getIronSession } from 'iron-session';
 import { cookies } from 'next/headers';
-import { login } from '@/lib/auth';
-import { sessionOptions, extendedSessionOptions, SessionData } from '@/lib/session';
+import { login, type SessionTokens } from '@/lib/auth';
+import {
+    sessionOptions,
+    extendedSessionOptions,
+    SessionData,
+    setSessionTokens,
+    beginPending2FA,
+    beginPendingPasswordChange,
+    clearPending2FA
+} from '@/lib/session';
+import { DEVICE_COOKIE_NAME, readDeviceFingerprint } from '@/lib/devices';
+import { rateLimitedResponse } from '@/lib/ratelimit';
+import { getTrustedClientIp } from '@/lib/apikeys';
 
 export async function POST(request: NextRequest) {
     try {
@@ -16,13 +27,19 @@ export async function POST(request: NextRequest) {
         }
 
         // Get IP and user agent for audit logging
-        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
-            request.headers.get('x-real-ip') ||
-            'unknown';
+        const ip = getTrustedClientIp(request);
         const userAgent = request.headers.get('user-agent') || 'unknown';
 
+        // Trusted device cookie lets users with 2FA skip the TOTP step
+        const cookieStore = await cookies();
+        const deviceFingerprint = await readDeviceFingerprint(cookieStore.get(DEVICE_COOKIE_NAME)?.value);
+
         // Attempt login
-        const result = await login(email, password, ip, userAgent, rememberMe);
+        const result = await login(email, password, ip, userAgent, rememberMe, deviceFingerprint);
+
+        if (result.retryAfter) {
+            return rateLimitedResponse({ allowed: false, error: result.error, retryAfter: result.retryAfter });
+        }
 
         if (!result.success) {
             return NextResponse.json(
@@ -34,11 +51,8 @@ export async function POST(request: NextRequest) {
         // Check if 2FA is required
         if (result.requires2FA) {
             // Store pending 2FA state in session
-            const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-            session.pending2FA = true;
-            session.pendingUserId = result.user?.userId;
-            session.isLoggedIn = false;
-            await session.save();
+            const session = await getIronSession<SessionData>(cookieStore, sessionOptions);
+            await beginPending2FA(session, result.pendingUserId!, !!rememberMe);
 
             return NextResponse.json({
                 success: true,
@@ -46,25 +60,35 @@ export async function POST(request: NextRequest) {
             });
         }
 
+        // Forced or expired password - no session until a new one is set
+        if (result.requiresPasswordChange) {
+            const session = await getIronSession<SessionData>(cookieStore, sessionOptions);
+            await beginPendingPasswordChange(session, result.pendingUserId!, !!rememberMe);
+
+            return NextResponse.json({
+                success: true,
+                requiresPasswordChange: true,
+            });
+        }
+
         // Successful login - save session
         const options = rememberMe ? extendedSessionOptions : sessionOptions;
-        const session = await getIronSession<SessionData>(await cookies(), options);
-        session.authToken = result.token;
+        const session = await getIronSession<SessionData>(cookieStore, options);
+        setSessionTokens(session, result as SessionTokens);
         session.user = {
             ...result.user!,
-            sessionId: '', // Will be from token
+            sessionId: result.sessionId!,
         };
         session.isLoggedIn = true;
         session.lastActivity = Date.now();
-        session.pending2FA = false;
-        // Store mail credentials for SSO flows (base64 encoded)
-        session.mailCredentials = Buffer.from(JSON.stringify({ e: email, p: password })).toString('base64');
+        clearPending2FA(session);
         await session.save();
 
         // If there's a return URL, include it in response for client-side redirect
         return NextResponse.json({
             success: true,
             token: result.token,
+            expiresIn: result.expiresIn,
             user: result.user,
             returnUrl: returnUrl || null,
         });
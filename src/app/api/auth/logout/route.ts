@@ -2,27 +2,28 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getIronSession } from 'iron-session';
 import { cookies } from 'next/headers';
 import { logout } from '@/lib/auth';
-import { sessionOptions, SessionData, defaultSession } from '@/lib/session';
+import { sessionOptions, SessionData, defaultSession, clearPending2FA } from '@/lib/session';
 
 export async function POST(request: NextRequest) {
     try {
         const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
 
-        if (session.authToken) {
+        if (session.user) {
             const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
                 request.headers.get('x-real-ip') ||
                 'unknown';
 
-            await logout(session.authToken, ip);
+            await logout(session.user, ip);
         }
 
         // Clear session
         session.authToken = undefined;
+        session.refreshToken = undefined;
+        session.accessTokenExpiresAt = undefined;
         session.user = undefined;
         session.isLoggedIn = false;
         session.lastActivity = undefined;
-        session.pending2FA = false;
-        session.pendingUserId = undefined;
+        clearPending2FA(session);
         await session.save();
 
         return NextResponse.json({ success: true });
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestUser, fakeSession, jsonRequest, type FakeSession } from '@/test/fixtures';
+import { getUserById } from '@/lib/db';
+import { PENDING_2FA_TTL_MS } from '@/lib/session';
+import { POST } from './route';
+
+const cookie = vi.hoisted(() => ({ session: null as unknown }));
+
+vi.mock('next/headers', () => ({
+    cookies: async () => ({ get: () => undefined }),
+    headers: async () => new Headers(),
+}));
+vi.mock('iron-session', async importOriginal => ({
+    ...await importOriginal<typeof import('iron-session')>(),
+    getIronSession: async () => cookie.session,
+}));
+
+describe('POST /api/auth/password/change-required', () => {
+    let session: FakeSession;
+
+    beforeEach(() => {
+        session = fakeSession();
+        cookie.session = session;
+    });
+
+    it('refuses a login still waiting for its second factor, even with a stale pending password change', async () => {
+        const user = createTestUser({ password_hash: 'old-hash', must_change_password: 1, totp_enabled: 1 });
+        Object.assign(session, {
+            pending2FA: true,
+            pendingPasswordChange: true,
+            pendingUserId: user.id,
+            pendingExpiresAt: Date.now() + PENDING_2FA_TTL_MS,
+        });
+
+        const response = await POST(jsonRequest('/api/auth/password/change-required', { newPassword: 'a new correct horse battery' }));
+
+        expect(response.status).toBe(401);
+        expect(session.isLoggedIn).toBe(false);
+        expect(session.pendingPasswordChange).toBeUndefined();
+        expect(getUserById(user.id)?.password_hash).toBe('old-hash');
+    });
+});
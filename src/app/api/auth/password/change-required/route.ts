@@ -0,0 +1,143 @@
+/**
+ * Required Password Change API
+ *
+ * Finishes a sign-in held at the change-password interstitial: the user has passed
+ * every credential check, but the account is flagged or its password has expired
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import {
+    sessionOptions,
+    SessionData,
+    hasPendingPasswordChange,
+    clearPending2FA,
+    completePendingLogin
+} from '@/lib/session';
+import { getUserById, updateUser, logAudit } from '@/lib/db';
+import { createUserSession, hashPassword } from '@/lib/auth';
+import { changeMailPassword } from '@/lib/miab';
+import { storeMailPassword } from '@/lib/vault';
+import { DEVICE_COOKIE_NAME, readDeviceFingerprint } from '@/lib/devices';
+import {
+    validatePassword,
+    passwordPolicyResponse,
+    rememberPreviousPassword,
+    getPasswordChangeReason
+} from '@/lib/passwordpolicy';
+import { checkSessionLimit } from '@/lib/sessionpolicy';
+import { getTrustedClientIp } from '@/lib/apikeys';
+
+// GET - Why the pending sign-in needs a new password
+export async function GET() {
+    try {
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+
+        if (!hasPendingPasswordChange(session)) {
+            return NextResponse.json({ error: 'No pending password change' }, { status: 401 });
+        }
+
+        const user = getUserById(session.pendingUserId!);
+        if (!user || !user.enabled) {
+            return NextResponse.json({ error: 'No pending password change' }, { status: 401 });
+        }
+
+        return NextResponse.json({
+            email: user.email,
+            reason: getPasswordChangeReason(user) || 'required',
+        });
+
+    } catch (error) {
+        console.error('Required password change lookup error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Set the new password and complete the sign-in
+export async function POST(request: NextRequest) {
+    try {
+        const cookieStore = await cookies();
+        const session = await getIronSession<SessionData>(cookieStore, sessionOptions);
+
+        if (!hasPendingPasswordChange(session)) {
+            clearPending2FA(session);
+            await session.save();
+            return NextResponse.json({ error: 'Sign-in expired. Please sign in again.' }, { status: 401 });
+        }
+
+        const { newPassword, returnUrl } = await request.json();
+
+        if (!newPassword) {
+            return NextResponse.json({ error: 'New password is required' }, { status: 400 });
+        }
+
+        const ip = getTrustedClientIp(request);
+        const userAgent = request.headers.get('user-agent') || 'unknown';
+
+        const user = getUserById(session.pendingUserId!);
+        if (!user || !user.enabled) {
+            clearPending2FA(session);
+            await session.save();
+            return NextResponse.json({ error: 'Account disabled' }, { status: 401 });
+        }
+
+        // Refuse before the password changes, not after
+        const sessionLimit = checkSessionLimit(user);
+        if (!sessionLimit.allowed) {
+            logAudit(user.id, 'LOGIN_FAILED', user.email, 'Session limit reached', ip);
+            return NextResponse.json({ error: sessionLimit.error }, { status: 403 });
+        }
+
+        // The history check also rejects the password being replaced
+        const policy = await validatePassword(newPassword, {
+            email: user.email,
+            displayName: user.display_name,
+            userId: user.id,
+        });
+        if (!policy.valid) {
+            return passwordPolicyResponse(policy);
+        }
+
+        const reason = getPasswordChangeReason(user) || 'required';
+
+        rememberPreviousPassword(user.id);
+        updateUser(user.id, { password_hash: await hashPassword(newPassword), must_change_password: 0 });
+
+        // Keep Mail-in-a-Box and the mail vault in step with Auth
+        const mailResult = await changeMailPassword(user.email, newPassword);
+        if (mailResult.ok) {
+            storeMailPassword(user.id, newPassword);
+        } else {
+            console.error('Failed to update MIAB password after required change:', mailResult.error);
+        }
+
+        logAudit(user.id, 'PASSWORD_CHANGED', user.email, { reason, mailUpdated: mailResult.ok }, ip);
+
+        const deviceFingerprint = await readDeviceFingerprint(cookieStore.get(DEVICE_COOKIE_NAME)?.value);
+        const result = await createUserSession(
+            getUserById(user.id)!,
+            ip,
+            userAgent,
+            !!session.pendingRememberMe,
+            deviceFingerprint
+        );
+
+        logAudit(user.id, 'LOGIN_SUCCESS', user.email, { method: 'password_change' }, ip);
+
+        await completePendingLogin(session, result);
+
+        return NextResponse.json({
+            success: true,
+            token: result.token,
+            expiresIn: result.expiresIn,
+            user: result.user,
+            mailUpdated: mailResult.ok,
+            returnUrl: returnUrl || null,
+        });
+
+    } catch (error) {
+        console.error('Required password change error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * Forgot Password API
+ *
+ * Request a reset link at the account's backup email. The response never
+ * says whether the account exists or has a backup email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requestPasswordReset } from '@/lib/passwordreset';
+
+const GENERIC_RESPONSE = {
+    success: true,
+    message: 'If that account has a backup email, a reset link is on its way.',
+};
+
+export async function POST(request: NextRequest) {
+    try {
+        const { email } = await request.json();
+
+        if (!email || typeof email !== 'string') {
+            return NextResponse.json({ error: 'Email required' }, { status: 400 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        // Not awaited: sending mail for real accounts must not make the response slower
+        requestPasswordReset(email.trim(), ip).catch(error => {
+            console.error('Password reset request error:', error);
+        });
+
+        return NextResponse.json(GENERIC_RESPONSE);
+
+    } catch (error) {
+        console.error('Forgot password error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,16 @@
+/**
+ * Password Policy API
+ *
+ * The rules new passwords must meet (public - shown on the reset page)
+ */
+
+import { NextResponse } from 'next/server';
+import { PASSWORD_POLICY, describePasswordPolicy } from '@/lib/passwordpolicy';
+
+export async function GET() {
+    return NextResponse.json({
+        minLength: PASSWORD_POLICY.minLength,
+        maxLength: PASSWORD_POLICY.maxLength,
+        requirements: describePasswordPolicy(),
+    });
+}
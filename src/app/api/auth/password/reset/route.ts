@@ -0,0 +1,40 @@
+/**
+ * Password Reset API
+ *
+ * Set a new password with a single-use token from a reset email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resetPassword } from '@/lib/passwordreset';
+
+export async function POST(request: NextRequest) {
+    try {
+        const { token, newPassword } = await request.json();
+
+        if (!token || !newPassword) {
+            return NextResponse.json({ error: 'Reset token and new password are required' }, { status: 400 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        const result = await resetPassword(String(token), newPassword, ip);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error, errors: result.errors }, { status: 400 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            mailUpdated: result.mailUpdated,
+            message: result.mailUpdated
+                ? 'Password reset. Sign in with your new password.'
+                : 'Password reset in Auth (Mail update may have failed). Sign in with your new password.',
+        });
+
+    } catch (error) {
+        console.error('Password reset error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
+import { getAuthenticatedSession } from '@/lib/session';
 import { getUserById, updateUser, logAudit } from '@/lib/db';
 import { hashPassword, verifyPassword } from '@/lib/auth';
 import { changeMailPassword } from '@/lib/miab';
+import { storeMailPassword } from '@/lib/vault';
+import { validatePassword, passwordPolicyResponse, rememberPreviousPassword } from '@/lib/passwordpolicy';
 
 /**
  * Self-service password change API
@@ -12,9 +12,9 @@ import { changeMailPassword } from '@/lib/miab';
  */
 export async function POST(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user) {
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -27,14 +27,6 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Validate new password requirements
-        if (newPassword.length < 8) {
-            return NextResponse.json(
-                { error: 'New password must be at least 8 characters' },
-                { status: 400 }
-            );
-        }
-
         // Get user from database
         const user = getUserById(session.user.userId);
         if (!user) {
@@ -50,12 +42,24 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Validate new password against the policy (including reuse of recent passwords)
+        const policy = await validatePassword(newPassword, {
+            email: user.email,
+            displayName: user.display_name,
+            userId: user.id,
+        });
+        if (!policy.valid) {
+            return passwordPolicyResponse(policy);
+        }
+
         // Hash new password
+        rememberPreviousPassword(user.id);
         const newPasswordHash = await hashPassword(newPassword);
 
         // Update password in Auth database
         const updated = updateUser(session.user.userId, {
             password_hash: newPasswordHash,
+            must_change_password: 0,
         });
 
         if (!updated) {
@@ -74,12 +78,10 @@ export async function POST(request: NextRequest) {
             // The Auth password was already updated
         }
 
-        // Update stored mail credentials in session
-        session.mailCredentials = Buffer.from(JSON.stringify({
-            e: user.email,
-            p: newPassword
-        })).toString('base64');
-        await session.save();
+        // Keep the vaulted mail password in sync for USGRP Mail SSO
+        if (mailResult.ok) {
+            storeMailPassword(user.id, newPassword);
+        }
 
         // Log the password change
         const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
@@ -0,0 +1,58 @@
+import bcrypt from 'bcryptjs';
+import { describe, expect, it, vi } from 'vitest';
+import { createTestUser, fakeSession, jsonRequest } from '@/test/fixtures';
+import { getUserById } from '@/lib/db';
+import { PENDING_2FA_TTL_MS } from '@/lib/session';
+import { PUT } from './route';
+
+const cookie = vi.hoisted(() => ({ session: null as unknown }));
+
+vi.mock('next/headers', () => ({
+    cookies: async () => ({ get: () => undefined }),
+    headers: async () => new Headers(),
+}));
+vi.mock('iron-session', async importOriginal => ({
+    ...await importOriginal<typeof import('iron-session')>(),
+    getIronSession: async () => cookie.session,
+}));
+
+describe('PUT /api/auth/recovery', () => {
+    it('does not let a recovery code replace a required security key', async () => {
+        const recoveryCodes = JSON.stringify([await bcrypt.hash('ABCD-EFGH', 4)]);
+        const user = createTestUser({ totp_enabled: 1, security_key_required: 1, recovery_codes: recoveryCodes });
+        const session = fakeSession({
+            pending2FA: true,
+            pendingUserId: user.id,
+            pendingExpiresAt: Date.now() + PENDING_2FA_TTL_MS,
+        });
+        cookie.session = session;
+
+        const response = await PUT(jsonRequest('/api/auth/recovery', { code: 'abcd-efgh' }, {}, 'PUT'));
+
+        expect(response.status).toBe(403);
+        expect(session.isLoggedIn).toBe(false);
+        // The code is not spent either
+        expect(getUserById(user.id)?.recovery_codes).toBe(recoveryCodes);
+    });
+
+    it('keeps the refresh token in the cookie and out of the response body', async () => {
+        vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('unavailable', { status: 503 }));
+        const recoveryCodes = JSON.stringify([await bcrypt.hash('ABCD-EFGH', 4), await bcrypt.hash('JKLM-NPQR', 4)]);
+        const user = createTestUser({ totp_enabled: 1, recovery_codes: recoveryCodes });
+        const session = fakeSession({
+            pending2FA: true,
+            pendingUserId: user.id,
+            pendingExpiresAt: Date.now() + PENDING_2FA_TTL_MS,
+        });
+        cookie.session = session;
+
+        const response = await PUT(jsonRequest('/api/auth/recovery', { code: 'abcd-efgh' }, {}, 'PUT'));
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(session.isLoggedIn).toBe(true);
+        expect(session.refreshToken).toBeTruthy();
+        expect(body).not.toHaveProperty('refreshToken');
+        expect(JSON.stringify(body)).not.toContain(session.refreshToken);
+    });
+});
@@ -7,11 +7,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getIronSession } from 'iron-session';
 import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
-import { getDb, logAudit } from '@/lib/db';
+import {
+    sessionOptions,
+    SessionData,
+    hasPending2FA,
+    clearPending2FA,
+    completePendingLogin,
+    beginPendingPasswordChange,
+    getAuthenticatedSession
+} from '@/lib/session';
+import { getDb, getUserById, logAudit } from '@/lib/db';
+import { createUserSession } from '@/lib/auth';
+import { checkLoginRateLimit, recordLoginFailure, resetLoginFailures, rateLimitedResponse } from '@/lib/ratelimit';
+import { getPasswordChangeReason } from '@/lib/passwordpolicy';
+import { checkSessionLimit } from '@/lib/sessionpolicy';
+import { getTrustedClientIp } from '@/lib/apikeys';
 import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 
+// Warn the user to regenerate codes once this few remain
+const LOW_RECOVERY_CODES_THRESHOLD = 3;
+
 // Generate recovery codes
 function generateRecoveryCodes(): string[] {
     const codes: string[] = [];
@@ -34,8 +50,8 @@ async function hashRecoveryCodes(codes: string[]): Promise<string[]> {
 // POST - Generate new recovery codes
 export async function POST(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -79,7 +95,7 @@ export async function POST(request: NextRequest) {
             'RECOVERY_CODES_GENERATED',
             null,
             'Generated new recovery codes',
-            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+            getTrustedClientIp(request)
         );
 
         // Return plain codes (only time user will see them)
@@ -95,7 +111,7 @@ export async function POST(request: NextRequest) {
     }
 }
 
-// PUT - Use a recovery code to bypass 2FA
+// PUT - Use a recovery code to complete a pending 2FA login
 export async function PUT(request: NextRequest) {
     try {
         const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
@@ -105,26 +121,56 @@ export async function PUT(request: NextRequest) {
             return NextResponse.json({ error: 'No pending 2FA verification' }, { status: 400 });
         }
 
-        const { code } = await request.json();
+        if (!hasPending2FA(session)) {
+            clearPending2FA(session);
+            await session.save();
+            return NextResponse.json({ error: 'Verification expired. Please sign in again.' }, { status: 401 });
+        }
+
+        const { code, resetTotp } = await request.json();
 
         if (!code) {
             return NextResponse.json({ error: 'Recovery code required' }, { status: 400 });
         }
 
-        const db = getDb();
-        const user = db.prepare('SELECT id, recovery_codes FROM users WHERE id = ?')
-            .get(session.pendingUserId) as { id: string; recovery_codes: string | null } | undefined;
+        const pendingUserId = session.pendingUserId!;
+        const ip = getTrustedClientIp(request);
+        const userAgent = request.headers.get('user-agent') || 'unknown';
 
-        if (!user || !user.recovery_codes) {
+        const user = getUserById(pendingUserId);
+
+        if (!user || !user.enabled) {
+            return NextResponse.json({ error: 'Invalid verification state' }, { status: 400 });
+        }
+
+        // A recovery code stands in for TOTP, never for a required security key
+        if (user.security_key_required) {
+            return NextResponse.json({ error: 'A security key is required for this account' }, { status: 403 });
+        }
+
+        if (!user.recovery_codes) {
             return NextResponse.json({ error: 'No recovery codes found' }, { status: 400 });
         }
 
+        const limit = checkLoginRateLimit(user.email, ip, user);
+        if (!limit.allowed) {
+            return rateLimitedResponse(limit);
+        }
+
+        // Refuse before a single-use code is spent
+        const sessionLimit = checkSessionLimit(user);
+        if (!sessionLimit.allowed) {
+            logAudit(user.id, 'LOGIN_FAILED', user.email, 'Session limit reached', ip);
+            return NextResponse.json({ error: sessionLimit.error }, { status: 403 });
+        }
+
         const hashedCodes: string[] = JSON.parse(user.recovery_codes);
+        const normalizedCode = String(code).trim().toUpperCase();
 
         // Try to match the code
         let matchedIndex = -1;
         for (let i = 0; i < hashedCodes.length; i++) {
-            const valid = await bcrypt.compare(code.toUpperCase(), hashedCodes[i]);
+            const valid = await bcrypt.compare(normalizedCode, hashedCodes[i]);
             if (valid) {
                 matchedIndex = i;
                 break;
@@ -132,34 +178,91 @@ export async function PUT(request: NextRequest) {
         }
 
         if (matchedIndex === -1) {
+            recordLoginFailure('recovery', user.email, ip, user);
             logAudit(
-                session.pendingUserId,
+                pendingUserId,
                 'RECOVERY_CODE_FAILED',
                 null,
                 'Invalid recovery code attempt',
-                request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+                ip
             );
             return NextResponse.json({ error: 'Invalid recovery code' }, { status: 401 });
         }
 
-        // Remove used code
+        // Remove used code - only if the list is still the one it was matched against,
+        // so two requests racing with the same code cannot both spend it
         hashedCodes.splice(matchedIndex, 1);
-        db.prepare('UPDATE users SET recovery_codes = ?, updated_at = datetime(\'now\') WHERE id = ?')
-            .run(JSON.stringify(hashedCodes), session.pendingUserId);
+        const db = getDb();
+        const consumed = db.prepare(`
+            UPDATE users SET recovery_codes = ?, updated_at = datetime('now')
+            WHERE id = ? AND recovery_codes = ?
+        `).run(JSON.stringify(hashedCodes), pendingUserId, user.recovery_codes).changes > 0;
+
+        if (!consumed) {
+            logAudit(pendingUserId, 'RECOVERY_CODE_FAILED', null, 'Recovery code already used', ip);
+            return NextResponse.json({ error: 'Invalid recovery code' }, { status: 401 });
+        }
+
+        resetLoginFailures(user);
 
         logAudit(
-            session.pendingUserId,
+            pendingUserId,
             'RECOVERY_CODE_USED',
             null,
             `Used recovery code. ${hashedCodes.length} remaining.`,
-            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+            ip
         );
 
-        // Clear pending state and mark as logged in
+        // Lost authenticator - clear TOTP so the user must enroll again from the Security page
+        if (resetTotp) {
+            db.prepare(`
+                UPDATE users 
+                SET totp_enabled = 0, totp_secret = NULL, totp_last_counter = NULL, updated_at = datetime('now')
+                WHERE id = ?
+            `).run(pendingUserId);
+
+            logAudit(
+                pendingUserId,
+                'TOTP_RESET',
+                null,
+                'Authenticator removed after recovery code login; re-enrollment required',
+                ip
+            );
+        }
+
+        // Complete the login exactly as a successful TOTP verification would
+        // Forced or expired password - hold the login at the change-password interstitial
+        const passwordChange = getPasswordChangeReason(user);
+        if (passwordChange) {
+            logAudit(user.id, 'LOGIN_PASSWORD_CHANGE_REQUIRED', user.email, { method: 'recovery_code', reason: passwordChange }, ip);
+            await beginPendingPasswordChange(session, user.id, !!session.pendingRememberMe);
+            return NextResponse.json({
+                success: true,
+                requiresPasswordChange: true,
+                remainingCodes: hashedCodes.length,
+                totpReset: !!resetTotp,
+            });
+        }
+
+        const result = await createUserSession(user, ip, userAgent, !!session.pendingRememberMe);
+
+        logAudit(user.id, 'LOGIN_SUCCESS', user.email, { method: 'recovery_code' }, ip);
+
+        await completePendingLogin(session, result);
+
+        const lowCodes = hashedCodes.length <= LOW_RECOVERY_CODES_THRESHOLD;
+
         return NextResponse.json({
             success: true,
+            token: result.token,
+            expiresIn: result.expiresIn,
+            user: result.user,
             remainingCodes: hashedCodes.length,
-            message: `Recovery code accepted. ${hashedCodes.length} codes remaining.`
+            lowCodes,
+            totpReset: !!resetTotp,
+            message: lowCodes
+                ? `Recovery code accepted. Only ${hashedCodes.length} codes remaining - generate new codes soon.`
+                : `Recovery code accepted. ${hashedCodes.length} codes remaining.`
         });
 
     } catch (error) {
@@ -171,8 +274,8 @@ export async function PUT(request: NextRequest) {
 // GET - Check if user has recovery codes
 export async function GET(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
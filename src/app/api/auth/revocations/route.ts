@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { getRevokedSessions } from '@/lib/db';
+import { parseDbTimestamp } from '@/lib/sessionpolicy';
+
+// Revoked sessions whose tokens have not expired yet
+// Polled by services that verify tokens offline (see src/lib/client.ts)
+// Session IDs are published as SHA-256 hashes so the public list never exposes them
+export async function GET() {
+    try {
+        const revoked = getRevokedSessions();
+
+        return NextResponse.json({
+            sessions: revoked.map(r => ({
+                sessionHash: createHash('sha256').update(r.session_id).digest('hex'),
+                revokedAt: parseDbTimestamp(r.revoked_at).toISOString(),
+                expiresAt: parseDbTimestamp(r.expires_at).toISOString(),
+            })),
+            generatedAt: new Date().toISOString(),
+        }, {
+            headers: { 'Cache-Control': 'no-store' },
+        });
+
+    } catch (error) {
+        console.error('Revocations error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
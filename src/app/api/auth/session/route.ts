@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getIronSession } from 'iron-session';
 import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
+import { sessionOptions, SessionData, ensureFreshAccessToken } from '@/lib/session';
+import { getActiveSession, recordSessionActivity, IDLE_WARNING_SECONDS } from '@/lib/sessionpolicy';
+import { getRevokedSessionReason } from '@/lib/db';
 
-export async function GET() {
+// Idle deadline for the dashboard's timeout warning
+function idleStatus(sessionId: string, ip: string) {
+    const active = getActiveSession(sessionId, ip);
+    return {
+        idleExpiresAt: active?.idleExpiresAt?.getTime() ?? null,
+        idleWarningSeconds: IDLE_WARNING_SECONDS,
+    };
+}
+
+export async function GET(request: NextRequest) {
     try {
         const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
 
@@ -11,11 +22,22 @@ export async function GET() {
             return NextResponse.json({ authenticated: false });
         }
 
+        // Renew the short-lived access token with the session's refresh token
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        // Read before the check - a rejected session's cookie is cleared
+        const sessionId = session.user.sessionId;
+        if (!await ensureFreshAccessToken(session, ip)) {
+            // Tell the login page when another sign-in pushed this one out
+            return NextResponse.json({ authenticated: false, signedOutReason: getRevokedSessionReason(sessionId) });
+        }
+
         return NextResponse.json({
             authenticated: true,
             user: session.user,
             token: session.authToken,
-            mc: session.mailCredentials, // Mail credentials for SSO
+            ...idleStatus(session.user.sessionId, ip),
         });
 
     } catch (error: unknown) {
@@ -23,3 +45,38 @@ export async function GET() {
         return NextResponse.json({ authenticated: false });
     }
 }
+
+// POST - Keep-alive: the user is active in the dashboard, so push the idle deadline back
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+
+        if (!session.isLoggedIn || !session.user) {
+            return NextResponse.json({ authenticated: false }, { status: 401 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        const sessionId = session.user.sessionId;
+        if (!await ensureFreshAccessToken(session, ip)) {
+            return NextResponse.json(
+                { authenticated: false, signedOutReason: getRevokedSessionReason(sessionId) },
+                { status: 401 }
+            );
+        }
+
+        recordSessionActivity(session.user.sessionId, true);
+        session.lastActivity = Date.now();
+        await session.save();
+
+        return NextResponse.json({
+            authenticated: true,
+            ...idleStatus(session.user.sessionId, ip),
+        });
+
+    } catch (error: unknown) {
+        console.error('Session keep-alive error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
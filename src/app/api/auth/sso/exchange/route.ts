@@ -0,0 +1,53 @@
+/**
+ * SSO Code Exchange API
+ *
+ * A USGRP service trades the one-time code from the SSO callback for an access token.
+ * Server-to-server only: requires an API key with sso:exchange.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logAudit } from '@/lib/db';
+import { requireApiKey, getTrustedClientIp } from '@/lib/apikeys';
+import { redeemSsoCode } from '@/lib/sso';
+
+export async function POST(request: NextRequest) {
+    try {
+        const { key, response } = requireApiKey(request, 'sso:exchange');
+        if (response) {
+            return response;
+        }
+
+        const { code } = await request.json();
+        if (!code) {
+            return NextResponse.json({ error: 'Code required' }, { status: 400 });
+        }
+
+        const ip = getTrustedClientIp(request);
+        const result = await redeemSsoCode(String(code), ip);
+
+        if (!result.grant) {
+            logAudit(null, 'SSO_EXCHANGE_FAILED', key.name, result.error || null, ip);
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        logAudit(
+            result.grant.user.userId,
+            'SSO_ACCESS',
+            result.grant.service,
+            `Authenticated via SSO to ${result.grant.service}`,
+            ip
+        );
+
+        return NextResponse.json({
+            token: result.grant.token,
+            expiresIn: result.grant.expiresIn,
+            user: result.grant.user,
+        }, {
+            headers: { 'Cache-Control': 'no-store' },
+        });
+
+    } catch (error) {
+        console.error('SSO exchange error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createTestUser, fakeSession, jsonRequest, signedInSessionData } from '@/test/fixtures';
+import { deleteSession } from '@/lib/db';
+import { validateToken } from '@/lib/auth';
+import { issueSsoCode, redeemSsoCode } from '@/lib/sso';
+import { POST } from './route';
+
+const cookie = vi.hoisted(() => ({ session: null as unknown }));
+
+vi.mock('next/headers', () => ({
+    cookies: async () => ({ get: () => undefined }),
+    headers: async () => new Headers(),
+}));
+vi.mock('iron-session', async importOriginal => ({
+    ...await importOriginal<typeof import('iron-session')>(),
+    getIronSession: async () => cookie.session,
+}));
+
+describe('POST /api/auth/sso', () => {
+    it('hands the service a one-time code instead of a token', async () => {
+        const user = createTestUser();
+        const signedIn = signedInSessionData(user);
+        cookie.session = fakeSession({ ...signedIn, authToken: 'access-token-in-cookie' });
+
+        const response = await POST(jsonRequest('/api/auth/sso', { returnUrl: 'https://mail.usgrp.xyz/inbox' }));
+        const { redirectUrl } = await response.json();
+        const callback = new URL(redirectUrl);
+
+        expect(callback.pathname).toBe('/api/auth/callback');
+        expect(callback.searchParams.has('token')).toBe(false);
+        expect(redirectUrl).not.toContain('access-token-in-cookie');
+
+        const { grant } = await redeemSsoCode(callback.searchParams.get('authCode')!, null);
+        expect(grant?.service).toBe('mail.usgrp.xyz');
+        expect(grant?.user.sessionId).toBe(signedIn.user!.sessionId);
+        expect((await validateToken(grant!.token)).valid).toBe(true);
+    });
+});
+
+describe('redeemSsoCode', () => {
+    it('redeems a code once', async () => {
+        const { user } = signedInSessionData(createTestUser());
+        const code = issueSsoCode(user!.userId, user!.sessionId, 'mail.usgrp.xyz');
+
+        expect((await redeemSsoCode(code, null)).grant).toBeDefined();
+        expect((await redeemSsoCode(code, null)).error).toBe('Invalid or expired code');
+    });
+
+    it('refuses a code whose session has ended', async () => {
+        const { user } = signedInSessionData(createTestUser());
+        const code = issueSsoCode(user!.userId, user!.sessionId, 'mail.usgrp.xyz');
+        deleteSession(user!.sessionId);
+
+        expect((await redeemSsoCode(code, null)).error).toBe('Session not found or expired');
+    });
+});
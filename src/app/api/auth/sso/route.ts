@@ -0,0 +1,66 @@
+/**
+ * SSO Redirect API
+ * 
+ * Builds the callback URL that hands the current session to another USGRP service.
+ * The service receives a one-time authCode it exchanges server-side for an access token
+ * (/api/auth/sso/exchange); USGRP Mail also receives a code for mail credentials.
+ * Neither tokens nor passwords pass through the browser.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import { sessionOptions, SessionData, ensureFreshAccessToken } from '@/lib/session';
+import { issueMailExchangeCode } from '@/lib/vault';
+import { issueSsoCode } from '@/lib/sso';
+import { getTrustedClientIp } from '@/lib/apikeys';
+
+const SSO_DOMAIN = process.env.SSO_DOMAIN || 'usgrp.xyz';
+
+// Only hand sessions to USGRP services (and localhost during development)
+function isAllowedReturnUrl(url: URL): boolean {
+    if (process.env.NODE_ENV !== 'production' && url.hostname === 'localhost') return true;
+    return url.protocol === 'https:' &&
+        (url.hostname === SSO_DOMAIN || url.hostname.endsWith(`.${SSO_DOMAIN}`));
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        if (!session.isLoggedIn || !session.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const ip = getTrustedClientIp(request);
+        if (!await ensureFreshAccessToken(session, ip)) {
+            return NextResponse.json({ error: 'Session expired' }, { status: 401 });
+        }
+
+        const { returnUrl } = await request.json();
+
+        let callbackUrl: URL;
+        try {
+            callbackUrl = new URL(returnUrl);
+        } catch {
+            return NextResponse.json({ error: 'Invalid return URL' }, { status: 400 });
+        }
+
+        if (!isAllowedReturnUrl(callbackUrl)) {
+            return NextResponse.json({ error: 'Return URL is not a USGRP service' }, { status: 400 });
+        }
+
+        callbackUrl.pathname = '/api/auth/callback';
+        callbackUrl.searchParams.set('authCode', issueSsoCode(session.user.userId, session.user.sessionId, callbackUrl.hostname));
+
+        const code = issueMailExchangeCode(session.user.userId, session.user.sessionId);
+        if (code) {
+            callbackUrl.searchParams.set('code', code);
+        }
+
+        return NextResponse.json({ redirectUrl: callbackUrl.toString() });
+
+    } catch (error) {
+        console.error('SSO redirect error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
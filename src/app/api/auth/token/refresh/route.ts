@@ -0,0 +1,79 @@
+/**
+ * Token Refresh API
+ * 
+ * Exchange a refresh token for a new access token and a rotated refresh token.
+ * Service clients send { refreshToken }; the dashboard omits it and uses its session cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import { refreshSession } from '@/lib/auth';
+import { sessionOptions, SessionData, setSessionTokens } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        // Service clients hold their own refresh token
+        if (body.refreshToken) {
+            const result = await refreshSession(body.refreshToken, ip);
+
+            if (!result.success || !result.tokens) {
+                return NextResponse.json({ error: result.error }, { status: result.superseded ? 409 : 401 });
+            }
+
+            return NextResponse.json({
+                token: result.tokens.token,
+                refreshToken: result.tokens.refreshToken,
+                expiresIn: result.tokens.expiresIn,
+                user: {
+                    ...result.tokens.user,
+                    sessionId: result.tokens.sessionId,
+                },
+            }, {
+                headers: { 'Cache-Control': 'no-store' },
+            });
+        }
+
+        // Dashboard - refresh token lives in the encrypted session cookie
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        if (!session.isLoggedIn || !session.refreshToken) {
+            return NextResponse.json({ error: 'Refresh token required' }, { status: 401 });
+        }
+
+        const result = await refreshSession(session.refreshToken, ip);
+
+        // A parallel refresh is setting the new cookie - keep this one
+        if (result.superseded) {
+            return NextResponse.json({ error: result.error }, { status: 409 });
+        }
+
+        if (!result.success || !result.tokens) {
+            session.destroy();
+            return NextResponse.json({ error: result.error }, { status: 401 });
+        }
+
+        setSessionTokens(session, result.tokens);
+        session.user = {
+            ...result.tokens.user,
+            sessionId: result.tokens.sessionId,
+        };
+        await session.save();
+
+        return NextResponse.json({
+            success: true,
+            token: result.tokens.token,
+            expiresIn: result.tokens.expiresIn,
+        }, {
+            headers: { 'Cache-Control': 'no-store' },
+        });
+
+    } catch (error) {
+        console.error('Token refresh error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * WebAuthn Authentication Options API
+ *
+ * With a pending 2FA login: challenge for the pending user's registered keys.
+ * Otherwise: challenge for passwordless sign-in with any passkey.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import { sessionOptions, SessionData, hasPending2FA } from '@/lib/session';
+import { getUserById, getUserWebAuthnCredentials } from '@/lib/db';
+import { checkLoginRateLimit, rateLimitedResponse } from '@/lib/ratelimit';
+import { generateWebAuthnChallenge, getAuthenticationOptions, WEBAUTHN_CHALLENGE_TTL_MS } from '@/lib/webauthn';
+import { getTrustedClientIp } from '@/lib/apikeys';
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+
+        const pendingUser = hasPending2FA(session) ? getUserById(session.pendingUserId!) : null;
+
+        // A locked account gets no challenge - passkeys are checked at verify, once the key names its user
+        if (pendingUser) {
+            const ip = getTrustedClientIp(request);
+            const limit = checkLoginRateLimit(pendingUser.email, ip, pendingUser);
+            if (!limit.allowed) {
+                return rateLimitedResponse(limit);
+            }
+        }
+
+        const credentials = hasPending2FA(session)
+            ? getUserWebAuthnCredentials(session.pendingUserId!)
+            : undefined;
+
+        if (credentials && credentials.length === 0) {
+            return NextResponse.json({ error: 'No security keys registered for this account' }, { status: 400 });
+        }
+
+        const challenge = generateWebAuthnChallenge();
+        session.webauthnChallenge = challenge;
+        session.webauthnChallengeExpiresAt = Date.now() + WEBAUTHN_CHALLENGE_TTL_MS;
+        await session.save();
+
+        return NextResponse.json(getAuthenticationOptions(challenge, credentials));
+
+    } catch (error) {
+        console.error('WebAuthn authenticate options error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
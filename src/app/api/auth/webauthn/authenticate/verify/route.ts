@@ -0,0 +1,168 @@
+/**
+ * WebAuthn Authentication Verify API
+ *
+ * Completes a pending 2FA login with a security key, or signs in
+ * passwordlessly with a user-verified passkey
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import {
+    sessionOptions,
+    SessionData,
+    hasPending2FA,
+    completePendingLogin,
+    beginPendingPasswordChange,
+    takeWebAuthnChallenge
+} from '@/lib/session';
+import {
+    getUserById,
+    getWebAuthnCredential,
+    recordWebAuthnCredentialUse,
+    addRememberedDevice,
+    logAudit
+} from '@/lib/db';
+import { createUserSession } from '@/lib/auth';
+import { verifyAuthentication, userIdFromHandle } from '@/lib/webauthn';
+import {
+    DEVICE_COOKIE_NAME,
+    REMEMBERED_DEVICE_DAYS,
+    deviceCookieOptions,
+    readDeviceFingerprint,
+    createDeviceCookie,
+    parseUserAgent
+} from '@/lib/devices';
+import { checkLoginRateLimit, recordLoginFailure, resetLoginFailures, rateLimitedResponse } from '@/lib/ratelimit';
+import { getPasswordChangeReason } from '@/lib/passwordpolicy';
+import { checkSessionLimit } from '@/lib/sessionpolicy';
+import { getTrustedClientIp } from '@/lib/apikeys';
+
+export async function POST(request: NextRequest) {
+    try {
+        const cookieStore = await cookies();
+        const session = await getIronSession<SessionData>(cookieStore, sessionOptions);
+
+        const challenge = takeWebAuthnChallenge(session);
+        const pending = hasPending2FA(session);
+        await session.save();
+
+        if (!challenge) {
+            return NextResponse.json({ error: 'Sign-in expired. Please try again.' }, { status: 400 });
+        }
+
+        const { credential, returnUrl, trustDevice, rememberMe } = await request.json();
+
+        if (!credential?.id || !credential?.response) {
+            return NextResponse.json({ error: 'Credential required' }, { status: 400 });
+        }
+
+        const ip = getTrustedClientIp(request);
+        const userAgent = request.headers.get('user-agent') || 'unknown';
+
+        const stored = getWebAuthnCredential(credential.id);
+        const user = stored ? getUserById(stored.user_id) : null;
+
+        if (!stored || !user) {
+            const limit = checkLoginRateLimit(credential.id, ip);
+            if (!limit.allowed) {
+                return rateLimitedResponse(limit);
+            }
+            recordLoginFailure('webauthn', credential.id, ip);
+            logAudit(null, 'LOGIN_FAILED', credential.id, 'Unknown security key', ip);
+            return NextResponse.json({ error: 'Security key not recognised' }, { status: 401 });
+        }
+
+        // Locked accounts and throttled networks stay shut for keys too
+        const limit = checkLoginRateLimit(user.email, ip, user);
+        if (!limit.allowed) {
+            logAudit(user.id, 'LOGIN_RATE_LIMITED', user.email, `Retry after ${limit.retryAfter}s (security key)`, ip);
+            return rateLimitedResponse(limit);
+        }
+
+        // Second factor: the key must belong to the user who entered the password
+        if (pending && stored.user_id !== session.pendingUserId) {
+            recordLoginFailure('webauthn', user.email, ip, user);
+            logAudit(user.id, 'LOGIN_FAILED', user.email, 'Security key belongs to another account', ip);
+            return NextResponse.json({ error: 'Security key not recognised' }, { status: 401 });
+        }
+
+        // Passwordless: the passkey must identify its own account
+        if (!pending && credential.response.userHandle &&
+            userIdFromHandle(credential.response.userHandle) !== user.id) {
+            return NextResponse.json({ error: 'Security key not recognised' }, { status: 401 });
+        }
+
+        const result = verifyAuthentication(credential, challenge, stored, !pending);
+        if (result.signCount === undefined) {
+            recordLoginFailure('webauthn', user.email, ip, user);
+            logAudit(user.id, 'LOGIN_FAILED', user.email, `Security key rejected: ${result.error}`, ip);
+            return NextResponse.json({ error: 'Security key verification failed' }, { status: 401 });
+        }
+
+        if (!user.enabled) {
+            logAudit(user.id, 'LOGIN_FAILED', user.email, 'Account disabled', ip);
+            return NextResponse.json({ error: 'Account disabled' }, { status: 401 });
+        }
+
+        recordWebAuthnCredentialUse(stored.id, result.signCount);
+        if (pending) {
+            resetLoginFailures(user);
+        }
+
+        // Trust this device: reuse the existing device cookie if it is still valid
+        let deviceFingerprint = await readDeviceFingerprint(cookieStore.get(DEVICE_COOKIE_NAME)?.value);
+        if (pending && trustDevice) {
+            if (!deviceFingerprint) {
+                const deviceCookie = await createDeviceCookie();
+                cookieStore.set(DEVICE_COOKIE_NAME, deviceCookie.value, deviceCookieOptions);
+                deviceFingerprint = deviceCookie.fingerprint;
+            }
+
+            addRememberedDevice(user.id, deviceFingerprint, parseUserAgent(userAgent), ip);
+            logAudit(
+                user.id,
+                'DEVICE_TRUSTED',
+                null,
+                `Trusted ${parseUserAgent(userAgent)} for ${REMEMBERED_DEVICE_DAYS} days`,
+                ip
+            );
+        }
+
+        const remember = pending ? !!session.pendingRememberMe : !!rememberMe;
+
+        const sessionLimit = checkSessionLimit(user);
+        if (!sessionLimit.allowed) {
+            logAudit(user.id, 'LOGIN_FAILED', user.email, 'Session limit reached', ip);
+            return NextResponse.json({ error: sessionLimit.error }, { status: 403 });
+        }
+
+        // Forced or expired password - hold the login at the change-password interstitial
+        const passwordChange = getPasswordChangeReason(user);
+        if (passwordChange) {
+            const method = pending ? 'security_key' : 'passkey';
+            logAudit(user.id, 'LOGIN_PASSWORD_CHANGE_REQUIRED', user.email, { method, reason: passwordChange }, ip);
+            await beginPendingPasswordChange(session, user.id, remember);
+            return NextResponse.json({ success: true, requiresPasswordChange: true });
+        }
+
+        const tokens = await createUserSession(user, ip, userAgent, remember, deviceFingerprint);
+
+        logAudit(user.id, 'LOGIN_SUCCESS', user.email, { method: pending ? 'security_key' : 'passkey' }, ip);
+
+        // Same cookie update for both paths (there is simply no pending state to clear for a passkey)
+        await completePendingLogin(session, tokens);
+
+        return NextResponse.json({
+            success: true,
+            token: tokens.token,
+            expiresIn: tokens.expiresIn,
+            user: tokens.user,
+            returnUrl: returnUrl || null,
+        });
+
+    } catch (error) {
+        console.error('WebAuthn authenticate verify error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
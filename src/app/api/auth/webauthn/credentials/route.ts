@@ -0,0 +1,117 @@
+/**
+ * WebAuthn Credentials API
+ *
+ * List, rename and remove the current user's security keys and passkeys
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import {
+    getUserById,
+    getUserWebAuthnCredentials,
+    renameWebAuthnCredential,
+    deleteWebAuthnCredential,
+    logAudit
+} from '@/lib/db';
+
+// GET - List credentials (never includes key material)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            credentials: getUserWebAuthnCredentials(user.id).map(c => ({
+                id: c.id,
+                name: c.name,
+                isPasskey: !!c.is_passkey,
+                createdAt: c.created_at,
+                lastUsedAt: c.last_used_at,
+            })),
+            securityKeyRequired: !!user.security_key_required,
+        });
+
+    } catch (error) {
+        console.error('WebAuthn credentials GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// PATCH - Rename a credential
+export async function PATCH(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, name } = await request.json();
+
+        if (!id || typeof name !== 'string' || !name.trim()) {
+            return NextResponse.json({ error: 'Credential ID and name required' }, { status: 400 });
+        }
+
+        if (!renameWebAuthnCredential(id, session.user.userId, name.trim().substring(0, 64))) {
+            return NextResponse.json({ error: 'Credential not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('WebAuthn credentials PATCH error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a credential
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Credential ID required' }, { status: 400 });
+        }
+
+        const user = getUserById(session.user.userId);
+        const credentials = getUserWebAuthnCredentials(session.user.userId);
+        const credential = credentials.find(c => c.id === id);
+
+        if (!user || !credential) {
+            return NextResponse.json({ error: 'Credential not found' }, { status: 404 });
+        }
+
+        // Accounts required to use a security key must keep at least one
+        if (user.security_key_required && credentials.length === 1) {
+            return NextResponse.json(
+                { error: 'Your account requires a security key. Register another before removing this one.' },
+                { status: 400 }
+            );
+        }
+
+        deleteWebAuthnCredential(id, user.id);
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        logAudit(user.id, 'WEBAUTHN_REMOVED', id, credential.name, ip);
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('WebAuthn credentials DELETE error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * WebAuthn Registration Options API
+ *
+ * Start registering a security key or passkey for the current user
+ */
+
+import { NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { getUserById, getUserWebAuthnCredentials } from '@/lib/db';
+import { generateWebAuthnChallenge, getRegistrationOptions, WEBAUTHN_CHALLENGE_TTL_MS } from '@/lib/webauthn';
+
+export async function POST() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = getUserById(session.user.userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const challenge = generateWebAuthnChallenge();
+        session.webauthnChallenge = challenge;
+        session.webauthnChallengeExpiresAt = Date.now() + WEBAUTHN_CHALLENGE_TTL_MS;
+        await session.save();
+
+        return NextResponse.json(getRegistrationOptions(user, getUserWebAuthnCredentials(user.id), challenge));
+
+    } catch (error) {
+        console.error('WebAuthn register options error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
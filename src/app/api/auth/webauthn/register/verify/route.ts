@@ -0,0 +1,72 @@
+/**
+ * WebAuthn Registration Verify API
+ *
+ * Finish registering a security key or passkey
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { takeWebAuthnChallenge, getAuthenticatedSession } from '@/lib/session';
+import { createWebAuthnCredential, logAudit } from '@/lib/db';
+import { verifyRegistration } from '@/lib/webauthn';
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const challenge = takeWebAuthnChallenge(session);
+        await session.save();
+
+        if (!challenge) {
+            return NextResponse.json({ error: 'Registration expired. Please try again.' }, { status: 400 });
+        }
+
+        const { credential, name } = await request.json();
+
+        if (!credential?.response) {
+            return NextResponse.json({ error: 'Credential required' }, { status: 400 });
+        }
+
+        const result = verifyRegistration(credential, challenge);
+        if (!result.credential) {
+            return NextResponse.json({ error: result.error || 'Registration failed' }, { status: 400 });
+        }
+
+        const keyName = (typeof name === 'string' && name.trim()) ||
+            (result.credential.isPasskey ? 'Passkey' : 'Security key');
+
+        const created = createWebAuthnCredential({
+            id: result.credential.id,
+            user_id: session.user.userId,
+            name: keyName.substring(0, 64),
+            public_key: result.credential.publicKey,
+            alg: result.credential.alg,
+            sign_count: result.credential.signCount,
+            transports: JSON.stringify(result.credential.transports),
+            is_passkey: result.credential.isPasskey ? 1 : 0,
+        });
+
+        if (!created) {
+            return NextResponse.json({ error: 'This key is already registered' }, { status: 400 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        logAudit(
+            session.user.userId,
+            'WEBAUTHN_REGISTERED',
+            result.credential.id,
+            `${keyName}${result.credential.isPasskey ? ' (passkey)' : ''}`,
+            ip
+        );
+
+        return NextResponse.json({ success: true, isPasskey: result.credential.isPasskey });
+
+    } catch (error) {
+        console.error('WebAuthn register verify error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -5,9 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
+import { getAuthenticatedSession } from '@/lib/session';
 import {
     getRememberedDevices,
     removeRememberedDevice,
@@ -18,8 +16,8 @@ import {
 // GET - List remembered devices for current user
 export async function GET(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -45,8 +43,8 @@ export async function GET(request: NextRequest) {
 // DELETE - Remove a remembered device
 export async function DELETE(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
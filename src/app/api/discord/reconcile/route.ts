@@ -0,0 +1,58 @@
+/**
+ * Discord Role Reconciliation API
+ *
+ * GET reports accounts whose authority level, roles or permissions have drifted
+ * from their last reported Discord roles; POST applies the drift
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { reconcileDiscordRoles } from '@/lib/rolesync';
+
+// GET - Drift report (SUPERUSER only)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        return NextResponse.json({ drift: reconcileDiscordRoles(false, null, null) });
+
+    } catch (error) {
+        console.error('Discord reconcile GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Apply drift (SUPERUSER only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const applied = reconcileDiscordRoles(
+            true,
+            session.user.userId,
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({ success: true, applied });
+
+    } catch (error) {
+        console.error('Discord reconcile POST error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,144 @@
+/**
+ * Discord Role Mapping API
+ *
+ * Configure which Discord roles grant which authority level and permissions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import {
+    getDiscordRoleMappings,
+    upsertDiscordRoleMapping,
+    deleteDiscordRoleMapping,
+    logAudit,
+    type DiscordRoleMapping
+} from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS, PERMISSIONS } from '@/lib/roles';
+import { MAX_SYNCED_LEVEL } from '@/lib/rolesync';
+
+function formatMapping(m: DiscordRoleMapping) {
+    return {
+        discordRoleId: m.discord_role_id,
+        name: m.name,
+        authorityLevel: m.authority_level,
+        permissions: JSON.parse(m.permissions || '[]'),
+        updatedAt: m.updated_at,
+    };
+}
+
+// GET - List role mappings (SUPERUSER only)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        return NextResponse.json({
+            mappings: getDiscordRoleMappings().map(formatMapping),
+            availablePermissions: Object.values(PERMISSIONS),
+            maxAuthorityLevel: MAX_SYNCED_LEVEL,
+        });
+
+    } catch (error) {
+        console.error('Discord roles GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// PUT - Create or update the mapping for a Discord role (SUPERUSER only)
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { discordRoleId, name, authorityLevel, permissions } = await request.json();
+
+        if (!discordRoleId || !/^\d{5,25}$/.test(discordRoleId) || !name) {
+            return NextResponse.json({ error: 'Discord role ID and name required' }, { status: 400 });
+        }
+
+        if (authorityLevel !== null && authorityLevel !== undefined &&
+            !(Number.isInteger(authorityLevel) && authorityLevel >= 0 && authorityLevel <= MAX_SYNCED_LEVEL)) {
+            return NextResponse.json({ error: `Authority level must be between 0 and ${MAX_SYNCED_LEVEL}` }, { status: 400 });
+        }
+
+        const grants: string[] = permissions || [];
+        const invalidPermission = grants.find(p => !(Object.values(PERMISSIONS) as string[]).includes(p));
+        if (invalidPermission) {
+            return NextResponse.json({ error: `Unknown permission: ${invalidPermission}` }, { status: 400 });
+        }
+
+        upsertDiscordRoleMapping({
+            discord_role_id: discordRoleId,
+            name,
+            authority_level: authorityLevel ?? null,
+            permissions: JSON.stringify(grants),
+            updated_by: session.user.userId,
+        });
+
+        logAudit(
+            session.user.userId,
+            'DISCORD_ROLE_MAPPING_UPDATED',
+            discordRoleId,
+            JSON.stringify({ name, authorityLevel: authorityLevel ?? null, permissions: grants }),
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Discord roles PUT error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a role mapping (SUPERUSER only)
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const discordRoleId = searchParams.get('discordRoleId');
+
+        if (!discordRoleId) {
+            return NextResponse.json({ error: 'Discord role ID required' }, { status: 400 });
+        }
+
+        if (!deleteDiscordRoleMapping(discordRoleId)) {
+            return NextResponse.json({ error: 'Mapping not found' }, { status: 404 });
+        }
+
+        logAudit(
+            session.user.userId,
+            'DISCORD_ROLE_MAPPING_DELETED',
+            discordRoleId,
+            null,
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Discord roles DELETE error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
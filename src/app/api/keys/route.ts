@@ -0,0 +1,125 @@
+/**
+ * Signing Keys API
+ * 
+ * Inspect, rotate and retire the keys used to sign Auth JWTs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { getAllSigningKeys, getSigningKey, retireSigningKey, logAudit, type SigningKey } from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { rotateSigningKey, KEY_ROTATION_DAYS, KEY_OVERLAP_DAYS, SIGNING_ALG } from '@/lib/keys';
+
+function formatKey(k: SigningKey) {
+    return {
+        kid: k.kid,
+        alg: k.alg,
+        status: k.status,
+        createdAt: k.created_at,
+        rotatedAt: k.rotated_at,
+        retiredAt: k.retired_at,
+        retiredReason: k.retired_reason,
+    };
+}
+
+// GET - List signing keys (SUPERUSER only, never includes private material)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        return NextResponse.json({
+            keys: getAllSigningKeys().map(formatKey),
+            algorithm: SIGNING_ALG,
+            rotationDays: KEY_ROTATION_DAYS,
+            overlapDays: KEY_OVERLAP_DAYS,
+        });
+
+    } catch (error) {
+        console.error('Signing keys GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Rotate now: generate a new active key, keeping the old one verifiable for the overlap window
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const key = await rotateSigningKey();
+
+        logAudit(
+            session.user.userId,
+            'SIGNING_KEY_ROTATED',
+            key.kid,
+            JSON.stringify({ alg: key.alg }),
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({ success: true, key: formatKey(key) });
+
+    } catch (error) {
+        console.error('Signing keys POST error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Retire a key immediately (e.g. compromised); tokens it signed stop verifying
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const kid = searchParams.get('kid');
+        const reason = searchParams.get('reason') || 'compromised';
+
+        if (!kid) {
+            return NextResponse.json({ error: 'Key ID required' }, { status: 400 });
+        }
+
+        const key = getSigningKey(kid);
+        if (!key || key.status === 'retired') {
+            return NextResponse.json({ error: 'Key not found or already retired' }, { status: 404 });
+        }
+
+        retireSigningKey(kid, session.user.userId, reason);
+
+        // Never leave Auth without a signing key
+        const replacement = key.status === 'active' ? await rotateSigningKey() : null;
+
+        logAudit(
+            session.user.userId,
+            'SIGNING_KEY_RETIRED',
+            kid,
+            JSON.stringify({ reason, replacedBy: replacement?.kid || null }),
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({ success: true, replacement: replacement ? formatKey(replacement) : null });
+
+    } catch (error) {
+        console.error('Signing keys DELETE error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Mail Credential Exchange API
+ * 
+ * USGRP Mail trades the one-time code from the SSO callback for the user's
+ * mail credentials. Server-to-server only: requires an API key with mail:exchange.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logAudit } from '@/lib/db';
+import { requireApiKey } from '@/lib/apikeys';
+import { redeemMailExchangeCode } from '@/lib/vault';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Verify API key
+        const { response } = requireApiKey(request, 'mail:exchange');
+        if (response) {
+            return response;
+        }
+
+        const { code } = await request.json();
+        if (!code) {
+            return NextResponse.json({ error: 'Code required' }, { status: 400 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        const result = redeemMailExchangeCode(code);
+
+        if (!result.credentials) {
+            logAudit(null, 'MAIL_EXCHANGE_FAILED', null, result.error || null, ip);
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        logAudit(result.credentials.userId, 'MAIL_CREDENTIALS_EXCHANGED', 'mail', null, ip);
+
+        return NextResponse.json({
+            email: result.credentials.email,
+            password: result.credentials.password,
+        }, {
+            headers: { 'Cache-Control': 'no-store' },
+        });
+
+    } catch (error) {
+        console.error('Mail exchange error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
+import { getAuthenticatedSession } from '@/lib/session';
 import {
     getMailUsers,
     createMailbox,
@@ -9,7 +7,10 @@ import {
     changeMailPassword,
     MailUser
 } from '@/lib/miab';
-import { getUserByEmail, updateUser, deleteUser, getAllUsers, logAudit, User } from '@/lib/db';
+import { storeMailPassword } from '@/lib/vault';
+import { validatePassword, passwordPolicyResponse, rememberPreviousPassword } from '@/lib/passwordpolicy';
+import { getUserByEmail, getUserById, updateUser, deleteUser, getAllUsers, logAudit, User } from '@/lib/db';
+import { emitUserEvent, emitUserChanges } from '@/lib/webhooks';
 import Database from 'better-sqlite3';
 import bcrypt from 'bcryptjs';
 import { randomUUID } from 'crypto';
@@ -31,9 +32,9 @@ const DB_PATH = path.join(DATA_DIR, 'auth.db');
 // GET: List all users (Auth DB + MIAB status)
 export async function GET() {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user || session.user.authorityLevel < 3) {
+        if (!session || session.user.authorityLevel < 3) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -83,14 +84,14 @@ export async function GET() {
 // POST: Create user + mailbox
 export async function POST(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user || session.user.authorityLevel < 3) {
+        if (!session || session.user.authorityLevel < 3) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
         const body = await request.json();
-        const { email, password, displayName, discordId, authorityLevel, createMailbox: shouldCreateMailbox } = body;
+        const { email, password, displayName, discordId, authorityLevel, createMailbox: shouldCreateMailbox, mustChangePassword = true } = body;
 
         if (!email || !password || !displayName) {
             return NextResponse.json({ error: 'Email, password, and displayName are required' }, { status: 400 });
@@ -102,6 +103,11 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'User already exists' }, { status: 409 });
         }
 
+        const policy = await validatePassword(password, { email, displayName });
+        if (!policy.valid) {
+            return passwordPolicyResponse(policy);
+        }
+
         // Create mailbox in MIAB first (if requested)
         if (shouldCreateMailbox !== false) {
             const mailResult = await createMailbox(email, password);
@@ -119,8 +125,9 @@ export async function POST(request: NextRequest) {
         const db = new Database(DB_PATH);
         db.prepare(`
             INSERT INTO users (id, email, password_hash, discord_id, display_name, 
-                authority_level, roles, permissions, enabled, totp_secret, totp_enabled)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                authority_level, roles, permissions, enabled, totp_secret, totp_enabled,
+                must_change_password, password_changed_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `).run(
             userId,
             email.toLowerCase(),
@@ -132,13 +139,17 @@ export async function POST(request: NextRequest) {
             '[]',
             1,
             null,
-            0
+            0,
+            mustChangePassword ? 1 : 0,
+            new Date().toISOString()
         );
         db.close();
 
         // Log audit
         const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
-        logAudit(session.user.userId, 'user.create', userId, `Created user ${email}`, ip);
+        logAudit(session.user.userId, 'USER_CREATED', userId, `Created user ${email}`, ip);
+        const created = getUserById(userId);
+        if (created) emitUserEvent('user.created', created);
 
         return NextResponse.json({
             success: true,
@@ -155,9 +166,9 @@ export async function POST(request: NextRequest) {
 // PUT: Update user
 export async function PUT(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user || session.user.authorityLevel < 3) {
+        if (!session || session.user.authorityLevel < 3) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -176,20 +187,29 @@ export async function PUT(request: NextRequest) {
 
         // If password changed, update both Auth and MIAB
         if (password) {
+            const policy = await validatePassword(password, { email, displayName, userId });
+            if (!policy.valid) {
+                return passwordPolicyResponse(policy);
+            }
+            rememberPreviousPassword(userId);
             updates.password_hash = await bcrypt.hash(password, 10);
 
             if (email) {
                 const mailResult = await changeMailPassword(email, password);
                 if (!mailResult.ok) {
                     console.warn('Failed to update MIAB password:', mailResult.error);
+                } else {
+                    storeMailPassword(userId, password);
                 }
             }
         }
 
+        const before = getUserById(userId);
         updateUser(userId, updates);
 
         const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
-        logAudit(session.user.userId, 'user.update', userId, `Updated user`, ip);
+        logAudit(session.user.userId, 'USER_UPDATED', userId, `Updated user`, ip);
+        emitUserChanges(before, getUserById(userId));
 
         return NextResponse.json({ success: true });
 
@@ -202,9 +222,9 @@ export async function PUT(request: NextRequest) {
 // DELETE: Delete user + mailbox
 export async function DELETE(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user || session.user.authorityLevel < 5) {
+        if (!session || session.user.authorityLevel < 5) {
             return NextResponse.json({ error: 'Unauthorized - requires SUPERUSER' }, { status: 401 });
         }
 
@@ -226,10 +246,12 @@ export async function DELETE(request: NextRequest) {
         }
 
         // Delete from Auth DB
+        const user = getUserById(userId);
         deleteUser(userId);
 
         const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
-        logAudit(session.user.userId, 'user.delete', userId, `Deleted user ${email}`, ip);
+        logAudit(session.user.userId, 'USER_DELETED', userId, `Deleted user ${email}`, ip);
+        if (user) emitUserEvent('user.deleted', user);
 
         return NextResponse.json({ success: true });
 
@@ -0,0 +1,244 @@
+/**
+ * OAuth Clients API
+ * 
+ * Register and manage the services allowed to use Auth as their OpenID provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { getAuthenticatedSession } from '@/lib/session';
+import {
+    getAllOAuthClients,
+    createOAuthClient,
+    updateOAuthClient,
+    deleteOAuthClient,
+    logAudit,
+    type OAuthClient
+} from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import {
+    generateClientSecret,
+    isValidRedirectUri,
+    parseClientList,
+    SUPPORTED_SCOPES,
+    DEFAULT_CLIENT_SCOPES
+} from '@/lib/oauth';
+
+function formatClient(c: OAuthClient) {
+    return {
+        clientId: c.client_id,
+        name: c.name,
+        confidential: !!c.client_secret_hash,
+        redirectUris: parseClientList(c.redirect_uris),
+        scopes: parseClientList(c.allowed_scopes),
+        enabled: !!c.enabled,
+        createdAt: c.created_at,
+        updatedAt: c.updated_at,
+    };
+}
+
+function validateClientInput(redirectUris: unknown, scopes: unknown): string | null {
+    if (redirectUris !== undefined) {
+        if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+            return 'At least one redirect URI is required';
+        }
+        const invalid = redirectUris.find((uri: unknown) => typeof uri !== 'string' || !isValidRedirectUri(uri));
+        if (invalid !== undefined) {
+            return `Invalid redirect URI: ${invalid}`;
+        }
+    }
+
+    if (scopes !== undefined) {
+        if (!Array.isArray(scopes) || !scopes.includes('openid')) {
+            return 'Scopes must include openid';
+        }
+        const unknown = scopes.find((s: unknown) => !(SUPPORTED_SCOPES as readonly unknown[]).includes(s));
+        if (unknown !== undefined) {
+            return `Unsupported scope: ${unknown}`;
+        }
+    }
+
+    return null;
+}
+
+// GET - List registered clients (SUPERUSER only)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        return NextResponse.json({ clients: getAllOAuthClients().map(formatClient) });
+
+    } catch (error) {
+        console.error('OAuth clients GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Register a new client (SUPERUSER only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { clientId, name, redirectUris, scopes, confidential } = await request.json();
+
+        if (!name || !redirectUris) {
+            return NextResponse.json({ error: 'Name and redirect URIs required' }, { status: 400 });
+        }
+
+        if (clientId !== undefined && !/^[a-z0-9][a-z0-9-]{2,63}$/.test(clientId)) {
+            return NextResponse.json({ error: 'Client ID must be 3-64 lowercase letters, digits or dashes' }, { status: 400 });
+        }
+
+        const validationError = validateClientInput(redirectUris, scopes);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        // Public clients (no secret) authenticate with PKCE alone
+        const secret = confidential !== false ? generateClientSecret() : null;
+
+        const client = createOAuthClient({
+            client_id: clientId || `usgrp-${crypto.randomBytes(8).toString('hex')}`,
+            name,
+            client_secret_hash: secret?.hash || null,
+            redirect_uris: JSON.stringify(redirectUris),
+            allowed_scopes: JSON.stringify(scopes || DEFAULT_CLIENT_SCOPES),
+            created_by: session.user.userId,
+        });
+
+        if (!client) {
+            return NextResponse.json({ error: 'Failed to create client (client ID may already exist)' }, { status: 400 });
+        }
+
+        logAudit(
+            session.user.userId,
+            'OAUTH_CLIENT_CREATED',
+            client.client_id,
+            `Registered OAuth client ${name}`,
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({
+            success: true,
+            client: formatClient(client),
+            // Only time the secret is shown
+            clientSecret: secret?.secret || null,
+        });
+
+    } catch (error) {
+        console.error('OAuth clients POST error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// PUT - Update a client or rotate its secret (SUPERUSER only)
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { clientId, name, redirectUris, scopes, enabled, rotateSecret } = await request.json();
+
+        if (!clientId) {
+            return NextResponse.json({ error: 'Client ID required' }, { status: 400 });
+        }
+
+        const validationError = validateClientInput(redirectUris, scopes);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        const secret = rotateSecret ? generateClientSecret() : null;
+
+        const updated = updateOAuthClient(clientId, {
+            name,
+            redirect_uris: redirectUris !== undefined ? JSON.stringify(redirectUris) : undefined,
+            allowed_scopes: scopes !== undefined ? JSON.stringify(scopes) : undefined,
+            enabled: enabled !== undefined ? (enabled ? 1 : 0) : undefined,
+            client_secret_hash: secret?.hash,
+        });
+
+        if (!updated) {
+            return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+        }
+
+        logAudit(
+            session.user.userId,
+            rotateSecret ? 'OAUTH_CLIENT_SECRET_ROTATED' : 'OAUTH_CLIENT_UPDATED',
+            clientId,
+            null,
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({
+            success: true,
+            clientSecret: secret?.secret || null,
+        });
+
+    } catch (error) {
+        console.error('OAuth clients PUT error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a client (SUPERUSER only)
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const clientId = searchParams.get('clientId');
+
+        if (!clientId) {
+            return NextResponse.json({ error: 'Client ID required' }, { status: 400 });
+        }
+
+        const deleted = deleteOAuthClient(clientId);
+
+        if (!deleted) {
+            return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+        }
+
+        logAudit(
+            session.user.userId,
+            'OAUTH_CLIENT_DELETED',
+            clientId,
+            null,
+            request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+        );
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('OAuth clients DELETE error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * Admin Sessions API
+ *
+ * Active sessions across every account (ADMIN+): list with filters, sign out one
+ * session or all of a user's sessions. Targets must be below the caller's authority;
+ * signing out an administrator goes through the two-person rule (/api/approvals)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionData, getAuthenticatedSession } from '@/lib/session';
+import {
+    getActiveSessions,
+    getSessionById,
+    getUserById,
+    deleteSession,
+    deleteAllUserSessions,
+    logAudit,
+    type SessionFilters,
+    type User
+} from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { parseUserAgent } from '@/lib/devices';
+
+// Reason recorded with the revocation, shown on the login page
+const ADMIN_REVOKED_REASON = 'revoked';
+
+// Why the caller may not sign this user out directly, or null when they may
+function checkTarget(actor: NonNullable<SessionData['user']>, target: User, approvalAction: string): NextResponse | null {
+    if (target.id === actor.userId) {
+        return NextResponse.json({ error: 'Manage your own sessions from the Security page' }, { status: 400 });
+    }
+
+    if (target.authority_level >= actor.authorityLevel) {
+        return NextResponse.json({ error: 'Cannot sign out a user at or above your own authority' }, { status: 403 });
+    }
+
+    if (target.authority_level >= AUTHORITY_LEVELS.ADMIN) {
+        return NextResponse.json({
+            error: 'Signing out an administrator requires approval from another admin',
+            requiresApproval: true,
+            actionType: approvalAction,
+        }, { status: 403 });
+    }
+
+    return null;
+}
+
+// GET - List active sessions for all users
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const url = new URL(request.url);
+        const remembered = url.searchParams.get('remembered');
+        const level = url.searchParams.get('level');
+        const filters: SessionFilters = {
+            userId: url.searchParams.get('userId') || undefined,
+            search: url.searchParams.get('q')?.trim() || undefined,
+            ip: url.searchParams.get('ip')?.trim() || undefined,
+            remembered: remembered === null || remembered === '' ? undefined : remembered === '1',
+            authorityLevel: level ? parseInt(level) : undefined,
+        };
+        const limit = Math.min(parseInt(url.searchParams.get('limit') || '200'), 500);
+
+        const actor = session.user;
+        const sessions = getActiveSessions(filters, limit).map(s => ({
+            id: s.id,
+            userId: s.user_id,
+            email: s.email,
+            displayName: s.display_name,
+            authorityLevel: s.authority_level,
+            device: parseUserAgent(s.user_agent || ''),
+            ip: s.ip || 'Unknown',
+            lastActive: s.last_active,
+            createdAt: s.created_at,
+            expiresAt: s.expires_at,
+            isRemembered: s.is_remembered === 1,
+            isCurrent: s.id === actor.sessionId,
+            canRevoke: s.user_id !== actor.userId && s.authority_level < actor.authorityLevel,
+            requiresApproval: s.authority_level >= AUTHORITY_LEVELS.ADMIN,
+        }));
+
+        return NextResponse.json({ sessions });
+
+    } catch (error) {
+        console.error('Admin sessions GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Sign out one session ({ sessionId }) or every session of a user ({ userId })
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { sessionId, userId } = await request.json();
+
+        if (!sessionId && !userId) {
+            return NextResponse.json({ error: 'Session ID or user ID required' }, { status: 400 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        if (sessionId) {
+            const targetSession = getSessionById(sessionId);
+            const target = targetSession && getUserById(targetSession.user_id);
+            if (!targetSession || !target) {
+                return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+            }
+
+            const refusal = checkTarget(session.user, target, 'SESSION_KILL_ADMIN');
+            if (refusal) return refusal;
+
+            const deleted = deleteSession(targetSession.id, ADMIN_REVOKED_REASON);
+            if (deleted) {
+                logAudit(
+                    session.user.userId,
+                    'ADMIN_SESSION_KILL',
+                    target.id,
+                    { email: target.email, device: targetSession.device_name, ip: targetSession.ip },
+                    ip
+                );
+            }
+
+            return NextResponse.json({
+                success: deleted,
+                message: deleted ? 'Session terminated' : 'Failed to terminate session'
+            });
+        }
+
+        const target = getUserById(userId);
+        if (!target) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const refusal = checkTarget(session.user, target, 'SESSIONS_KILL_ALL_ADMIN');
+        if (refusal) return refusal;
+
+        const count = deleteAllUserSessions(target.id, undefined, ADMIN_REVOKED_REASON);
+
+        logAudit(
+            session.user.userId,
+            'ADMIN_SESSIONS_KILL_ALL',
+            target.id,
+            { email: target.email, sessionsRevoked: count },
+            ip
+        );
+
+        return NextResponse.json({
+            success: true,
+            count,
+            message: `Signed ${target.email} out of ${count} session(s)`
+        });
+
+    } catch (error) {
+        console.error('Admin sessions DELETE error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -5,21 +5,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
+import { getAuthenticatedSession } from '@/lib/session';
 import {
     getUserSessions,
     deleteSession,
     deleteAllUserSessions,
     logAudit
 } from '@/lib/db';
+import { parseUserAgent } from '@/lib/devices';
 
 // GET - List active sessions for current user
 export async function GET(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -51,8 +50,8 @@ export async function GET(request: NextRequest) {
 // DELETE - Kill a session or all sessions
 export async function DELETE(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
-        if (!session.isLoggedIn || !session.user) {
+        const session = await getAuthenticatedSession();
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -116,26 +115,3 @@ export async function DELETE(request: NextRequest) {
         return NextResponse.json({ error: 'Server error' }, { status: 500 });
     }
 }
-
-// Helper function to parse user agent string
-function parseUserAgent(ua: string): string {
-    if (!ua) return 'Unknown Device';
-
-    // Browser detection
-    let browser = 'Unknown Browser';
-    if (ua.includes('Chrome') && !ua.includes('Edg')) browser = 'Chrome';
-    else if (ua.includes('Firefox')) browser = 'Firefox';
-    else if (ua.includes('Safari') && !ua.includes('Chrome')) browser = 'Safari';
-    else if (ua.includes('Edg')) browser = 'Edge';
-    else if (ua.includes('MSIE') || ua.includes('Trident')) browser = 'Internet Explorer';
-
-    // OS detection
-    let os = 'Unknown OS';
-    if (ua.includes('Windows')) os = 'Windows';
-    else if (ua.includes('Mac OS')) os = 'macOS';
-    else if (ua.includes('Linux')) os = 'Linux';
-    else if (ua.includes('Android')) os = 'Android';
-    else if (ua.includes('iPhone') || ua.includes('iPad')) os = 'iOS';
-
-    return `${browser} on ${os}`;
-}
@@ -0,0 +1,52 @@
+/**
+ * Discord Member Roles API
+ *
+ * The bot pushes a member's current Discord role IDs; the linked account's
+ * authority level, roles and permissions are updated from the role mapping
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiKey } from '@/lib/apikeys';
+import { syncMemberRoles } from '@/lib/rolesync';
+
+type Params = {
+    params: Promise<{ discordId: string }>
+}
+
+export async function POST(request: NextRequest, { params }: Params) {
+    try {
+        // Verify API key
+        const { response } = requireApiKey(request, 'roles:sync');
+        if (response) {
+            return response;
+        }
+
+        const { discordId } = await params;
+        const { roleIds } = await request.json();
+
+        if (!discordId) {
+            return NextResponse.json({ error: 'Discord ID required' }, { status: 400 });
+        }
+
+        if (!Array.isArray(roleIds) || roleIds.some((id: unknown) => typeof id !== 'string')) {
+            return NextResponse.json({ error: 'roleIds must be a list of Discord role IDs' }, { status: 400 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        const { linked, change } = syncMemberRoles(discordId, roleIds, ip);
+
+        return NextResponse.json({
+            success: true,
+            linked,
+            changed: !!change,
+            ...(change ? { from: change.from, to: change.to } : {}),
+        });
+
+    } catch (error: unknown) {
+        console.error('Sync Discord roles error:', error);
+        return NextResponse.json({ error: 'Failed to sync roles' }, { status: 500 });
+    }
+}
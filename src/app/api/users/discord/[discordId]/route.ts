@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserByDiscordId as dbGetUserByDiscordId } from '@/lib/db';
-
-// API key for bot authentication
-const BOT_API_KEY = 'usgrp-admin-2026-secure-key-x7k9m2p4';
+import { requireApiKey } from '@/lib/apikeys';
 
 type Params = {
     params: Promise<{ discordId: string }>
@@ -11,14 +9,9 @@ type Params = {
 export async function GET(request: NextRequest, { params }: Params) {
     try {
         // Verify API key
-        const authHeader = request.headers.get('authorization');
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-        }
-
-        const apiKey = authHeader.substring(7);
-        if (apiKey !== BOT_API_KEY) {
-            return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+        const { response } = requireApiKey(request, 'users:read');
+        if (response) {
+            return response;
         }
 
         const { discordId } = await params;
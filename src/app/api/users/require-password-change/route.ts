@@ -0,0 +1,70 @@
+/**
+ * Require Password Change API
+ *
+ * Make a user set a new password at their next sign-in (ADMIN+)
+ * Their current sessions are revoked so the change cannot be put off
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { getUserById, updateUser, deleteAllUserSessions, logAudit } from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { userId, required = true } = await request.json();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'User ID required' }, { status: 400 });
+        }
+
+        const user = getUserById(userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (user.id === session.user.userId) {
+            return NextResponse.json({ error: 'Change your own password from the Security page' }, { status: 400 });
+        }
+
+        if (user.authority_level > session.user.authorityLevel) {
+            return NextResponse.json({ error: 'Cannot modify a user with higher authority than yourself' }, { status: 403 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        updateUser(user.id, { must_change_password: required ? 1 : 0 });
+
+        let sessionsRevoked = 0;
+        if (required) {
+            sessionsRevoked = deleteAllUserSessions(user.id);
+        }
+
+        logAudit(
+            session.user.userId,
+            required ? 'PASSWORD_CHANGE_REQUIRED' : 'PASSWORD_CHANGE_CLEARED',
+            user.id,
+            required ? { email: user.email, sessionsRevoked } : { email: user.email },
+            ip
+        );
+
+        return NextResponse.json({ success: true, sessionsRevoked });
+
+    } catch (error) {
+        console.error('Require password change error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { cookies } from 'next/headers';
-import { sessionOptions, SessionData } from '@/lib/session';
+import { getAuthenticatedSession } from '@/lib/session';
 import {
     getAllUsers,
+    getUserById,
+    getUserWebAuthnCredentials,
     createUser as dbCreateUser,
     updateUser as dbUpdateUser,
     deleteUser as dbDeleteUser,
@@ -14,13 +14,21 @@ import {
 } from '@/lib/db';
 import { hashPassword, generateId, requiresAuthority } from '@/lib/auth';
 import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { isAccountLocked } from '@/lib/ratelimit';
+import { emitUserEvent, emitUserChanges } from '@/lib/webhooks';
+import {
+    validatePassword,
+    passwordPolicyResponse,
+    rememberPreviousPassword,
+    getPasswordExpiry
+} from '@/lib/passwordpolicy';
 
 // Get all users (ADMIN+ only)
 export async function GET(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user) {
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -28,6 +36,36 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
+        // Single user for the user detail page
+        const { searchParams } = new URL(request.url);
+        const userId = searchParams.get('userId');
+        if (userId) {
+            const u = getUserById(userId);
+            if (!u) {
+                return NextResponse.json({ error: 'User not found' }, { status: 404 });
+            }
+
+            return NextResponse.json({
+                user: {
+                    id: u.id,
+                    email: u.email,
+                    display_name: u.display_name,
+                    discord_id: u.discord_id,
+                    authority_level: u.authority_level,
+                    enabled: !!u.enabled,
+                    totp_enabled: !!u.totp_enabled,
+                    security_key_required: !!u.security_key_required,
+                    security_keys: getUserWebAuthnCredentials(u.id).length,
+                    locked_until: isAccountLocked(u) ? u.locked_until : null,
+                    must_change_password: !!u.must_change_password,
+                    password_changed_at: u.password_changed_at,
+                    password_expires_at: getPasswordExpiry(u)?.toISOString() ?? null,
+                    created_at: u.created_at,
+                    permissions: JSON.parse(u.permissions || '[]'),
+                },
+            });
+        }
+
         const users = getAllUsers().map((u: User) => ({
             id: u.id,
             email: u.email,
@@ -53,9 +91,9 @@ export async function GET(request: NextRequest) {
 // Create a new user (ADMIN+ only)
 export async function POST(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user) {
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -63,7 +101,8 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
-        const { email, password, displayName, discordId, authorityLevel } = await request.json();
+        // Admin-chosen passwords must be replaced at first sign-in unless the admin opts out
+        const { email, password, displayName, discordId, authorityLevel, mustChangePassword = true } = await request.json();
 
         if (!email || !password || !displayName) {
             return NextResponse.json(
@@ -81,6 +120,11 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const policy = await validatePassword(password, { email, displayName });
+        if (!policy.valid) {
+            return passwordPolicyResponse(policy);
+        }
+
         const passwordHash = await hashPassword(password);
 
         const user = dbCreateUser({
@@ -95,6 +139,7 @@ export async function POST(request: NextRequest) {
             enabled: 1,
             totp_secret: null,
             totp_enabled: 0,
+            must_change_password: mustChangePassword ? 1 : 0,
         });
 
         if (!user) {
@@ -106,6 +151,7 @@ export async function POST(request: NextRequest) {
 
         const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
         logAudit(session.user.userId, 'USER_CREATED', user.email, null, ip);
+        emitUserEvent('user.created', user);
 
         return NextResponse.json({
             success: true,
@@ -126,9 +172,9 @@ export async function POST(request: NextRequest) {
 // Update user (ADMIN+ only)
 export async function PUT(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user) {
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -136,7 +182,7 @@ export async function PUT(request: NextRequest) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
-        const { userId, email, displayName, discordId, authorityLevel, password, enabled, permissions } = await request.json();
+        const { userId, email, displayName, discordId, authorityLevel, password, enabled, permissions, securityKeyRequired } = await request.json();
 
         if (!userId) {
             return NextResponse.json({ error: 'User ID required' }, { status: 400 });
@@ -157,6 +203,16 @@ export async function PUT(request: NextRequest) {
             updates.authority_level = authorityLevel;
         }
         if (password !== undefined) {
+            const target = getUserById(userId);
+            const policy = await validatePassword(password, {
+                email: email ?? target?.email,
+                displayName: displayName ?? target?.display_name,
+                userId,
+            });
+            if (!policy.valid) {
+                return passwordPolicyResponse(policy);
+            }
+            rememberPreviousPassword(userId);
             updates.password_hash = await hashPassword(password);
         }
         if (enabled !== undefined) {
@@ -165,7 +221,27 @@ export async function PUT(request: NextRequest) {
         if (permissions !== undefined) {
             updates.permissions = JSON.stringify(permissions);
         }
+        if (securityKeyRequired !== undefined) {
+            if (securityKeyRequired) {
+                const level = authorityLevel ?? getUserById(userId)?.authority_level ?? 0;
+                if (level < AUTHORITY_LEVELS.ADMIN) {
+                    return NextResponse.json(
+                        { error: 'Security keys can only be required for authority level 3 and above' },
+                        { status: 400 }
+                    );
+                }
+                // Never lock someone out: they must already have a key registered
+                if (getUserWebAuthnCredentials(userId).length === 0) {
+                    return NextResponse.json(
+                        { error: 'User must register a security key first' },
+                        { status: 400 }
+                    );
+                }
+            }
+            updates.security_key_required = securityKeyRequired ? 1 : 0;
+        }
 
+        const before = getUserById(userId);
         const success = dbUpdateUser(userId, updates);
 
         if (!success) {
@@ -174,6 +250,7 @@ export async function PUT(request: NextRequest) {
 
         const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
         logAudit(session.user.userId, 'USER_UPDATED', userId, JSON.stringify(Object.keys(updates)), ip);
+        emitUserChanges(before, getUserById(userId));
 
         return NextResponse.json({ success: true });
 
@@ -186,9 +263,9 @@ export async function PUT(request: NextRequest) {
 // Delete user (SUPERUSER only)
 export async function DELETE(request: NextRequest) {
     try {
-        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const session = await getAuthenticatedSession();
 
-        if (!session.isLoggedIn || !session.user) {
+        if (!session) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -208,6 +285,7 @@ export async function DELETE(request: NextRequest) {
             return NextResponse.json({ error: 'Cannot delete yourself' }, { status: 400 });
         }
 
+        const user = getUserById(userId);
         const success = dbDeleteUser(userId);
 
         if (!success) {
@@ -216,6 +294,7 @@ export async function DELETE(request: NextRequest) {
 
         const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
         logAudit(session.user.userId, 'USER_DELETED', userId, null, ip);
+        if (user) emitUserEvent('user.deleted', user);
 
         return NextResponse.json({ success: true });
 
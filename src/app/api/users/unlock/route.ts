@@ -0,0 +1,52 @@
+/**
+ * Account Unlock API
+ *
+ * Clear a temporary lockout caused by repeated failed sign-in attempts (ADMIN+)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import { getUserById } from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { unlockAccount } from '@/lib/ratelimit';
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.ADMIN)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { userId } = await request.json();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'User ID required' }, { status: 400 });
+        }
+
+        const user = getUserById(userId);
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (user.authority_level > session.user.authorityLevel) {
+            return NextResponse.json({ error: 'Cannot unlock a user with higher authority than yourself' }, { status: 403 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        unlockAccount(user, session.user.userId, ip);
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Unlock user error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * Webhook Deliveries API
+ *
+ * The delivery log, test events and manual retries of failed deliveries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedSession } from '@/lib/session';
+import {
+    getWebhook,
+    getWebhookDelivery,
+    getWebhookDeliveries,
+    type WebhookDelivery,
+    type WebhookDeliveryStatus
+} from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { sendTestWebhookEvent, retryWebhookDelivery } from '@/lib/webhooks';
+
+const MAX_LIMIT = 500;
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+function formatDelivery(d: WebhookDelivery) {
+    return {
+        id: d.id,
+        webhookId: d.webhook_id,
+        event: d.event,
+        payload: JSON.parse(d.payload),
+        status: d.status,
+        attempts: d.attempts,
+        responseStatus: d.response_status,
+        responseBody: d.response_body,
+        error: d.error,
+        nextAttemptAt: d.next_attempt_at,
+        lastAttemptAt: d.last_attempt_at,
+        createdAt: d.created_at,
+    };
+}
+
+// GET - Delivery log, newest first (SUPERUSER only); filter with webhookId and status
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get('status');
+        if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+            return NextResponse.json({ error: 'Unknown status' }, { status: 400 });
+        }
+
+        const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), MAX_LIMIT);
+        const deliveries = getWebhookDeliveries({
+            webhookId: searchParams.get('webhookId') || undefined,
+            status: (status as WebhookDeliveryStatus) || undefined,
+        }, limit);
+
+        return NextResponse.json({ deliveries: deliveries.map(formatDelivery) });
+
+    } catch (error) {
+        console.error('Webhook deliveries GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Send a test event to a webhook now and return the delivery (SUPERUSER only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { webhookId } = await request.json();
+
+        const webhook = webhookId ? getWebhook(webhookId) : null;
+        if (!webhook) {
+            return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+        }
+
+        const delivery = await sendTestWebhookEvent(webhook, session.user.userId);
+
+        return NextResponse.json({ success: delivery.status === 'delivered', delivery: formatDelivery(delivery) });
+
+    } catch (error) {
+        console.error('Webhook test error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// PUT - Retry a failed delivery (SUPERUSER only)
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { id } = await request.json();
+
+        const delivery = id ? getWebhookDelivery(id) : null;
+        if (!delivery) {
+            return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+        }
+        if (delivery.status !== 'failed') {
+            return NextResponse.json({ error: 'Only failed deliveries can be retried' }, { status: 400 });
+        }
+
+        retryWebhookDelivery(delivery);
+
+        return NextResponse.json({ success: true, delivery: formatDelivery(getWebhookDelivery(id)!) });
+
+    } catch (error) {
+        console.error('Webhook retry error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
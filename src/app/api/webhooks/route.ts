@@ -0,0 +1,240 @@
+/**
+ * Webhooks API
+ *
+ * Register, change and remove the endpoints other USGRP services receive identity events on
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { getAuthenticatedSession } from '@/lib/session';
+import {
+    createWebhook,
+    getAllWebhooks,
+    getWebhook,
+    updateWebhook,
+    deleteWebhook,
+    getWebhookDeliveries,
+    logAudit,
+    type Webhook
+} from '@/lib/db';
+import { requiresAuthority } from '@/lib/auth';
+import { AUTHORITY_LEVELS } from '@/lib/roles';
+import { WEBHOOK_EVENTS, generateWebhookSecret, isWebhookEvent, parseWebhookEvents } from '@/lib/webhooks';
+
+function formatWebhook(w: Webhook) {
+    const [lastDelivery] = getWebhookDeliveries({ webhookId: w.id }, 1);
+    return {
+        id: w.id,
+        name: w.name,
+        url: w.url,
+        events: parseWebhookEvents(w.events),
+        enabled: !!w.enabled,
+        createdBy: w.created_by,
+        createdAt: w.created_at,
+        updatedAt: w.updated_at,
+        lastDelivery: lastDelivery
+            ? { status: lastDelivery.status, event: lastDelivery.event, at: lastDelivery.last_attempt_at || lastDelivery.created_at }
+            : null,
+    };
+}
+
+// Only http(s) endpoints can be registered
+function isValidUrl(value: unknown): value is string {
+    if (typeof value !== 'string') return false;
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+}
+
+// Null if the list is empty or names an unknown event
+function validateEvents(events: unknown): string[] | null {
+    if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) return null;
+    return [...new Set(events)];
+}
+
+// GET - List webhooks (SUPERUSER only, never includes secrets)
+export async function GET() {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        return NextResponse.json({
+            webhooks: getAllWebhooks().map(formatWebhook),
+            availableEvents: Object.entries(WEBHOOK_EVENTS).map(([event, description]) => ({ event, description })),
+        });
+
+    } catch (error) {
+        console.error('Webhooks GET error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// POST - Register a webhook (SUPERUSER only)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { name, url, events } = await request.json();
+
+        if (!name || !isValidUrl(url)) {
+            return NextResponse.json({ error: 'Name and an http(s) URL required' }, { status: 400 });
+        }
+
+        const subscribed = validateEvents(events);
+        if (!subscribed) {
+            return NextResponse.json({ error: 'Choose at least one known event' }, { status: 400 });
+        }
+
+        const { secret, encrypted } = generateWebhookSecret();
+
+        const webhook = createWebhook({
+            id: crypto.randomUUID(),
+            name,
+            url,
+            secret: encrypted,
+            events: JSON.stringify(subscribed),
+            created_by: session.user.userId,
+        });
+
+        if (!webhook) {
+            return NextResponse.json({ error: 'Failed to create webhook' }, { status: 500 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        logAudit(session.user.userId, 'WEBHOOK_CREATED', webhook.id, { name, url, events: subscribed }, ip);
+
+        return NextResponse.json({
+            success: true,
+            webhook: formatWebhook(webhook),
+            // Only time the secret is shown
+            secret,
+        });
+
+    } catch (error) {
+        console.error('Webhooks POST error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// PUT - Change a webhook, or rotate its secret with rotateSecret: true (SUPERUSER only)
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { id, name, url, events, enabled, rotateSecret } = await request.json();
+
+        const webhook = id ? getWebhook(id) : null;
+        if (!webhook) {
+            return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        if (rotateSecret) {
+            const { secret, encrypted } = generateWebhookSecret();
+            updateWebhook(id, { secret: encrypted });
+            logAudit(session.user.userId, 'WEBHOOK_SECRET_ROTATED', id, { name: webhook.name }, ip);
+            return NextResponse.json({ success: true, webhook: formatWebhook(getWebhook(id)!), secret });
+        }
+
+        const updates: Partial<Pick<Webhook, 'name' | 'url' | 'events' | 'enabled'>> = {};
+
+        if (name !== undefined) {
+            if (!name) {
+                return NextResponse.json({ error: 'Name required' }, { status: 400 });
+            }
+            updates.name = name;
+        }
+        if (url !== undefined) {
+            if (!isValidUrl(url)) {
+                return NextResponse.json({ error: 'URL must be http(s)' }, { status: 400 });
+            }
+            updates.url = url;
+        }
+        if (events !== undefined) {
+            const subscribed = validateEvents(events);
+            if (!subscribed) {
+                return NextResponse.json({ error: 'Choose at least one known event' }, { status: 400 });
+            }
+            updates.events = JSON.stringify(subscribed);
+        }
+        if (enabled !== undefined) {
+            updates.enabled = enabled ? 1 : 0;
+        }
+
+        if (!updateWebhook(id, updates)) {
+            return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+        }
+
+        logAudit(session.user.userId, 'WEBHOOK_UPDATED', id, { name: webhook.name, fields: Object.keys(updates) }, ip);
+
+        return NextResponse.json({ success: true, webhook: formatWebhook(getWebhook(id)!) });
+
+    } catch (error) {
+        console.error('Webhooks PUT error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a webhook and its delivery log (SUPERUSER only)
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getAuthenticatedSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!requiresAuthority(session.user, AUTHORITY_LEVELS.SUPERUSER)) {
+            return NextResponse.json({ error: 'Forbidden - SUPERUSER required' }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Webhook ID required' }, { status: 400 });
+        }
+
+        const webhook = getWebhook(id);
+        if (!webhook || !deleteWebhook(id)) {
+            return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+        logAudit(session.user.userId, 'WEBHOOK_DELETED', id, { name: webhook.name, url: webhook.url }, ip);
+
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Webhooks DELETE error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
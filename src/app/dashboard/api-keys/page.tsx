@@ -0,0 +1,334 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ApiKey {
+    id: string;
+    name: string;
+    prefix: string;
+    scopes: string[];
+    allowedIps: string[];
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+    lastUsedIp: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+}
+
+function keyStatus(k: ApiKey): { label: string; badge: string } {
+    if (k.revokedAt) return { label: 'Revoked', badge: 'gov-badge-red' };
+    if (k.expiresAt && new Date(k.expiresAt) < new Date()) return { label: 'Expired', badge: 'gov-badge-red' };
+    return { label: 'Active', badge: 'gov-badge-green' };
+}
+
+export default function ApiKeysPage() {
+    const router = useRouter();
+    const [keys, setKeys] = useState<ApiKey[]>([]);
+    const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+    const [revealedKey, setRevealedKey] = useState<{ name: string; key: string } | null>(null);
+
+    // Create form state
+    const [newName, setNewName] = useState('');
+    const [newScopes, setNewScopes] = useState<string[]>([]);
+    const [newExpiresInDays, setNewExpiresInDays] = useState('');
+    const [newAllowedIps, setNewAllowedIps] = useState('');
+
+    useEffect(() => {
+        checkAuthAndLoad();
+    }, []);
+
+    async function checkAuthAndLoad() {
+        try {
+            const sessionRes = await fetch('/api/auth/session');
+            const sessionData = await sessionRes.json();
+
+            if (!sessionData.authenticated || sessionData.user.authorityLevel < 5) {
+                router.push('/dashboard');
+                return;
+            }
+
+            await loadKeys();
+        } catch (e) {
+            console.error('Auth check failed:', e);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadKeys() {
+        try {
+            const res = await fetch('/api/api-keys');
+            const data = await res.json();
+
+            if (res.ok) {
+                setKeys(data.keys || []);
+                setAvailableScopes(data.availableScopes || []);
+            } else {
+                setError(data.error || 'Failed to load API keys');
+            }
+        } catch {
+            setError('Failed to load API keys');
+        }
+    }
+
+    async function handleCreateKey(e: FormEvent) {
+        e.preventDefault();
+        setCreating(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/api-keys', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: newName,
+                    scopes: newScopes,
+                    expiresInDays: newExpiresInDays ? Number(newExpiresInDays) : null,
+                    allowedIps: newAllowedIps.split('\n').map(ip => ip.trim()).filter(Boolean),
+                }),
+            });
+
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(`API key ${data.key.name} created`);
+                setRevealedKey({ name: data.key.name, key: data.apiKey });
+                setShowCreateModal(false);
+                resetForm();
+                await loadKeys();
+            } else {
+                setError(data.error || 'Failed to create API key');
+            }
+        } catch {
+            setError('Failed to create API key');
+        } finally {
+            setCreating(false);
+        }
+    }
+
+    async function handleRevokeKey(key: ApiKey) {
+        if (!confirm(`Revoke ${key.name}? Services using it will be rejected immediately.`)) {
+            return;
+        }
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch(`/api/api-keys?id=${encodeURIComponent(key.id)}`, {
+                method: 'DELETE',
+            });
+
+            if (res.ok) {
+                setSuccess(`API key ${key.name} revoked`);
+                await loadKeys();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to revoke API key');
+            }
+        } catch {
+            setError('Failed to revoke API key');
+        }
+    }
+
+    function toggleScope(scope: string, checked: boolean) {
+        setNewScopes(checked ? [...newScopes, scope] : newScopes.filter(s => s !== scope));
+    }
+
+    function resetForm() {
+        setNewName('');
+        setNewScopes([]);
+        setNewExpiresInDays('');
+        setNewAllowedIps('');
+    }
+
+    if (loading) {
+        return (
+            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
+                Loading API keys...
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {/* Page Header */}
+            <div className="gov-page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                <div>
+                    <h1 className="gov-page-title">API Keys</h1>
+                    <p className="gov-page-subtitle">Scoped keys for bots and other USGRP services</p>
+                </div>
+                <button onClick={() => setShowCreateModal(true)} className="gov-btn gov-btn-primary">
+                    + Create Key
+                </button>
+            </div>
+
+            {/* Alerts */}
+            {error && <div className="gov-alert gov-alert-error">{error}</div>}
+            {success && <div className="gov-alert gov-alert-success">{success}</div>}
+            {revealedKey && (
+                <div className="gov-alert gov-alert-warning">
+                    <strong>API key for {revealedKey.name}</strong> — copy it now, it will not be shown again.
+                    <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginTop: '0.5rem' }}>
+                        <code style={{ wordBreak: 'break-all' }}>{revealedKey.key}</code>
+                        <button onClick={() => setRevealedKey(null)} className="gov-btn gov-btn-secondary" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                            Dismiss
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Keys Table */}
+            <div className="gov-card">
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">Keys ({keys.length})</h2>
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>Name</th>
+                                    <th>Key</th>
+                                    <th>Scopes</th>
+                                    <th>Allowed IPs</th>
+                                    <th>Expires</th>
+                                    <th>Last Used</th>
+                                    <th>Status</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {keys.map((k) => {
+                                    const status = keyStatus(k);
+                                    return (
+                                        <tr key={k.id}>
+                                            <td style={{ fontWeight: 600 }}>{k.name}</td>
+                                            <td style={{ fontFamily: 'monospace', fontSize: '0.8125rem' }}>{k.prefix}…</td>
+                                            <td style={{ fontSize: '0.8125rem' }}>{k.scopes.join(' ')}</td>
+                                            <td style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                                                {k.allowedIps.length > 0 ? k.allowedIps.map(ip => <div key={ip}>{ip}</div>) : 'Any'}
+                                            </td>
+                                            <td style={{ fontSize: '0.8125rem' }}>{k.expiresAt || 'Never'}</td>
+                                            <td style={{ fontSize: '0.8125rem' }}>
+                                                {k.lastUsedAt ? `${k.lastUsedAt} (${k.lastUsedIp})` : 'Never'}
+                                            </td>
+                                            <td>
+                                                <span className={`gov-badge ${status.badge}`}>
+                                                    {status.label}
+                                                </span>
+                                            </td>
+                                            <td>
+                                                {!k.revokedAt && (
+                                                    <button onClick={() => handleRevokeKey(k)} className="gov-btn gov-btn-danger" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                                                        Revoke
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {keys.length === 0 && (
+                                    <tr>
+                                        <td colSpan={8} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            No API keys created
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Create Key Modal */}
+            {showCreateModal && (
+                <div style={{
+                    position: 'fixed',
+                    inset: 0,
+                    background: 'rgba(0, 0, 0, 0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 1000,
+                }}>
+                    <div className="gov-card" style={{ width: '100%', maxWidth: '500px', margin: '1rem' }}>
+                        <div className="gov-card-header">
+                            <h2 className="gov-card-title">Create API Key</h2>
+                        </div>
+                        <div className="gov-card-body">
+                            <form onSubmit={handleCreateKey}>
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Name *</label>
+                                    <input
+                                        type="text"
+                                        className="gov-form-input"
+                                        value={newName}
+                                        onChange={(e) => setNewName(e.target.value)}
+                                        required
+                                        placeholder="Discord Bot"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Scopes *</label>
+                                    <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+                                        {availableScopes.map(scope => (
+                                            <label key={scope} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.875rem' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={newScopes.includes(scope)}
+                                                    onChange={(e) => toggleScope(scope, e.target.checked)}
+                                                />
+                                                {scope}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Expires In (days, blank = never)</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        className="gov-form-input"
+                                        value={newExpiresInDays}
+                                        onChange={(e) => setNewExpiresInDays(e.target.value)}
+                                        placeholder="365"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Allowed IPs (one per line, blank = any)</label>
+                                    <textarea
+                                        className="gov-form-input"
+                                        rows={3}
+                                        value={newAllowedIps}
+                                        onChange={(e) => setNewAllowedIps(e.target.value)}
+                                        placeholder="203.0.113.10"
+                                    />
+                                </div>
+
+                                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+                                    <button type="button" onClick={() => { setShowCreateModal(false); resetForm(); }} className="gov-btn gov-btn-secondary">
+                                        Cancel
+                                    </button>
+                                    <button type="submit" disabled={creating || newScopes.length === 0} className="gov-btn gov-btn-primary">
+                                        {creating ? 'Creating...' : 'Create Key'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
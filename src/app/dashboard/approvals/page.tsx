@@ -26,6 +26,9 @@ const ACTION_LABELS: Record<string, { label: string; icon: string; color: string
     'USER_UNSUSPEND': { label: 'Unsuspend User', icon: '✅', color: 'success' },
     'AUTHORITY_CHANGE_ADMIN': { label: 'Change Authority', icon: '👑', color: 'info' },
     'RESET_2FA_ADMIN': { label: 'Reset 2FA', icon: '🔐', color: 'warning' },
+    'SESSION_KILL_ADMIN': { label: 'Terminate Session', icon: '🔌', color: 'warning' },
+    'SESSIONS_KILL_ALL_ADMIN': { label: 'Sign Out All Sessions', icon: '🚪', color: 'warning' },
+    'GLOBAL_SIGN_OUT': { label: 'Global Sign-Out', icon: '🚨', color: 'danger' },
 };
 
 export default function ApprovalsPage() {
@@ -1,12 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-
 const APPLICATIONS = [
     {
         name: 'USGRP Mail',
         url: 'https://mail.usgrp.xyz',
-        callbackPath: '/api/auth/callback',
         icon: '📧',
         description: 'Secure staff email and communication',
         status: 'online'
@@ -14,7 +11,6 @@ const APPLICATIONS = [
     {
         name: 'Admin Dashboard',
         url: 'https://admin.usgrp.xyz',
-        callbackPath: '/api/auth/callback',
         icon: '🏛️',
         description: 'Staff administration and management tools',
         status: 'online'
@@ -22,7 +18,6 @@ const APPLICATIONS = [
     {
         name: 'Status Portal',
         url: 'https://status.usgrp.xyz',
-        callbackPath: '/api/auth/callback',
         icon: '📊',
         description: 'System status, changelogs, and roadmap',
         status: 'online'
@@ -30,37 +25,9 @@ const APPLICATIONS = [
 ];
 
 export default function AppsPage() {
-    const [authToken, setAuthToken] = useState<string | null>(null);
-    const [loading, setLoading] = useState(true);
-
-    useEffect(() => {
-        async function getToken() {
-            try {
-                const res = await fetch('/api/auth/session');
-                if (res.ok) {
-                    const data = await res.json();
-                    if (data.authToken) {
-                        setAuthToken(data.authToken);
-                    }
-                }
-            } catch (e) {
-                console.error('Failed to get auth token:', e);
-            } finally {
-                setLoading(false);
-            }
-        }
-        getToken();
-    }, []);
-
     function handleAppClick(app: typeof APPLICATIONS[0]) {
-        if (authToken) {
-            // SSO redirect with token
-            const callbackUrl = `${app.url}${app.callbackPath}?token=${encodeURIComponent(authToken)}`;
-            window.location.href = callbackUrl;
-        } else {
-            // Fallback - just go to the app (will redirect to login)
-            window.location.href = app.url;
-        }
+        // Each service starts its own OpenID Connect flow; the active Auth session signs the user in
+        window.location.assign(app.url);
     }
 
     return (
@@ -73,8 +40,8 @@ export default function AppsPage() {
 
             {/* SSO Info */}
             <div className="gov-alert gov-alert-info">
-                <strong>Single Sign-On Enabled:</strong> Click any application below to launch with your current session.
-                You will be automatically authenticated.
+                <strong>Single Sign-On Enabled:</strong> Click any application below to launch it.
+                The application signs you in through USGRP Auth using your current session.
             </div>
 
             {/* Apps Grid */}
@@ -87,7 +54,6 @@ export default function AppsPage() {
                         role="button"
                         tabIndex={0}
                         onKeyDown={(e) => e.key === 'Enter' && handleAppClick(app)}
-                        style={{ opacity: loading ? 0.7 : 1 }}
                     >
                         <div className="gov-app-icon">{app.icon}</div>
                         <div className="gov-app-info">
@@ -114,8 +80,8 @@ export default function AppsPage() {
                         <div>
                             <h4 style={{ color: 'var(--gov-gray-dark)', margin: '0 0 0.5rem' }}>🔐 Secure Authentication</h4>
                             <p style={{ color: 'var(--gov-gray)', fontSize: '0.875rem', margin: 0 }}>
-                                Your credentials are securely transmitted using encrypted connections.
-                                Each application verifies your identity through the central Auth service.
+                                Applications never see your password or long-lived tokens. Each one verifies
+                                your identity through the central Auth service using OpenID Connect.
                             </p>
                         </div>
                         <div>
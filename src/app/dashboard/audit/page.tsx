@@ -1,165 +1,419 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { AUDIT_CATEGORIES, AUDIT_EVENTS, type AuditCategory, type AuditSeverity } from '@/lib/auditevents';
 
 interface AuditLog {
-    id: string;
-    user_id: string;
+    id: number;
+    userId: string | null;
+    actorName: string | null;
+    actorEmail: string | null;
     action: string;
-    target_user: string | null;
-    details: string | null;
-    ip_address: string | null;
-    created_at: string;
-    display_name?: string;
-    email?: string;
+    label: string;
+    category: AuditCategory;
+    severity: AuditSeverity;
+    target: string | null;
+    details: Record<string, unknown> | null;
+    ip: string | null;
+    createdAt: string;
 }
 
-const ACTION_TYPES = [
-    { key: 'ALL', label: 'All Actions' },
-    { key: 'LOGIN', label: 'Login' },
-    { key: 'LOGOUT', label: 'Logout' },
-    { key: 'SSO_ACCESS', label: 'SSO Access' },
-    { key: 'USER_CREATED', label: 'User Created' },
-    { key: 'USER_UPDATED', label: 'User Updated' },
-    { key: 'USER_DELETED', label: 'User Deleted' },
-    { key: 'PASSWORD_CHANGED', label: 'Password Changed' },
-];
+interface Filters {
+    archive: string;
+    actor: string;
+    target: string;
+    category: string;
+    action: string;
+    ip: string;
+    from: string;
+    to: string;
+    q: string;
+}
+
+interface ChainStatus {
+    valid: boolean;
+    entriesChecked: number;
+    lastCheckpoint: { id: number; lastEntryId: number; createdAt: string } | null;
+    brokenAt: { entryId: number; checkpointId?: number; reason: string } | null;
+    verifiedAt: string;
+}
+
+interface SinkStatus {
+    sink: string;
+    lastEntryId: number;
+    failures: number;
+    lastError: string | null;
+    deadLetters: number;
+}
+
+interface ArchiveSummary {
+    month: string;
+    entries: number;
+}
+
+const EMPTY_FILTERS: Filters = { archive: '', actor: '', target: '', category: '', action: '', ip: '', from: '', to: '', q: '' };
+
+const PAGE_SIZE = 100;
+
+const CATEGORY_ICONS: Record<AuditCategory, string> = {
+    auth: '🔓',
+    session: '🖥️',
+    credentials: '🔑',
+    admin: '👥',
+    oauth: '🚀',
+    system: '⚙️',
+};
+
+const SEVERITY_BADGES: Record<AuditSeverity, string> = {
+    info: 'gov-badge-blue',
+    warning: 'gov-badge-gold',
+    critical: 'gov-badge-red',
+};
+
+const ACTIONS = Object.entries(AUDIT_EVENTS) as [string, { category: AuditCategory; label: string }][];
+
+function buildQuery(active: Filters): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(active)) {
+        if (value.trim()) params.set(key, value.trim());
+    }
+    return params;
+}
 
 export default function AuditPage() {
     const [logs, setLogs] = useState<AuditLog[]>([]);
+    const [nextCursor, setNextCursor] = useState<number | null>(null);
     const [loading, setLoading] = useState(true);
-    const [filter, setFilter] = useState('ALL');
-    const [search, setSearch] = useState('');
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [error, setError] = useState('');
+    const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+    const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+    const [chain, setChain] = useState<ChainStatus | null>(null);
+    const [verifying, setVerifying] = useState(false);
+    const [sinks, setSinks] = useState<SinkStatus[]>([]);
+    const [archives, setArchives] = useState<ArchiveSummary[]>([]);
 
-    useEffect(() => {
-        loadLogs();
+    const fetchPage = useCallback(async (active: Filters, cursor: number | null) => {
+        const params = buildQuery(active);
+        params.set('limit', String(PAGE_SIZE));
+        if (cursor) params.set('cursor', String(cursor));
+
+        const res = await fetch(`/api/audit?${params}`);
+        const data = await res.json();
+        if (!res.ok) {
+            throw new Error(data.error || 'Failed to load audit logs');
+        }
+        return data as { logs: AuditLog[]; nextCursor: number | null };
     }, []);
 
-    async function loadLogs() {
+    const loadLogs = useCallback(async (active: Filters) => {
+        setLoading(true);
+        setError('');
+        try {
+            const data = await fetchPage(active, null);
+            setLogs(data.logs);
+            setNextCursor(data.nextCursor);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load audit logs');
+        } finally {
+            setLoading(false);
+        }
+    }, [fetchPage]);
+
+    useEffect(() => {
+        loadLogs(applied);
+    }, [applied, loadLogs]);
+
+    const verifyChain = useCallback(async () => {
+        setVerifying(true);
         try {
-            const res = await fetch('/api/audit?limit=100');
+            const res = await fetch('/api/audit/verify');
             if (res.ok) {
-                const data = await res.json();
-                setLogs(data.logs || []);
+                setChain(await res.json());
             }
         } catch (e) {
-            console.error('Failed to load audit logs:', e);
+            console.error('Failed to verify audit chain:', e);
         } finally {
-            setLoading(false);
+            setVerifying(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        verifyChain();
+
+        fetch('/api/audit/forwarding')
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setSinks(data?.sinks || []))
+            .catch(e => console.error('Failed to load forwarding status:', e));
+
+        fetch('/api/audit/archives')
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setArchives(data?.archives || []))
+            .catch(e => console.error('Failed to load audit archives:', e));
+    }, [verifyChain]);
+
+    async function loadMore() {
+        if (!nextCursor) return;
+        setLoadingMore(true);
+        try {
+            const data = await fetchPage(applied, nextCursor);
+            setLogs(prev => [...prev, ...data.logs]);
+            setNextCursor(data.nextCursor);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load audit logs');
+        } finally {
+            setLoadingMore(false);
         }
     }
 
-    function getActionIcon(action: string): string {
-        const icons: Record<string, string> = {
-            'LOGIN': '🔓',
-            'LOGOUT': '🔒',
-            'SSO_ACCESS': '🚀',
-            'USER_CREATED': '➕',
-            'USER_UPDATED': '✏️',
-            'USER_DELETED': '🗑️',
-            'PASSWORD_CHANGED': '🔑',
-        };
-        return icons[action] || '📌';
+    function updateFilter(key: keyof Filters, value: string) {
+        setFilters(prev => ({
+            ...prev,
+            [key]: value,
+            // Changing category clears an action from another category
+            ...(key === 'category' ? { action: '' } : {}),
+        }));
     }
 
-    function getActionBadgeClass(action: string): string {
-        if (action.includes('DELETE') || action === 'LOGOUT') return 'gov-badge-red';
-        if (action.includes('CREATE') || action === 'LOGIN') return 'gov-badge-green';
-        if (action === 'SSO_ACCESS') return 'gov-badge-blue';
-        return 'gov-badge-gold';
+    function applyFilters(e: React.FormEvent) {
+        e.preventDefault();
+        setApplied({ ...filters });
+    }
+
+    function resetFilters() {
+        setFilters(EMPTY_FILTERS);
+        setApplied(EMPTY_FILTERS);
     }
 
     function formatDate(dateStr: string): string {
-        const date = new Date(dateStr);
+        // SQLite timestamps are UTC without a zone
+        const date = new Date(dateStr.includes('T') ? dateStr : `${dateStr.replace(' ', 'T')}Z`);
         return date.toLocaleString();
     }
 
-    const filteredLogs = logs.filter((log) => {
-        if (filter !== 'ALL' && log.action !== filter) return false;
-        if (search) {
-            const searchLower = search.toLowerCase();
-            return (
-                log.email?.toLowerCase().includes(searchLower) ||
-                log.display_name?.toLowerCase().includes(searchLower) ||
-                log.action.toLowerCase().includes(searchLower) ||
-                log.target_user?.toLowerCase().includes(searchLower) ||
-                log.details?.toLowerCase().includes(searchLower)
-            );
-        }
-        return true;
-    });
+    function formatDetails(details: Record<string, unknown> | null): string {
+        if (!details) return '';
+        return Object.entries(details)
+            .filter(([, value]) => value !== null && value !== undefined && value !== '')
+            .map(([key, value]) => {
+                const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+                return key === 'message' ? text : `${key}: ${text}`;
+            })
+            .join(' · ');
+    }
 
-    if (loading) {
-        return (
-            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
-                Loading audit logs...
-            </div>
-        );
+    function exportUrl(format: 'csv' | 'jsonl'): string {
+        const params = buildQuery(applied);
+        params.set('format', format);
+        return `/api/audit?${params}`;
     }
 
+    const failingSinks = sinks.filter(s => s.failures > 0 || s.deadLetters > 0);
+
+    const actionOptions = ACTIONS.filter(([, info]) => !filters.category || info.category === filters.category);
+
     return (
         <div>
             {/* Page Header */}
             <div className="gov-page-header">
                 <h1 className="gov-page-title">Audit Log</h1>
                 <p className="gov-page-subtitle">View security events and user activities</p>
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginTop: '0.75rem' }}>
+                    {chain ? (
+                        <span
+                            className={`gov-badge ${chain.valid ? 'gov-badge-green' : 'gov-badge-red'}`}
+                            title={chain.brokenAt?.reason || `Verified ${chain.entriesChecked} entries at ${formatDate(chain.verifiedAt)}`}
+                        >
+                            {chain.valid
+                                ? `✓ Chain intact · ${chain.entriesChecked} entries`
+                                : `✗ Chain broken at entry #${chain.brokenAt?.entryId}`}
+                        </span>
+                    ) : (
+                        <span className="gov-badge gov-badge-gold">{verifying ? 'Verifying chain...' : 'Chain not verified'}</span>
+                    )}
+                    {chain?.lastCheckpoint && (
+                        <span style={{ fontSize: '0.75rem', color: 'var(--gov-gray)' }}>
+                            Last signed checkpoint {formatDate(chain.lastCheckpoint.createdAt)} (entry #{chain.lastCheckpoint.lastEntryId})
+                        </span>
+                    )}
+                    <button
+                        onClick={verifyChain}
+                        className="gov-btn gov-btn-secondary"
+                        style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}
+                        disabled={verifying}
+                    >
+                        {verifying ? 'Verifying...' : 'Verify now'}
+                    </button>
+                </div>
+                {chain?.brokenAt && (
+                    <div className="gov-alert gov-alert-error" style={{ marginTop: '0.75rem' }}>
+                        Entry #{chain.brokenAt.entryId}
+                        {chain.brokenAt.checkpointId ? ` (checkpoint #${chain.brokenAt.checkpointId})` : ''}: {chain.brokenAt.reason}.
+                        Entries from this point on can&apos;t be trusted.
+                    </div>
+                )}
             </div>
 
             {/* Filters */}
             <div className="gov-card">
-                <div className="gov-card-body" style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+                <form onSubmit={applyFilters} className="gov-card-body" style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
                     <div className="gov-form-group" style={{ margin: 0, minWidth: '200px' }}>
-                        <label className="gov-form-label">Filter by Action</label>
+                        <label className="gov-form-label">Source</label>
                         <select
                             className="gov-form-input"
-                            value={filter}
-                            onChange={(e) => setFilter(e.target.value)}
+                            value={filters.archive}
+                            onChange={(e) => updateFilter('archive', e.target.value)}
                         >
-                            {ACTION_TYPES.map((type) => (
-                                <option key={type.key} value={type.key}>{type.label}</option>
+                            <option value="">Live log</option>
+                            {archives.map((archive) => (
+                                <option key={archive.month} value={archive.month}>
+                                    Archive {archive.month} ({archive.entries.toLocaleString()} entries)
+                                </option>
                             ))}
                         </select>
                     </div>
                     <div className="gov-form-group" style={{ margin: 0, flex: 1, minWidth: '250px' }}>
-                        <label className="gov-form-label">Search</label>
+                        <label className="gov-form-label">Search Details</label>
+                        <input
+                            type="text"
+                            className="gov-form-input"
+                            placeholder="Words in the event details..."
+                            value={filters.q}
+                            onChange={(e) => updateFilter('q', e.target.value)}
+                        />
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '180px' }}>
+                        <label className="gov-form-label">Actor</label>
+                        <input
+                            type="text"
+                            className="gov-form-input"
+                            placeholder="User ID, name or email"
+                            value={filters.actor}
+                            onChange={(e) => updateFilter('actor', e.target.value)}
+                        />
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '180px' }}>
+                        <label className="gov-form-label">Target</label>
+                        <input
+                            type="text"
+                            className="gov-form-input"
+                            placeholder="Exact target"
+                            value={filters.target}
+                            onChange={(e) => updateFilter('target', e.target.value)}
+                        />
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '180px' }}>
+                        <label className="gov-form-label">Category</label>
+                        <select
+                            className="gov-form-input"
+                            value={filters.category}
+                            onChange={(e) => updateFilter('category', e.target.value)}
+                        >
+                            <option value="">All Categories</option>
+                            {Object.entries(AUDIT_CATEGORIES).map(([key, label]) => (
+                                <option key={key} value={key}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '220px' }}>
+                        <label className="gov-form-label">Action</label>
+                        <select
+                            className="gov-form-input"
+                            value={filters.action}
+                            onChange={(e) => updateFilter('action', e.target.value)}
+                        >
+                            <option value="">All Actions</option>
+                            {actionOptions.map(([key, info]) => (
+                                <option key={key} value={key}>{info.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '150px' }}>
+                        <label className="gov-form-label">IP Address</label>
                         <input
                             type="text"
                             className="gov-form-input"
-                            placeholder="Search by user, email, or details..."
-                            value={search}
-                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="e.g. 203.0.113."
+                            value={filters.ip}
+                            onChange={(e) => updateFilter('ip', e.target.value)}
                         />
                     </div>
-                    <button onClick={loadLogs} className="gov-btn gov-btn-secondary">
+                    <div className="gov-form-group" style={{ margin: 0 }}>
+                        <label className="gov-form-label">From</label>
+                        <input
+                            type="date"
+                            className="gov-form-input"
+                            value={filters.from}
+                            onChange={(e) => updateFilter('from', e.target.value)}
+                        />
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0 }}>
+                        <label className="gov-form-label">To</label>
+                        <input
+                            type="date"
+                            className="gov-form-input"
+                            value={filters.to}
+                            onChange={(e) => updateFilter('to', e.target.value)}
+                        />
+                    </div>
+                    <button type="submit" className="gov-btn gov-btn-primary">
+                        Apply
+                    </button>
+                    <button type="button" onClick={resetFilters} className="gov-btn gov-btn-secondary">
+                        Reset
+                    </button>
+                    <button type="button" onClick={() => loadLogs(applied)} className="gov-btn gov-btn-secondary">
                         ↻ Refresh
                     </button>
-                </div>
+                    <a href={exportUrl('csv')} className="gov-btn gov-btn-secondary" title="Download every entry matching the applied filters">
+                        ⬇ CSV
+                    </a>
+                    <a href={exportUrl('jsonl')} className="gov-btn gov-btn-secondary" title="Download every entry matching the applied filters">
+                        ⬇ JSONL
+                    </a>
+                </form>
             </div>
 
+            {failingSinks.map((sink) => (
+                <div key={sink.sink} className="gov-alert gov-alert-warning" style={{ marginBottom: '1rem' }}>
+                    SIEM forwarding to <strong>{sink.sink}</strong> is behind
+                    {sink.failures > 0 && ` - ${sink.failures} failed attempts${sink.lastError ? ` (${sink.lastError})` : ''}`}
+                    {sink.deadLetters > 0 && ` - ${sink.deadLetters} events waiting to be resent`}
+                </div>
+            ))}
+
+            {error && (
+                <div className="gov-alert gov-alert-error" style={{ marginBottom: '1rem' }}>
+                    {error}
+                </div>
+            )}
+
             {/* Stats */}
             <div className="gov-stats-grid">
                 <div className="gov-stat-card">
-                    <div className="gov-stat-label">Total Events</div>
-                    <div className="gov-stat-value">{logs.length}</div>
+                    <div className="gov-stat-label">Events Loaded</div>
+                    <div className="gov-stat-value">{logs.length}{nextCursor ? '+' : ''}</div>
                 </div>
                 <div className="gov-stat-card green">
-                    <div className="gov-stat-label">Logins</div>
-                    <div className="gov-stat-value">{logs.filter(l => l.action === 'LOGIN').length}</div>
-                </div>
-                <div className="gov-stat-card">
-                    <div className="gov-stat-label">SSO Accesses</div>
-                    <div className="gov-stat-value">{logs.filter(l => l.action === 'SSO_ACCESS').length}</div>
+                    <div className="gov-stat-label">Sign-ins</div>
+                    <div className="gov-stat-value">{logs.filter(l => l.action === 'LOGIN_SUCCESS').length}</div>
                 </div>
                 <div className="gov-stat-card gold">
-                    <div className="gov-stat-label">User Changes</div>
-                    <div className="gov-stat-value">{logs.filter(l => l.action.includes('USER')).length}</div>
+                    <div className="gov-stat-label">Warnings</div>
+                    <div className="gov-stat-value">{logs.filter(l => l.severity === 'warning').length}</div>
+                </div>
+                <div className="gov-stat-card red">
+                    <div className="gov-stat-label">Critical</div>
+                    <div className="gov-stat-value">{logs.filter(l => l.severity === 'critical').length}</div>
                 </div>
             </div>
 
             {/* Logs Table */}
             <div className="gov-card">
                 <div className="gov-card-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                    <h2 className="gov-card-title">Event Log ({filteredLogs.length} entries)</h2>
+                    <h2 className="gov-card-title">
+                        {applied.archive ? `Archive ${applied.archive}` : 'Event Log'} ({logs.length}{nextCursor ? '+' : ''} entries)
+                    </h2>
                 </div>
                 <div className="gov-card-body" style={{ padding: 0 }}>
                     <div className="gov-table-container">
@@ -167,37 +421,47 @@ export default function AuditPage() {
                             <thead>
                                 <tr>
                                     <th>Time</th>
-                                    <th>User</th>
+                                    <th>Actor</th>
                                     <th>Action</th>
                                     <th>Target / Details</th>
                                     <th>IP Address</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {filteredLogs.map((log) => (
+                                {loading ? (
+                                    <tr>
+                                        <td colSpan={5} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            Loading audit logs...
+                                        </td>
+                                    </tr>
+                                ) : logs.map((log) => (
                                     <tr key={log.id}>
                                         <td style={{ fontSize: '0.8125rem', whiteSpace: 'nowrap' }}>
-                                            {formatDate(log.created_at)}
+                                            {formatDate(log.createdAt)}
                                         </td>
                                         <td>
-                                            <div style={{ fontWeight: 600 }}>{log.display_name || 'Unknown'}</div>
-                                            <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)' }}>{log.email}</div>
+                                            <div style={{ fontWeight: 600 }}>{log.actorName || (log.userId ? 'Deleted user' : 'System')}</div>
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)' }}>{log.actorEmail || log.userId}</div>
                                         </td>
                                         <td>
-                                            <span style={{ marginRight: '0.5rem' }}>{getActionIcon(log.action)}</span>
-                                            <span className={`gov-badge ${getActionBadgeClass(log.action)}`}>
-                                                {log.action.replace(/_/g, ' ')}
+                                            <span style={{ marginRight: '0.5rem' }} title={AUDIT_CATEGORIES[log.category]}>
+                                                {CATEGORY_ICONS[log.category]}
+                                            </span>
+                                            <span className={`gov-badge ${SEVERITY_BADGES[log.severity]}`} title={log.action}>
+                                                {log.label}
                                             </span>
                                         </td>
                                         <td style={{ color: 'var(--gov-gray)', fontSize: '0.875rem' }}>
-                                            {log.target_user || log.details || '-'}
+                                            {log.target && <div style={{ color: 'var(--gov-blue-dark)' }}>{log.target}</div>}
+                                            {log.details && <div style={{ wordBreak: 'break-word' }}>{formatDetails(log.details)}</div>}
+                                            {!log.target && !log.details && '-'}
                                         </td>
                                         <td style={{ fontFamily: 'monospace', fontSize: '0.8125rem' }}>
-                                            {log.ip_address || '-'}
+                                            {log.ip || '-'}
                                         </td>
                                     </tr>
                                 ))}
-                                {filteredLogs.length === 0 && (
+                                {!loading && logs.length === 0 && (
                                     <tr>
                                         <td colSpan={5} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
                                             No audit logs found
@@ -208,6 +472,13 @@ export default function AuditPage() {
                         </table>
                     </div>
                 </div>
+                {nextCursor && !loading && (
+                    <div className="gov-card-body" style={{ textAlign: 'center' }}>
+                        <button onClick={loadMore} className="gov-btn gov-btn-secondary" disabled={loadingMore}>
+                            {loadingMore ? 'Loading...' : 'Load more'}
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,392 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface OAuthClient {
+    clientId: string;
+    name: string;
+    confidential: boolean;
+    redirectUris: string[];
+    scopes: string[];
+    enabled: boolean;
+    createdAt: string;
+}
+
+const AVAILABLE_SCOPES = ['openid', 'profile', 'email', 'roles'];
+
+export default function OAuthClientsPage() {
+    const router = useRouter();
+    const [clients, setClients] = useState<OAuthClient[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+    const [revealedSecret, setRevealedSecret] = useState<{ clientId: string; secret: string } | null>(null);
+
+    // Create form state
+    const [newClientId, setNewClientId] = useState('');
+    const [newName, setNewName] = useState('');
+    const [newRedirectUris, setNewRedirectUris] = useState('');
+    const [newScopes, setNewScopes] = useState<string[]>(['openid', 'profile', 'email']);
+    const [newConfidential, setNewConfidential] = useState(true);
+
+    useEffect(() => {
+        checkAuthAndLoad();
+    }, []);
+
+    async function checkAuthAndLoad() {
+        try {
+            const sessionRes = await fetch('/api/auth/session');
+            const sessionData = await sessionRes.json();
+
+            if (!sessionData.authenticated || sessionData.user.authorityLevel < 5) {
+                router.push('/dashboard');
+                return;
+            }
+
+            await loadClients();
+        } catch (e) {
+            console.error('Auth check failed:', e);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadClients() {
+        try {
+            const res = await fetch('/api/oauth/clients');
+            const data = await res.json();
+
+            if (res.ok) {
+                setClients(data.clients || []);
+            } else {
+                setError(data.error || 'Failed to load clients');
+            }
+        } catch {
+            setError('Failed to load clients');
+        }
+    }
+
+    async function handleCreateClient(e: FormEvent) {
+        e.preventDefault();
+        setCreating(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/oauth/clients', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    clientId: newClientId || undefined,
+                    name: newName,
+                    redirectUris: newRedirectUris.split('\n').map(u => u.trim()).filter(Boolean),
+                    scopes: newScopes,
+                    confidential: newConfidential,
+                }),
+            });
+
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(`Client ${data.client.name} registered`);
+                if (data.clientSecret) {
+                    setRevealedSecret({ clientId: data.client.clientId, secret: data.clientSecret });
+                }
+                setShowCreateModal(false);
+                resetForm();
+                await loadClients();
+            } else {
+                setError(data.error || 'Failed to register client');
+            }
+        } catch {
+            setError('Failed to register client');
+        } finally {
+            setCreating(false);
+        }
+    }
+
+    async function handleToggleClient(client: OAuthClient) {
+        setError('');
+
+        try {
+            const res = await fetch('/api/oauth/clients', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ clientId: client.clientId, enabled: !client.enabled }),
+            });
+
+            if (res.ok) {
+                await loadClients();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to update client');
+            }
+        } catch {
+            setError('Failed to update client');
+        }
+    }
+
+    async function handleRotateSecret(client: OAuthClient) {
+        if (!confirm(`Rotate the secret for ${client.name}? The old secret stops working immediately.`)) {
+            return;
+        }
+
+        setError('');
+
+        try {
+            const res = await fetch('/api/oauth/clients', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ clientId: client.clientId, rotateSecret: true }),
+            });
+
+            const data = await res.json();
+
+            if (res.ok && data.clientSecret) {
+                setRevealedSecret({ clientId: client.clientId, secret: data.clientSecret });
+            } else {
+                setError(data.error || 'Failed to rotate secret');
+            }
+        } catch {
+            setError('Failed to rotate secret');
+        }
+    }
+
+    async function handleDeleteClient(client: OAuthClient) {
+        if (!confirm(`Delete ${client.name}? The service will no longer be able to sign users in.`)) {
+            return;
+        }
+
+        try {
+            const res = await fetch(`/api/oauth/clients?clientId=${encodeURIComponent(client.clientId)}`, {
+                method: 'DELETE',
+            });
+
+            if (res.ok) {
+                setSuccess(`Client ${client.name} deleted`);
+                await loadClients();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to delete client');
+            }
+        } catch {
+            setError('Failed to delete client');
+        }
+    }
+
+    function toggleScope(scope: string, checked: boolean) {
+        setNewScopes(checked ? [...newScopes, scope] : newScopes.filter(s => s !== scope));
+    }
+
+    function resetForm() {
+        setNewClientId('');
+        setNewName('');
+        setNewRedirectUris('');
+        setNewScopes(['openid', 'profile', 'email']);
+        setNewConfidential(true);
+    }
+
+    if (loading) {
+        return (
+            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
+                Loading clients...
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {/* Page Header */}
+            <div className="gov-page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                <div>
+                    <h1 className="gov-page-title">OAuth Clients</h1>
+                    <p className="gov-page-subtitle">Services that sign users in through OpenID Connect</p>
+                </div>
+                <button onClick={() => setShowCreateModal(true)} className="gov-btn gov-btn-primary">
+                    + Register Client
+                </button>
+            </div>
+
+            {/* Alerts */}
+            {error && <div className="gov-alert gov-alert-error">{error}</div>}
+            {success && <div className="gov-alert gov-alert-success">{success}</div>}
+            {revealedSecret && (
+                <div className="gov-alert gov-alert-warning">
+                    <strong>Client secret for {revealedSecret.clientId}</strong> — copy it now, it will not be shown again.
+                    <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginTop: '0.5rem' }}>
+                        <code style={{ wordBreak: 'break-all' }}>{revealedSecret.secret}</code>
+                        <button onClick={() => setRevealedSecret(null)} className="gov-btn gov-btn-secondary" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                            Dismiss
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Clients Table */}
+            <div className="gov-card">
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">Registered Clients ({clients.length})</h2>
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>Name</th>
+                                    <th>Client ID</th>
+                                    <th>Redirect URIs</th>
+                                    <th>Scopes</th>
+                                    <th>Type</th>
+                                    <th>Status</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {clients.map((c) => (
+                                    <tr key={c.clientId}>
+                                        <td style={{ fontWeight: 600 }}>{c.name}</td>
+                                        <td style={{ fontFamily: 'monospace', fontSize: '0.8125rem' }}>{c.clientId}</td>
+                                        <td style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                                            {c.redirectUris.map(uri => <div key={uri}>{uri}</div>)}
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>{c.scopes.join(' ')}</td>
+                                        <td>
+                                            <span className="gov-badge gov-badge-blue">
+                                                {c.confidential ? 'Confidential' : 'Public'}
+                                            </span>
+                                        </td>
+                                        <td>
+                                            <span className={`gov-badge ${c.enabled ? 'gov-badge-green' : 'gov-badge-red'}`}>
+                                                {c.enabled ? 'Enabled' : 'Disabled'}
+                                            </span>
+                                        </td>
+                                        <td>
+                                            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                                <button onClick={() => handleToggleClient(c)} className="gov-btn gov-btn-secondary" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                                                    {c.enabled ? 'Disable' : 'Enable'}
+                                                </button>
+                                                {c.confidential && (
+                                                    <button onClick={() => handleRotateSecret(c)} className="gov-btn gov-btn-secondary" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                                                        Rotate Secret
+                                                    </button>
+                                                )}
+                                                <button onClick={() => handleDeleteClient(c)} className="gov-btn gov-btn-danger" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {clients.length === 0 && (
+                                    <tr>
+                                        <td colSpan={7} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            No clients registered
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Register Client Modal */}
+            {showCreateModal && (
+                <div style={{
+                    position: 'fixed',
+                    inset: 0,
+                    background: 'rgba(0, 0, 0, 0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 1000,
+                }}>
+                    <div className="gov-card" style={{ width: '100%', maxWidth: '500px', margin: '1rem' }}>
+                        <div className="gov-card-header">
+                            <h2 className="gov-card-title">Register OAuth Client</h2>
+                        </div>
+                        <div className="gov-card-body">
+                            <form onSubmit={handleCreateClient}>
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Name *</label>
+                                    <input
+                                        type="text"
+                                        className="gov-form-input"
+                                        value={newName}
+                                        onChange={(e) => setNewName(e.target.value)}
+                                        required
+                                        placeholder="USGRP Mail"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Client ID (optional)</label>
+                                    <input
+                                        type="text"
+                                        className="gov-form-input"
+                                        value={newClientId}
+                                        onChange={(e) => setNewClientId(e.target.value)}
+                                        placeholder="usgrp-mail"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Redirect URIs * (one per line)</label>
+                                    <textarea
+                                        className="gov-form-input"
+                                        rows={3}
+                                        value={newRedirectUris}
+                                        onChange={(e) => setNewRedirectUris(e.target.value)}
+                                        required
+                                        placeholder="https://mail.usgrp.xyz/api/auth/callback"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Allowed Scopes</label>
+                                    <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+                                        {AVAILABLE_SCOPES.map(scope => (
+                                            <label key={scope} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.875rem' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={newScopes.includes(scope)}
+                                                    disabled={scope === 'openid'}
+                                                    onChange={(e) => toggleScope(scope, e.target.checked)}
+                                                />
+                                                {scope}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="gov-form-group" style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={newConfidential}
+                                        onChange={(e) => setNewConfidential(e.target.checked)}
+                                        id="confidential"
+                                    />
+                                    <label htmlFor="confidential" style={{ color: 'var(--gov-gray-dark)', fontSize: '0.875rem', margin: 0 }}>
+                                        Confidential client (server-side app with a client secret)
+                                    </label>
+                                </div>
+
+                                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+                                    <button type="button" onClick={() => { setShowCreateModal(false); resetForm(); }} className="gov-btn gov-btn-secondary">
+                                        Cancel
+                                    </button>
+                                    <button type="submit" disabled={creating} className="gov-btn gov-btn-primary">
+                                        {creating ? 'Registering...' : 'Register Client'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
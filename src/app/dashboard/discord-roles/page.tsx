@@ -0,0 +1,436 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface RoleMapping {
+    discordRoleId: string;
+    name: string;
+    authorityLevel: number | null;
+    permissions: string[];
+    updatedAt: string;
+}
+
+interface SyncState {
+    authorityLevel: number;
+    roles: string[];
+    permissions: string[];
+}
+
+interface Drift {
+    userId: string;
+    email: string;
+    discordId: string;
+    from: SyncState;
+    to: SyncState;
+    approvalRequired: boolean;
+}
+
+const AUTHORITY_NAMES: Record<number, string> = {
+    0: 'User',
+    1: 'Moderator',
+    2: 'Senior Mod',
+    3: 'Admin',
+    4: 'HR',
+    5: 'Superuser',
+    6: 'Bot Developer',
+};
+
+export default function DiscordRolesPage() {
+    const router = useRouter();
+    const [mappings, setMappings] = useState<RoleMapping[]>([]);
+    const [availablePermissions, setAvailablePermissions] = useState<string[]>([]);
+    const [maxLevel, setMaxLevel] = useState(4);
+    const [drift, setDrift] = useState<Drift[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [applying, setApplying] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    // Mapping form state
+    const [formRoleId, setFormRoleId] = useState('');
+    const [formName, setFormName] = useState('');
+    const [formLevel, setFormLevel] = useState('');
+    const [formPermissions, setFormPermissions] = useState<string[]>([]);
+
+    useEffect(() => {
+        checkAuthAndLoad();
+    }, []);
+
+    async function checkAuthAndLoad() {
+        try {
+            const sessionRes = await fetch('/api/auth/session');
+            const sessionData = await sessionRes.json();
+
+            if (!sessionData.authenticated || sessionData.user.authorityLevel < 5) {
+                router.push('/dashboard');
+                return;
+            }
+
+            await Promise.all([loadMappings(), loadDrift()]);
+        } catch (e) {
+            console.error('Auth check failed:', e);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadMappings() {
+        try {
+            const res = await fetch('/api/discord/roles');
+            const data = await res.json();
+
+            if (res.ok) {
+                setMappings(data.mappings || []);
+                setAvailablePermissions(data.availablePermissions || []);
+                setMaxLevel(data.maxAuthorityLevel);
+            } else {
+                setError(data.error || 'Failed to load role mappings');
+            }
+        } catch {
+            setError('Failed to load role mappings');
+        }
+    }
+
+    async function loadDrift() {
+        try {
+            const res = await fetch('/api/discord/reconcile');
+            const data = await res.json();
+
+            if (res.ok) {
+                setDrift(data.drift || []);
+            } else {
+                setError(data.error || 'Failed to load drift report');
+            }
+        } catch {
+            setError('Failed to load drift report');
+        }
+    }
+
+    function openModal(mapping?: RoleMapping) {
+        setFormRoleId(mapping?.discordRoleId || '');
+        setFormName(mapping?.name || '');
+        setFormLevel(mapping?.authorityLevel !== null && mapping?.authorityLevel !== undefined ? String(mapping.authorityLevel) : '');
+        setFormPermissions(mapping?.permissions || []);
+        setShowModal(true);
+    }
+
+    async function handleSave(e: FormEvent) {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/discord/roles', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    discordRoleId: formRoleId.trim(),
+                    name: formName,
+                    authorityLevel: formLevel === '' ? null : Number(formLevel),
+                    permissions: formPermissions,
+                }),
+            });
+
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(`Mapping for ${formName} saved`);
+                setShowModal(false);
+                await Promise.all([loadMappings(), loadDrift()]);
+            } else {
+                setError(data.error || 'Failed to save mapping');
+            }
+        } catch {
+            setError('Failed to save mapping');
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function handleDelete(mapping: RoleMapping) {
+        if (!confirm(`Remove the mapping for ${mapping.name}? Members keep their current access until the next sync.`)) {
+            return;
+        }
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch(`/api/discord/roles?discordRoleId=${encodeURIComponent(mapping.discordRoleId)}`, {
+                method: 'DELETE',
+            });
+
+            if (res.ok) {
+                setSuccess(`Mapping for ${mapping.name} removed`);
+                await Promise.all([loadMappings(), loadDrift()]);
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to remove mapping');
+            }
+        } catch {
+            setError('Failed to remove mapping');
+        }
+    }
+
+    async function handleApplyDrift() {
+        if (!confirm(`Apply Discord roles to ${drift.length} users?`)) {
+            return;
+        }
+
+        setApplying(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/discord/reconcile', { method: 'POST' });
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(`Updated ${data.applied.length} users`);
+                await loadDrift();
+            } else {
+                setError(data.error || 'Failed to apply drift');
+            }
+        } catch {
+            setError('Failed to apply drift');
+        } finally {
+            setApplying(false);
+        }
+    }
+
+    function togglePermission(permission: string, checked: boolean) {
+        setFormPermissions(checked ? [...formPermissions, permission] : formPermissions.filter(p => p !== permission));
+    }
+
+    if (loading) {
+        return (
+            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
+                Loading Discord roles...
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {/* Page Header */}
+            <div className="gov-page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                <div>
+                    <h1 className="gov-page-title">Discord Roles</h1>
+                    <p className="gov-page-subtitle">Map Discord staff roles to authority levels and permissions</p>
+                </div>
+                <button onClick={() => openModal()} className="gov-btn gov-btn-primary">
+                    + Add Mapping
+                </button>
+            </div>
+
+            {/* Alerts */}
+            {error && <div className="gov-alert gov-alert-error">{error}</div>}
+            {success && <div className="gov-alert gov-alert-success">{success}</div>}
+
+            <div className="gov-alert gov-alert-info">
+                The bot pushes member roles to Auth. A member gets the highest mapped level among their roles,
+                and drops to User when the last of them is removed; accounts above {AUTHORITY_NAMES[maxLevel]} are
+                never changed by sync.
+            </div>
+
+            {/* Mappings Table */}
+            <div className="gov-card">
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">Role Mappings ({mappings.length})</h2>
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>Role</th>
+                                    <th>Discord Role ID</th>
+                                    <th>Authority Level</th>
+                                    <th>Permissions</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {mappings.map((m) => (
+                                    <tr key={m.discordRoleId}>
+                                        <td style={{ fontWeight: 600 }}>{m.name}</td>
+                                        <td style={{ fontFamily: 'monospace', fontSize: '0.8125rem' }}>{m.discordRoleId}</td>
+                                        <td>
+                                            {m.authorityLevel !== null ? (
+                                                <span className="gov-badge gov-badge-blue">{AUTHORITY_NAMES[m.authorityLevel]}</span>
+                                            ) : '—'}
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>{m.permissions.join(' ') || '—'}</td>
+                                        <td>
+                                            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                                <button onClick={() => openModal(m)} className="gov-btn gov-btn-secondary" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                                                    Edit
+                                                </button>
+                                                <button onClick={() => handleDelete(m)} className="gov-btn gov-btn-danger" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                                                    Remove
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {mappings.length === 0 && (
+                                    <tr>
+                                        <td colSpan={5} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            No Discord roles mapped
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Drift Report */}
+            <div className="gov-card">
+                <div className="gov-card-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <h2 className="gov-card-title">Drift ({drift.length})</h2>
+                    {drift.length > 0 && (
+                        <button onClick={handleApplyDrift} disabled={applying} className="gov-btn gov-btn-primary">
+                            {applying ? 'Applying...' : 'Apply All'}
+                        </button>
+                    )}
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>User</th>
+                                    <th>Authority Level</th>
+                                    <th>Roles</th>
+                                    <th>Permissions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {drift.map((d) => (
+                                    <tr key={d.userId}>
+                                        <td>
+                                            <div style={{ fontWeight: 600 }}>{d.email}</div>
+                                            <div style={{ fontFamily: 'monospace', fontSize: '0.75rem', color: 'var(--gov-gray)' }}>{d.discordId}</div>
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>
+                                            {AUTHORITY_NAMES[d.from.authorityLevel]} → {AUTHORITY_NAMES[d.to.authorityLevel]}
+                                            {d.approvalRequired && (
+                                                <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)' }}>Needs approval</div>
+                                            )}
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>
+                                            {d.from.roles.join(', ') || '—'} → {d.to.roles.join(', ') || '—'}
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>
+                                            {d.from.permissions.join(' ') || '—'} → {d.to.permissions.join(' ') || '—'}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {drift.length === 0 && (
+                                    <tr>
+                                        <td colSpan={4} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            Every linked account matches its Discord roles
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Mapping Modal */}
+            {showModal && (
+                <div style={{
+                    position: 'fixed',
+                    inset: 0,
+                    background: 'rgba(0, 0, 0, 0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 1000,
+                }}>
+                    <div className="gov-card" style={{ width: '100%', maxWidth: '500px', margin: '1rem' }}>
+                        <div className="gov-card-header">
+                            <h2 className="gov-card-title">Discord Role Mapping</h2>
+                        </div>
+                        <div className="gov-card-body">
+                            <form onSubmit={handleSave}>
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Discord Role ID *</label>
+                                    <input
+                                        type="text"
+                                        className="gov-form-input"
+                                        value={formRoleId}
+                                        onChange={(e) => setFormRoleId(e.target.value)}
+                                        required
+                                        placeholder="123456789012345678"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Role Name *</label>
+                                    <input
+                                        type="text"
+                                        className="gov-form-input"
+                                        value={formName}
+                                        onChange={(e) => setFormName(e.target.value)}
+                                        required
+                                        placeholder="moderator"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Authority Level</label>
+                                    <select
+                                        className="gov-form-input"
+                                        value={formLevel}
+                                        onChange={(e) => setFormLevel(e.target.value)}
+                                    >
+                                        <option value="">None (permissions only)</option>
+                                        {Object.entries(AUTHORITY_NAMES)
+                                            .filter(([level]) => Number(level) <= maxLevel)
+                                            .map(([level, name]) => (
+                                                <option key={level} value={level}>{name}</option>
+                                            ))}
+                                    </select>
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Permissions</label>
+                                    <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+                                        {availablePermissions.map(permission => (
+                                            <label key={permission} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', fontSize: '0.8125rem' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={formPermissions.includes(permission)}
+                                                    onChange={(e) => togglePermission(permission, e.target.checked)}
+                                                />
+                                                {permission}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+                                    <button type="button" onClick={() => setShowModal(false)} className="gov-btn gov-btn-secondary">
+                                        Cancel
+                                    </button>
+                                    <button type="submit" disabled={saving} className="gov-btn gov-btn-primary">
+                                        {saving ? 'Saving...' : 'Save Mapping'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface SigningKey {
+    kid: string;
+    alg: string;
+    status: 'active' | 'previous' | 'retired';
+    createdAt: string;
+    rotatedAt: string | null;
+    retiredAt: string | null;
+    retiredReason: string | null;
+}
+
+const STATUS_BADGES: Record<SigningKey['status'], string> = {
+    active: 'gov-badge-green',
+    previous: 'gov-badge-blue',
+    retired: 'gov-badge-red',
+};
+
+export default function SigningKeysPage() {
+    const router = useRouter();
+    const [keys, setKeys] = useState<SigningKey[]>([]);
+    const [settings, setSettings] = useState<{ algorithm: string; rotationDays: number; overlapDays: number } | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [rotating, setRotating] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    useEffect(() => {
+        checkAuthAndLoad();
+    }, []);
+
+    async function checkAuthAndLoad() {
+        try {
+            const sessionRes = await fetch('/api/auth/session');
+            const sessionData = await sessionRes.json();
+
+            if (!sessionData.authenticated || sessionData.user.authorityLevel < 5) {
+                router.push('/dashboard');
+                return;
+            }
+
+            await loadKeys();
+        } catch (e) {
+            console.error('Auth check failed:', e);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadKeys() {
+        try {
+            const res = await fetch('/api/keys');
+            const data = await res.json();
+
+            if (res.ok) {
+                setKeys(data.keys || []);
+                setSettings({ algorithm: data.algorithm, rotationDays: data.rotationDays, overlapDays: data.overlapDays });
+            } else {
+                setError(data.error || 'Failed to load keys');
+            }
+        } catch {
+            setError('Failed to load keys');
+        }
+    }
+
+    async function handleRotate() {
+        if (!confirm('Rotate the signing key now? The current key stays valid for verification during the overlap window.')) {
+            return;
+        }
+
+        setRotating(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/keys', { method: 'POST' });
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(`New signing key ${data.key.kid} is active`);
+                await loadKeys();
+            } else {
+                setError(data.error || 'Failed to rotate key');
+            }
+        } catch {
+            setError('Failed to rotate key');
+        } finally {
+            setRotating(false);
+        }
+    }
+
+    async function handleRetire(key: SigningKey) {
+        const reason = prompt(`Retire key ${key.kid}? Every token it signed stops verifying immediately.\n\nReason:`, 'compromised');
+        if (reason === null) {
+            return;
+        }
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch(`/api/keys?kid=${encodeURIComponent(key.kid)}&reason=${encodeURIComponent(reason)}`, {
+                method: 'DELETE',
+            });
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(data.replacement
+                    ? `Key retired; ${data.replacement.kid} is now active`
+                    : 'Key retired');
+                await loadKeys();
+            } else {
+                setError(data.error || 'Failed to retire key');
+            }
+        } catch {
+            setError('Failed to retire key');
+        }
+    }
+
+    if (loading) {
+        return (
+            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
+                Loading keys...
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {/* Page Header */}
+            <div className="gov-page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                <div>
+                    <h1 className="gov-page-title">Signing Keys</h1>
+                    <p className="gov-page-subtitle">
+                        {settings
+                            ? `${settings.algorithm} · rotated every ${settings.rotationDays} days · ${settings.overlapDays} day overlap`
+                            : 'Keys used to sign Auth tokens'}
+                    </p>
+                </div>
+                <button onClick={handleRotate} disabled={rotating} className="gov-btn gov-btn-primary">
+                    {rotating ? 'Rotating...' : 'Rotate Now'}
+                </button>
+            </div>
+
+            {/* Alerts */}
+            {error && <div className="gov-alert gov-alert-error">{error}</div>}
+            {success && <div className="gov-alert gov-alert-success">{success}</div>}
+
+            <div className="gov-alert gov-alert-info">
+                Public keys are published at <code>/.well-known/jwks.json</code> for services verifying tokens offline.
+            </div>
+
+            {/* Keys Table */}
+            <div className="gov-card">
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">Keys ({keys.length})</h2>
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>Key ID</th>
+                                    <th>Algorithm</th>
+                                    <th>Status</th>
+                                    <th>Created</th>
+                                    <th>Rotated</th>
+                                    <th>Retired</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {keys.map((k) => (
+                                    <tr key={k.kid}>
+                                        <td style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>{k.kid}</td>
+                                        <td>{k.alg}</td>
+                                        <td>
+                                            <span className={`gov-badge ${STATUS_BADGES[k.status]}`}>
+                                                {k.status}
+                                            </span>
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>{k.createdAt}</td>
+                                        <td style={{ fontSize: '0.8125rem' }}>{k.rotatedAt || '—'}</td>
+                                        <td style={{ fontSize: '0.8125rem' }}>
+                                            {k.retiredAt ? `${k.retiredAt} (${k.retiredReason})` : '—'}
+                                        </td>
+                                        <td>
+                                            {k.status !== 'retired' && (
+                                                <button onClick={() => handleRetire(k)} className="gov-btn gov-btn-danger" style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}>
+                                                    Retire
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {keys.length === 0 && (
+                                    <tr>
+                                        <td colSpan={7} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            No keys yet - one is generated when the first token is signed
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
 
@@ -33,6 +33,7 @@ const NAV_SECTIONS = [
         title: 'Administration',
         items: [
             { name: 'Users', path: '/dashboard/users', icon: '👥', minLevel: 3 },
+            { name: 'Sessions', path: '/dashboard/sessions', icon: '🖥️', minLevel: 3 },
             { name: 'Approvals', path: '/dashboard/approvals', icon: '✅', minLevel: 3 },
             { name: 'Audit Log', path: '/dashboard/audit', icon: '📋', minLevel: 3 },
         ],
@@ -41,10 +42,25 @@ const NAV_SECTIONS = [
         title: 'System',
         items: [
             { name: 'Permissions', path: '/dashboard/permissions', icon: '🔑', minLevel: 5 },
+            { name: 'OAuth Clients', path: '/dashboard/clients', icon: '🔗', minLevel: 5 },
+            { name: 'Signing Keys', path: '/dashboard/keys', icon: '🗝️', minLevel: 5 },
+            { name: 'API Keys', path: '/dashboard/api-keys', icon: '🤖', minLevel: 5 },
+            { name: 'Webhooks', path: '/dashboard/webhooks', icon: '📡', minLevel: 5 },
+            { name: 'Discord Roles', path: '/dashboard/discord-roles', icon: '🎭', minLevel: 5 },
         ],
     },
 ];
 
+// Login page messages for sessions the server ended
+const SIGNED_OUT_ERRORS: Record<string, string> = {
+    evicted: 'session_evicted',
+    revoked: 'session_revoked',
+    idle: 'session_idle',
+};
+
+// Activity only reaches the server this often; the server throttles writes as well
+const KEEPALIVE_INTERVAL_MS = 60 * 1000;
+
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
     const router = useRouter();
     const pathname = usePathname();
@@ -52,6 +68,12 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
     const [loading, setLoading] = useState(true);
     const [sidebarOpen, setSidebarOpen] = useState(true);
     const [userMenuOpen, setUserMenuOpen] = useState(false);
+    const [idleExpiresAt, setIdleExpiresAt] = useState<number | null>(null);
+    const [idleWarningSeconds, setIdleWarningSeconds] = useState(120);
+    const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+    const [loginAlertCount, setLoginAlertCount] = useState(0);
+    const activeSinceKeepalive = useRef(false);
+    const lastKeepalive = useRef(0);
 
     useEffect(() => {
         async function checkAuth() {
@@ -60,11 +82,15 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                 const data = await res.json();
 
                 if (!data.authenticated) {
-                    router.push('/login');
+                    const error = SIGNED_OUT_ERRORS[data.signedOutReason];
+                    router.push(error ? `/login?error=${error}` : '/login');
                     return;
                 }
 
                 setUser(data.user);
+                setIdleExpiresAt(data.idleExpiresAt);
+                setIdleWarningSeconds(data.idleWarningSeconds || 120);
+                lastKeepalive.current = Date.now();
             } catch (e) {
                 console.error('Auth check failed:', e);
                 router.push('/login');
@@ -76,6 +102,66 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
         checkAuth();
     }, [router]);
 
+    // Unfamiliar sign-ins waiting for the user to confirm or report - rechecked on navigation
+    useEffect(() => {
+        if (!user) return;
+        fetch('/api/auth/login-alerts')
+            .then(res => res.ok ? res.json() : { alerts: [] })
+            .then(data => setLoginAlertCount((data.alerts || []).length))
+            .catch(() => setLoginAlertCount(0));
+    }, [user, pathname]);
+
+    const keepAlive = useCallback(async () => {
+        activeSinceKeepalive.current = false;
+        lastKeepalive.current = Date.now();
+
+        const res = await fetch('/api/auth/session', { method: 'POST' });
+        const data = await res.json();
+        if (!res.ok) {
+            router.push(`/login?error=${SIGNED_OUT_ERRORS[data.signedOutReason] || 'session_idle'}`);
+            return;
+        }
+        setIdleExpiresAt(data.idleExpiresAt);
+        setIdleSecondsLeft(null);
+    }, [router]);
+
+    // Note user activity; it is reported with the next keep-alive
+    useEffect(() => {
+        const markActive = () => { activeSinceKeepalive.current = true; };
+        const events = ['mousedown', 'keydown', 'scroll', 'touchstart'];
+        events.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+        return () => events.forEach(event => window.removeEventListener(event, markActive));
+    }, []);
+
+    // Idle countdown: warn shortly before the server ends the session, then sign out
+    useEffect(() => {
+        if (!idleExpiresAt) return;
+
+        const timer = setInterval(() => {
+            const secondsLeft = Math.floor((idleExpiresAt - Date.now()) / 1000);
+
+            if (secondsLeft <= 0) {
+                // The server has ended the session too; drop the cookie so /login does not bounce back
+                clearInterval(timer);
+                fetch('/api/auth/logout', { method: 'POST' })
+                    .finally(() => router.push('/login?error=session_idle'));
+                return;
+            }
+
+            if (secondsLeft <= idleWarningSeconds) {
+                // Once warned, only the modal's button keeps the session
+                setIdleSecondsLeft(secondsLeft);
+                return;
+            }
+
+            if (activeSinceKeepalive.current && Date.now() - lastKeepalive.current >= KEEPALIVE_INTERVAL_MS) {
+                keepAlive().catch(() => undefined);
+            }
+        }, 1000);
+
+        return () => clearInterval(timer);
+    }, [idleExpiresAt, idleWarningSeconds, keepAlive, router]);
+
     async function handleLogout() {
         await fetch('/api/auth/logout', { method: 'POST' });
         router.push('/login');
@@ -184,9 +270,48 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
 
                 {/* Main Content */}
                 <main className="gov-main">
+                    {loginAlertCount > 0 && pathname !== '/dashboard/security' && (
+                        <div className="gov-alert gov-alert-warning">
+                            ⚠️ We noticed {loginAlertCount === 1 ? 'a sign-in' : `${loginAlertCount} sign-ins`} to your
+                            account from somewhere unfamiliar.{' '}
+                            <Link href="/dashboard/security">Review on the Security page</Link>
+                        </div>
+                    )}
                     {children}
                 </main>
             </div>
+
+            {/* Idle Timeout Warning */}
+            {idleSecondsLeft !== null && (
+                <div style={{
+                    position: 'fixed',
+                    inset: 0,
+                    background: 'rgba(0, 0, 0, 0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 1000,
+                }}>
+                    <div className="gov-card" style={{ width: '100%', maxWidth: '420px', margin: '1rem' }}>
+                        <div className="gov-card-header">
+                            <h2 className="gov-card-title">Still there?</h2>
+                        </div>
+                        <div className="gov-card-body">
+                            <p style={{ marginBottom: '1.5rem' }}>
+                                You will be signed out in {Math.floor(idleSecondsLeft / 60)}:{String(idleSecondsLeft % 60).padStart(2, '0')} due to inactivity.
+                            </p>
+                            <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+                                <button onClick={handleLogout} className="gov-btn gov-btn-secondary">
+                                    Sign Out
+                                </button>
+                                <button onClick={() => keepAlive().catch(() => undefined)} className="gov-btn gov-btn-primary">
+                                    Stay Signed In
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -10,11 +10,12 @@ interface Stats {
 }
 
 interface RecentActivity {
-    id: string;
+    id: number;
     action: string;
-    targetUser: string | null;
-    details: string | null;
-    ipAddress: string | null;
+    label: string;
+    target: string | null;
+    details: Record<string, unknown> | null;
+    ip: string | null;
     createdAt: string;
 }
 
@@ -45,7 +46,7 @@ export default function DashboardOverview() {
                     setRecentActivity(auditData.logs || []);
 
                     // Count recent logins and SSO accesses
-                    const logins = (auditData.logs || []).filter((l: any) => l.action === 'LOGIN').length;
+                    const logins = (auditData.logs || []).filter((l: any) => l.action === 'LOGIN_SUCCESS').length;
                     const sso = (auditData.logs || []).filter((l: any) => l.action === 'SSO_ACCESS').length;
                     setStats(prev => ({
                         ...prev,
@@ -65,7 +66,7 @@ export default function DashboardOverview() {
 
     function getActionIcon(action: string): string {
         const icons: Record<string, string> = {
-            'LOGIN': '🔓',
+            'LOGIN_SUCCESS': '🔓',
             'LOGOUT': '🔒',
             'SSO_ACCESS': '🚀',
             'USER_CREATED': '➕',
@@ -171,11 +172,11 @@ export default function DashboardOverview() {
                                         <tr key={activity.id}>
                                             <td>
                                                 <span style={{ marginRight: '0.5rem' }}>{getActionIcon(activity.action)}</span>
-                                                {activity.action.replace(/_/g, ' ')}
+                                                {activity.label}
                                             </td>
-                                            <td>{activity.targetUser || activity.details || '-'}</td>
+                                            <td>{activity.target || (activity.details?.message as string | undefined) || '-'}</td>
                                             <td style={{ fontFamily: 'monospace', fontSize: '0.8125rem' }}>
-                                                {activity.ipAddress || '-'}
+                                                {activity.ip || '-'}
                                             </td>
                                             <td>{formatTimeAgo(activity.createdAt)}</td>
                                         </tr>
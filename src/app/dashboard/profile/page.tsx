@@ -22,13 +22,27 @@ const AUTHORITY_NAMES: Record<number, string> = {
     6: 'Bot Developer',
 };
 
+// Results the Discord link callback sends back to this page
+const DISCORD_MESSAGES: Record<string, string> = {
+    discord_unavailable: 'Discord linking is not available',
+    discord_state: 'Discord linking expired. Please try again.',
+    discord_cancelled: 'Discord linking was cancelled',
+    discord_failed: 'Could not verify your Discord account',
+    discord_in_use: 'That Discord account is already linked to another user',
+};
+
 export default function ProfilePage() {
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
     const [editing, setEditing] = useState(false);
     const [displayName, setDisplayName] = useState('');
-    const [discordId, setDiscordId] = useState('');
+    const [unlinking, setUnlinking] = useState(false);
     const [saving, setSaving] = useState(false);
+    const [backupEmail, setBackupEmail] = useState<string | null>(null);
+    const [editingBackupEmail, setEditingBackupEmail] = useState(false);
+    const [backupEmailInput, setBackupEmailInput] = useState('');
+    const [backupEmailPassword, setBackupEmailPassword] = useState('');
+    const [savingBackupEmail, setSavingBackupEmail] = useState(false);
     const [message, setMessage] = useState('');
     const [error, setError] = useState('');
 
@@ -41,7 +55,19 @@ export default function ProfilePage() {
                 if (data.authenticated && data.user) {
                     setUser(data.user);
                     setDisplayName(data.user.displayName);
-                    setDiscordId(data.user.discordId || '');
+                }
+
+                const backupRes = await fetch('/api/auth/backup-email');
+                if (backupRes.ok) {
+                    const backupData = await backupRes.json();
+                    setBackupEmail(backupData.backupEmail);
+                }
+
+                const params = new URLSearchParams(window.location.search);
+                if (params.get('discord') === 'linked') {
+                    setMessage('Discord account linked');
+                } else if (params.get('error')) {
+                    setError(DISCORD_MESSAGES[params.get('error')!] || 'Failed to link Discord account');
                 }
             } catch (e) {
                 console.error('Failed to load profile:', e);
@@ -66,7 +92,6 @@ export default function ProfilePage() {
                 body: JSON.stringify({
                     userId: user.userId,
                     displayName,
-                    discordId: discordId || null,
                 }),
             });
 
@@ -88,6 +113,60 @@ export default function ProfilePage() {
         }
     }
 
+    async function handleSaveBackupEmail() {
+        setSavingBackupEmail(true);
+        setMessage('');
+        setError('');
+
+        try {
+            const res = await fetch('/api/auth/backup-email', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ backupEmail: backupEmailInput, currentPassword: backupEmailPassword }),
+            });
+            const data = await res.json();
+
+            if (res.ok) {
+                setBackupEmail(data.backupEmail);
+                setMessage(data.backupEmail ? 'Backup email updated' : 'Backup email removed');
+                setEditingBackupEmail(false);
+                setBackupEmailPassword('');
+            } else {
+                setError(data.error || 'Failed to update backup email');
+            }
+        } catch {
+            setError('Connection error');
+        } finally {
+            setSavingBackupEmail(false);
+        }
+    }
+
+    async function handleUnlinkDiscord() {
+        if (!confirm('Unlink your Discord account? You will no longer be able to sign in with Discord.')) {
+            return;
+        }
+
+        setUnlinking(true);
+        setMessage('');
+        setError('');
+
+        try {
+            const res = await fetch('/api/auth/discord', { method: 'DELETE' });
+
+            if (res.ok) {
+                setMessage('Discord account unlinked');
+                setUser(user ? { ...user, discordId: null } : user);
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to unlink Discord account');
+            }
+        } catch {
+            setError('Connection error');
+        } finally {
+            setUnlinking(false);
+        }
+    }
+
     if (loading) {
         return (
             <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
@@ -129,21 +208,11 @@ export default function ProfilePage() {
                                     onChange={(e) => setDisplayName(e.target.value)}
                                 />
                             </div>
-                            <div className="gov-form-group">
-                                <label className="gov-form-label">Discord ID</label>
-                                <input
-                                    type="text"
-                                    className="gov-form-input"
-                                    value={discordId}
-                                    onChange={(e) => setDiscordId(e.target.value)}
-                                    placeholder="Optional - Your Discord user ID"
-                                />
-                            </div>
                             <div style={{ display: 'flex', gap: '0.75rem', marginTop: '1rem' }}>
                                 <button onClick={handleSave} disabled={saving} className="gov-btn gov-btn-primary">
                                     {saving ? 'Saving...' : 'Save Changes'}
                                 </button>
-                                <button onClick={() => { setEditing(false); setDisplayName(user?.displayName || ''); setDiscordId(user?.discordId || ''); }} className="gov-btn gov-btn-secondary">
+                                <button onClick={() => { setEditing(false); setDisplayName(user?.displayName || ''); }} className="gov-btn gov-btn-secondary">
                                     Cancel
                                 </button>
                             </div>
@@ -181,6 +250,95 @@ export default function ProfilePage() {
                 </div>
             </div>
 
+            {/* Discord Account */}
+            <div className="gov-card">
+                <div className="gov-card-body" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <div>
+                        <h3 style={{ margin: 0, color: 'var(--gov-gray-dark)', fontSize: '1rem' }}>Discord Account</h3>
+                        <p style={{ margin: '0.25rem 0 0', color: 'var(--gov-gray)', fontSize: '0.875rem' }}>
+                            {user?.discordId
+                                ? <>Linked to Discord ID <span style={{ fontFamily: 'monospace' }}>{user.discordId}</span> - you can sign in with Discord</>
+                                : 'Link your Discord account to sign in with Discord and be recognised by USGRP bots'}
+                        </p>
+                    </div>
+                    {user?.discordId ? (
+                        <button onClick={handleUnlinkDiscord} disabled={unlinking} className="gov-btn gov-btn-danger">
+                            {unlinking ? 'Unlinking...' : 'Unlink Discord'}
+                        </button>
+                    ) : (
+                        <a href="/api/auth/discord?intent=link" className="gov-btn gov-btn-primary">
+                            Link Discord
+                        </a>
+                    )}
+                </div>
+            </div>
+
+            {/* Password Recovery */}
+            <div className="gov-card">
+                <div className="gov-card-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <h2 className="gov-card-title">Password Recovery</h2>
+                    {!editingBackupEmail && (
+                        <button
+                            onClick={() => { setEditingBackupEmail(true); setBackupEmailInput(backupEmail || ''); }}
+                            className="gov-btn gov-btn-secondary"
+                        >
+                            ✏️ {backupEmail ? 'Change' : 'Add'} Backup Email
+                        </button>
+                    )}
+                </div>
+                <div className="gov-card-body">
+                    {editingBackupEmail ? (
+                        <div>
+                            <div className="gov-form-group">
+                                <label className="gov-form-label">Backup Email</label>
+                                <input
+                                    type="email"
+                                    className="gov-form-input"
+                                    value={backupEmailInput}
+                                    onChange={(e) => setBackupEmailInput(e.target.value)}
+                                    placeholder="you@example.com (leave empty to remove)"
+                                />
+                            </div>
+                            <div className="gov-form-group">
+                                <label className="gov-form-label">Current Password</label>
+                                <input
+                                    type="password"
+                                    className="gov-form-input"
+                                    value={backupEmailPassword}
+                                    onChange={(e) => setBackupEmailPassword(e.target.value)}
+                                    autoComplete="current-password"
+                                />
+                            </div>
+                            <div style={{ display: 'flex', gap: '0.75rem', marginTop: '1rem' }}>
+                                <button
+                                    onClick={handleSaveBackupEmail}
+                                    disabled={savingBackupEmail || !backupEmailPassword}
+                                    className="gov-btn gov-btn-primary"
+                                >
+                                    {savingBackupEmail ? 'Saving...' : 'Save'}
+                                </button>
+                                <button
+                                    onClick={() => { setEditingBackupEmail(false); setBackupEmailPassword(''); }}
+                                    className="gov-btn gov-btn-secondary"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div>
+                            <div className="gov-stat-label">Backup Email</div>
+                            <div style={{ fontSize: '1rem', color: 'var(--gov-gray-dark)', fontFamily: 'monospace' }}>
+                                {backupEmail || 'Not set'}
+                            </div>
+                            <p style={{ margin: '0.5rem 0 0', color: 'var(--gov-gray)', fontSize: '0.875rem' }}>
+                                Password reset links are sent here. Use an address outside USGRP Mail so you can still receive it if you are locked out.
+                            </p>
+                        </div>
+                    )}
+                </div>
+            </div>
+
             {/* Account Information */}
             <div className="gov-card">
                 <div className="gov-card-header">
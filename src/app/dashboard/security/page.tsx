@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { createCredential, isWebAuthnSupported } from '@/lib/webauthn-browser';
 
 interface SessionInfo {
     id: string;
@@ -13,6 +14,12 @@ interface SessionInfo {
     isRemembered: boolean;
 }
 
+interface TotpSetup {
+    secret: string;
+    otpauthUri: string;
+    qrCode: string;
+}
+
 interface RememberedDevice {
     id: string;
     deviceName: string | null;
@@ -21,14 +28,47 @@ interface RememberedDevice {
     createdAt: string;
 }
 
+interface LoginAlert {
+    id: string;
+    ip: string;
+    device: string;
+    location: string | null;
+    reasons: string[];
+    createdAt: string;
+    isCurrentSession: boolean;
+}
+
+const LOGIN_ALERT_REASONS: Record<string, string> = {
+    new_device: 'New device',
+    new_network: 'New network',
+    impossible_travel: 'Impossible travel',
+};
+
+interface SecurityKey {
+    id: string;
+    name: string;
+    isPasskey: boolean;
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
 export default function SecurityPage() {
     const router = useRouter();
     const [sessions, setSessions] = useState<SessionInfo[]>([]);
     const [devices, setDevices] = useState<RememberedDevice[]>([]);
-    const [currentUser, setCurrentUser] = useState<any>(null);
+    const [loginAlerts, setLoginAlerts] = useState<LoginAlert[]>([]);
     const [loading, setLoading] = useState(true);
     const [actionLoading, setActionLoading] = useState<string | null>(null);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [totpEnabled, setTotpEnabled] = useState(false);
+    const [totpSetup, setTotpSetup] = useState<TotpSetup | null>(null);
+    const [totpCode, setTotpCode] = useState('');
+    const [securityKeys, setSecurityKeys] = useState<SecurityKey[]>([]);
+    const [securityKeyRequired, setSecurityKeyRequired] = useState(false);
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [passwordRequirements, setPasswordRequirements] = useState<string[]>([]);
 
     useEffect(() => {
         loadData();
@@ -43,7 +83,6 @@ export default function SecurityPage() {
                 router.push('/login');
                 return;
             }
-            setCurrentUser(sessionData.user);
 
             // Load sessions
             const sessionsRes = await fetch('/api/sessions');
@@ -52,6 +91,35 @@ export default function SecurityPage() {
                 setSessions(data.sessions || []);
             }
 
+            // Load sign-in alerts
+            const alertsRes = await fetch('/api/auth/login-alerts');
+            if (alertsRes.ok) {
+                const data = await alertsRes.json();
+                setLoginAlerts(data.alerts || []);
+            }
+
+            // Load 2FA status
+            const totpRes = await fetch('/api/auth/2fa/setup');
+            if (totpRes.ok) {
+                const data = await totpRes.json();
+                setTotpEnabled(!!data.totpEnabled);
+            }
+
+            // Load security keys and passkeys
+            const keysRes = await fetch('/api/auth/webauthn/credentials');
+            if (keysRes.ok) {
+                const data = await keysRes.json();
+                setSecurityKeys(data.credentials || []);
+                setSecurityKeyRequired(!!data.securityKeyRequired);
+            }
+
+            // Load password policy
+            const policyRes = await fetch('/api/auth/password/policy');
+            if (policyRes.ok) {
+                const data = await policyRes.json();
+                setPasswordRequirements(data.requirements || []);
+            }
+
             // Load remembered devices
             const devicesRes = await fetch('/api/devices');
             if (devicesRes.ok) {
@@ -90,6 +158,38 @@ export default function SecurityPage() {
         }
     }
 
+    async function resolveLoginAlert(loginAlert: LoginAlert, action: 'confirm' | 'report') {
+        if (action === 'report' && !confirm(
+            'This signs your account out on every device (including this one) and locks your password until you reset it. Continue?'
+        )) return;
+
+        setActionLoading(loginAlert.id);
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/auth/login-alerts', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ alertId: loginAlert.id, action }),
+            });
+
+            const data = await res.json();
+            if (data.signedOut) {
+                alert(data.message);
+                router.push('/login');
+            } else if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setLoginAlerts(loginAlerts.filter(a => a.id !== loginAlert.id));
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to update alert' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
     async function killAllSessions() {
         if (!confirm('This will log you out of all other devices. Continue?')) return;
 
@@ -142,6 +242,171 @@ export default function SecurityPage() {
         }
     }
 
+    async function changePassword() {
+        if (newPassword !== confirmPassword) {
+            setMessage({ type: 'error', text: 'New passwords do not match' });
+            return;
+        }
+
+        setActionLoading('password');
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/auth/password', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ currentPassword, newPassword }),
+            });
+            const data = await res.json();
+
+            if (res.ok) {
+                setMessage({ type: 'success', text: data.message || 'Password changed' });
+                setCurrentPassword('');
+                setNewPassword('');
+                setConfirmPassword('');
+            } else {
+                setMessage({ type: 'error', text: data.errors?.join(' ') || data.error || 'Failed to change password' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
+    async function registerSecurityKey() {
+        const name = prompt('Name this security key or passkey:', 'My security key');
+        if (name === null) return;
+
+        setActionLoading('webauthn');
+        setMessage(null);
+
+        try {
+            const optionsRes = await fetch('/api/auth/webauthn/register/options', { method: 'POST' });
+            const options = await optionsRes.json();
+            if (!optionsRes.ok) {
+                setMessage({ type: 'error', text: options.error || 'Failed to start registration' });
+                return;
+            }
+
+            const credential = await createCredential(options);
+
+            const res = await fetch('/api/auth/webauthn/register/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ credential, name }),
+            });
+            const data = await res.json();
+
+            if (res.ok) {
+                setMessage({ type: 'success', text: data.isPasskey ? 'Passkey added' : 'Security key added' });
+                await loadData();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to register security key' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Security key registration was cancelled or failed' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
+    async function renameSecurityKey(key: SecurityKey) {
+        const name = prompt('New name:', key.name);
+        if (!name) return;
+
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/auth/webauthn/credentials', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: key.id, name }),
+            });
+
+            if (res.ok) {
+                setSecurityKeys(securityKeys.map(k => k.id === key.id ? { ...k, name } : k));
+            } else {
+                const data = await res.json();
+                setMessage({ type: 'error', text: data.error || 'Failed to rename security key' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        }
+    }
+
+    async function removeSecurityKey(key: SecurityKey) {
+        if (!confirm(`Remove ${key.name}? It will no longer work for signing in.`)) return;
+
+        setActionLoading(key.id);
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/auth/webauthn/credentials?id=${encodeURIComponent(key.id)}`, {
+                method: 'DELETE',
+            });
+            const data = await res.json();
+
+            if (res.ok) {
+                setMessage({ type: 'success', text: `${key.name} removed` });
+                setSecurityKeys(securityKeys.filter(k => k.id !== key.id));
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to remove security key' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
+    async function startTotpSetup() {
+        setActionLoading('totp');
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/auth/2fa/setup', { method: 'POST' });
+            const data = await res.json();
+            if (data.success) {
+                setTotpSetup({ secret: data.secret, otpauthUri: data.otpauthUri, qrCode: data.qrCode });
+                setTotpCode('');
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to start 2FA setup' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
+    async function confirmTotpSetup() {
+        setActionLoading('totp');
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/auth/2fa/confirm', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ code: totpCode }),
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setTotpEnabled(true);
+                setTotpSetup(null);
+                setTotpCode('');
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to verify code' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
     function formatDate(dateStr: string): string {
         if (!dateStr) return 'Unknown';
         const date = new Date(dateStr);
@@ -180,6 +445,108 @@ export default function SecurityPage() {
                 </div>
             )}
 
+            {/* Sign-in Alerts */}
+            {loginAlerts.length > 0 && (
+                <div className="gov-card" style={{ marginBottom: '1.5rem' }}>
+                    <div className="gov-card-header">
+                        <h2 className="gov-card-title">⚠️ Sign-in Alerts</h2>
+                    </div>
+                    <div className="gov-card-body">
+                        <p style={{ marginTop: 0, color: 'var(--gov-gray)' }}>
+                            Your account was signed in to from somewhere unfamiliar. If it wasn&apos;t you, we will sign
+                            out every device and lock your password.
+                        </p>
+                        <div className="sessions-list">
+                            {loginAlerts.map(loginAlert => (
+                                <div key={loginAlert.id} className="session-item">
+                                    <div className="session-icon">⚠️</div>
+                                    <div className="session-info">
+                                        <div className="session-device">
+                                            {loginAlert.device}
+                                            {loginAlert.isCurrentSession && <span className="current-badge">This device</span>}
+                                        </div>
+                                        <div className="session-meta">
+                                            <span>📍 {loginAlert.ip}{loginAlert.location ? ` (${loginAlert.location})` : ''}</span>
+                                            <span>⏱️ {formatDate(loginAlert.createdAt)}</span>
+                                            <span>{loginAlert.reasons.map(r => LOGIN_ALERT_REASONS[r] || r).join(', ')}</span>
+                                        </div>
+                                    </div>
+                                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                        <button
+                                            className="gov-btn gov-btn-secondary"
+                                            onClick={() => resolveLoginAlert(loginAlert, 'confirm')}
+                                            disabled={actionLoading === loginAlert.id}
+                                        >
+                                            This was me
+                                        </button>
+                                        <button
+                                            className="gov-btn gov-btn-danger"
+                                            onClick={() => resolveLoginAlert(loginAlert, 'report')}
+                                            disabled={actionLoading === loginAlert.id}
+                                        >
+                                            This wasn&apos;t me
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Change Password */}
+            <div className="gov-card" style={{ marginBottom: '1.5rem' }}>
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">🔒 Change Password</h2>
+                </div>
+                <div className="gov-card-body">
+                    <div className="gov-form-group">
+                        <label className="gov-form-label">Current Password</label>
+                        <input
+                            type="password"
+                            className="gov-form-input"
+                            value={currentPassword}
+                            onChange={(e) => setCurrentPassword(e.target.value)}
+                            autoComplete="current-password"
+                        />
+                    </div>
+                    <div className="gov-form-group">
+                        <label className="gov-form-label">New Password</label>
+                        <input
+                            type="password"
+                            className="gov-form-input"
+                            value={newPassword}
+                            onChange={(e) => setNewPassword(e.target.value)}
+                            autoComplete="new-password"
+                        />
+                        {passwordRequirements.length > 0 && (
+                            <ul className="password-requirements">
+                                {passwordRequirements.map(rule => <li key={rule}>{rule}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                    <div className="gov-form-group">
+                        <label className="gov-form-label">Confirm New Password</label>
+                        <input
+                            type="password"
+                            className="gov-form-input"
+                            value={confirmPassword}
+                            onChange={(e) => setConfirmPassword(e.target.value)}
+                            autoComplete="new-password"
+                        />
+                    </div>
+                    <div className="security-actions">
+                        <button
+                            className="gov-btn gov-btn-primary"
+                            onClick={changePassword}
+                            disabled={actionLoading === 'password' || !currentPassword || !newPassword || !confirmPassword}
+                        >
+                            {actionLoading === 'password' ? 'Saving...' : 'Change Password'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
             {/* Active Sessions */}
             <div className="gov-card" style={{ marginBottom: '1.5rem' }}>
                 <div className="gov-card-header">
@@ -241,7 +608,7 @@ export default function SecurityPage() {
                 </div>
                 <div className="gov-card-body">
                     {devices.length === 0 ? (
-                        <p className="gov-empty-state">No remembered devices. Devices are remembered when you check "Remember this device" during login.</p>
+                        <p className="gov-empty-state">No remembered devices. Devices are remembered when you choose to trust them during two-factor verification.</p>
                     ) : (
                         <div className="sessions-list">
                             {devices.map(device => (
@@ -270,6 +637,65 @@ export default function SecurityPage() {
                 </div>
             </div>
 
+            {/* Security Keys & Passkeys */}
+            <div className="gov-card" style={{ marginBottom: '1.5rem' }}>
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">🔑 Security Keys &amp; Passkeys</h2>
+                </div>
+                <div className="gov-card-body">
+                    {securityKeyRequired && (
+                        <p className="mfa-warning">
+                            Your account requires a security key at every sign-in - recovery codes cannot stand in for it. Keep at least one registered.
+                        </p>
+                    )}
+                    {securityKeys.length === 0 ? (
+                        <p className="gov-empty-state">No security keys. Add a hardware key or passkey to use as a second factor, or to sign in without a password.</p>
+                    ) : (
+                        <div className="sessions-list">
+                            {securityKeys.map(key => (
+                                <div key={key.id} className="session-item">
+                                    <div className="session-icon">{key.isPasskey ? '👆' : '🔑'}</div>
+                                    <div className="session-info">
+                                        <div className="session-device">
+                                            {key.name}
+                                            {key.isPasskey && <span className="gov-badge gov-badge-blue">Passkey</span>}
+                                        </div>
+                                        <div className="session-meta">
+                                            <span>Added: {formatDate(key.createdAt)}</span>
+                                            <span>Last used: {key.lastUsedAt ? formatDate(key.lastUsedAt) : 'Never'}</span>
+                                        </div>
+                                    </div>
+                                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                        <button
+                                            className="gov-btn gov-btn-secondary"
+                                            onClick={() => renameSecurityKey(key)}
+                                        >
+                                            Rename
+                                        </button>
+                                        <button
+                                            className="gov-btn gov-btn-secondary"
+                                            onClick={() => removeSecurityKey(key)}
+                                            disabled={actionLoading === key.id}
+                                        >
+                                            {actionLoading === key.id ? 'Removing...' : 'Remove'}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <div className="security-actions">
+                        <button
+                            className="gov-btn gov-btn-primary"
+                            onClick={registerSecurityKey}
+                            disabled={actionLoading === 'webauthn' || !isWebAuthnSupported()}
+                        >
+                            {actionLoading === 'webauthn' ? 'Waiting for key...' : 'Add Security Key or Passkey'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
             {/* Two-Factor Authentication */}
             <div className="gov-card">
                 <div className="gov-card-header">
@@ -279,28 +705,66 @@ export default function SecurityPage() {
                     <div className="security-status">
                         <div className="status-row">
                             <span className="status-label">TOTP (Authenticator App)</span>
-                            <span className={`gov-badge ${currentUser?.totpEnabled ? 'gov-badge-success' : 'gov-badge-warning'}`}>
-                                {currentUser?.totpEnabled ? '✓ Enabled' : '⚠ Not Set Up'}
+                            <span className={`gov-badge ${totpEnabled ? 'gov-badge-success' : 'gov-badge-warning'}`}>
+                                {totpEnabled ? '✓ Enabled' : '⚠ Not Set Up'}
                             </span>
                         </div>
-                        {!currentUser?.totpEnabled && (
+                        {!totpEnabled && (
                             <p className="mfa-warning">
                                 ⚠️ Two-factor authentication is required for all accounts. Please set up an authenticator app.
                             </p>
                         )}
                     </div>
 
-                    <div className="security-actions">
-                        {!currentUser?.totpEnabled ? (
-                            <a href="/dashboard/profile" className="gov-btn gov-btn-primary">
-                                Set Up 2FA
-                            </a>
-                        ) : (
-                            <a href="/dashboard/profile" className="gov-btn gov-btn-secondary">
-                                Manage 2FA Settings
-                            </a>
-                        )}
-                    </div>
+                    {totpSetup && (
+                        <div className="totp-setup">
+                            <img src={totpSetup.qrCode} alt="2FA QR code" className="totp-qr" />
+                            <div className="totp-setup-info">
+                                <p>Scan this QR code with your authenticator app, or enter the key manually:</p>
+                                <code className="totp-secret">{totpSetup.secret}</code>
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Verification Code</label>
+                                    <input
+                                        type="text"
+                                        className="gov-form-input"
+                                        inputMode="numeric"
+                                        maxLength={6}
+                                        value={totpCode}
+                                        onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, ''))}
+                                        placeholder="123456"
+                                        autoComplete="one-time-code"
+                                    />
+                                </div>
+                                <div style={{ display: 'flex', gap: '0.75rem' }}>
+                                    <button
+                                        className="gov-btn gov-btn-primary"
+                                        onClick={confirmTotpSetup}
+                                        disabled={actionLoading === 'totp' || totpCode.length !== 6}
+                                    >
+                                        {actionLoading === 'totp' ? 'Verifying...' : 'Verify & Enable'}
+                                    </button>
+                                    <button
+                                        className="gov-btn gov-btn-secondary"
+                                        onClick={() => setTotpSetup(null)}
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {!totpEnabled && !totpSetup && (
+                        <div className="security-actions">
+                            <button
+                                className="gov-btn gov-btn-primary"
+                                onClick={startTotpSetup}
+                                disabled={actionLoading === 'totp'}
+                            >
+                                {actionLoading === 'totp' ? 'Generating...' : 'Set Up 2FA'}
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -386,10 +850,46 @@ export default function SecurityPage() {
                     font-size: 0.875rem;
                 }
                 
+                .password-requirements {
+                    margin: 0.5rem 0 0;
+                    padding-left: 1.25rem;
+                    font-size: 0.8125rem;
+                    color: var(--gov-gray);
+                    line-height: 1.5;
+                }
+
                 .security-actions {
                     margin-top: 1rem;
                 }
                 
+                .totp-setup {
+                    display: flex;
+                    gap: 1.5rem;
+                    align-items: flex-start;
+                    margin-top: 1rem;
+                    padding: 1rem;
+                    border: 1px solid var(--gov-border);
+                    border-radius: 8px;
+                }
+                
+                .totp-qr {
+                    width: 180px;
+                    height: 180px;
+                }
+                
+                .totp-setup-info {
+                    flex: 1;
+                    font-size: 0.875rem;
+                    color: var(--gov-gray-dark);
+                }
+                
+                .totp-secret {
+                    display: block;
+                    margin: 0.5rem 0 1rem;
+                    font-family: monospace;
+                    word-break: break-all;
+                }
+                
                 .gov-page-loading {
                     display: flex;
                     flex-direction: column;
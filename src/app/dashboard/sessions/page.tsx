@@ -0,0 +1,422 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+interface AdminSession {
+    id: string;
+    userId: string;
+    email: string;
+    displayName: string;
+    authorityLevel: number;
+    device: string;
+    ip: string;
+    lastActive: string;
+    createdAt: string;
+    expiresAt: string;
+    isRemembered: boolean;
+    isCurrent: boolean;
+    canRevoke: boolean;
+    requiresApproval: boolean;
+}
+
+const AUTHORITY_NAMES: Record<number, string> = {
+    0: 'User',
+    1: 'Moderator',
+    2: 'Senior Mod',
+    3: 'Admin',
+    4: 'HR',
+    5: 'Superuser',
+    6: 'Bot Developer',
+};
+
+// Global sign-out is limited to Superusers
+const GLOBAL_SIGN_OUT_LEVEL = 5;
+
+// An action that needs a second admin - submitted to /api/approvals with a reason
+interface PendingApproval {
+    title: string;
+    actionType: string;
+    targetUser: string | null;
+    actionData?: Record<string, unknown>;
+}
+
+export default function SessionsPage() {
+    const [sessions, setSessions] = useState<AdminSession[]>([]);
+    const [authorityLevel, setAuthorityLevel] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Filters
+    const [search, setSearch] = useState('');
+    const [ip, setIp] = useState('');
+    const [remembered, setRemembered] = useState('');
+    const [level, setLevel] = useState('');
+
+    // Two-person rule
+    const [pendingApproval, setPendingApproval] = useState<PendingApproval | null>(null);
+    const [approvalReason, setApprovalReason] = useState('');
+
+    const loadSessions = useCallback(async () => {
+        try {
+            const params = new URLSearchParams();
+            if (search) params.set('q', search);
+            if (ip) params.set('ip', ip);
+            if (remembered) params.set('remembered', remembered);
+            if (level) params.set('level', level);
+
+            const res = await fetch(`/api/sessions/admin?${params}`);
+            const data = await res.json();
+            if (res.ok) {
+                setSessions(data.sessions || []);
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to load sessions' });
+            }
+        } catch (e) {
+            console.error('Failed to load sessions:', e);
+        } finally {
+            setLoading(false);
+        }
+    }, [search, ip, remembered, level]);
+
+    useEffect(() => {
+        fetch('/api/auth/session')
+            .then(res => res.json())
+            .then(data => setAuthorityLevel(data.user?.authorityLevel || 0))
+            .catch(() => { });
+    }, []);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    async function revoke(body: { sessionId?: string; userId?: string }, approval: PendingApproval, confirmText: string) {
+        if (!confirm(confirmText)) return;
+
+        setActionLoading(body.sessionId || body.userId || null);
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/sessions/admin', {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+
+            const data = await res.json();
+            if (data.requiresApproval) {
+                setPendingApproval({ ...approval, actionType: data.actionType });
+                setApprovalReason('');
+            } else if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                await loadSessions();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to terminate session' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
+    function killSession(s: AdminSession) {
+        revoke(
+            { sessionId: s.id },
+            {
+                title: `Terminate ${s.displayName}'s session on ${s.device}`,
+                actionType: 'SESSION_KILL_ADMIN',
+                targetUser: s.userId,
+                actionData: { sessionId: s.id },
+            },
+            `Sign ${s.email} out of ${s.device} (${s.ip})?`
+        );
+    }
+
+    function killUserSessions(s: AdminSession) {
+        revoke(
+            { userId: s.userId },
+            {
+                title: `Sign ${s.displayName} out of every session`,
+                actionType: 'SESSIONS_KILL_ALL_ADMIN',
+                targetUser: s.userId,
+            },
+            `Sign ${s.email} out of all of their sessions?`
+        );
+    }
+
+    function requestGlobalSignOut() {
+        setPendingApproval({
+            title: 'Sign every user out of every session',
+            actionType: 'GLOBAL_SIGN_OUT',
+            targetUser: null,
+        });
+        setApprovalReason('');
+    }
+
+    async function submitApproval(e: React.FormEvent) {
+        e.preventDefault();
+        if (!pendingApproval) return;
+
+        setActionLoading('approval');
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/approvals', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    actionType: pendingApproval.actionType,
+                    targetUser: pendingApproval.targetUser,
+                    actionData: pendingApproval.actionData,
+                    reason: approvalReason,
+                }),
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setPendingApproval(null);
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to request approval' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'Connection error' });
+        } finally {
+            setActionLoading(null);
+        }
+    }
+
+    function formatDate(dateStr: string): string {
+        const date = new Date(dateStr.includes('T') ? dateStr : `${dateStr.replace(' ', 'T')}Z`);
+        return date.toLocaleString();
+    }
+
+    if (loading) {
+        return (
+            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
+                Loading sessions...
+            </div>
+        );
+    }
+
+    const userCount = new Set(sessions.map(s => s.userId)).size;
+
+    return (
+        <div>
+            {/* Page Header */}
+            <div className="gov-page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                <div>
+                    <h1 className="gov-page-title">Active Sessions</h1>
+                    <p className="gov-page-subtitle">Every signed-in session across all accounts</p>
+                </div>
+                {authorityLevel >= GLOBAL_SIGN_OUT_LEVEL && (
+                    <button onClick={requestGlobalSignOut} className="gov-btn gov-btn-danger">
+                        🚨 Global Sign-Out
+                    </button>
+                )}
+            </div>
+
+            {message && (
+                <div className={`gov-alert gov-alert-${message.type}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="gov-card">
+                <div className="gov-card-body" style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+                    <div className="gov-form-group" style={{ margin: 0, flex: 1, minWidth: '220px' }}>
+                        <label className="gov-form-label">User</label>
+                        <input
+                            type="text"
+                            className="gov-form-input"
+                            placeholder="Search by name or email..."
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                        />
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '160px' }}>
+                        <label className="gov-form-label">IP Address</label>
+                        <input
+                            type="text"
+                            className="gov-form-input"
+                            placeholder="e.g. 203.0.113."
+                            value={ip}
+                            onChange={(e) => setIp(e.target.value)}
+                        />
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '160px' }}>
+                        <label className="gov-form-label">Authority</label>
+                        <select className="gov-form-input" value={level} onChange={(e) => setLevel(e.target.value)}>
+                            <option value="">All Levels</option>
+                            {Object.entries(AUTHORITY_NAMES).map(([l, name]) => (
+                                <option key={l} value={l}>{name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="gov-form-group" style={{ margin: 0, minWidth: '160px' }}>
+                        <label className="gov-form-label">Remembered</label>
+                        <select className="gov-form-input" value={remembered} onChange={(e) => setRemembered(e.target.value)}>
+                            <option value="">Any</option>
+                            <option value="1">Remembered</option>
+                            <option value="0">Not remembered</option>
+                        </select>
+                    </div>
+                    <button onClick={loadSessions} className="gov-btn gov-btn-secondary">
+                        ↻ Refresh
+                    </button>
+                </div>
+            </div>
+
+            {/* Stats */}
+            <div className="gov-stats-grid">
+                <div className="gov-stat-card">
+                    <div className="gov-stat-label">Sessions</div>
+                    <div className="gov-stat-value">{sessions.length}</div>
+                </div>
+                <div className="gov-stat-card green">
+                    <div className="gov-stat-label">Users</div>
+                    <div className="gov-stat-value">{userCount}</div>
+                </div>
+                <div className="gov-stat-card gold">
+                    <div className="gov-stat-label">Remembered</div>
+                    <div className="gov-stat-value">{sessions.filter(s => s.isRemembered).length}</div>
+                </div>
+            </div>
+
+            {/* Sessions Table */}
+            <div className="gov-card">
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">Sessions ({sessions.length})</h2>
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>User</th>
+                                    <th>Device</th>
+                                    <th>IP Address</th>
+                                    <th>Last Active</th>
+                                    <th>Remembered</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sessions.map((s) => (
+                                    <tr key={s.id}>
+                                        <td>
+                                            <div style={{ fontWeight: 600 }}>{s.displayName}</div>
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)' }}>
+                                                {s.email} · {AUTHORITY_NAMES[s.authorityLevel] || 'User'}
+                                            </div>
+                                        </td>
+                                        <td>
+                                            {s.device}
+                                            {s.isCurrent && <span className="gov-badge gov-badge-blue" style={{ marginLeft: '0.5rem' }}>This session</span>}
+                                        </td>
+                                        <td style={{ fontFamily: 'monospace', fontSize: '0.8125rem' }}>{s.ip}</td>
+                                        <td style={{ fontSize: '0.8125rem', whiteSpace: 'nowrap' }}>{formatDate(s.lastActive)}</td>
+                                        <td>
+                                            {s.isRemembered
+                                                ? <span className="gov-badge gov-badge-gold">Yes</span>
+                                                : <span style={{ color: 'var(--gov-gray)' }}>No</span>}
+                                        </td>
+                                        <td style={{ whiteSpace: 'nowrap' }}>
+                                            {s.canRevoke ? (
+                                                <>
+                                                    <button
+                                                        onClick={() => killSession(s)}
+                                                        className="gov-btn gov-btn-secondary"
+                                                        style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}
+                                                        disabled={actionLoading === s.id}
+                                                        title={s.requiresApproval ? 'Requires approval from another admin' : undefined}
+                                                    >
+                                                        {actionLoading === s.id ? '...' : 'Terminate'}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => killUserSessions(s)}
+                                                        className="gov-btn gov-btn-danger"
+                                                        style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem', marginLeft: '0.5rem' }}
+                                                        disabled={actionLoading === s.userId}
+                                                        title={s.requiresApproval ? 'Requires approval from another admin' : undefined}
+                                                    >
+                                                        {actionLoading === s.userId ? '...' : 'Sign Out User'}
+                                                    </button>
+                                                </>
+                                            ) : (
+                                                <span style={{ color: 'var(--gov-gray)', fontSize: '0.8125rem' }}>-</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {sessions.length === 0 && (
+                                    <tr>
+                                        <td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            No active sessions found
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Approval Request Modal */}
+            {pendingApproval && (
+                <div style={{
+                    position: 'fixed',
+                    inset: 0,
+                    background: 'rgba(0, 0, 0, 0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 1000,
+                }}>
+                    <div className="gov-card" style={{ width: '100%', maxWidth: '500px', margin: '1rem' }}>
+                        <div className="gov-card-header">
+                            <h2 className="gov-card-title">Approval Required</h2>
+                        </div>
+                        <div className="gov-card-body">
+                            <form onSubmit={submitApproval}>
+                                <p style={{ marginTop: 0 }}>{pendingApproval.title}</p>
+                                <p style={{ color: 'var(--gov-gray)', fontSize: '0.875rem' }}>
+                                    This action affects administrators, so another admin must approve it before it runs.
+                                </p>
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Reason *</label>
+                                    <textarea
+                                        className="gov-form-input"
+                                        value={approvalReason}
+                                        onChange={(e) => setApprovalReason(e.target.value)}
+                                        required
+                                        rows={3}
+                                        placeholder="e.g. Suspected account compromise"
+                                    />
+                                </div>
+                                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+                                    <button
+                                        type="button"
+                                        onClick={() => setPendingApproval(null)}
+                                        className="gov-btn gov-btn-secondary"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        className="gov-btn gov-btn-danger"
+                                        disabled={actionLoading === 'approval' || !approvalReason.trim()}
+                                    >
+                                        {actionLoading === 'approval' ? 'Submitting...' : 'Request Approval'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
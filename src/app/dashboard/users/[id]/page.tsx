@@ -12,17 +12,24 @@ interface User {
     authority_level: number;
     enabled: boolean;
     totp_enabled: boolean;
+    security_key_required?: boolean;
+    security_keys?: number;
+    locked_until?: string | null;
+    must_change_password?: boolean;
+    password_changed_at?: string | null;
+    password_expires_at?: string | null;
     created_at: string;
     has_mailbox?: boolean;
     permissions?: string[];
 }
 
 interface AuditLog {
-    id: string;
+    id: number;
     action: string;
-    details: string | null;
-    ip_address: string | null;
-    created_at: string;
+    label: string;
+    details: Record<string, unknown> | null;
+    ip: string | null;
+    createdAt: string;
 }
 
 const AUTHORITY_NAMES: Record<number, string> = {
@@ -54,6 +61,7 @@ export default function UserDetailPage() {
     const [editDiscordId, setEditDiscordId] = useState('');
     const [editAuthorityLevel, setEditAuthorityLevel] = useState(0);
     const [editEnabled, setEditEnabled] = useState(true);
+    const [editSecurityKeyRequired, setEditSecurityKeyRequired] = useState(false);
 
     useEffect(() => {
         loadData();
@@ -80,6 +88,7 @@ export default function UserDetailPage() {
                     setEditDiscordId(userData.user.discord_id || userData.user.discordId || '');
                     setEditAuthorityLevel(userData.user.authority_level ?? userData.user.authorityLevel ?? 0);
                     setEditEnabled(userData.user.enabled !== false);
+                    setEditSecurityKeyRequired(!!userData.user.security_key_required);
                 }
             }
 
@@ -114,6 +123,7 @@ export default function UserDetailPage() {
                     discordId: editDiscordId || null,
                     authorityLevel: editAuthorityLevel,
                     enabled: editEnabled,
+                    securityKeyRequired: editSecurityKeyRequired,
                 }),
             });
 
@@ -132,6 +142,57 @@ export default function UserDetailPage() {
         }
     }
 
+    async function unlockUser() {
+        if (!user) return;
+
+        setMessage('');
+        setError('');
+
+        try {
+            const res = await fetch('/api/users/unlock', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ userId: user.id }),
+            });
+
+            if (res.ok) {
+                setMessage('Account unlocked');
+                await loadData();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to unlock account');
+            }
+        } catch {
+            setError('Connection error');
+        }
+    }
+
+    async function requirePasswordChange() {
+        if (!user) return;
+        if (!confirm(`Require ${user.email} to choose a new password? They will be signed out everywhere.`)) return;
+
+        setMessage('');
+        setError('');
+
+        try {
+            const res = await fetch('/api/users/require-password-change', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ userId: user.id }),
+            });
+            const data = await res.json();
+
+            if (res.ok) {
+                setMessage(`Password change required - ${data.sessionsRevoked} sessions revoked`);
+                await loadData();
+            } else {
+                setError(data.error || 'Failed to require password change');
+            }
+        } catch {
+            setError('Connection error');
+        }
+    }
+
     function formatDate(dateStr: string): string {
         if (!dateStr) return 'Unknown';
         const date = new Date(dateStr);
@@ -230,6 +291,20 @@ export default function UserDetailPage() {
                                     />
                                     <label htmlFor="enabled" style={{ margin: 0 }}>Account Enabled</label>
                                 </div>
+                                {editAuthorityLevel >= 3 && (
+                                    <div className="gov-form-group" style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                                        <input
+                                            type="checkbox"
+                                            id="securityKeyRequired"
+                                            checked={editSecurityKeyRequired}
+                                            disabled={!user.security_keys && !editSecurityKeyRequired}
+                                            onChange={(e) => setEditSecurityKeyRequired(e.target.checked)}
+                                        />
+                                        <label htmlFor="securityKeyRequired" style={{ margin: 0 }}>
+                                            Require security key {!user.security_keys && '(user has none registered)'}
+                                        </label>
+                                    </div>
+                                )}
                                 <div style={{ display: 'flex', gap: '0.75rem', marginTop: '1.5rem' }}>
                                     <button onClick={saveChanges} disabled={saving} className="gov-btn gov-btn-primary">
                                         {saving ? 'Saving...' : 'Save Changes'}
@@ -269,12 +344,51 @@ export default function UserDetailPage() {
                                         {user.enabled ? 'Active' : 'Disabled'}
                                     </span>
                                 </div>
+                                {user.locked_until && (
+                                    <div>
+                                        <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)', marginBottom: '0.25rem' }}>Sign-in Lockout</div>
+                                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                                            <span className="gov-badge gov-badge-red">
+                                                Locked until {formatDate(user.locked_until)}
+                                            </span>
+                                            <button onClick={unlockUser} className="gov-btn gov-btn-secondary">
+                                                Unlock
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                                <div>
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)', marginBottom: '0.25rem' }}>Password</div>
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}>
+                                        {user.must_change_password ? (
+                                            <span className="gov-badge gov-badge-gold">Change required at next sign-in</span>
+                                        ) : user.password_expires_at && new Date(user.password_expires_at) <= new Date() ? (
+                                            <span className="gov-badge gov-badge-red">Expired</span>
+                                        ) : (
+                                            <span style={{ fontSize: '0.875rem' }}>
+                                                Changed {user.password_changed_at ? formatDate(user.password_changed_at) : 'before tracking'}
+                                                {user.password_expires_at && ` · expires ${formatDate(user.password_expires_at)}`}
+                                            </span>
+                                        )}
+                                        {!user.must_change_password && currentUser?.userId !== user.id && (
+                                            <button onClick={requirePasswordChange} className="gov-btn gov-btn-secondary">
+                                                Require Change
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
                                 <div>
                                     <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)', marginBottom: '0.25rem' }}>Two-Factor Auth</div>
                                     <span className={`gov-badge ${user.totp_enabled ? 'gov-badge-green' : 'gov-badge-gold'}`}>
                                         {user.totp_enabled ? 'Enabled' : 'Not Set Up'}
                                     </span>
                                 </div>
+                                <div>
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)', marginBottom: '0.25rem' }}>Security Keys</div>
+                                    <span className={`gov-badge ${user.security_keys ? 'gov-badge-green' : 'gov-badge-gold'}`}>
+                                        {user.security_keys || 0} registered{user.security_key_required ? ' · required' : ''}
+                                    </span>
+                                </div>
                                 <div>
                                     <div style={{ fontSize: '0.75rem', color: 'var(--gov-gray)', marginBottom: '0.25rem' }}>Created</div>
                                     <div>{formatDate(user.created_at)}</div>
@@ -295,12 +409,14 @@ export default function UserDetailPage() {
                                 {activity.map((log) => (
                                     <div key={log.id} style={{ padding: '0.75rem 1rem', borderBottom: '1px solid var(--gov-gray-lighter)' }}>
                                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                                            <span className="gov-badge gov-badge-blue">{log.action.replace(/_/g, ' ')}</span>
-                                            <span style={{ fontSize: '0.75rem', color: 'var(--gov-gray)' }}>{formatDate(log.created_at)}</span>
+                                            <span className="gov-badge gov-badge-blue" title={log.action}>{log.label}</span>
+                                            <span style={{ fontSize: '0.75rem', color: 'var(--gov-gray)' }}>{formatDate(log.createdAt)}</span>
                                         </div>
                                         {log.details && (
                                             <div style={{ fontSize: '0.8125rem', color: 'var(--gov-gray)', marginTop: '0.5rem' }}>
-                                                {log.details}
+                                                {Object.entries(log.details)
+                                                    .map(([key, value]) => key === 'message' ? String(value) : `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+                                                    .join(' · ')}
                                             </div>
                                         )}
                                     </div>
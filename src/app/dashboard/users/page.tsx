@@ -45,6 +45,8 @@ export default function UsersPage() {
     const [newDiscordId, setNewDiscordId] = useState('');
     const [newAuthorityLevel, setNewAuthorityLevel] = useState(0);
     const [createMailbox, setCreateMailbox] = useState(true);
+    const [mustChangePassword, setMustChangePassword] = useState(true);
+    const [passwordRequirements, setPasswordRequirements] = useState<string[]>([]);
 
     useEffect(() => {
         checkAuthAndLoad();
@@ -62,6 +64,12 @@ export default function UsersPage() {
 
             setCurrentUser(sessionData.user);
             await loadUsers();
+
+            const policyRes = await fetch('/api/auth/password/policy');
+            if (policyRes.ok) {
+                const policyData = await policyRes.json();
+                setPasswordRequirements(policyData.requirements || []);
+            }
         } catch (e) {
             console.error('Auth check failed:', e);
         } finally {
@@ -102,6 +110,7 @@ export default function UsersPage() {
                     discordId: newDiscordId || null,
                     authorityLevel: newAuthorityLevel,
                     createMailbox,
+                    mustChangePassword,
                 }),
             });
 
@@ -113,7 +122,7 @@ export default function UsersPage() {
                 resetForm();
                 await loadUsers();
             } else {
-                setError(data.error || 'Failed to create user');
+                setError(data.errors?.join(' ') || data.error || 'Failed to create user');
             }
         } catch (e) {
             setError('Failed to create user');
@@ -151,6 +160,7 @@ export default function UsersPage() {
         setNewDiscordId('');
         setNewAuthorityLevel(0);
         setCreateMailbox(true);
+        setMustChangePassword(true);
     }
 
     if (loading) {
@@ -281,6 +291,11 @@ export default function UsersPage() {
                                         required
                                         placeholder="••••••••"
                                     />
+                                    {passwordRequirements.length > 0 && (
+                                        <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem', fontSize: '0.8125rem', color: 'var(--gov-gray)' }}>
+                                            {passwordRequirements.map(rule => <li key={rule}>{rule}</li>)}
+                                        </ul>
+                                    )}
                                 </div>
 
                                 <div className="gov-form-group">
@@ -331,6 +346,18 @@ export default function UsersPage() {
                                     </label>
                                 </div>
 
+                                <div className="gov-form-group" style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={mustChangePassword}
+                                        onChange={(e) => setMustChangePassword(e.target.checked)}
+                                        id="mustChangePassword"
+                                    />
+                                    <label htmlFor="mustChangePassword" style={{ color: 'var(--gov-gray-dark)', fontSize: '0.875rem', margin: 0 }}>
+                                        Require a new password at first sign-in
+                                    </label>
+                                </div>
+
                                 <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
                                     <button type="button" onClick={() => { setShowCreateModal(false); resetForm(); }} className="gov-btn gov-btn-secondary">
                                         Cancel
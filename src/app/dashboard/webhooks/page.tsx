@@ -0,0 +1,587 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface Webhook {
+    id: string;
+    name: string;
+    url: string;
+    events: string[];
+    enabled: boolean;
+    createdAt: string;
+    lastDelivery: { status: DeliveryStatus; event: string; at: string } | null;
+}
+
+type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+interface Delivery {
+    id: string;
+    webhookId: string;
+    event: string;
+    payload: unknown;
+    status: DeliveryStatus;
+    attempts: number;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    nextAttemptAt: string | null;
+    lastAttemptAt: string | null;
+    createdAt: string;
+}
+
+const STATUS_BADGES: Record<DeliveryStatus, string> = {
+    pending: 'gov-badge-gold',
+    delivered: 'gov-badge-green',
+    failed: 'gov-badge-red',
+};
+
+const SMALL_BUTTON = { padding: '0.375rem 0.75rem', fontSize: '0.75rem' };
+
+export default function WebhooksPage() {
+    const router = useRouter();
+    const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+    const [availableEvents, setAvailableEvents] = useState<{ event: string; description: string }[]>([]);
+    const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+    const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+    const [testing, setTesting] = useState<string | null>(null);
+
+    // Delivery log filters
+    const [logWebhook, setLogWebhook] = useState('');
+    const [logStatus, setLogStatus] = useState('');
+
+    // Create / edit form state - editing holds the webhook being changed
+    const [showModal, setShowModal] = useState(false);
+    const [editing, setEditing] = useState<Webhook | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [formName, setFormName] = useState('');
+    const [formUrl, setFormUrl] = useState('');
+    const [formEvents, setFormEvents] = useState<string[]>([]);
+
+    useEffect(() => {
+        checkAuthAndLoad();
+    }, []);
+
+    async function checkAuthAndLoad() {
+        try {
+            const sessionRes = await fetch('/api/auth/session');
+            const sessionData = await sessionRes.json();
+
+            if (!sessionData.authenticated || sessionData.user.authorityLevel < 5) {
+                router.push('/dashboard');
+                return;
+            }
+
+            await loadWebhooks();
+        } catch (e) {
+            console.error('Auth check failed:', e);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadWebhooks() {
+        try {
+            const res = await fetch('/api/webhooks');
+            const data = await res.json();
+
+            if (res.ok) {
+                setWebhooks(data.webhooks || []);
+                setAvailableEvents(data.availableEvents || []);
+            } else {
+                setError(data.error || 'Failed to load webhooks');
+            }
+        } catch {
+            setError('Failed to load webhooks');
+        }
+    }
+
+    const loadDeliveries = useCallback(async () => {
+        try {
+            const params = new URLSearchParams({ limit: '100' });
+            if (logWebhook) params.set('webhookId', logWebhook);
+            if (logStatus) params.set('status', logStatus);
+
+            const res = await fetch(`/api/webhooks/deliveries?${params}`);
+            const data = await res.json();
+
+            if (res.ok) {
+                setDeliveries(data.deliveries || []);
+            } else {
+                setError(data.error || 'Failed to load deliveries');
+            }
+        } catch {
+            setError('Failed to load deliveries');
+        }
+    }, [logWebhook, logStatus]);
+
+    // Reloads whenever the log filters change, once the page is past the auth check
+    useEffect(() => {
+        if (!loading) loadDeliveries();
+    }, [loading, loadDeliveries]);
+
+    function openCreate() {
+        setEditing(null);
+        setFormName('');
+        setFormUrl('');
+        setFormEvents([]);
+        setShowModal(true);
+    }
+
+    function openEdit(webhook: Webhook) {
+        setEditing(webhook);
+        setFormName(webhook.name);
+        setFormUrl(webhook.url);
+        setFormEvents(webhook.events);
+        setShowModal(true);
+    }
+
+    async function handleSave(e: FormEvent) {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/webhooks', {
+                method: editing ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...(editing ? { id: editing.id } : {}),
+                    name: formName,
+                    url: formUrl,
+                    events: formEvents,
+                }),
+            });
+
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(`Webhook ${data.webhook.name} ${editing ? 'updated' : 'created'}`);
+                if (data.secret) {
+                    setRevealedSecret({ name: data.webhook.name, secret: data.secret });
+                }
+                setShowModal(false);
+                await loadWebhooks();
+            } else {
+                setError(data.error || 'Failed to save webhook');
+            }
+        } catch {
+            setError('Failed to save webhook');
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function updateWebhook(webhook: Webhook, changes: Record<string, unknown>, done: string) {
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/webhooks', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: webhook.id, ...changes }),
+            });
+
+            const data = await res.json();
+
+            if (res.ok) {
+                setSuccess(done);
+                if (data.secret) {
+                    setRevealedSecret({ name: webhook.name, secret: data.secret });
+                }
+                await loadWebhooks();
+            } else {
+                setError(data.error || 'Failed to update webhook');
+            }
+        } catch {
+            setError('Failed to update webhook');
+        }
+    }
+
+    async function handleRotateSecret(webhook: Webhook) {
+        if (!confirm(`Rotate the signing secret for ${webhook.name}? Deliveries will fail verification until the receiver has the new one.`)) {
+            return;
+        }
+        await updateWebhook(webhook, { rotateSecret: true }, `Secret for ${webhook.name} rotated`);
+    }
+
+    async function handleDelete(webhook: Webhook) {
+        if (!confirm(`Delete ${webhook.name}? Its delivery log is deleted too.`)) {
+            return;
+        }
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch(`/api/webhooks?id=${encodeURIComponent(webhook.id)}`, {
+                method: 'DELETE',
+            });
+
+            if (res.ok) {
+                setSuccess(`Webhook ${webhook.name} deleted`);
+                await Promise.all([loadWebhooks(), loadDeliveries()]);
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to delete webhook');
+            }
+        } catch {
+            setError('Failed to delete webhook');
+        }
+    }
+
+    async function handleSendTest(webhook: Webhook) {
+        setTesting(webhook.id);
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/webhooks/deliveries', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ webhookId: webhook.id }),
+            });
+
+            const data = await res.json();
+
+            if (!res.ok) {
+                setError(data.error || 'Failed to send test event');
+            } else if (data.success) {
+                setSuccess(`Test event delivered to ${webhook.name} (HTTP ${data.delivery.responseStatus})`);
+            } else {
+                setError(`Test event to ${webhook.name} failed: ${data.delivery.error} - it will be retried`);
+            }
+            await Promise.all([loadWebhooks(), loadDeliveries()]);
+        } catch {
+            setError('Failed to send test event');
+        } finally {
+            setTesting(null);
+        }
+    }
+
+    async function handleRetry(delivery: Delivery) {
+        setError('');
+        setSuccess('');
+
+        try {
+            const res = await fetch('/api/webhooks/deliveries', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: delivery.id }),
+            });
+
+            if (res.ok) {
+                setSuccess('Delivery queued for retry');
+                await loadDeliveries();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to retry delivery');
+            }
+        } catch {
+            setError('Failed to retry delivery');
+        }
+    }
+
+    function toggleEvent(event: string, checked: boolean) {
+        setFormEvents(checked ? [...formEvents, event] : formEvents.filter(e => e !== event));
+    }
+
+    const webhookNames = new Map(webhooks.map(w => [w.id, w.name]));
+
+    if (loading) {
+        return (
+            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--gov-gray)' }}>
+                Loading webhooks...
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {/* Page Header */}
+            <div className="gov-page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                <div>
+                    <h1 className="gov-page-title">Webhooks</h1>
+                    <p className="gov-page-subtitle">Signed identity events for the bot, Admin Dashboard, Status Portal and other services</p>
+                </div>
+                <button onClick={openCreate} className="gov-btn gov-btn-primary">
+                    + Add Webhook
+                </button>
+            </div>
+
+            {/* Alerts */}
+            {error && <div className="gov-alert gov-alert-error">{error}</div>}
+            {success && <div className="gov-alert gov-alert-success">{success}</div>}
+            {revealedSecret && (
+                <div className="gov-alert gov-alert-warning">
+                    <strong>Signing secret for {revealedSecret.name}</strong> — copy it now, it will not be shown again.
+                    <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginTop: '0.5rem' }}>
+                        <code style={{ wordBreak: 'break-all' }}>{revealedSecret.secret}</code>
+                        <button onClick={() => setRevealedSecret(null)} className="gov-btn gov-btn-secondary" style={SMALL_BUTTON}>
+                            Dismiss
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Webhooks Table */}
+            <div className="gov-card">
+                <div className="gov-card-header">
+                    <h2 className="gov-card-title">Endpoints ({webhooks.length})</h2>
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>Name</th>
+                                    <th>URL</th>
+                                    <th>Events</th>
+                                    <th>Last Delivery</th>
+                                    <th>Status</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {webhooks.map((w) => (
+                                    <tr key={w.id}>
+                                        <td style={{ fontWeight: 600 }}>{w.name}</td>
+                                        <td style={{ fontFamily: 'monospace', fontSize: '0.75rem', wordBreak: 'break-all' }}>{w.url}</td>
+                                        <td style={{ fontSize: '0.8125rem' }}>
+                                            {w.events.map(event => <div key={event}>{event}</div>)}
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>
+                                            {w.lastDelivery ? (
+                                                <>
+                                                    <span className={`gov-badge ${STATUS_BADGES[w.lastDelivery.status]}`}>
+                                                        {w.lastDelivery.status}
+                                                    </span>
+                                                    <div style={{ color: 'var(--gov-gray)', marginTop: '0.25rem' }}>{w.lastDelivery.at}</div>
+                                                </>
+                                            ) : 'Never'}
+                                        </td>
+                                        <td>
+                                            <span className={`gov-badge ${w.enabled ? 'gov-badge-green' : 'gov-badge-red'}`}>
+                                                {w.enabled ? 'Enabled' : 'Disabled'}
+                                            </span>
+                                        </td>
+                                        <td>
+                                            <div style={{ display: 'flex', gap: '0.375rem', flexWrap: 'wrap' }}>
+                                                <button
+                                                    onClick={() => handleSendTest(w)}
+                                                    disabled={testing === w.id}
+                                                    className="gov-btn gov-btn-primary"
+                                                    style={SMALL_BUTTON}
+                                                >
+                                                    {testing === w.id ? 'Sending...' : 'Send test event'}
+                                                </button>
+                                                <button onClick={() => openEdit(w)} className="gov-btn gov-btn-secondary" style={SMALL_BUTTON}>
+                                                    Edit
+                                                </button>
+                                                <button
+                                                    onClick={() => updateWebhook(w, { enabled: !w.enabled }, `Webhook ${w.name} ${w.enabled ? 'disabled' : 'enabled'}`)}
+                                                    className="gov-btn gov-btn-secondary"
+                                                    style={SMALL_BUTTON}
+                                                >
+                                                    {w.enabled ? 'Disable' : 'Enable'}
+                                                </button>
+                                                <button onClick={() => handleRotateSecret(w)} className="gov-btn gov-btn-secondary" style={SMALL_BUTTON}>
+                                                    Rotate secret
+                                                </button>
+                                                <button onClick={() => handleDelete(w)} className="gov-btn gov-btn-danger" style={SMALL_BUTTON}>
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {webhooks.length === 0 && (
+                                    <tr>
+                                        <td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            No webhooks registered
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Delivery Log */}
+            <div className="gov-card" style={{ marginTop: '1.5rem' }}>
+                <div className="gov-card-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+                    <h2 className="gov-card-title">Delivery Log</h2>
+                    <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+                        <select className="gov-form-input" value={logWebhook} onChange={(e) => setLogWebhook(e.target.value)}>
+                            <option value="">All webhooks</option>
+                            {webhooks.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                        </select>
+                        <select className="gov-form-input" value={logStatus} onChange={(e) => setLogStatus(e.target.value)}>
+                            <option value="">Any status</option>
+                            <option value="pending">Pending</option>
+                            <option value="delivered">Delivered</option>
+                            <option value="failed">Failed</option>
+                        </select>
+                        <button onClick={loadDeliveries} className="gov-btn gov-btn-secondary" style={SMALL_BUTTON}>
+                            Refresh
+                        </button>
+                    </div>
+                </div>
+                <div className="gov-card-body" style={{ padding: 0 }}>
+                    <div className="gov-table-container">
+                        <table className="gov-table">
+                            <thead>
+                                <tr>
+                                    <th>Created</th>
+                                    <th>Webhook</th>
+                                    <th>Event</th>
+                                    <th>Status</th>
+                                    <th>Attempts</th>
+                                    <th>Response</th>
+                                    <th>Payload</th>
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {deliveries.map((d) => (
+                                    <tr key={d.id}>
+                                        <td style={{ fontSize: '0.8125rem', whiteSpace: 'nowrap' }}>{d.createdAt}</td>
+                                        <td style={{ fontSize: '0.8125rem' }}>{webhookNames.get(d.webhookId) || d.webhookId}</td>
+                                        <td style={{ fontFamily: 'monospace', fontSize: '0.8125rem' }}>{d.event}</td>
+                                        <td>
+                                            <span className={`gov-badge ${STATUS_BADGES[d.status]}`}>{d.status}</span>
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem' }}>
+                                            {d.attempts}
+                                            {d.status === 'pending' && d.nextAttemptAt && (
+                                                <div style={{ color: 'var(--gov-gray)' }}>next {d.nextAttemptAt}</div>
+                                            )}
+                                        </td>
+                                        <td style={{ fontSize: '0.8125rem', maxWidth: '280px' }}>
+                                            {d.responseStatus !== null && <div>HTTP {d.responseStatus}</div>}
+                                            {d.error && <div style={{ color: 'var(--gov-red)' }}>{d.error}</div>}
+                                            {d.responseBody && (
+                                                <details>
+                                                    <summary style={{ cursor: 'pointer', color: 'var(--gov-gray)' }}>Body</summary>
+                                                    <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all', fontSize: '0.75rem' }}>{d.responseBody}</pre>
+                                                </details>
+                                            )}
+                                        </td>
+                                        <td style={{ maxWidth: '320px' }}>
+                                            <details>
+                                                <summary style={{ cursor: 'pointer', fontSize: '0.8125rem', color: 'var(--gov-gray)' }}>View</summary>
+                                                <pre style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all', fontSize: '0.75rem' }}>
+                                                    {JSON.stringify(d.payload, null, 2)}
+                                                </pre>
+                                            </details>
+                                        </td>
+                                        <td>
+                                            {d.status === 'failed' && (
+                                                <button onClick={() => handleRetry(d)} className="gov-btn gov-btn-secondary" style={SMALL_BUTTON}>
+                                                    Retry
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {deliveries.length === 0 && (
+                                    <tr>
+                                        <td colSpan={8} style={{ textAlign: 'center', padding: '2rem', color: 'var(--gov-gray)' }}>
+                                            No deliveries
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+
+            {/* Create / Edit Modal */}
+            {showModal && (
+                <div style={{
+                    position: 'fixed',
+                    inset: 0,
+                    background: 'rgba(0, 0, 0, 0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 1000,
+                }}>
+                    <div className="gov-card" style={{ width: '100%', maxWidth: '560px', margin: '1rem' }}>
+                        <div className="gov-card-header">
+                            <h2 className="gov-card-title">{editing ? `Edit ${editing.name}` : 'Add Webhook'}</h2>
+                        </div>
+                        <div className="gov-card-body">
+                            <form onSubmit={handleSave}>
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Name *</label>
+                                    <input
+                                        type="text"
+                                        className="gov-form-input"
+                                        value={formName}
+                                        onChange={(e) => setFormName(e.target.value)}
+                                        required
+                                        placeholder="Status Portal"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Endpoint URL *</label>
+                                    <input
+                                        type="url"
+                                        className="gov-form-input"
+                                        value={formUrl}
+                                        onChange={(e) => setFormUrl(e.target.value)}
+                                        required
+                                        placeholder="https://status.usgrp.xyz/hooks/auth"
+                                    />
+                                </div>
+
+                                <div className="gov-form-group">
+                                    <label className="gov-form-label">Events *</label>
+                                    {availableEvents.map(({ event, description }) => (
+                                        <label key={event} style={{ display: 'flex', alignItems: 'flex-start', gap: '0.5rem', fontSize: '0.875rem', marginBottom: '0.375rem' }}>
+                                            <input
+                                                type="checkbox"
+                                                checked={formEvents.includes(event)}
+                                                onChange={(e) => toggleEvent(event, e.target.checked)}
+                                                style={{ marginTop: '0.2rem' }}
+                                            />
+                                            <span>
+                                                <code>{event}</code>
+                                                <span style={{ color: 'var(--gov-gray)' }}> — {description}</span>
+                                            </span>
+                                        </label>
+                                    ))}
+                                </div>
+
+                                {!editing && (
+                                    <p style={{ fontSize: '0.8125rem', color: 'var(--gov-gray)' }}>
+                                        A signing secret is generated and shown once. Each delivery carries an
+                                        X-USGRP-Signature header of <code>t=&lt;unix time&gt;,v1=&lt;HMAC-SHA256 of &quot;t.body&quot;&gt;</code>.
+                                    </p>
+                                )}
+
+                                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+                                    <button type="button" onClick={() => setShowModal(false)} className="gov-btn gov-btn-secondary">
+                                        Cancel
+                                    </button>
+                                    <button type="submit" disabled={saving || formEvents.length === 0} className="gov-btn gov-btn-primary">
+                                        {saving ? 'Saving...' : editing ? 'Save' : 'Create Webhook'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
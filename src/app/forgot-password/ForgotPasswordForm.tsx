@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+
+export default function ForgotPasswordForm() {
+    const [email, setEmail] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [sent, setSent] = useState('');
+    const [error, setError] = useState('');
+
+    async function handleSubmit(e: FormEvent) {
+        e.preventDefault();
+        setError('');
+        setLoading(true);
+
+        try {
+            const res = await fetch('/api/auth/password/forgot', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ email }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                setError(data.error || 'Request failed');
+                return;
+            }
+
+            setSent(data.message);
+        } catch {
+            setError('Connection error. Please try again.');
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="sso-container">
+            <div className="sso-card">
+                {/* Logo & Branding */}
+                <div className="sso-header">
+                    <div className="sso-logo">
+                        <svg viewBox="0 0 40 40" fill="none" xmlns="http://www.w3.org/2000/svg">
+                            <rect width="40" height="40" rx="8" fill="#3b82f6" />
+                            <path d="M12 20L18 26L28 14" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" />
+                        </svg>
+                    </div>
+                    <h1 className="sso-title">USGRP</h1>
+                    <p className="sso-subtitle">Identity Provider</p>
+                </div>
+
+                <div className="sso-form-header">
+                    <h2>Reset your password</h2>
+                    <p className="sso-return-hint">
+                        We&apos;ll email a reset link to the backup email on your account
+                    </p>
+                </div>
+
+                {/* Error Message */}
+                {error && (
+                    <div className="sso-error">
+                        <svg viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                        </svg>
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                {sent ? (
+                    <div className="sso-success">{sent}</div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="sso-form">
+                        <div className="sso-field">
+                            <label htmlFor="email">Account email</label>
+                            <input
+                                id="email"
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="name@usgrp.xyz"
+                                required
+                                autoComplete="email"
+                                autoFocus
+                            />
+                        </div>
+
+                        <button
+                            type="submit"
+                            className="sso-submit"
+                            disabled={loading || !email}
+                        >
+                            {loading ? (
+                                <>
+                                    <div className="sso-spinner-small"></div>
+                                    Sending...
+                                </>
+                            ) : (
+                                'Send reset link'
+                            )}
+                        </button>
+                    </form>
+                )}
+
+                {/* Footer Links */}
+                <div className="sso-footer">
+                    <a href="/login">Back to sign in</a>
+                </div>
+            </div>
+
+            {/* Security Footer */}
+            <div className="sso-security">
+                <svg viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                </svg>
+                <span>Secured by USGRP Auth</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { Suspense } from 'react';
+import ForgotPasswordForm from './ForgotPasswordForm';
+
+export default function ForgotPasswordPage() {
+    return (
+        <Suspense fallback={
+            <div className="sso-container">
+                <div className="sso-loading">
+                    <div className="sso-spinner"></div>
+                </div>
+            </div>
+        }>
+            <ForgotPasswordForm />
+        </Suspense>
+    );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { Suspense } from 'react';
+import LoginAlertForm from './LoginAlertForm';
+
+export default function LoginAlertPage() {
+    return (
+        <Suspense fallback={
+            <div className="sso-container">
+                <div className="sso-loading">
+                    <div className="sso-spinner"></div>
+                </div>
+            </div>
+        }>
+            <LoginAlertForm />
+        </Suspense>
+    );
+}
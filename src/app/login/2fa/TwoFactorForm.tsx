@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { getAssertion, isWebAuthnSupported } from '@/lib/webauthn-browser';
+
+export default function TwoFactorForm() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const returnUrl = searchParams.get('return');
+    const isLocalReturn = !!returnUrl && /^\/(?![\/\\])/.test(returnUrl);
+
+    const [mode, setMode] = useState<'totp' | 'recovery'>('totp');
+    const [code, setCode] = useState('');
+    const [resetTotp, setResetTotp] = useState(false);
+    const [trustDevice, setTrustDevice] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [throttled, setThrottled] = useState(false);
+    const [error, setError] = useState('');
+    // Checked after mount so the server render matches the first client render
+    const [webauthnSupported, setWebauthnSupported] = useState(false);
+
+    useEffect(() => {
+        setWebauthnSupported(isWebAuthnSupported());
+    }, []);
+
+    async function completeLogin(nextPath = '/dashboard') {
+        if (!returnUrl) {
+            router.push(nextPath);
+            return;
+        }
+
+        if (isLocalReturn) {
+            window.location.href = returnUrl;
+            return;
+        }
+
+        // SSO flow - Auth builds the service callback for the new session
+        const res = await fetch('/api/auth/sso', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ returnUrl }),
+        });
+        const data = await res.json();
+
+        if (!res.ok) {
+            setError(data.error || 'Unable to return to service');
+            return;
+        }
+        window.location.href = data.redirectUrl;
+    }
+
+    async function handleSubmit(e: FormEvent) {
+        e.preventDefault();
+        setError('');
+        setLoading(true);
+
+        try {
+            const res = mode === 'totp'
+                ? await fetch('/api/auth/2fa/verify', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ code, returnUrl, trustDevice }),
+                })
+                : await fetch('/api/auth/recovery', {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ code, resetTotp }),
+                });
+
+            const data = await res.json();
+
+            // Rate limited - hold the form until the server accepts attempts again
+            if (res.status === 429) {
+                setError(data.error || 'Too many attempts. Please wait and try again.');
+                setThrottled(true);
+                setTimeout(() => setThrottled(false), (data.retryAfter || 1) * 1000);
+                return;
+            }
+
+            if (!res.ok) {
+                setError(data.error || 'Verification failed');
+                return;
+            }
+
+            // Forced or expired password - finish signing in at the interstitial
+            if (data.requiresPasswordChange) {
+                router.push(`/login/change-password${returnUrl ? `?return=${encodeURIComponent(returnUrl)}` : ''}`);
+                return;
+            }
+
+            if (mode === 'recovery' && (data.lowCodes || data.totpReset)) {
+                // Send the user to Security to regenerate codes or re-enroll
+                if (returnUrl) {
+                    alert(data.message);
+                }
+                await completeLogin('/dashboard/security');
+                return;
+            }
+
+            await completeLogin();
+
+        } catch {
+            setError('Connection error. Please try again.');
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleSecurityKey() {
+        setError('');
+        setLoading(true);
+
+        try {
+            const optionsRes = await fetch('/api/auth/webauthn/authenticate/options', { method: 'POST' });
+            const options = await optionsRes.json();
+            if (!optionsRes.ok) {
+                setError(options.error || 'Security key sign-in unavailable');
+                return;
+            }
+
+            let credential;
+            try {
+                credential = await getAssertion(options);
+            } catch {
+                setError('Security key verification was cancelled');
+                return;
+            }
+
+            const res = await fetch('/api/auth/webauthn/authenticate/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ credential, returnUrl, trustDevice }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                setError(data.error || 'Verification failed');
+                return;
+            }
+
+            // Forced or expired password - finish signing in at the interstitial
+            if (data.requiresPasswordChange) {
+                router.push(`/login/change-password${returnUrl ? `?return=${encodeURIComponent(returnUrl)}` : ''}`);
+                return;
+            }
+
+            await completeLogin();
+
+        } catch {
+            setError('Connection error. Please try again.');
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="sso-container">
+            <div className="sso-card">
+                {/* Logo & Branding */}
+                <div className="sso-header">
+                    <div className="sso-logo">
+                        <svg viewBox="0 0 40 40" fill="none" xmlns="http://www.w3.org/2000/svg">
+                            <rect width="40" height="40" rx="8" fill="#3b82f6" />
+                            <path d="M12 20L18 26L28 14" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" />
+                        </svg>
+                    </div>
+                    <h1 className="sso-title">USGRP</h1>
+                    <p className="sso-subtitle">Identity Provider</p>
+                </div>
+
+                <div className="sso-form-header">
+                    <h2>Two-factor authentication</h2>
+                    <p className="sso-return-hint">
+                        {mode === 'totp'
+                            ? 'Enter the 6-digit code from your authenticator app'
+                            : 'Enter one of your saved recovery codes'}
+                    </p>
+                </div>
+
+                {/* Error Message */}
+                {error && (
+                    <div className="sso-error">
+                        <svg viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                        </svg>
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="sso-form">
+                    {mode === 'totp' ? (
+                        <div className="sso-field">
+                            <label htmlFor="code">Authentication code</label>
+                            <input
+                                id="code"
+                                type="text"
+                                inputMode="numeric"
+                                pattern="[0-9]*"
+                                maxLength={6}
+                                value={code}
+                                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                                placeholder="123456"
+                                required
+                                autoComplete="one-time-code"
+                                autoFocus
+                            />
+                            <label className="sso-checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={trustDevice}
+                                    onChange={(e) => setTrustDevice(e.target.checked)}
+                                />
+                                Trust this device for 30 days
+                            </label>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="sso-field">
+                                <label htmlFor="code">Recovery code</label>
+                                <input
+                                    id="code"
+                                    type="text"
+                                    maxLength={8}
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value.replace(/[^0-9a-fA-F]/g, '').toUpperCase())}
+                                    placeholder="A1B2C3D4"
+                                    required
+                                    autoComplete="off"
+                                    autoFocus
+                                />
+                            </div>
+                            <label className="sso-checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={resetTotp}
+                                    onChange={(e) => setResetTotp(e.target.checked)}
+                                />
+                                I lost my authenticator - set up 2FA again after signing in
+                            </label>
+                        </>
+                    )}
+
+                    <button
+                        type="submit"
+                        className="sso-submit"
+                        disabled={loading || throttled || code.length !== (mode === 'totp' ? 6 : 8)}
+                    >
+                        {loading ? (
+                            <>
+                                <div className="sso-spinner-small"></div>
+                                Verifying...
+                            </>
+                        ) : (
+                            'Verify'
+                        )}
+                    </button>
+                </form>
+
+                {mode === 'totp' && webauthnSupported && (
+                    <button
+                        type="button"
+                        className="sso-passkey"
+                        onClick={handleSecurityKey}
+                        disabled={loading}
+                    >
+                        Use a security key
+                    </button>
+                )}
+
+                {/* Footer Links */}
+                <div className="sso-footer">
+                    <button
+                        type="button"
+                        className="sso-link-button"
+                        onClick={() => { setMode(mode === 'totp' ? 'recovery' : 'totp'); setCode(''); setError(''); }}
+                    >
+                        {mode === 'totp' ? 'Use a recovery code instead' : 'Use authenticator app instead'}
+                    </button>
+                    <a href={`/login${returnUrl ? `?return=${encodeURIComponent(returnUrl)}` : ''}`}>Back to sign in</a>
+                </div>
+            </div>
+
+            {/* Security Footer */}
+            <div className="sso-security">
+                <svg viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                </svg>
+                <span>Secured by USGRP Auth</span>
+            </div>
+        </div>
+    );
+}
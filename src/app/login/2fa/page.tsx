@@ -0,0 +1,18 @@
+'use client';
+
+import { Suspense } from 'react';
+import TwoFactorForm from './TwoFactorForm';
+
+export default function TwoFactorPage() {
+    return (
+        <Suspense fallback={
+            <div className="sso-container">
+                <div className="sso-loading">
+                    <div className="sso-spinner"></div>
+                </div>
+            </div>
+        }>
+            <TwoFactorForm />
+        </Suspense>
+    );
+}
@@ -2,17 +2,47 @@
 
 import { useState, useEffect, FormEvent } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { getAssertion, isWebAuthnSupported } from '@/lib/webauthn-browser';
+
+// Ask Auth for the service callback URL (token + one-time mail code)
+async function getSsoRedirectUrl(returnUrl: string): Promise<{ redirectUrl?: string; error?: string }> {
+    const res = await fetch('/api/auth/sso', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ returnUrl }),
+    });
+    return res.json();
+}
+
+// Errors the Discord sign-in callback sends back to the login page
+const LOGIN_ERRORS: Record<string, string> = {
+    discord_unavailable: 'Discord sign-in is not available',
+    discord_state: 'Discord sign-in expired. Please try again.',
+    discord_cancelled: 'Discord sign-in was cancelled',
+    discord_failed: 'Could not verify your Discord account',
+    discord_not_linked: 'No account is linked to that Discord account. Sign in with your email and link Discord from your profile.',
+    account_disabled: 'Account disabled',
+    rate_limited: 'Too many failed sign-in attempts. Try again later.',
+    session_idle: 'You were signed out after a period of inactivity',
+    session_evicted: 'You were signed out because your account signed in on another device',
+    session_revoked: 'You were signed out by an administrator',
+    session_limit: 'Your account is signed in on too many devices. Sign out on another device first.',
+};
 
 export default function LoginForm() {
     const router = useRouter();
     const searchParams = useSearchParams();
     const returnUrl = searchParams.get('return');
+    // Same-origin return paths (e.g. /oauth/authorize) resume directly without the legacy token callback
+    const isLocalReturn = !!returnUrl && /^\/(?![\/\\])/.test(returnUrl);
 
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [showPassword, setShowPassword] = useState(false);
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState('');
+    const [passkeyLoading, setPasskeyLoading] = useState(false);
+    const [throttled, setThrottled] = useState(false);
+    const [error, setError] = useState(LOGIN_ERRORS[searchParams.get('error') || ''] || '');
     const [checkingSession, setCheckingSession] = useState(true);
 
     useEffect(() => {
@@ -22,18 +52,26 @@ export default function LoginForm() {
                 const data = await res.json();
 
                 if (data.authenticated) {
-                    if (returnUrl && data.token && data.mc) {
-                        // SSO flow - redirect back with credentials
-                        const callbackUrl = new URL(returnUrl);
-                        callbackUrl.pathname = '/api/auth/callback';
-                        callbackUrl.searchParams.set('token', data.token);
-                        callbackUrl.searchParams.set('mc', data.mc);
-                        window.location.href = callbackUrl.toString();
-                    } else if (!returnUrl) {
+                    if (isLocalReturn) {
+                        window.location.href = returnUrl!;
+                    } else if (returnUrl) {
+                        // SSO flow - redirect back to the service
+                        const sso = await getSsoRedirectUrl(returnUrl);
+                        if (sso.redirectUrl) {
+                            window.location.href = sso.redirectUrl;
+                        } else {
+                            setError(sso.error || 'Unable to return to service');
+                        }
+                    } else {
                         // Direct Auth login - go to dashboard
                         router.push('/dashboard');
                     }
-                    // If returnUrl but no mc, let user re-enter password
+                } else if (data.signedOutReason === 'evicted') {
+                    setError(LOGIN_ERRORS.session_evicted);
+                } else if (data.signedOutReason === 'idle') {
+                    setError(LOGIN_ERRORS.session_idle);
+                } else if (data.signedOutReason === 'revoked') {
+                    setError(LOGIN_ERRORS.session_revoked);
                 }
             } catch (e) {
                 console.error('Session check failed:', e);
@@ -43,7 +81,7 @@ export default function LoginForm() {
         }
 
         checkSession();
-    }, [returnUrl, router]);
+    }, [returnUrl, isLocalReturn, router]);
 
     async function handleSubmit(e: FormEvent) {
         e.preventDefault();
@@ -59,6 +97,14 @@ export default function LoginForm() {
 
             const data = await res.json();
 
+            // Rate limited - hold the form until the server accepts attempts again
+            if (res.status === 429) {
+                setError(data.error || 'Too many attempts. Please wait and try again.');
+                setThrottled(true);
+                setTimeout(() => setThrottled(false), (data.retryAfter || 1) * 1000);
+                return;
+            }
+
             if (!res.ok) {
                 setError(data.error || 'Authentication failed');
                 return;
@@ -69,18 +115,13 @@ export default function LoginForm() {
                 return;
             }
 
-            if (returnUrl) {
-                const callbackUrl = new URL(returnUrl);
-                callbackUrl.pathname = '/api/auth/callback';
-                callbackUrl.searchParams.set('token', data.token);
-                // Pass encoded credentials for IMAP access
-                // Using base64 encoding - in production, use proper encryption
-                callbackUrl.searchParams.set('mc', btoa(JSON.stringify({ e: email, p: password })));
-                window.location.href = callbackUrl.toString();
-            } else {
-                router.push('/dashboard');
+            if (data.requiresPasswordChange) {
+                router.push(`/login/change-password${returnUrl ? `?return=${encodeURIComponent(returnUrl)}` : ''}`);
+                return;
             }
 
+            await finishLogin();
+
         } catch (e) {
             setError('Connection error. Please try again.');
         } finally {
@@ -88,6 +129,68 @@ export default function LoginForm() {
         }
     }
 
+    async function handlePasskey() {
+        setError('');
+        setPasskeyLoading(true);
+
+        try {
+            const optionsRes = await fetch('/api/auth/webauthn/authenticate/options', { method: 'POST' });
+            const options = await optionsRes.json();
+            if (!optionsRes.ok) {
+                setError(options.error || 'Passkey sign-in unavailable');
+                return;
+            }
+
+            let credential;
+            try {
+                credential = await getAssertion(options);
+            } catch {
+                setError('Passkey sign-in was cancelled');
+                return;
+            }
+
+            const res = await fetch('/api/auth/webauthn/authenticate/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ credential, returnUrl }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                setError(data.error || 'Passkey sign-in failed');
+                return;
+            }
+
+            if (data.requiresPasswordChange) {
+                router.push(`/login/change-password${returnUrl ? `?return=${encodeURIComponent(returnUrl)}` : ''}`);
+                return;
+            }
+
+            await finishLogin();
+
+        } catch {
+            setError('Connection error. Please try again.');
+        } finally {
+            setPasskeyLoading(false);
+        }
+    }
+
+    // Signed in: resume the local flow, return to the service, or open the dashboard
+    async function finishLogin() {
+        if (isLocalReturn) {
+            window.location.href = returnUrl!;
+        } else if (returnUrl) {
+            const sso = await getSsoRedirectUrl(returnUrl);
+            if (sso.redirectUrl) {
+                window.location.href = sso.redirectUrl;
+            } else {
+                setError(sso.error || 'Unable to return to service');
+            }
+        } else {
+            router.push('/dashboard');
+        }
+    }
+
     if (checkingSession) {
         return (
             <div className="sso-container">
@@ -117,7 +220,7 @@ export default function LoginForm() {
                 {/* Sign In Text */}
                 <div className="sso-form-header">
                     <h2>Sign in</h2>
-                    {returnUrl && (
+                    {returnUrl && !isLocalReturn && (
                         <p className="sso-return-hint">
                             to continue to <strong>{new URL(returnUrl).hostname}</strong>
                         </p>
@@ -186,7 +289,7 @@ export default function LoginForm() {
                     <button
                         type="submit"
                         className="sso-submit"
-                        disabled={loading || !email || !password}
+                        disabled={loading || throttled || !email || !password}
                     >
                         {loading ? (
                             <>
@@ -199,6 +302,28 @@ export default function LoginForm() {
                     </button>
                 </form>
 
+                <div className="sso-divider">
+                    <span>or</span>
+                </div>
+
+                <a
+                    href={`/api/auth/discord?intent=login${returnUrl ? `&return=${encodeURIComponent(returnUrl)}` : ''}`}
+                    className="sso-discord"
+                >
+                    Sign in with Discord
+                </a>
+
+                {isWebAuthnSupported() && (
+                    <button
+                        type="button"
+                        className="sso-passkey"
+                        onClick={handlePasskey}
+                        disabled={passkeyLoading}
+                    >
+                        {passkeyLoading ? 'Waiting for passkey...' : 'Sign in with a passkey'}
+                    </button>
+                )}
+
                 {/* Footer Links */}
                 <div className="sso-footer">
                     <a href="/forgot-password">Forgot password?</a>
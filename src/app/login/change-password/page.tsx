@@ -0,0 +1,18 @@
+'use client';
+
+import { Suspense } from 'react';
+import ChangePasswordForm from './ChangePasswordForm';
+
+export default function ChangePasswordPage() {
+    return (
+        <Suspense fallback={
+            <div className="sso-container">
+                <div className="sso-loading">
+                    <div className="sso-spinner"></div>
+                </div>
+            </div>
+        }>
+            <ChangePasswordForm />
+        </Suspense>
+    );
+}
@@ -0,0 +1,115 @@
+/**
+ * OAuth 2.0 Authorization Endpoint
+ * 
+ * Authorization code flow with mandatory PKCE (S256)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIronSession } from 'iron-session';
+import { cookies } from 'next/headers';
+import { sessionOptions, SessionData, ensureFreshAccessToken } from '@/lib/session';
+import { validateToken } from '@/lib/auth';
+import { logAudit } from '@/lib/db';
+import { getClientForRedirect, resolveScopes, issueAuthorizationCode } from '@/lib/oauth';
+
+// Errors are redirected back to the client once its redirect URI has been verified
+function redirectError(redirectUri: string, error: string, description: string, state: string | null) {
+    const url = new URL(redirectUri);
+    url.searchParams.set('error', error);
+    url.searchParams.set('error_description', description);
+    if (state) url.searchParams.set('state', state);
+    return NextResponse.redirect(url.toString());
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams, pathname, search } = new URL(request.url);
+        const clientId = searchParams.get('client_id');
+        const redirectUri = searchParams.get('redirect_uri');
+        const responseType = searchParams.get('response_type');
+        const scope = searchParams.get('scope') || '';
+        const state = searchParams.get('state');
+        const nonce = searchParams.get('nonce');
+        const codeChallenge = searchParams.get('code_challenge');
+        const codeChallengeMethod = searchParams.get('code_challenge_method');
+        const prompt = searchParams.get('prompt');
+
+        if (!clientId || !redirectUri) {
+            return NextResponse.json(
+                { error: 'invalid_request', error_description: 'client_id and redirect_uri are required' },
+                { status: 400 }
+            );
+        }
+
+        // Never redirect to a URI that is not on the client's allowlist
+        const client = getClientForRedirect(clientId, redirectUri);
+        if (!client) {
+            return NextResponse.json(
+                { error: 'invalid_client', error_description: 'Unknown client or unregistered redirect_uri' },
+                { status: 400 }
+            );
+        }
+
+        if (responseType !== 'code') {
+            return redirectError(redirectUri, 'unsupported_response_type', 'Only response_type=code is supported', state);
+        }
+
+        if (!codeChallenge || codeChallengeMethod !== 'S256') {
+            return redirectError(redirectUri, 'invalid_request', 'PKCE with code_challenge_method=S256 is required', state);
+        }
+
+        const scopes = resolveScopes(scope, client);
+        if (!scopes.includes('openid')) {
+            return redirectError(redirectUri, 'invalid_scope', 'The openid scope is required', state);
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        // Require an active Auth session
+        const session = await getIronSession<SessionData>(await cookies(), sessionOptions);
+        const validation = await ensureFreshAccessToken(session, ip) && session.authToken
+            ? await validateToken(session.authToken)
+            : { valid: false as const };
+
+        if (!validation.valid || !validation.user) {
+            if (prompt === 'none') {
+                return redirectError(redirectUri, 'login_required', 'User is not signed in', state);
+            }
+            const loginUrl = new URL('/login', request.url);
+            loginUrl.searchParams.set('return', `${pathname}${search}`);
+            return NextResponse.redirect(loginUrl.toString());
+        }
+
+        const code = issueAuthorizationCode({
+            clientId: client.client_id,
+            userId: validation.user.userId,
+            sessionId: validation.user.sessionId,
+            redirectUri,
+            scope: scopes.join(' '),
+            nonce,
+            codeChallenge,
+        });
+
+        logAudit(
+            validation.user.userId,
+            'OAUTH_AUTHORIZE',
+            client.client_id,
+            `Authorized ${client.name} (${scopes.join(' ')})`,
+            ip
+        );
+
+        const callbackUrl = new URL(redirectUri);
+        callbackUrl.searchParams.set('code', code);
+        if (state) callbackUrl.searchParams.set('state', state);
+        return NextResponse.redirect(callbackUrl.toString());
+
+    } catch (error: unknown) {
+        console.error('OAuth authorize error:', error);
+        return NextResponse.json(
+            { error: 'server_error', error_description: 'Authorization failed' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+
+function tokenRequest(authorization: string): NextRequest {
+    return new NextRequest('https://auth.usgrp.xyz/oauth/token', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Authorization': authorization,
+        },
+        body: new URLSearchParams({ grant_type: 'authorization_code' }).toString(),
+    });
+}
+
+describe('POST /oauth/token', () => {
+    it('answers malformed Basic credentials with invalid_client', async () => {
+        const basic = Buffer.from('client%E0%A4%A:secret').toString('base64');
+        const response = await POST(tokenRequest(`Basic ${basic}`));
+
+        expect(response.status).toBe(401);
+        expect((await response.json()).error).toBe('invalid_client');
+    });
+
+    it('rejects unknown clients', async () => {
+        const basic = Buffer.from('unknown-client:secret').toString('base64');
+        const response = await POST(tokenRequest(`Basic ${basic}`));
+
+        expect(response.status).toBe(401);
+        expect((await response.json()).error).toBe('invalid_client');
+    });
+});
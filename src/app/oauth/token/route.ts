@@ -0,0 +1,111 @@
+/**
+ * OAuth 2.0 Token Endpoint
+ * 
+ * Exchanges an authorization code + PKCE verifier for access and ID tokens
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logAudit } from '@/lib/db';
+import { authenticateClient, redeemAuthorizationCode, issueTokens } from '@/lib/oauth';
+import { getActiveSession } from '@/lib/sessionpolicy';
+
+const NO_STORE = { 'Cache-Control': 'no-store', 'Pragma': 'no-cache' };
+
+function tokenError(error: string, description: string, status = 400) {
+    return NextResponse.json(
+        { error, error_description: description },
+        { status, headers: NO_STORE }
+    );
+}
+
+// Accept client_secret_basic (Authorization header) or client_secret_post (form body)
+// Returns null when the Basic credentials are not valid percent-encoding
+function getClientCredentials(request: NextRequest, form: URLSearchParams): { clientId: string | null; clientSecret: string | null } | null {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader?.startsWith('Basic ')) {
+        const decoded = Buffer.from(authHeader.substring(6), 'base64').toString();
+        const separator = decoded.indexOf(':');
+        if (separator > 0) {
+            try {
+                return {
+                    clientId: decodeURIComponent(decoded.substring(0, separator)),
+                    clientSecret: decodeURIComponent(decoded.substring(separator + 1)),
+                };
+            } catch {
+                return null;
+            }
+        }
+    }
+
+    return {
+        clientId: form.get('client_id'),
+        clientSecret: form.get('client_secret'),
+    };
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const form = new URLSearchParams(await request.text());
+        const grantType = form.get('grant_type');
+
+        if (grantType !== 'authorization_code') {
+            return tokenError('unsupported_grant_type', 'Only authorization_code is supported');
+        }
+
+        const credentials = getClientCredentials(request, form);
+        if (!credentials) {
+            return tokenError('invalid_client', 'Malformed client credentials', 401);
+        }
+
+        const { clientId, clientSecret } = credentials;
+        if (!clientId) {
+            return tokenError('invalid_client', 'Client authentication required', 401);
+        }
+
+        const client = authenticateClient(clientId, clientSecret);
+        if (!client) {
+            return tokenError('invalid_client', 'Client authentication failed', 401);
+        }
+
+        const code = form.get('code');
+        const redirectUri = form.get('redirect_uri');
+        const codeVerifier = form.get('code_verifier');
+
+        if (!code || !redirectUri || !codeVerifier) {
+            return tokenError('invalid_request', 'code, redirect_uri and code_verifier are required');
+        }
+
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
+            request.headers.get('x-real-ip') ||
+            'unknown';
+
+        const { grant, error } = redeemAuthorizationCode(code, client, redirectUri, codeVerifier);
+        if (!grant) {
+            logAudit(null, 'OAUTH_TOKEN_FAILED', client.client_id, error?.error_description || null, ip);
+            return tokenError(error?.error || 'invalid_grant', error?.error_description || 'Invalid grant');
+        }
+
+        // The Auth session must still be alive (and within its idle and absolute limits) when the code is redeemed
+        const active = getActiveSession(grant.session_id, ip);
+        const user = active?.user;
+        if (!active || !user || user.id !== grant.user_id || !user.enabled || user.suspended) {
+            return tokenError('invalid_grant', 'The user session is no longer valid');
+        }
+
+        const tokens = await issueTokens(grant, user, active.session);
+
+        logAudit(
+            user.id,
+            'SSO_ACCESS',
+            client.client_id,
+            `Authenticated via OIDC to ${client.name}`,
+            ip
+        );
+
+        return NextResponse.json(tokens, { headers: NO_STORE });
+
+    } catch (error: unknown) {
+        console.error('OAuth token error:', error);
+        return tokenError('server_error', 'Token request failed', 500);
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * OpenID Connect UserInfo Endpoint
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAccessToken, buildUserClaims } from '@/lib/oauth';
+
+async function handleUserInfo(request: NextRequest) {
+    try {
+        const authHeader = request.headers.get('authorization');
+
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            return NextResponse.json(
+                { error: 'invalid_token', error_description: 'Bearer token required' },
+                { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+            );
+        }
+
+        const result = await validateAccessToken(authHeader.substring(7));
+
+        if (!result.valid || !result.claims || !result.user) {
+            return NextResponse.json(
+                { error: 'invalid_token', error_description: result.error },
+                { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+            );
+        }
+
+        return NextResponse.json(
+            buildUserClaims(result.user, result.claims.scope.split(' ')),
+            { headers: { 'Cache-Control': 'no-store' } }
+        );
+
+    } catch (error: unknown) {
+        console.error('OAuth userinfo error:', error);
+        return NextResponse.json(
+            { error: 'server_error', error_description: 'UserInfo request failed' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function GET(request: NextRequest) {
+    return handleUserInfo(request);
+}
+
+export async function POST(request: NextRequest) {
+    return handleUserInfo(request);
+}
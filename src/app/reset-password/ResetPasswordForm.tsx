@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+export default function ResetPasswordForm() {
+    const searchParams = useSearchParams();
+    const token = searchParams.get('token') || '';
+
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [done, setDone] = useState('');
+    const [error, setError] = useState(token ? '' : 'This reset link is invalid or has expired');
+    const [requirements, setRequirements] = useState<string[]>([]);
+
+    useEffect(() => {
+        fetch('/api/auth/password/policy')
+            .then(res => res.json())
+            .then(data => setRequirements(data.requirements || []))
+            .catch(() => setRequirements([]));
+    }, []);
+
+    async function handleSubmit(e: FormEvent) {
+        e.preventDefault();
+        setError('');
+
+        if (newPassword !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            const res = await fetch('/api/auth/password/reset', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token, newPassword }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                setError(data.errors?.join(' ') || data.error || 'Password reset failed');
+                return;
+            }
+
+            setDone(data.message);
+        } catch {
+            setError('Connection error. Please try again.');
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="sso-container">
+            <div className="sso-card">
+                {/* Logo & Branding */}
+                <div className="sso-header">
+                    <div className="sso-logo">
+                        <svg viewBox="0 0 40 40" fill="none" xmlns="http://www.w3.org/2000/svg">
+                            <rect width="40" height="40" rx="8" fill="#3b82f6" />
+                            <path d="M12 20L18 26L28 14" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" />
+                        </svg>
+                    </div>
+                    <h1 className="sso-title">USGRP</h1>
+                    <p className="sso-subtitle">Identity Provider</p>
+                </div>
+
+                <div className="sso-form-header">
+                    <h2>Choose a new password</h2>
+                    <p className="sso-return-hint">
+                        You will be signed out of every device
+                    </p>
+                </div>
+
+                {/* Error Message */}
+                {error && (
+                    <div className="sso-error">
+                        <svg viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                        </svg>
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                {done ? (
+                    <>
+                        <div className="sso-success">{done}</div>
+                        <a href="/login" className="sso-submit" style={{ textDecoration: 'none' }}>
+                            Sign in
+                        </a>
+                    </>
+                ) : token && (
+                    <form onSubmit={handleSubmit} className="sso-form">
+                        <div className="sso-field">
+                            <label htmlFor="newPassword">New password</label>
+                            <input
+                                id="newPassword"
+                                type="password"
+                                value={newPassword}
+                                onChange={(e) => setNewPassword(e.target.value)}
+                                required
+                                autoComplete="new-password"
+                                autoFocus
+                            />
+                        </div>
+
+                        {requirements.length > 0 && (
+                            <ul className="sso-requirements">
+                                {requirements.map(rule => <li key={rule}>{rule}</li>)}
+                            </ul>
+                        )}
+
+                        <div className="sso-field">
+                            <label htmlFor="confirmPassword">Confirm new password</label>
+                            <input
+                                id="confirmPassword"
+                                type="password"
+                                value={confirmPassword}
+                                onChange={(e) => setConfirmPassword(e.target.value)}
+                                required
+                                autoComplete="new-password"
+                            />
+                        </div>
+
+                        <button
+                            type="submit"
+                            className="sso-submit"
+                            disabled={loading || !newPassword || !confirmPassword}
+                        >
+                            {loading ? (
+                                <>
+                                    <div className="sso-spinner-small"></div>
+                                    Saving...
+                                </>
+                            ) : (
+                                'Reset password'
+                            )}
+                        </button>
+                    </form>
+                )}
+
+                {/* Footer Links */}
+                <div className="sso-footer">
+                    {!done && <a href="/forgot-password">Request a new link</a>}
+                    <a href="/login">Back to sign in</a>
+                </div>
+            </div>
+
+            {/* Security Footer */}
+            <div className="sso-security">
+                <svg viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                </svg>
+                <span>Secured by USGRP Auth</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { Suspense } from 'react';
+import ResetPasswordForm from './ResetPasswordForm';
+
+export default function ResetPasswordPage() {
+    return (
+        <Suspense fallback={
+            <div className="sso-container">
+                <div className="sso-loading">
+                    <div className="sso-spinner"></div>
+                </div>
+            </div>
+        }>
+            <ResetPasswordForm />
+        </Suspense>
+    );
+}
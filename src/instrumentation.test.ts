@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { register } from './instrumentation';
+
+describe('register', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('refuses to start in production without SESSION_SECRET', async () => {
+        vi.stubEnv('NEXT_RUNTIME', 'nodejs');
+        vi.stubEnv('NODE_ENV', 'production');
+        vi.stubEnv('JWT_SECRET', 'legacy-test-secret-at-least-32-characters');
+        vi.stubEnv('SESSION_SECRET', '');
+
+        await expect(register()).rejects.toThrow('SESSION_SECRET must be set');
+    });
+
+    it('refuses to start without JWT_SECRET', async () => {
+        vi.stubEnv('NEXT_RUNTIME', 'nodejs');
+        vi.stubEnv('JWT_SECRET', '');
+
+        await expect(register()).rejects.toThrow('JWT_SECRET must be set');
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * Server startup hook
+ * Starts background maintenance that should not wait for a request to trigger it
+ */
+
+export async function register() {
+    // These need SQLite, so only the Node.js runtime runs them
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        // Legacy session tokens are verified with JWT_SECRET - never run on a guessable default
+        if (!process.env.JWT_SECRET) {
+            throw new Error('JWT_SECRET must be set');
+        }
+        // Every derived key (vault, device cookies, webhook secrets) falls back to SESSION_SECRET
+        if (process.env.NODE_ENV === 'production' && !process.env.SESSION_SECRET) {
+            throw new Error('SESSION_SECRET must be set');
+        }
+        if (process.env.JWT_LEGACY_CUTOFF && Number.isNaN(Date.parse(process.env.JWT_LEGACY_CUTOFF))) {
+            throw new Error('JWT_LEGACY_CUTOFF must be a date, e.g. 2026-10-19T00:00:00Z');
+        }
+
+        const { startSessionSweeper } = await import('./lib/sessionpolicy');
+        startSessionSweeper();
+
+        const { startAuditCheckpointer } = await import('./lib/auditchain');
+        startAuditCheckpointer();
+
+        const { startAuditForwarder } = await import('./lib/auditforward');
+        startAuditForwarder();
+
+        const { startAuditArchiver } = await import('./lib/auditretention');
+        startAuditArchiver();
+
+        const { startWebhookDeliverer } = await import('./lib/webhooks');
+        startWebhookDeliverer();
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * Service API keys
+ * Scoped, hashed keys for bots and other USGRP services, checked by a shared request guard
+ */
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyByHash, recordApiKeyUse, logAudit, type ApiKey } from './db';
+
+export const API_KEY_SCOPES = [
+    'audit:read',
+    'audit:write',
+    'users:read',
+    'mail:exchange',
+    'sso:exchange',
+    'roles:sync',
+] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+const API_KEY_PREFIX = 'usgrp_';
+
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new API key - the plaintext is only ever shown once
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    return { key, prefix: key.substring(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) };
+}
+
+export function parseKeyList(value: string): string[] {
+    try {
+        const parsed = JSON.parse(value || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * The caller's address as the reverse proxy in front of Auth saw it
+ * The proxy sets X-Real-IP and appends to X-Forwarded-For, so only those are trusted -
+ * earlier X-Forwarded-For entries come from the client and can say anything
+ */
+export function getTrustedClientIp(request: NextRequest): string {
+    const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(h => h.trim()).filter(Boolean);
+    return request.headers.get('x-real-ip') || hops[hops.length - 1] || 'unknown';
+}
+
+/**
+ * Guard for bot/service routes: requires a valid, unexpired, unrevoked key with the scope,
+ * called from an allowed IP. Every use and every rejection is audited.
+ */
+export function requireApiKey(
+    request: NextRequest,
+    scope: ApiKeyScope
+): { key: ApiKey; response?: undefined } | { key?: undefined; response: NextResponse } {
+    const ip = getTrustedClientIp(request);
+    const { pathname } = new URL(request.url);
+    const route = `${request.method} ${pathname}`;
+
+    const reject = (keyId: string | null, reason: string, status: number, error: string) => {
+        logAudit(null, 'API_KEY_REJECTED', keyId, `${route}: ${reason}`, ip);
+        return { response: NextResponse.json({ error }, { status }) };
+    };
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+    }
+
+    const key = getApiKeyByHash(hashApiKey(authHeader.substring(7)));
+    if (!key) {
+        return reject(null, 'unknown key', 401, 'Invalid API key');
+    }
+
+    if (key.revoked_at) {
+        return reject(key.id, 'revoked', 401, 'Invalid API key');
+    }
+
+    if (key.expires_at && new Date(key.expires_at) < new Date()) {
+        return reject(key.id, 'expired', 401, 'API key expired');
+    }
+
+    const allowedIps = parseKeyList(key.allowed_ips);
+    if (allowedIps.length > 0 && !allowedIps.includes(ip)) {
+        return reject(key.id, `IP ${ip} not allowed`, 403, 'IP address not allowed for this key');
+    }
+
+    if (!parseKeyList(key.scopes).includes(scope)) {
+        return reject(key.id, `missing scope ${scope}`, 403, `API key lacks the ${scope} scope`);
+    }
+
+    recordApiKeyUse(key.id, ip);
+    logAudit(null, 'API_KEY_USED', key.id, `${key.name}: ${route}`, ip);
+
+    return { key };
+}
@@ -0,0 +1,89 @@
+import path from 'path';
+import Database from 'better-sqlite3';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AUDIT_GENESIS_HASH, getAuditEntriesAfter, hashAuditEntry, logAudit } from './db';
+import { checkpointAuditChain, verifyAuditChain } from './auditchain';
+
+// Changes rows through a second connection, the way someone with direct DB access would
+function tamper(change: (raw: Database.Database) => void): void {
+    const raw = new Database(path.join(process.env.AUTH_DATA_DIR!, 'auth.db'));
+    try {
+        change(raw);
+    } finally {
+        raw.close();
+    }
+}
+
+function writeEntries(count: number): number[] {
+    for (let i = 0; i < count; i++) {
+        logAudit(`user-${i}`, 'LOGIN_SUCCESS', null, { attempt: i }, '203.0.113.1');
+    }
+    return getAuditEntriesAfter(0, 100).map(e => e.id);
+}
+
+describe('verifyAuditChain', () => {
+    beforeEach(() => {
+        // Opening the DB through db.ts first creates the schema
+        getAuditEntriesAfter(0, 1);
+        tamper(raw => raw.exec('DELETE FROM audit_log; DELETE FROM audit_checkpoints;'));
+    });
+
+    it('accepts an untouched chain', () => {
+        writeEntries(3);
+        const result = verifyAuditChain();
+
+        expect(result.valid).toBe(true);
+        expect(result.entriesChecked).toBe(3);
+        expect(result.brokenAt).toBeNull();
+    });
+
+    it('reports an edited entry', () => {
+        const [, second] = writeEntries(3);
+        tamper(raw => raw.prepare('UPDATE audit_log SET details = ? WHERE id = ?').run('{"attempt":99}', second));
+
+        const result = verifyAuditChain();
+        expect(result.valid).toBe(false);
+        expect(result.brokenAt?.entryId).toBe(second);
+        expect(result.brokenAt?.reason).toMatch(/edited/);
+    });
+
+    it('reports a deleted entry at the one after it', () => {
+        const [, second, third] = writeEntries(3);
+        tamper(raw => raw.prepare('DELETE FROM audit_log WHERE id = ?').run(second));
+
+        const result = verifyAuditChain();
+        expect(result.brokenAt?.entryId).toBe(third);
+        expect(result.brokenAt?.reason).toMatch(/deleted/);
+    });
+
+    it('catches a rewritten chain with the signed checkpoint', () => {
+        writeEntries(2);
+        expect(checkpointAuditChain()).not.toBeNull();
+
+        // Edit the first entry and recompute every hash so the chain itself is consistent again
+        tamper(raw => {
+            raw.prepare('UPDATE audit_log SET details = ? WHERE id = (SELECT MIN(id) FROM audit_log)').run('{"attempt":99}');
+            let prevHash = AUDIT_GENESIS_HASH;
+            for (const entry of getAuditEntriesAfter(0, 100)) {
+                const hash = hashAuditEntry(prevHash, entry);
+                raw.prepare('UPDATE audit_log SET prev_hash = ?, hash = ? WHERE id = ?').run(prevHash, hash, entry.id);
+                prevHash = hash;
+            }
+        });
+
+        const result = verifyAuditChain();
+        expect(result.valid).toBe(false);
+        expect(result.brokenAt?.checkpointId).toBeDefined();
+        expect(result.brokenAt?.reason).toMatch(/no longer matches its signed hash/);
+    });
+
+    it('rejects a checkpoint with a forged signature', () => {
+        writeEntries(1);
+        checkpointAuditChain();
+        tamper(raw => raw.prepare('UPDATE audit_checkpoints SET signature = ?').run('00'.repeat(32)));
+
+        const result = verifyAuditChain();
+        expect(result.valid).toBe(false);
+        expect(result.brokenAt?.reason).toBe('Checkpoint signature is invalid');
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tamper-evident audit log
+ * Every audit entry is hash-chained to the one before it (see logAudit); this module
+ * verifies the chain and periodically signs checkpoints of its head, so rewriting the
+ * log and recomputing every hash is still caught by a checkpoint that no longer matches.
+ * Archived entries leave gaps in the live log; their saved links bridge them
+ */
+
+import crypto from 'crypto';
+import {
+    AUDIT_GENESIS_HASH,
+    hashAuditEntry,
+    getAuditEntriesAfter,
+    getAuditEntry,
+    getAuditChainHead,
+    createAuditCheckpoint,
+    getAuditCheckpoints,
+    getLatestAuditCheckpoint,
+    getAuditArchives,
+    getAuditArchiveLinks,
+    getAuditArchiveLink,
+    type AuditArchive,
+    type AuditCheckpoint
+} from './db';
+import { getArchiveProblem, readAuditArchive } from './auditretention';
+import { deriveKey } from './secrets';
+import { startBackgroundJob } from './jobs';
+
+// Kept outside the database so DB access alone can't forge checkpoints
+const CHECKPOINT_KEY = deriveKey('AUDIT_CHECKPOINT_KEY');
+
+// How often the head of the chain is checkpointed (only when new entries were written)
+const CHECKPOINT_INTERVAL_MS = parseInt(process.env.AUDIT_CHECKPOINT_MINUTES || '60') * 60 * 1000;
+
+// Entries read per query while walking the chain
+const VERIFY_BATCH_SIZE = 1000;
+
+export interface AuditChainBreak {
+    entryId: number;
+    checkpointId?: number;
+    reason: string;
+}
+
+export interface AuditChainVerification {
+    valid: boolean;
+    entriesChecked: number;
+    archivedEntriesBridged: number;
+    archivesChecked: number;
+    checkpointsChecked: number;
+    headEntryId: number | null;
+    lastCheckpoint: { id: number; lastEntryId: number; createdAt: string } | null;
+    brokenAt: AuditChainBreak | null;
+    verifiedAt: string;
+}
+
+function signCheckpoint(checkpoint: Pick<AuditCheckpoint, 'last_entry_id' | 'entry_hash' | 'created_at'>): string {
+    return crypto.createHmac('sha256', CHECKPOINT_KEY)
+        .update(`${checkpoint.last_entry_id}:${checkpoint.entry_hash}:${checkpoint.created_at}`)
+        .digest('hex');
+}
+
+function isCheckpointSignatureValid(checkpoint: AuditCheckpoint): boolean {
+    const expected = Buffer.from(signCheckpoint(checkpoint), 'hex');
+    const actual = Buffer.from(checkpoint.signature, 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Sign the current head of the chain - null if nothing was written since the last checkpoint
+ */
+export function checkpointAuditChain(): AuditCheckpoint | null {
+    const head = getAuditChainHead();
+    if (!head?.hash) return null;
+
+    const latest = getLatestAuditCheckpoint();
+    if (latest && latest.last_entry_id >= head.id) return null;
+
+    const checkpoint = {
+        last_entry_id: head.id,
+        entry_hash: head.hash,
+        created_at: new Date().toISOString(),
+    };
+    return createAuditCheckpoint({ ...checkpoint, signature: signCheckpoint(checkpoint) });
+}
+
+// Re-hash every entry in an archive file and compare it with the saved link
+function verifyArchiveContents(breaks: AuditChainBreak[], archive: AuditArchive): void {
+    for (const entry of readAuditArchive(archive)) {
+        const link = getAuditArchiveLink(entry.id);
+        if (!link || !entry.prev_hash || link.hash !== hashAuditEntry(entry.prev_hash, entry) || link.prev_hash !== entry.prev_hash) {
+            breaks.push({ entryId: entry.id, reason: `Archived entry in ${archive.month} does not match its chain link` });
+            return;
+        }
+    }
+}
+
+/**
+ * Walk the whole chain, the archive files and every checkpoint - reports the first broken link.
+ * deep also decompresses each archive and re-hashes the entries in it
+ */
+export function verifyAuditChain(deep = false): AuditChainVerification {
+    const breaks: AuditChainBreak[] = [];
+    let entriesChecked = 0;
+    let archivedEntriesBridged = 0;
+    let prevHash = AUDIT_GENESIS_HASH;
+    let lastId = 0;
+
+    // Recompute every hash; the first mismatch is where the chain was altered
+    while (breaks.length === 0) {
+        const batch = getAuditEntriesAfter(lastId, VERIFY_BATCH_SIZE);
+        if (batch.length === 0) break;
+
+        for (const entry of batch) {
+            entriesChecked++;
+
+            // Entries archived since were part of the chain between here and the last live entry
+            if (entry.prev_hash !== prevHash) {
+                for (const link of getAuditArchiveLinks(lastId, entry.id)) {
+                    if (link.prev_hash !== prevHash) break;
+                    prevHash = link.hash;
+                    archivedEntriesBridged++;
+                }
+            }
+
+            if (entry.prev_hash !== prevHash) {
+                breaks.push({ entryId: entry.id, reason: 'Does not link to the previous entry - entries were deleted, inserted or reordered' });
+                break;
+            }
+            if (entry.hash !== hashAuditEntry(prevHash, entry)) {
+                breaks.push({ entryId: entry.id, reason: 'Content does not match its hash - the entry was edited' });
+                break;
+            }
+            prevHash = entry.hash;
+            lastId = entry.id;
+        }
+    }
+
+    const archives = getAuditArchives();
+    for (const archive of archives) {
+        const problem = getArchiveProblem(archive);
+        if (problem) {
+            breaks.push({ entryId: archive.first_entry_id, reason: problem });
+        } else if (deep) {
+            verifyArchiveContents(breaks, archive);
+        }
+    }
+
+    // A rewritten chain can be internally consistent, but it won't match the signed checkpoints
+    const checkpoints = getAuditCheckpoints();
+    for (const checkpoint of checkpoints) {
+        if (!isCheckpointSignatureValid(checkpoint)) {
+            breaks.push({ entryId: checkpoint.last_entry_id, checkpointId: checkpoint.id, reason: 'Checkpoint signature is invalid' });
+            continue;
+        }
+        const entry = getAuditEntry(checkpoint.last_entry_id) || getAuditArchiveLink(checkpoint.last_entry_id);
+        if (!entry) {
+            breaks.push({ entryId: checkpoint.last_entry_id, checkpointId: checkpoint.id, reason: 'Checkpointed entry is missing' });
+        } else if (entry.hash !== checkpoint.entry_hash) {
+            breaks.push({ entryId: checkpoint.last_entry_id, checkpointId: checkpoint.id, reason: 'Checkpointed entry no longer matches its signed hash' });
+        }
+    }
+
+    const head = getAuditChainHead();
+    const latest = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1] : null;
+
+    return {
+        valid: breaks.length === 0,
+        entriesChecked,
+        archivedEntriesBridged,
+        archivesChecked: archives.length,
+        checkpointsChecked: checkpoints.length,
+        headEntryId: head?.id ?? null,
+        lastCheckpoint: latest
+            ? { id: latest.id, lastEntryId: latest.last_entry_id, createdAt: latest.created_at }
+            : null,
+        brokenAt: breaks.length > 0
+            ? breaks.reduce((first, b) => b.entryId < first.entryId ? b : first)
+            : null,
+        verifiedAt: new Date().toISOString(),
+    };
+}
+
+let checkpointer: NodeJS.Timeout | null = null;
+
+/**
+ * Checkpoint the chain on a timer for the life of the server process
+ */
+export function startAuditCheckpointer(): void {
+    if (checkpointer) return;
+
+    checkpointer = startBackgroundJob('Audit checkpoint', CHECKPOINT_INTERVAL_MS, checkpointAuditChain);
+}
@@ -0,0 +1,137 @@
+/**
+ * Audit event catalog
+ * Every action written to the audit log, with the category and severity the Audit page
+ * filters on. Shared by the server (logAudit) and the dashboard, so it has no server imports
+ */
+
+export type AuditCategory = 'auth' | 'session' | 'credentials' | 'admin' | 'oauth' | 'system';
+
+export type AuditSeverity = 'info' | 'warning' | 'critical';
+
+export interface AuditEventInfo {
+    category: AuditCategory;
+    label: string;
+    severity: AuditSeverity;
+}
+
+export const AUDIT_CATEGORIES: Record<AuditCategory, string> = {
+    auth: 'Sign-in',
+    session: 'Sessions & Devices',
+    credentials: 'Credentials',
+    admin: 'Administration',
+    oauth: 'OAuth & SSO',
+    system: 'System & Integrations',
+};
+
+export const AUDIT_EVENTS = {
+    // Sign-in
+    LOGIN_SUCCESS: { category: 'auth', label: 'Signed in', severity: 'info' },
+    LOGIN_FAILED: { category: 'auth', label: 'Sign-in failed', severity: 'warning' },
+    LOGIN_RATE_LIMITED: { category: 'auth', label: 'Sign-in rate limited', severity: 'warning' },
+    LOGIN_2FA_REQUIRED: { category: 'auth', label: 'Second factor required', severity: 'info' },
+    LOGIN_PASSWORD_CHANGE_REQUIRED: { category: 'auth', label: 'Password change required at sign-in', severity: 'info' },
+    LOGOUT: { category: 'auth', label: 'Signed out', severity: 'info' },
+    LOGOUT_ALL: { category: 'auth', label: 'Signed out everywhere', severity: 'info' },
+    ACCOUNT_LOCKED: { category: 'auth', label: 'Account locked', severity: 'warning' },
+    ACCOUNT_UNLOCKED: { category: 'auth', label: 'Account unlocked', severity: 'info' },
+    RECOVERY_CODE_USED: { category: 'auth', label: 'Recovery code used', severity: 'warning' },
+    RECOVERY_CODE_FAILED: { category: 'auth', label: 'Recovery code rejected', severity: 'warning' },
+    SUSPICIOUS_LOGIN: { category: 'auth', label: 'Unfamiliar sign-in', severity: 'warning' },
+    LOGIN_ALERT_CONFIRMED: { category: 'auth', label: 'Sign-in alert confirmed', severity: 'info' },
+    LOGIN_ALERT_REPORTED: { category: 'auth', label: 'Sign-in reported as not me', severity: 'critical' },
+
+    // Sessions & devices
+    SESSION_KILL: { category: 'session', label: 'Session ended', severity: 'info' },
+    SESSIONS_KILL_ALL: { category: 'session', label: 'Other sessions ended', severity: 'info' },
+    SESSION_IDLE_TIMEOUT: { category: 'session', label: 'Session idle timeout', severity: 'info' },
+    SESSION_EXPIRED: { category: 'session', label: 'Session expired', severity: 'info' },
+    SESSION_EVICTED: { category: 'session', label: 'Session evicted by limit', severity: 'info' },
+    ADMIN_SESSION_KILL: { category: 'session', label: 'Session ended by admin', severity: 'warning' },
+    ADMIN_SESSIONS_KILL_ALL: { category: 'session', label: 'User signed out by admin', severity: 'warning' },
+    GLOBAL_SIGN_OUT: { category: 'session', label: 'Every user signed out', severity: 'critical' },
+    REFRESH_TOKEN_REUSE: { category: 'session', label: 'Refresh token reused', severity: 'critical' },
+    DEVICE_TRUSTED: { category: 'session', label: 'Device trusted', severity: 'info' },
+    DEVICE_REMOVE: { category: 'session', label: 'Trusted device removed', severity: 'info' },
+    DEVICES_REMOVE_ALL: { category: 'session', label: 'All trusted devices removed', severity: 'info' },
+
+    // Credentials
+    PASSWORD_CHANGED: { category: 'credentials', label: 'Password changed', severity: 'info' },
+    PASSWORD_RESET: { category: 'credentials', label: 'Password reset', severity: 'warning' },
+    PASSWORD_RESET_REQUESTED: { category: 'credentials', label: 'Password reset requested', severity: 'info' },
+    PASSWORD_RESET_FAILED: { category: 'credentials', label: 'Password reset failed', severity: 'warning' },
+    PASSWORD_CHANGE_REQUIRED: { category: 'credentials', label: 'Password change required', severity: 'info' },
+    PASSWORD_CHANGE_CLEARED: { category: 'credentials', label: 'Password change requirement cleared', severity: 'info' },
+    TOTP_SETUP_STARTED: { category: 'credentials', label: '2FA setup started', severity: 'info' },
+    TOTP_SETUP_FAILED: { category: 'credentials', label: '2FA setup failed', severity: 'info' },
+    TOTP_ENABLED: { category: 'credentials', label: '2FA enabled', severity: 'info' },
+    TOTP_RESET: { category: 'credentials', label: '2FA reset', severity: 'warning' },
+    RECOVERY_CODES_GENERATED: { category: 'credentials', label: 'Recovery codes generated', severity: 'info' },
+    WEBAUTHN_REGISTERED: { category: 'credentials', label: 'Security key registered', severity: 'info' },
+    WEBAUTHN_REMOVED: { category: 'credentials', label: 'Security key removed', severity: 'warning' },
+    BACKUP_EMAIL_CHANGED: { category: 'credentials', label: 'Backup email changed', severity: 'warning' },
+    DISCORD_LINKED: { category: 'credentials', label: 'Discord linked', severity: 'info' },
+    DISCORD_UNLINKED: { category: 'credentials', label: 'Discord unlinked', severity: 'info' },
+    DISCORD_LINK_FAILED: { category: 'credentials', label: 'Discord link failed', severity: 'info' },
+    MAIL_CREDENTIALS_EXCHANGED: { category: 'credentials', label: 'Mail credentials issued', severity: 'info' },
+    MAIL_EXCHANGE_FAILED: { category: 'credentials', label: 'Mail credential exchange failed', severity: 'warning' },
+
+    // Administration
+    USER_CREATED: { category: 'admin', label: 'User created', severity: 'info' },
+    USER_UPDATED: { category: 'admin', label: 'User updated', severity: 'info' },
+    USER_DELETED: { category: 'admin', label: 'User deleted', severity: 'warning' },
+    APPROVAL_REQUESTED: { category: 'admin', label: 'Approval requested', severity: 'info' },
+    APPROVAL_APPROVED: { category: 'admin', label: 'Approval granted', severity: 'warning' },
+    APPROVAL_DENIED: { category: 'admin', label: 'Approval denied', severity: 'info' },
+    AUDIT_EXPORTED: { category: 'admin', label: 'Audit log exported', severity: 'warning' },
+
+    // OAuth & SSO
+    SSO_ACCESS: { category: 'oauth', label: 'SSO access', severity: 'info' },
+    SSO_EXCHANGE_FAILED: { category: 'oauth', label: 'SSO code exchange failed', severity: 'warning' },
+    OAUTH_AUTHORIZE: { category: 'oauth', label: 'OAuth authorization', severity: 'info' },
+    OAUTH_TOKEN_FAILED: { category: 'oauth', label: 'OAuth token request failed', severity: 'warning' },
+    OAUTH_CLIENT_CREATED: { category: 'oauth', label: 'OAuth client created', severity: 'info' },
+    OAUTH_CLIENT_UPDATED: { category: 'oauth', label: 'OAuth client updated', severity: 'info' },
+    OAUTH_CLIENT_DELETED: { category: 'oauth', label: 'OAuth client deleted', severity: 'warning' },
+    OAUTH_CLIENT_SECRET_ROTATED: { category: 'oauth', label: 'OAuth client secret rotated', severity: 'warning' },
+
+    // System & integrations
+    API_KEY_CREATED: { category: 'system', label: 'API key created', severity: 'info' },
+    API_KEY_REVOKED: { category: 'system', label: 'API key revoked', severity: 'warning' },
+    API_KEY_USED: { category: 'system', label: 'API key used', severity: 'info' },
+    API_KEY_REJECTED: { category: 'system', label: 'API key rejected', severity: 'warning' },
+    SIGNING_KEY_ROTATED: { category: 'system', label: 'Signing key rotated', severity: 'warning' },
+    SIGNING_KEY_RETIRED: { category: 'system', label: 'Signing key retired', severity: 'warning' },
+    DISCORD_ROLE_SYNC: { category: 'system', label: 'Discord roles synced', severity: 'info' },
+    DISCORD_ROLE_RECONCILE: { category: 'system', label: 'Discord roles reconciled', severity: 'info' },
+    DISCORD_ROLE_MAPPING_UPDATED: { category: 'system', label: 'Discord role mapping updated', severity: 'info' },
+    DISCORD_ROLE_MAPPING_DELETED: { category: 'system', label: 'Discord role mapping deleted', severity: 'info' },
+    WEBHOOK_CREATED: { category: 'system', label: 'Webhook created', severity: 'info' },
+    WEBHOOK_UPDATED: { category: 'system', label: 'Webhook updated', severity: 'info' },
+    WEBHOOK_DELETED: { category: 'system', label: 'Webhook deleted', severity: 'warning' },
+    WEBHOOK_SECRET_ROTATED: { category: 'system', label: 'Webhook secret rotated', severity: 'warning' },
+    WEBHOOK_DELIVERY_FAILED: { category: 'system', label: 'Webhook delivery failed', severity: 'warning' },
+    AUDIT_ARCHIVED: { category: 'system', label: 'Audit entries archived', severity: 'info' },
+    EXTERNAL_EVENT: { category: 'system', label: 'Event from a service', severity: 'info' },
+} as const satisfies Record<string, AuditEventInfo>;
+
+export type AuditAction = keyof typeof AUDIT_EVENTS;
+
+// Structured details; plain strings are stored as { message }
+export type AuditDetails = Record<string, unknown>;
+
+export function isAuditAction(action: string): action is AuditAction {
+    return Object.prototype.hasOwnProperty.call(AUDIT_EVENTS, action);
+}
+
+/**
+ * Catalog entry for an action - unknown actions (older rows) fall back to a generic entry
+ */
+export function getAuditEventInfo(action: string): AuditEventInfo {
+    return isAuditAction(action)
+        ? AUDIT_EVENTS[action]
+        : { category: 'system', label: action.replace(/_/g, ' ').toLowerCase(), severity: 'info' };
+}
+
+export function getAuditActionsInCategory(category: AuditCategory): AuditAction[] {
+    return (Object.keys(AUDIT_EVENTS) as AuditAction[]).filter(action => AUDIT_EVENTS[action].category === category);
+}
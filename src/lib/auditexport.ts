@@ -0,0 +1,77 @@
+/**
+ * Audit log records for export and forwarding
+ * One flat shape for the Audit API, CSV/JSONL exports and SIEM sinks
+ */
+
+import { parseAuditDetails, type AuditLogRow } from './db';
+import { getAuditEventInfo, type AuditCategory, type AuditDetails, type AuditSeverity } from './auditevents';
+
+export interface AuditRecord {
+    id: number;
+    createdAt: string;       // ISO 8601, UTC
+    action: string;
+    label: string;
+    category: AuditCategory;
+    severity: AuditSeverity;
+    userId: string | null;
+    actorName: string | null;
+    actorEmail: string | null;
+    target: string | null;
+    details: AuditDetails | null;
+    ip: string | null;
+    hash: string | null;
+}
+
+export type AuditExportFormat = 'csv' | 'jsonl';
+
+export const AUDIT_EXPORT_FORMATS: AuditExportFormat[] = ['csv', 'jsonl'];
+
+const CSV_COLUMNS: (keyof AuditRecord)[] = [
+    'id', 'createdAt', 'action', 'label', 'category', 'severity',
+    'userId', 'actorName', 'actorEmail', 'target', 'ip', 'details', 'hash',
+];
+
+// SQLite datetime('now') values are UTC without a zone
+function toIsoTimestamp(value: string): string {
+    return value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+}
+
+export function toAuditRecord(row: AuditLogRow): AuditRecord {
+    const event = getAuditEventInfo(row.action);
+    return {
+        id: row.id,
+        createdAt: toIsoTimestamp(row.created_at),
+        action: row.action,
+        label: event.label,
+        category: event.category,
+        severity: event.severity,
+        userId: row.user_id,
+        actorName: row.actor_name,
+        actorEmail: row.actor_email,
+        target: row.target,
+        details: parseAuditDetails(row.details),
+        ip: row.ip,
+        hash: row.hash,
+    };
+}
+
+function toCsvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    // Spreadsheets would run cells starting with these as formulas
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function getAuditExportHeader(format: AuditExportFormat): string {
+    return format === 'csv' ? `${CSV_COLUMNS.join(',')}\r\n` : '';
+}
+
+/**
+ * One record as a CSV row or JSON line, including the line ending
+ */
+export function formatAuditRecord(record: AuditRecord, format: AuditExportFormat): string {
+    return format === 'csv'
+        ? `${CSV_COLUMNS.map(column => toCsvCell(record[column])).join(',')}\r\n`
+        : `${JSON.stringify(record)}\n`;
+}
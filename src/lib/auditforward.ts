@@ -0,0 +1,317 @@
+/**
+ * SIEM forwarding
+ * Streams every audit entry to syslog (RFC 5424), an HTTP collector and/or a rolling JSONL file.
+ * Each sink tails the audit log from its own cursor, so a sink that is down only falls behind;
+ * a batch that keeps failing is parked in a dead-letter buffer and replayed once the sink recovers
+ */
+
+import fs from 'fs';
+import os from 'os';
+import net from 'net';
+import tls from 'tls';
+import dgram from 'dgram';
+import path from 'path';
+import {
+    getAuditChainHead,
+    getAuditLogRowsAfter,
+    getAuditForwardState,
+    updateAuditForwardState,
+    addAuditDeadLetters,
+    getAuditDeadLetters,
+    deleteAuditDeadLetters,
+    countAuditDeadLetters
+} from './db';
+import { toAuditRecord, type AuditRecord } from './auditexport';
+import type { AuditSeverity } from './auditevents';
+import { startBackgroundJob } from './jobs';
+
+// udp://host:514, tcp://host:514 or tls://host:6514
+const AUDIT_SYSLOG_URL = process.env.AUDIT_SYSLOG_URL || '';
+
+// RFC 5424 facility - 10 is authpriv
+const AUDIT_SYSLOG_FACILITY = parseInt(process.env.AUDIT_SYSLOG_FACILITY || '10');
+
+// Receives POST { events: [...] }
+const AUDIT_HTTP_URL = process.env.AUDIT_HTTP_URL || '';
+
+// Sent as the Authorization header, e.g. "Bearer ..." or "Splunk ..."
+const AUDIT_HTTP_AUTHORIZATION = process.env.AUDIT_HTTP_AUTHORIZATION || '';
+
+// JSON lines, rotated to .1, .2, ... once it grows past the size limit
+const AUDIT_FILE_PATH = process.env.AUDIT_FILE_PATH || '';
+const AUDIT_FILE_MAX_BYTES = parseInt(process.env.AUDIT_FILE_MAX_MB || '50') * 1024 * 1024;
+const AUDIT_FILE_KEEP = parseInt(process.env.AUDIT_FILE_KEEP || '5');
+
+const FORWARD_INTERVAL_MS = parseInt(process.env.AUDIT_FORWARD_INTERVAL_SECONDS || '2') * 1000;
+
+// Attempts at one batch before it is parked so newer events aren't stuck behind it
+const MAX_ATTEMPTS = parseInt(process.env.AUDIT_FORWARD_MAX_ATTEMPTS || '8');
+
+// Parked events kept per sink; beyond this the oldest are dropped (they stay in the audit log itself)
+const MAX_DEAD_LETTERS = parseInt(process.env.AUDIT_DEAD_LETTER_MAX || '10000');
+
+const BATCH_SIZE = 100;
+const SEND_TIMEOUT_MS = 10000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+const SYSLOG_SEVERITY: Record<AuditSeverity, number> = {
+    info: 6,      // informational
+    warning: 4,   // warning
+    critical: 2,  // critical
+};
+
+interface AuditSink {
+    name: 'syslog' | 'http' | 'file';
+    send(records: AuditRecord[]): Promise<void>;
+}
+
+export interface AuditSinkStatus {
+    sink: string;
+    lastEntryId: number;
+    failures: number;
+    lastError: string | null;
+    nextAttemptAt: string | null;
+    deadLetters: number;
+}
+
+// ============================================
+// Syslog
+// ============================================
+
+function formatSyslogMessage(record: AuditRecord): string {
+    const pri = AUDIT_SYSLOG_FACILITY * 8 + SYSLOG_SEVERITY[record.severity];
+    // <PRI>VERSION TIMESTAMP HOSTNAME APP-NAME PROCID MSGID STRUCTURED-DATA MSG
+    return `<${pri}>1 ${record.createdAt} ${os.hostname() || '-'} usgrp-auth ${process.pid} ${record.action.slice(0, 32)} - ${JSON.stringify(record)}`;
+}
+
+async function sendSyslogUdp(host: string, port: number, messages: string[]): Promise<void> {
+    const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+    try {
+        for (const message of messages) {
+            await new Promise<void>((resolve, reject) => {
+                socket.send(Buffer.from(message), port, host, error => error ? reject(error) : resolve());
+            });
+        }
+    } finally {
+        socket.close();
+    }
+}
+
+// TCP and TLS frame each message with its length (RFC 6587 octet counting)
+function sendSyslogStream(host: string, port: number, secure: boolean, messages: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const socket = secure
+            ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+            : net.connect({ host, port });
+
+        socket.setTimeout(SEND_TIMEOUT_MS, () => socket.destroy(new Error('Syslog connection timed out')));
+        socket.once('error', reject);
+        socket.once(secure ? 'secureConnect' : 'connect', () => {
+            const payload = messages.map(message => `${Buffer.byteLength(message)} ${message}`).join('');
+            socket.end(payload, () => resolve());
+        });
+    });
+}
+
+function createSyslogSink(url: URL): AuditSink {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const protocol = url.protocol.replace(':', '');
+    const port = parseInt(url.port) || (protocol === 'tls' ? 6514 : 514);
+
+    return {
+        name: 'syslog',
+        async send(records) {
+            const messages = records.map(formatSyslogMessage);
+            if (protocol === 'udp') {
+                await sendSyslogUdp(host, port, messages);
+            } else {
+                await sendSyslogStream(host, port, protocol === 'tls', messages);
+            }
+        },
+    };
+}
+
+// ============================================
+// HTTP
+// ============================================
+
+function createHttpSink(url: string): AuditSink {
+    return {
+        name: 'http',
+        async send(records) {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(AUDIT_HTTP_AUTHORIZATION ? { Authorization: AUDIT_HTTP_AUTHORIZATION } : {}),
+                },
+                body: JSON.stringify({ events: records }),
+                signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+            });
+            if (!res.ok) {
+                throw new Error(`Collector responded ${res.status}`);
+            }
+        },
+    };
+}
+
+// ============================================
+// Rolling file
+// ============================================
+
+async function rotateFile(file: string): Promise<void> {
+    if (AUDIT_FILE_KEEP < 1) {
+        await fs.promises.unlink(file);
+        return;
+    }
+    for (let i = AUDIT_FILE_KEEP - 1; i >= 1; i--) {
+        await fs.promises.rename(`${file}.${i}`, `${file}.${i + 1}`).catch(() => { /* Not there yet */ });
+    }
+    await fs.promises.rename(file, `${file}.1`);
+}
+
+function createFileSink(file: string): AuditSink {
+    return {
+        name: 'file',
+        async send(records) {
+            const lines = records.map(record => `${JSON.stringify(record)}\n`).join('');
+
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            const size = await fs.promises.stat(file).then(stat => stat.size, () => 0);
+            if (size > 0 && size + Buffer.byteLength(lines) > AUDIT_FILE_MAX_BYTES) {
+                await rotateFile(file);
+            }
+            await fs.promises.appendFile(file, lines);
+        },
+    };
+}
+
+// ============================================
+// Forwarding
+// ============================================
+
+let sinks: AuditSink[] | null = null;
+
+function getSinks(): AuditSink[] {
+    if (!sinks) {
+        sinks = [];
+        if (AUDIT_SYSLOG_URL) {
+            try {
+                const url = new URL(AUDIT_SYSLOG_URL);
+                if (['udp:', 'tcp:', 'tls:'].includes(url.protocol)) {
+                    sinks.push(createSyslogSink(url));
+                } else {
+                    console.error('AUDIT_SYSLOG_URL must start with udp://, tcp:// or tls://');
+                }
+            } catch {
+                console.error('AUDIT_SYSLOG_URL is not a valid URL');
+            }
+        }
+        if (AUDIT_HTTP_URL) sinks.push(createHttpSink(AUDIT_HTTP_URL));
+        if (AUDIT_FILE_PATH) sinks.push(createFileSink(AUDIT_FILE_PATH));
+    }
+    return sinks;
+}
+
+function nextAttemptAt(failures: number): string {
+    return new Date(Date.now() + Math.min(1000 * 2 ** (failures - 1), MAX_BACKOFF_MS)).toISOString();
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+async function forwardToSink(sink: AuditSink): Promise<void> {
+    // A newly configured sink starts at the current head rather than replaying the whole log
+    const state = getAuditForwardState(sink.name, getAuditChainHead()?.id ?? 0);
+    if (state.next_attempt_at && new Date(state.next_attempt_at) > new Date()) return;
+
+    const rows = getAuditLogRowsAfter(state.last_entry_id, BATCH_SIZE);
+
+    // Caught up - use the quiet moment to replay parked events
+    if (rows.length === 0) {
+        const letters = getAuditDeadLetters(sink.name, BATCH_SIZE);
+        if (letters.length === 0) return;
+
+        try {
+            await sink.send(letters.map(letter => JSON.parse(letter.payload) as AuditRecord));
+            deleteAuditDeadLetters(letters.map(letter => letter.id));
+            updateAuditForwardState(sink.name, { failures: 0, last_error: null, next_attempt_at: null });
+        } catch (error) {
+            const failures = state.failures + 1;
+            updateAuditForwardState(sink.name, { failures, last_error: errorMessage(error), next_attempt_at: nextAttemptAt(failures) });
+        }
+        return;
+    }
+
+    const records = rows.map(toAuditRecord);
+    const lastEntryId = rows[rows.length - 1].id;
+
+    try {
+        await sink.send(records);
+        updateAuditForwardState(sink.name, { last_entry_id: lastEntryId, failures: 0, last_error: null, next_attempt_at: null });
+    } catch (error) {
+        const message = errorMessage(error);
+        const failures = state.failures + 1;
+        console.error(`Audit forwarding to ${sink.name} failed (attempt ${failures}):`, message);
+
+        if (failures < MAX_ATTEMPTS) {
+            updateAuditForwardState(sink.name, { failures, last_error: message, next_attempt_at: nextAttemptAt(failures) });
+            return;
+        }
+
+        const dropped = addAuditDeadLetters(
+            sink.name,
+            records.map(record => ({ entry_id: record.id, payload: JSON.stringify(record) })),
+            message,
+            MAX_DEAD_LETTERS
+        );
+        if (dropped > 0) {
+            console.error(`Audit dead-letter buffer for ${sink.name} is full - dropped ${dropped} oldest events`);
+        }
+        // The next batch gets a fresh set of attempts
+        updateAuditForwardState(sink.name, { last_entry_id: lastEntryId, failures: 0, last_error: message, next_attempt_at: nextAttemptAt(failures) });
+    }
+}
+
+/**
+ * Send whatever each sink hasn't had yet (one batch per sink)
+ */
+export async function forwardAuditEvents(): Promise<void> {
+    for (const sink of getSinks()) {
+        try {
+            await forwardToSink(sink);
+        } catch (error) {
+            console.error(`Audit forwarding (${sink.name}) error:`, error);
+        }
+    }
+}
+
+/**
+ * Configured sinks and how far behind each one is
+ */
+export function getAuditForwardingStatus(): AuditSinkStatus[] {
+    const head = getAuditChainHead()?.id ?? 0;
+    return getSinks().map(sink => {
+        const state = getAuditForwardState(sink.name, head);
+        return {
+            sink: sink.name,
+            lastEntryId: state.last_entry_id,
+            failures: state.failures,
+            lastError: state.last_error,
+            nextAttemptAt: state.next_attempt_at,
+            deadLetters: countAuditDeadLetters(sink.name),
+        };
+    });
+}
+
+let forwarder: NodeJS.Timeout | null = null;
+
+/**
+ * Forward on a timer for the life of the server process - does nothing if no sink is configured
+ */
+export function startAuditForwarder(): void {
+    if (forwarder || getSinks().length === 0) return;
+
+    forwarder = startBackgroundJob('Audit forwarding', FORWARD_INTERVAL_MS, forwardAuditEvents);
+}
@@ -0,0 +1,300 @@
+/**
+ * Audit log retention and archival
+ * Entries past the retention of their action (or category) move out of the live table into
+ * gzipped monthly JSONL archives with SHA-256 checksums. Archives are kept indefinitely -
+ * retention only decides how long an entry stays in the live, indexed log
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import {
+    DATA_DIR,
+    getAuditActionsInUse,
+    getAuditEntriesToArchive,
+    getAuditArchive,
+    commitAuditArchive,
+    logAudit,
+    type AuditArchive,
+    type AuditLogFilters,
+    type AuditLogRow
+} from './db';
+import { AUDIT_CATEGORIES, getAuditEventInfo, type AuditCategory } from './auditevents';
+import { startBackgroundJob } from './jobs';
+
+const AUDIT_ARCHIVE_DIR = process.env.AUDIT_ARCHIVE_DIR || path.join(DATA_DIR, 'audit-archive');
+
+// Days each category stays in the live log; null keeps it there forever
+const DEFAULT_RETENTION_DAYS: Record<AuditCategory, number | null> = {
+    auth: 90,
+    session: 90,
+    credentials: 365,
+    oauth: 180,
+    system: 365,
+    admin: null,
+};
+
+// Overrides such as "auth=30,LOGIN_*=90,USER_DELETED=forever" - exact actions beat prefixes beat categories
+const AUDIT_RETENTION = process.env.AUDIT_RETENTION || '';
+
+const ARCHIVE_INTERVAL_MS = parseInt(process.env.AUDIT_ARCHIVE_INTERVAL_HOURS || '24') * 60 * 60 * 1000;
+
+// Entries moved per pass; a run keeps going until nothing is due
+const ARCHIVE_BATCH_SIZE = 5000;
+
+export interface AuditRetentionPolicy {
+    categories: Record<AuditCategory, number | null>;
+    actions: Record<string, number | null>;
+    prefixes: { prefix: string; days: number | null }[];  // longest first
+}
+
+let policy: AuditRetentionPolicy | null = null;
+
+export function getRetentionPolicy(): AuditRetentionPolicy {
+    if (!policy) {
+        const parsed: AuditRetentionPolicy = { categories: { ...DEFAULT_RETENTION_DAYS }, actions: {}, prefixes: [] };
+
+        for (const rule of AUDIT_RETENTION.split(',').map(r => r.trim()).filter(Boolean)) {
+            const [key, value = ''] = rule.split('=').map(part => part.trim());
+            const days = /^forever$/i.test(value) ? null : parseInt(value);
+            if (days !== null && !(days > 0)) {
+                console.error(`Ignoring audit retention rule "${rule}" - use a number of days or "forever"`);
+                continue;
+            }
+
+            if (key in AUDIT_CATEGORIES) {
+                parsed.categories[key as AuditCategory] = days;
+            } else if (key.endsWith('*')) {
+                parsed.prefixes.push({ prefix: key.slice(0, -1), days });
+            } else {
+                parsed.actions[key] = days;
+            }
+        }
+
+        parsed.prefixes.sort((a, b) => b.prefix.length - a.prefix.length);
+        policy = parsed;
+    }
+    return policy;
+}
+
+/**
+ * Days an action stays in the live log - null for forever
+ */
+export function getRetentionDays(action: string): number | null {
+    const current = getRetentionPolicy();
+    if (action in current.actions) return current.actions[action];
+
+    const prefix = current.prefixes.find(rule => action.startsWith(rule.prefix));
+    if (prefix) return prefix.days;
+
+    return current.categories[getAuditEventInfo(action).category];
+}
+
+// ============================================
+// Archive files
+// ============================================
+
+function sha256(data: Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function archivePath(file: string): string {
+    return path.join(AUDIT_ARCHIVE_DIR, file);
+}
+
+/**
+ * Why an archive file can't be trusted - null when it is present and matches its checksum
+ */
+export function getArchiveProblem(archive: AuditArchive): string | null {
+    const file = archivePath(archive.file);
+    if (!fs.existsSync(file)) return `Archive ${archive.month} is missing`;
+    if (sha256(fs.readFileSync(file)) !== archive.sha256) return `Archive ${archive.month} does not match its checksum`;
+    return null;
+}
+
+/**
+ * Every entry in a month's archive, oldest first - throws if the file fails its checksum
+ */
+export function readAuditArchive(archive: AuditArchive): AuditLogRow[] {
+    const data = fs.readFileSync(archivePath(archive.file));
+    if (sha256(data) !== archive.sha256) {
+        throw new Error(`Archive ${archive.month} does not match its checksum`);
+    }
+    return zlib.gunzipSync(data).toString('utf8')
+        .split('\n')
+        .filter(Boolean)
+        .map(line => JSON.parse(line) as AuditLogRow);
+}
+
+// Written to a temporary file first so a crash never leaves a half-written archive
+function writeAuditArchive(month: string, rows: AuditLogRow[]): { file: string; sha256: string } {
+    fs.mkdirSync(AUDIT_ARCHIVE_DIR, { recursive: true });
+
+    const file = `audit-${month}.jsonl.gz`;
+    const data = zlib.gzipSync(rows.map(row => `${JSON.stringify(row)}\n`).join(''));
+    const checksum = sha256(data);
+
+    fs.writeFileSync(`${archivePath(file)}.tmp`, data);
+    fs.renameSync(`${archivePath(file)}.tmp`, archivePath(file));
+    // Same format as sha256sum, so the files can be checked without this app
+    fs.writeFileSync(`${archivePath(file)}.sha256`, `${checksum}  ${file}\n`);
+
+    return { file, sha256: checksum };
+}
+
+// Merge entries into their months' archives and drop them from the live log - returns how many moved
+function archiveEntries(rows: AuditLogRow[]): { archived: number; months: string[] } {
+    const byMonth = new Map<string, AuditLogRow[]>();
+    for (const row of rows) {
+        const month = row.created_at.slice(0, 7);
+        byMonth.set(month, [...(byMonth.get(month) || []), row]);
+    }
+
+    let archived = 0;
+    const months: string[] = [];
+    for (const [month, monthRows] of byMonth) {
+        try {
+            const existing = getAuditArchive(month);
+
+            // Keyed by ID so entries archived before a crash aren't duplicated
+            const merged = new Map((existing ? readAuditArchive(existing) : []).map(row => [row.id, row]));
+            for (const row of monthRows) merged.set(row.id, row);
+            const entries = [...merged.values()].sort((a, b) => a.id - b.id);
+
+            const { file, sha256: checksum } = writeAuditArchive(month, entries);
+            commitAuditArchive({
+                month,
+                file,
+                entries: entries.length,
+                sha256: checksum,
+                first_entry_id: entries[0].id,
+                last_entry_id: entries[entries.length - 1].id,
+            }, monthRows);
+
+            archived += monthRows.length;
+            months.push(month);
+        } catch (error) {
+            // Leave the entries live rather than overwrite an archive that fails its checksum
+            console.error(`Audit archival for ${month} failed:`, error);
+        }
+    }
+
+    return { archived, months };
+}
+
+/**
+ * Move every entry past its retention into the monthly archives
+ */
+export function archiveAuditLog(now = new Date()): { archived: number; months: string[] } {
+    const cutoffs: [string, string][] = [];
+    for (const action of getAuditActionsInUse()) {
+        const days = getRetentionDays(action);
+        if (days !== null) {
+            cutoffs.push([action, new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()]);
+        }
+    }
+
+    let archived = 0;
+    const months = new Set<string>();
+
+    while (true) {
+        const rows: AuditLogRow[] = [];
+        for (const [action, cutoff] of cutoffs) {
+            rows.push(...getAuditEntriesToArchive(action, cutoff, ARCHIVE_BATCH_SIZE - rows.length));
+            if (rows.length >= ARCHIVE_BATCH_SIZE) break;
+        }
+        if (rows.length === 0) break;
+
+        const result = archiveEntries(rows);
+        archived += result.archived;
+        result.months.forEach(month => months.add(month));
+
+        // Stop once nothing more is due, or when no month could be written
+        if (rows.length < ARCHIVE_BATCH_SIZE || result.archived === 0) break;
+    }
+
+    if (archived > 0) {
+        logAudit(null, 'AUDIT_ARCHIVED', null, { entries: archived, months: [...months].sort() }, null);
+    }
+
+    return { archived, months: [...months].sort() };
+}
+
+// ============================================
+// Archive search
+// ============================================
+
+// The last archive searched, so paging through it doesn't decompress it every time
+let cachedArchive: { month: string; sha256: string; rows: AuditLogRow[] } | null = null;
+
+// SQLite datetime values and date-only filters are UTC without a zone
+function toTime(value: string): number {
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) return Date.parse(value);
+    const [date, time = '00:00:00'] = value.split(/[ T]/);
+    return Date.parse(`${date}T${time}Z`);
+}
+
+function matchesFilters(row: AuditLogRow, filters: AuditLogFilters, terms: string[]): boolean {
+    if (filters.actor) {
+        const actor = filters.actor.toLowerCase();
+        const byActor = row.user_id === filters.actor ||
+            !!row.actor_email?.toLowerCase().includes(actor) ||
+            !!row.actor_name?.toLowerCase().includes(actor);
+        if (!byActor) return false;
+    }
+    if (filters.target && row.target !== filters.target) return false;
+    if (filters.actions && filters.actions.length > 0 && !filters.actions.includes(row.action)) return false;
+    if (filters.ip && !row.ip?.startsWith(filters.ip)) return false;
+    if (filters.from && toTime(row.created_at) < toTime(filters.from)) return false;
+    if (filters.to && toTime(row.created_at) >= toTime(filters.to)) return false;
+    if (terms.length > 0) {
+        const details = (row.details || '').toLowerCase();
+        if (!terms.every(term => details.includes(term))) return false;
+    }
+    return true;
+}
+
+/**
+ * Search one archived month with the same filters and paging as the live log - null if there is no such archive
+ */
+export function searchAuditArchive(
+    month: string,
+    filters: AuditLogFilters = {},
+    limit = 100,
+    cursor: number | null = null
+): { entries: AuditLogRow[]; nextCursor: number | null } | null {
+    const archive = getAuditArchive(month);
+    if (!archive) return null;
+
+    if (!cachedArchive || cachedArchive.month !== month || cachedArchive.sha256 !== archive.sha256) {
+        cachedArchive = { month, sha256: archive.sha256, rows: readAuditArchive(archive) };
+    }
+
+    const terms = (filters.search || '').toLowerCase().split(/\s+/).filter(Boolean);
+    const matches: AuditLogRow[] = [];
+
+    // Newest first, like the live log
+    for (let i = cachedArchive.rows.length - 1; i >= 0 && matches.length <= limit; i--) {
+        const row = cachedArchive.rows[i];
+        if (cursor && row.id >= cursor) continue;
+        if (matchesFilters(row, filters, terms)) matches.push(row);
+    }
+
+    const entries = matches.slice(0, limit);
+    return {
+        entries,
+        nextCursor: matches.length > limit ? entries[entries.length - 1].id : null,
+    };
+}
+
+let archiver: NodeJS.Timeout | null = null;
+
+/**
+ * Archive on a timer for the life of the server process
+ */
+export function startAuditArchiver(): void {
+    if (archiver) return;
+
+    archiver = startBackgroundJob('Audit archival', ARCHIVE_INTERVAL_MS, archiveAuditLog);
+}
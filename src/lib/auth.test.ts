@@ -0,0 +1,41 @@
+import { SignJWT } from 'jose';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { signJwt, verifyJwt } from './auth';
+
+vi.hoisted(() => {
+    process.env.JWT_SECRET = 'legacy-test-secret-at-least-32-characters';
+    delete process.env.JWT_LEGACY_CUTOFF;
+});
+
+function legacyToken(issuedAt: number): Promise<string> {
+    return new SignJWT({ userId: 'user-1' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuedAt(issuedAt)
+        .setIssuer('auth.usgrp.xyz')
+        .setAudience('usgrp.xyz')
+        .setExpirationTime(issuedAt + 24 * 60 * 60)
+        .sign(new TextEncoder().encode(process.env.JWT_SECRET));
+}
+
+describe('verifyJwt with legacy tokens', () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    beforeAll(async () => {
+        // The first asymmetric signature creates this deployment's first signing key
+        await signJwt({}, { audience: 'usgrp.xyz', expiresAt: new Date(Date.now() + 60 * 1000) });
+    });
+
+    it('accepts a legacy token issued before the first signing key', async () => {
+        const payload = await verifyJwt(await legacyToken(now - 60 * 60), { audience: 'usgrp.xyz', allowLegacy: true });
+        expect(payload.userId).toBe('user-1');
+    });
+
+    it('rejects a legacy token issued once asymmetric signing went live', async () => {
+        await expect(verifyJwt(await legacyToken(now + 5), { audience: 'usgrp.xyz', allowLegacy: true }))
+            .rejects.toThrow('Legacy token issued after the cutoff');
+    });
+
+    it('rejects legacy tokens entirely where they are not allowed', async () => {
+        await expect(verifyJwt(await legacyToken(now - 60 * 60), { audience: 'usgrp.xyz' })).rejects.toThrow();
+    });
+});
@@ -4,33 +4,142 @@
  */
 
 import bcrypt from 'bcryptjs';
-import { SignJWT, jwtVerify, type JWTPayload } from 'jose';
+import { SignJWT, jwtVerify, decodeProtectedHeader, type JWTPayload } from 'jose';
 import crypto from 'crypto';
 import {
     getUserByEmail,
     getUserById,
     getUserByDiscordId,
     createSession,
+    getSessionById,
     getSessionByTokenHash,
     deleteSession,
     deleteAllUserSessions,
+    isDeviceRemembered,
+    cleanExpiredRememberedDevices,
+    getUserWebAuthnCredentials,
+    createRefreshToken,
+    rotateRefreshToken,
+    cleanOrphanedRefreshTokens,
+    getAllSigningKeys,
     logAudit,
     type User
 } from './db';
+import { REMEMBERED_DEVICE_DAYS, parseUserAgent } from './devices';
+import { SIGNING_ALGORITHMS, getCurrentSigningKey, getVerificationKey } from './keys';
+import { storeMailPassword } from './vault';
+import { checkLoginRateLimit, recordLoginFailure, resetLoginFailures } from './ratelimit';
+import { getPasswordChangeReason } from './passwordpolicy';
+import {
+    checkSessionLifetime,
+    endInactiveSession,
+    recordSessionActivity,
+    checkSessionLimit,
+    enforceSessionLimit,
+    parseDbTimestamp
+} from './sessionpolicy';
+import { checkNewLogin } from './loginalerts';
 import { type AuthorityLevel, type Permission, getEffectivePermissions, getRoleName } from './roles';
 
-// JWT secret - should be set in environment
-const JWT_SECRET = new TextEncoder().encode(
-    process.env.JWT_SECRET || 'usgrp-auth-jwt-secret-change-in-production-32chars'
-);
-
 const JWT_ISSUER = 'auth.usgrp.xyz';
 const JWT_AUDIENCE = 'usgrp.xyz';
 
-// Session durations
+export interface SignJwtOptions {
+    issuer?: string;
+    audience: string | string[];
+    expiresAt: Date;
+    subject?: string;
+    type?: string;  // JOSE "typ" header, e.g. at+jwt for OAuth access tokens
+}
+
+// Sign a JWT with the current Auth signing key
+export async function signJwt(claims: JWTPayload, options: SignJwtOptions): Promise<string> {
+    const key = await getCurrentSigningKey();
+    const jwt = new SignJWT(claims)
+        .setProtectedHeader({
+            alg: key.alg,
+            kid: key.kid,
+            ...(options.type ? { typ: options.type } : {}),
+        })
+        .setIssuedAt()
+        .setIssuer(options.issuer || JWT_ISSUER)
+        .setAudience(options.audience)
+        .setExpirationTime(options.expiresAt);
+
+    if (options.subject) {
+        jwt.setSubject(options.subject);
+    }
+
+    return jwt.sign(key.privateKey);
+}
+
+// Verify a JWT against the published Auth signing keys - throws if invalid
+export async function verifyJwt(
+    token: string,
+    options: { issuer?: string; audience?: string | string[]; type?: string; allowLegacy?: boolean }
+): Promise<JWTPayload> {
+    const verifyOptions = {
+        issuer: options.issuer || JWT_ISSUER,
+        audience: options.audience,
+        typ: options.type,
+    };
+
+    // Session tokens issued before the switch carry no kid; accept them only up to the sunset
+    if (options.allowLegacy && isLegacyToken(token)) {
+        const cutoff = getLegacyTokenCutoff();
+        if (Date.now() / 1000 >= cutoff + EXTENDED_SESSION_DURATION) {
+            throw new Error('Legacy tokens are no longer accepted');
+        }
+        const { payload } = await jwtVerify(token, getLegacyJwtSecret(), { ...verifyOptions, algorithms: ['HS256'] });
+        if (!payload.iat || payload.iat >= cutoff) {
+            throw new Error('Legacy token issued after the cutoff');
+        }
+        return payload;
+    }
+
+    const { payload } = await jwtVerify(token, getVerificationKey, {
+        ...verifyOptions,
+        algorithms: SIGNING_ALGORITHMS,
+    });
+    return payload;
+}
+
+// Session durations - the refresh token lives as long as the session
 const SESSION_DURATION = 7 * 24 * 60 * 60; // 7 days in seconds
 const EXTENDED_SESSION_DURATION = 30 * 24 * 60 * 60; // 30 days in seconds
 
+// Legacy HS256 tokens must have been issued before asymmetric signing went live: JWT_LEGACY_CUTOFF when set,
+// otherwise when this deployment created its first signing key (keys are retired, never deleted).
+// None lives longer than the longest session, so the legacy path switches itself off after that
+let legacyTokenCutoff: number | null = null;
+
+function getLegacyTokenCutoff(): number {
+    if (legacyTokenCutoff !== null) return legacyTokenCutoff;
+
+    if (process.env.JWT_LEGACY_CUTOFF) {
+        const configured = Date.parse(process.env.JWT_LEGACY_CUTOFF);
+        if (Number.isNaN(configured)) {
+            throw new Error('JWT_LEGACY_CUTOFF is not a valid date');
+        }
+        legacyTokenCutoff = configured / 1000;
+        return legacyTokenCutoff;
+    }
+
+    // No signing key yet - nothing has been signed asymmetrically, so every legacy token predates the switch
+    const keys = getAllSigningKeys();
+    const firstKey = keys[keys.length - 1];
+    if (!firstKey) return Date.now() / 1000;
+
+    legacyTokenCutoff = parseDbTimestamp(firstKey.created_at).getTime() / 1000;
+    return legacyTokenCutoff;
+}
+
+// Access tokens are short lived and renewed with the session's refresh token
+export const ACCESS_TOKEN_DURATION = 15 * 60; // 15 minutes in seconds
+
+// A spent refresh token may be presented again this soon without counting as reuse (parallel requests)
+const REFRESH_REUSE_GRACE_SECONDS = 10;
+
 // Token types
 export interface AuthToken {
     userId: string;
@@ -65,96 +174,244 @@ export function generateId(): string {
     return crypto.randomUUID();
 }
 
+// Legacy HS256 secret - only used to verify session tokens issued before asymmetric signing.
+// There is deliberately no built-in fallback; the server refuses to start without it (instrumentation.ts)
+function getLegacyJwtSecret(): Uint8Array {
+    if (!process.env.JWT_SECRET) {
+        throw new Error('JWT_SECRET is not set');
+    }
+    return new TextEncoder().encode(process.env.JWT_SECRET);
+}
+
+function isLegacyToken(token: string): boolean {
+    return !decodeProtectedHeader(token).kid;
+}
+
 // Hash a token for storage
 function hashToken(token: string): string {
     return crypto.createHash('sha256').update(token).digest('hex');
 }
 
-// Create JWT token
-export async function createToken(
-    user: User,
-    sessionId: string,
-    extended = false
-): Promise<string> {
-    const expiresIn = extended ? EXTENDED_SESSION_DURATION : SESSION_DURATION;
-    const expiresAt = new Date(Date.now() + expiresIn * 1000);
+// Create a short-lived JWT access token
+export async function createToken(user: User, sessionId: string): Promise<string> {
+    const expiresAt = new Date(Date.now() + ACCESS_TOKEN_DURATION * 1000);
+
+    const token = await signJwt({
+        ...buildAuthUser(user),
+        sessionId,
+    }, {
+        audience: JWT_AUDIENCE,
+        expiresAt,
+    });
+
+    return token;
+}
+
+// Opaque refresh token - only its hash is stored
+function generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+}
 
+// Token claims for a user (everything but the session)
+export function buildAuthUser(user: User): Omit<AuthToken, 'sessionId'> {
     const roles: string[] = JSON.parse(user.roles || '[]');
     const explicitPermissions: Permission[] = JSON.parse(user.permissions || '[]');
-    const effectivePermissions = getEffectivePermissions(
-        user.authority_level as AuthorityLevel,
-        explicitPermissions
-    );
 
-    const token = await new SignJWT({
+    return {
         userId: user.id,
         email: user.email,
         discordId: user.discord_id,
         displayName: user.display_name,
-        authorityLevel: user.authority_level,
+        authorityLevel: user.authority_level as AuthorityLevel,
         roles,
-        permissions: effectivePermissions,
-        sessionId,
-    })
-        .setProtectedHeader({ alg: 'HS256' })
-        .setIssuedAt()
-        .setIssuer(JWT_ISSUER)
-        .setAudience(JWT_AUDIENCE)
-        .setExpirationTime(expiresAt)
-        .sign(JWT_SECRET);
-
-    return token;
+        permissions: getEffectivePermissions(
+            user.authority_level as AuthorityLevel,
+            explicitPermissions
+        ),
+    };
 }
 
 // Validate JWT token
 export async function validateToken(token: string): Promise<TokenValidationResult> {
     try {
-        const { payload } = await jwtVerify(token, JWT_SECRET, {
-            issuer: JWT_ISSUER,
-            audience: JWT_AUDIENCE,
-        });
+        const payload = await verifyJwt(token, { audience: JWT_AUDIENCE, allowLegacy: true });
 
         const authPayload = payload as JWTPayload & AuthToken;
 
-        // Verify session still exists
-        const tokenHash = hashToken(token);
-        const session = getSessionByTokenHash(tokenHash);
+        // Verify session still exists - access tokens rotate, so look it up by ID
+        const session = getSessionById(authPayload.sessionId);
+
+        // The session must belong to the user the token names - session IDs are not secret
+        if (!session || session.user_id !== authPayload.userId) {
+            return { valid: false, error: 'Session not found or expired' };
+        }
 
-        if (!session) {
+        // A legacy token must be the exact token its session was created with
+        if (isLegacyToken(token) && getSessionByTokenHash(hashToken(token))?.id !== session.id) {
             return { valid: false, error: 'Session not found or expired' };
         }
 
         // Verify user is still enabled
-        const user = getUserById(authPayload.userId);
-        if (!user || !user.enabled) {
+        const user = getUserById(session.user_id);
+        if (!user || !user.enabled || user.suspended) {
             return { valid: false, error: 'User disabled' };
         }
 
+        // Idle and absolute limits end the session even while its access token is unexpired
+        const lifetime = checkSessionLifetime(session, user.authority_level);
+        if (lifetime !== 'active') {
+            endInactiveSession(session, lifetime, null);
+            return { valid: false, error: lifetime === 'idle' ? 'Session timed out due to inactivity' : 'Session expired' };
+        }
+        recordSessionActivity(session.id);
+
+        // Authority and permissions come from the account as it is now, never from the claims
         return {
             valid: true,
-            user: {
-                userId: authPayload.userId,
-                email: authPayload.email,
-                discordId: authPayload.discordId,
-                displayName: authPayload.displayName,
-                authorityLevel: authPayload.authorityLevel,
-                roles: authPayload.roles,
-                permissions: authPayload.permissions,
-                sessionId: authPayload.sessionId,
-            },
+            user: { ...buildAuthUser(user), sessionId: session.id },
         };
     } catch (error) {
         return { valid: false, error: 'Invalid or expired token' };
     }
 }
 
-// Login user
-export interface LoginResult {
+export interface SessionTokens {
+    token: string;
+    refreshToken: string;
+    expiresIn: number;  // Access token lifetime in seconds
+    sessionId: string;
+    remembered: boolean;  // Long-lived "remember me" session
+    user: Omit<AuthToken, 'sessionId'>;
+}
+
+// Login user - on success carries the new session's tokens
+export interface LoginResult extends Partial<SessionTokens> {
     success: boolean;
-    token?: string;
-    user?: Omit<AuthToken, 'sessionId'>;
     requires2FA?: boolean;
+    requiresPasswordChange?: boolean;  // Verified, but must set a new password before a session is created
+    pendingUserId?: string;
     error?: string;
+    retryAfter?: number;  // Set when rate limited - seconds until the next attempt is accepted
+}
+
+// Create a session row, access token and refresh token for an authenticated user
+// Shared by password login and every second-factor completion path
+export async function createUserSession(
+    user: User,
+    ip: string | null,
+    userAgent: string | null,
+    rememberMe = false,
+    deviceFingerprint: string | null = null
+): Promise<SessionTokens> {
+    const sessionId = generateId();
+    const expiresIn = rememberMe ? EXTENDED_SESSION_DURATION : SESSION_DURATION;
+    const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
+
+    const token = await createToken(user, sessionId);
+    const tokenHash = hashToken(token);
+    const refreshToken = generateRefreshToken();
+
+    createSession({
+        id: sessionId,
+        user_id: user.id,
+        token_hash: tokenHash,
+        ip,
+        user_agent: userAgent,
+        device_name: parseUserAgent(userAgent || ''),
+        device_fingerprint: deviceFingerprint,
+        is_remembered: rememberMe ? 1 : 0,
+        expires_at: expiresAt,
+    });
+    createRefreshToken(hashToken(refreshToken), sessionId);
+
+    // Make room under the concurrent session limit (deny-mode limits were checked before sign-in)
+    enforceSessionLimit(user, ip, sessionId);
+
+    // Unfamiliar device / network / location checks must never block the sign-in
+    try {
+        checkNewLogin(user, { sessionId, ip, userAgent, deviceFingerprint });
+    } catch (error) {
+        console.error('Login alert check error:', error);
+    }
+
+    return {
+        token,
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_DURATION,
+        sessionId,
+        remembered: rememberMe,
+        user: buildAuthUser(user),
+    };
+}
+
+// Exchange a refresh token for a new access token and its successor refresh token
+// Presenting an already spent refresh token revokes the whole session
+export async function refreshSession(
+    refreshToken: string,
+    ip: string | null
+): Promise<{ success: boolean; tokens?: SessionTokens; error?: string; superseded?: boolean }> {
+    const nextRefreshToken = generateRefreshToken();
+    const result = rotateRefreshToken(
+        hashToken(refreshToken),
+        hashToken(nextRefreshToken),
+        REFRESH_REUSE_GRACE_SECONDS
+    );
+
+    if (result.status === 'invalid' || !result.session) {
+        return { success: false, error: 'Invalid or expired refresh token' };
+    }
+
+    const session = result.session;
+
+    // A concurrent refresh already spent this token - its response carries the successor
+    if (result.status === 'superseded') {
+        return { success: false, superseded: true, error: 'Refresh token already rotated - use the newer token' };
+    }
+
+    if (result.status === 'reused') {
+        deleteSession(session.id);
+        logAudit(session.user_id, 'REFRESH_TOKEN_REUSE', session.id, 'Spent refresh token presented again - session revoked', ip);
+        return { success: false, error: 'Refresh token reuse detected' };
+    }
+
+    const user = getUserById(session.user_id);
+    if (!user || !user.enabled || user.suspended) {
+        deleteSession(session.id);
+        return { success: false, error: 'User disabled' };
+    }
+
+    // Flagged or expired passwords end the session at its next refresh - signing in again hits the interstitial
+    if (getPasswordChangeReason(user)) {
+        deleteSession(session.id);
+        return { success: false, error: 'Password change required' };
+    }
+
+    // A valid refresh token does not revive a session that sat idle past its limit
+    const lifetime = checkSessionLifetime(session, user.authority_level);
+    if (lifetime !== 'active') {
+        endInactiveSession(session, lifetime, ip);
+        return { success: false, error: lifetime === 'idle' ? 'Session timed out due to inactivity' : 'Session expired' };
+    }
+
+    // Limits lowered since sign-in (or a new authority level) take effect as sessions refresh
+    if (enforceSessionLimit(user, ip).some(evicted => evicted.id === session.id)) {
+        return { success: false, error: 'Session signed out - too many active sessions' };
+    }
+
+    cleanOrphanedRefreshTokens();
+    recordSessionActivity(session.id);
+
+    return {
+        success: true,
+        tokens: {
+            token: await createToken(user, session.id),
+            refreshToken: nextRefreshToken,
+            expiresIn: ACCESS_TOKEN_DURATION,
+            sessionId: session.id,
+            remembered: session.is_remembered === 1,
+            user: buildAuthUser(user),
+        },
+    };
 }
 
 export async function login(
@@ -162,11 +419,19 @@ export async function login(
     password: string,
     ip: string | null,
     userAgent: string | null,
-    rememberMe = false
+    rememberMe = false,
+    deviceFingerprint: string | null = null
 ): Promise<LoginResult> {
     const user = getUserByEmail(email);
 
+    const limit = checkLoginRateLimit(email, ip, user);
+    if (!limit.allowed) {
+        logAudit(user?.id ?? null, 'LOGIN_RATE_LIMITED', email, `Retry after ${limit.retryAfter}s`, ip);
+        return { success: false, error: limit.error, retryAfter: limit.retryAfter };
+    }
+
     if (!user) {
+        recordLoginFailure('password', email, ip);
         logAudit(null, 'LOGIN_FAILED', email, 'User not found', ip);
         return { success: false, error: 'Invalid credentials' };
     }
@@ -179,72 +444,126 @@ export async function login(
     const passwordValid = await verifyPassword(password, user.password_hash);
 
     if (!passwordValid) {
+        recordLoginFailure('password', email, ip, user);
         logAudit(user.id, 'LOGIN_FAILED', email, 'Invalid password', ip);
         return { success: false, error: 'Invalid credentials' };
     }
 
-    // Check if 2FA is required
-    if (user.totp_enabled) {
-        // Return requires2FA flag - the client should call verify2FA
+    // Keep the vaulted mail password current for USGRP Mail SSO
+    storeMailPassword(user.id, password);
+
+    const sessionLimit = checkSessionLimit(user);
+    if (!sessionLimit.allowed) {
+        logAudit(user.id, 'LOGIN_FAILED', email, 'Session limit reached', ip);
+        return { success: false, error: sessionLimit.error };
+    }
+
+    // Check if 2FA is required - trusted devices skip the second factor
+    const secondFactor = checkSecondFactor(user, deviceFingerprint);
+    if (secondFactor === 'required') {
+        // Return requires2FA flag - the client should complete /api/auth/2fa/verify
         logAudit(user.id, 'LOGIN_2FA_REQUIRED', email, null, ip);
-        return { success: true, requires2FA: true };
+        return { success: true, requires2FA: true, pendingUserId: user.id };
     }
 
-    // Create session
-    const sessionId = generateId();
-    const expiresIn = rememberMe ? EXTENDED_SESSION_DURATION : SESSION_DURATION;
-    const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
+    resetLoginFailures(user);
 
-    const token = await createToken(user, sessionId, rememberMe);
-    const tokenHash = hashToken(token);
+    // Forced or expired password - the client finishes at /api/auth/password/change-required
+    const passwordChange = getPasswordChangeReason(user);
+    if (passwordChange) {
+        logAudit(user.id, 'LOGIN_PASSWORD_CHANGE_REQUIRED', email, { method: 'password', reason: passwordChange }, ip);
+        return { success: true, requiresPasswordChange: true, pendingUserId: user.id };
+    }
 
-    createSession({
-        id: sessionId,
-        user_id: user.id,
-        token_hash: tokenHash,
-        ip,
-        user_agent: userAgent,
-        is_remembered: rememberMe ? 1 : 0,
-        expires_at: expiresAt,
-    });
+    const result = await createUserSession(user, ip, userAgent, rememberMe, deviceFingerprint);
 
-    logAudit(user.id, 'LOGIN_SUCCESS', email, null, ip);
+    logAudit(user.id, 'LOGIN_SUCCESS', email, { method: 'password', rememberedDevice: secondFactor === 'remembered' }, ip);
 
-    const roles: string[] = JSON.parse(user.roles || '[]');
-    const explicitPermissions: Permission[] = JSON.parse(user.permissions || '[]');
+    return { success: true, ...result };
+}
 
-    return {
-        success: true,
-        token,
-        user: {
-            userId: user.id,
-            email: user.email,
-            discordId: user.discord_id,
-            displayName: user.display_name,
-            authorityLevel: user.authority_level as AuthorityLevel,
-            roles,
-            permissions: getEffectivePermissions(
-                user.authority_level as AuthorityLevel,
-                explicitPermissions
-            ),
-        },
-    };
+// Login with a Discord account whose ownership was just proven through Discord OAuth
+// Same second-factor rules as password login
+export async function loginWithDiscord(
+    discordId: string,
+    ip: string | null,
+    userAgent: string | null,
+    deviceFingerprint: string | null = null
+): Promise<LoginResult> {
+    const user = getUserByDiscordId(discordId);
+    const account = user?.email ?? discordId;
+
+    // Locked accounts and throttled networks stay shut whichever way they sign in
+    const limit = checkLoginRateLimit(account, ip, user);
+    if (!limit.allowed) {
+        logAudit(user?.id ?? null, 'LOGIN_RATE_LIMITED', account, `Retry after ${limit.retryAfter}s (Discord)`, ip);
+        return { success: false, error: limit.error, retryAfter: limit.retryAfter };
+    }
+
+    if (!user) {
+        recordLoginFailure('discord', discordId, ip);
+        logAudit(null, 'LOGIN_FAILED', discordId, 'Discord account not linked', ip);
+        return { success: false, error: 'Discord account not linked' };
+    }
+
+    if (!user.enabled) {
+        logAudit(user.id, 'LOGIN_FAILED', user.email, 'Account disabled (Discord)', ip);
+        return { success: false, error: 'Account disabled' };
+    }
+
+    const sessionLimit = checkSessionLimit(user);
+    if (!sessionLimit.allowed) {
+        logAudit(user.id, 'LOGIN_FAILED', user.email, 'Session limit reached (Discord)', ip);
+        return { success: false, error: sessionLimit.error };
+    }
+
+    const secondFactor = checkSecondFactor(user, deviceFingerprint);
+    if (secondFactor === 'required') {
+        logAudit(user.id, 'LOGIN_2FA_REQUIRED', user.email, { method: 'discord' }, ip);
+        return { success: true, requires2FA: true, pendingUserId: user.id };
+    }
+
+    const passwordChange = getPasswordChangeReason(user);
+    if (passwordChange) {
+        logAudit(user.id, 'LOGIN_PASSWORD_CHANGE_REQUIRED', user.email, { method: 'discord', reason: passwordChange }, ip);
+        return { success: true, requiresPasswordChange: true, pendingUserId: user.id };
+    }
+
+    const result = await createUserSession(user, ip, userAgent, false, deviceFingerprint);
+
+    logAudit(
+        user.id,
+        'LOGIN_SUCCESS',
+        user.email,
+        { method: 'discord', rememberedDevice: secondFactor === 'remembered' },
+        ip
+    );
+
+    return { success: true, ...result };
 }
 
-// Logout
-export async function logout(token: string, ip: string | null): Promise<boolean> {
-    const validation = await validateToken(token);
+// Whether a login still owes a second factor (TOTP or security key) - remembered devices skip it
+function checkSecondFactor(user: User, deviceFingerprint: string | null): 'none' | 'remembered' | 'required' {
+    if (!user.totp_enabled && getUserWebAuthnCredentials(user.id).length === 0) return 'none';
+
+    // Accounts required to use a security key present it on every sign-in
+    if (user.security_key_required) return 'required';
+
+    cleanExpiredRememberedDevices(REMEMBERED_DEVICE_DAYS);
 
-    if (!validation.valid || !validation.user) {
-        return false;
+    if (deviceFingerprint && isDeviceRemembered(user.id, deviceFingerprint, REMEMBERED_DEVICE_DAYS)) {
+        return 'remembered';
     }
+    return 'required';
+}
 
-    const tokenHash = hashToken(token);
-    const session = getSessionByTokenHash(tokenHash);
+// Logout - takes the session user rather than the access token, which may already have expired
+export async function logout(user: AuthToken, ip: string | null): Promise<boolean> {
+    const session = getSessionById(user.sessionId);
 
-    if (session) {
+    if (session && session.user_id === user.userId) {
         deleteSession(session.id);
-        logAudit(validation.user.userId, 'LOGOUT', validation.user.email, null, ip);
+        logAudit(user.userId, 'LOGOUT', user.email, null, ip);
         return true;
     }
 
@@ -14,8 +14,17 @@
  * if (!result.valid) {
  *     return redirect(getAuthRedirectUrl(request.url));
  * }
+ * 
+ * Offline mode (AUTH_VERIFY_MODE=offline or configureAuthClient({ mode: 'offline' }))
+ * verifies signatures locally against the cached JWKS and a polled revocation list,
+ * so services keep working while Auth is briefly unreachable:
+ * 
+ * export const GET = withAuth(async (request, context, user) => { ... }, { minAuthority: 3 });
+ * app.use(expressAuth({ permission: 'mail:access' }));
  */
 
+import { jwtVerify, createLocalJWKSet, decodeProtectedHeader, type JSONWebKeySet } from 'jose';
+
 export interface AuthUser {
     userId: string;
     email: string;
@@ -35,10 +44,50 @@ export interface TokenValidationResult {
 
 const AUTH_BASE_URL = process.env.AUTH_URL || 'https://auth.usgrp.xyz';
 
+const TOKEN_ISSUER = 'auth.usgrp.xyz';
+const TOKEN_AUDIENCE = 'usgrp.xyz';
+const TOKEN_ALGORITHMS = ['RS256', 'EdDSA'];
+
+export type VerificationMode = 'online' | 'offline';
+
+export interface AuthClientConfig {
+    mode: VerificationMode;
+    jwksCacheSeconds: number;       // How long fetched signing keys are trusted before refreshing
+    revocationPollSeconds: number;  // How often the revocation list is polled
+    resultCacheSeconds: number;     // How long a successful verification is reused
+    fetchTimeoutMs: number;         // Timeout for calls to Auth
+    accessTokenSeconds: number;     // Auth's access-token lifetime - how long a revocation is remembered
+}
+
+const config: AuthClientConfig = {
+    mode: process.env.AUTH_VERIFY_MODE === 'offline' ? 'offline' : 'online',
+    jwksCacheSeconds: 10 * 60,
+    revocationPollSeconds: 30,
+    resultCacheSeconds: 30,
+    fetchTimeoutMs: 3000,
+    accessTokenSeconds: 15 * 60,
+};
+
 /**
- * Validate an Auth token by calling the Auth service
+ * Override client settings (e.g. switch to offline verification)
+ */
+export function configureAuthClient(options: Partial<AuthClientConfig>): void {
+    Object.assign(config, options);
+}
+
+/**
+ * Validate an Auth token using the configured verification mode
  */
 export async function validateAuthToken(token: string): Promise<TokenValidationResult> {
+    return config.mode === 'offline'
+        ? verifyAuthTokenOffline(token)
+        : validateAuthTokenOnline(token);
+}
+
+/**
+ * Validate an Auth token by calling the Auth service
+ */
+export async function validateAuthTokenOnline(token: string): Promise<TokenValidationResult> {
     try {
         const response = await fetch(`${AUTH_BASE_URL}/api/auth/validate`, {
             method: 'POST',
@@ -59,6 +108,375 @@ export async function validateAuthToken(token: string): Promise<TokenValidationR
     }
 }
 
+/**
+ * Exchange a refresh token for a new access token
+ * The refresh token is single use - always store the returned replacement
+ */
+export async function refreshAuthToken(
+    refreshToken: string
+): Promise<{ token: string; refreshToken: string; expiresIn: number } | null> {
+    try {
+        const response = await fetch(`${AUTH_BASE_URL}/api/auth/token/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+        });
+
+        if (!response.ok) {
+            return null;
+        }
+
+        const data = await response.json();
+        return { token: data.token, refreshToken: data.refreshToken, expiresIn: data.expiresIn };
+    } catch (error) {
+        console.error('Auth token refresh error:', error);
+        return null;
+    }
+}
+
+/**
+ * Trade the authCode from the SSO callback (/api/auth/callback?authCode=...) for an access token
+ * Server-side only: apiKey is this service's Auth API key with the sso:exchange scope
+ */
+export async function exchangeSsoCode(
+    authCode: string,
+    apiKey: string
+): Promise<{ token: string; expiresIn: number; user: AuthUser } | null> {
+    try {
+        const response = await fetch(`${AUTH_BASE_URL}/api/auth/sso/exchange`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+            body: JSON.stringify({ code: authCode }),
+        });
+
+        if (!response.ok) {
+            return null;
+        }
+
+        const data = await response.json();
+        return { token: data.token, expiresIn: data.expiresIn, user: data.user };
+    } catch (error) {
+        console.error('Auth SSO code exchange error:', error);
+        return null;
+    }
+}
+
+// ============================================
+// Offline verification
+// ============================================
+
+// Don't refetch the JWKS for an unknown kid more often than this
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+const MAX_CACHED_RESULTS = 1000;
+
+let jwks: JSONWebKeySet | null = null;
+let jwksCheckedAt = 0;
+let jwksRefresh: Promise<void> | null = null;
+
+// Session hash -> when the revocation can be forgotten (every token it covers has expired by then)
+const revokedSessions = new Map<string, number>();
+let revocationsCheckedAt = 0;
+let revocationsRefresh: Promise<void> | null = null;
+
+const resultCache = new Map<string, { user: AuthUser; sessionHash: string; expiresAt: number }>();
+
+async function fetchFromAuth(path: string): Promise<unknown> {
+    const response = await fetch(`${AUTH_BASE_URL}${path}`, {
+        signal: AbortSignal.timeout(config.fetchTimeoutMs),
+    });
+    if (!response.ok) {
+        throw new Error(`Auth returned ${response.status} for ${path}`);
+    }
+    return response.json();
+}
+
+// Failed refreshes keep the last known keys so verification survives Auth outages
+function refreshJwks(): Promise<void> {
+    if (!jwksRefresh) {
+        jwksCheckedAt = Date.now();
+        jwksRefresh = fetchFromAuth('/.well-known/jwks.json')
+            .then(data => { jwks = data as JSONWebKeySet; })
+            .catch(error => console.error('Auth JWKS refresh failed:', error))
+            .finally(() => { jwksRefresh = null; });
+    }
+    return jwksRefresh;
+}
+
+// Auth publishes SHA-256 hashes of session IDs, never the IDs themselves
+async function hashSessionId(sessionId: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(sessionId));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Tokens are signed before their session is revoked, so none outlive revokedAt + the access-token lifetime
+function addRevokedSession(sessionHash: string, revokedAt: number): void {
+    const forgetAt = revokedAt + config.accessTokenSeconds * 1000;
+    if (forgetAt <= Date.now()) return;
+
+    revokedSessions.set(sessionHash, Math.max(revokedSessions.get(sessionHash) ?? 0, forgetAt));
+    resultCache.forEach((entry, token) => {
+        if (entry.sessionHash === sessionHash) {
+            resultCache.delete(token);
+        }
+    });
+}
+
+function pruneRevokedSessions(): void {
+    const now = Date.now();
+    revokedSessions.forEach((forgetAt, sessionHash) => {
+        if (forgetAt <= now) {
+            revokedSessions.delete(sessionHash);
+        }
+    });
+}
+
+function isSessionRevoked(sessionHash: string): boolean {
+    return (revokedSessions.get(sessionHash) ?? 0) > Date.now();
+}
+
+function refreshRevocations(): Promise<void> {
+    if (!revocationsRefresh) {
+        revocationsCheckedAt = Date.now();
+        revocationsRefresh = fetchFromAuth('/api/auth/revocations')
+            .then(data => {
+                const { sessions } = data as { sessions: { sessionHash: string; revokedAt: string }[] };
+                pruneRevokedSessions();
+                // An unparseable time counts as revoked just now
+                sessions.forEach(s => addRevokedSession(s.sessionHash, Date.parse(s.revokedAt) || Date.now()));
+            })
+            .catch(error => console.error('Auth revocation list refresh failed:', error))
+            .finally(() => { revocationsRefresh = null; });
+    }
+    return revocationsRefresh;
+}
+
+async function getSigningKeys(kid: string): Promise<JSONWebKeySet | null> {
+    const age = Date.now() - jwksCheckedAt;
+    const known = !!jwks?.keys.some(k => k.kid === kid);
+
+    // Refresh when stale, or early when an unknown kid shows up after a key rotation
+    if (age > config.jwksCacheSeconds * 1000 || (!known && age > JWKS_REFETCH_COOLDOWN_MS)) {
+        await refreshJwks();
+    }
+
+    return jwks;
+}
+
+/**
+ * Mark a session as revoked (for revocations pushed to this service)
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+    addRevokedSession(await hashSessionId(sessionId), Date.now());
+}
+
+/**
+ * Verify an Auth token locally against the published signing keys
+ */
+export async function verifyAuthTokenOffline(token: string): Promise<TokenValidationResult> {
+    if (Date.now() - revocationsCheckedAt > config.revocationPollSeconds * 1000) {
+        await refreshRevocations();
+    }
+
+    const cached = resultCache.get(token);
+    if (cached && cached.expiresAt > Date.now()) {
+        return { valid: true, user: cached.user };
+    }
+    resultCache.delete(token);
+
+    let kid: string | undefined;
+    try {
+        kid = decodeProtectedHeader(token).kid;
+    } catch {
+        return { valid: false, error: 'Invalid or expired token' };
+    }
+
+    // Tokens signed before Auth moved to published keys can only be checked by Auth itself
+    if (!kid) {
+        return validateAuthTokenOnline(token);
+    }
+
+    const keys = await getSigningKeys(kid);
+    if (!keys) {
+        return { valid: false, error: 'Auth signing keys unavailable' };
+    }
+
+    try {
+        const { payload } = await jwtVerify(token, createLocalJWKSet(keys), {
+            issuer: TOKEN_ISSUER,
+            audience: TOKEN_AUDIENCE,
+            algorithms: TOKEN_ALGORITHMS,
+        });
+
+        const user: AuthUser = {
+            userId: payload.userId as string,
+            email: payload.email as string,
+            discordId: payload.discordId as string | null,
+            displayName: payload.displayName as string,
+            authorityLevel: payload.authorityLevel as number,
+            roles: payload.roles as string[],
+            permissions: payload.permissions as string[],
+            sessionId: payload.sessionId as string,
+        };
+
+        const sessionHash = await hashSessionId(user.sessionId);
+        if (isSessionRevoked(sessionHash)) {
+            return { valid: false, error: 'Session revoked' };
+        }
+
+        if (resultCache.size >= MAX_CACHED_RESULTS) {
+            // Maps iterate in insertion order - drop the oldest entry
+            resultCache.delete(resultCache.keys().next().value!);
+        }
+        resultCache.set(token, {
+            user,
+            sessionHash,
+            expiresAt: Math.min(Date.now() + config.resultCacheSeconds * 1000, (payload.exp || 0) * 1000),
+        });
+
+        return { valid: true, user };
+    } catch {
+        return { valid: false, error: 'Invalid or expired token' };
+    }
+}
+
+// ============================================
+// Middleware helpers
+// ============================================
+
+export interface AuthMiddlewareOptions {
+    minAuthority?: number;
+    permission?: string;
+    cookieName?: string;        // Cookie holding the Auth token (default: usgrp-auth-token)
+    redirectToLogin?: boolean;  // Redirect unauthenticated requests to Auth instead of returning 401
+}
+
+type AuthCheck =
+    | { ok: true; user: AuthUser }
+    | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Extract an Auth token from an Authorization header or cookie header
+ */
+export function getTokenFromHeaders(
+    authorization: string | null | undefined,
+    cookieHeader: string | null | undefined,
+    cookieName = 'usgrp-auth-token'
+): string | null {
+    if (authorization?.startsWith('Bearer ')) {
+        return authorization.substring(7);
+    }
+
+    const cookie = cookieHeader?.split(';')
+        .map(c => c.trim())
+        .find(c => c.startsWith(`${cookieName}=`));
+
+    return cookie ? decodeURIComponent(cookie.substring(cookieName.length + 1)) : null;
+}
+
+async function checkAuth(token: string | null, options: AuthMiddlewareOptions): Promise<AuthCheck> {
+    if (!token) {
+        return { ok: false, status: 401, error: 'Authentication required' };
+    }
+
+    const result = await validateAuthToken(token);
+    if (!result.valid || !result.user) {
+        return { ok: false, status: 401, error: result.error || 'Invalid token' };
+    }
+
+    if (options.minAuthority !== undefined && !hasMinimumAuthority(result.user, options.minAuthority)) {
+        return { ok: false, status: 403, error: 'Insufficient authority' };
+    }
+
+    if (options.permission && !hasPermission(result.user, options.permission)) {
+        return { ok: false, status: 403, error: 'Missing permission' };
+    }
+
+    return { ok: true, user: result.user };
+}
+
+/**
+ * Authenticate a Next.js (or any Fetch API) request
+ * Returns the user, or the response to send instead
+ */
+export async function authenticateRequest(
+    request: Request,
+    options: AuthMiddlewareOptions = {}
+): Promise<{ user: AuthUser; response?: undefined } | { user?: undefined; response: Response }> {
+    const token = getTokenFromHeaders(
+        request.headers.get('authorization'),
+        request.headers.get('cookie'),
+        options.cookieName
+    );
+    const check = await checkAuth(token, options);
+
+    if (check.ok) {
+        return { user: check.user };
+    }
+
+    if (check.status === 401 && options.redirectToLogin) {
+        return { response: Response.redirect(getAuthRedirectUrl(request.url), 302) };
+    }
+
+    return { response: Response.json({ error: check.error }, { status: check.status }) };
+}
+
+/**
+ * Wrap a Next.js route handler so it only runs for authenticated users
+ */
+export function withAuth<C>(
+    handler: (request: Request, context: C, user: AuthUser) => Promise<Response>,
+    options: AuthMiddlewareOptions = {}
+): (request: Request, context: C) => Promise<Response> {
+    return async (request, context) => {
+        const { user, response } = await authenticateRequest(request, options);
+        return user ? handler(request, context, user) : response;
+    };
+}
+
+/**
+ * Next.js middleware that blocks unauthenticated requests (returns undefined to continue)
+ */
+export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
+    return async (request: Request): Promise<Response | undefined> => {
+        const { response } = await authenticateRequest(request, options);
+        return response;
+    };
+}
+
+interface ExpressRequestLike {
+    protocol: string;
+    originalUrl: string;
+    get(name: string): string | undefined;
+    authUser?: AuthUser;
+}
+
+interface ExpressResponseLike {
+    status(code: number): { json(body: unknown): unknown };
+    redirect(url: string): unknown;
+}
+
+/**
+ * Express middleware - sets req.authUser for authenticated requests
+ */
+export function expressAuth(options: AuthMiddlewareOptions = {}) {
+    return (req: ExpressRequestLike, res: ExpressResponseLike, next: (error?: unknown) => void): void => {
+        const token = getTokenFromHeaders(req.get('authorization'), req.get('cookie'), options.cookieName);
+
+        checkAuth(token, options)
+            .then(check => {
+                if (check.ok) {
+                    req.authUser = check.user;
+                    next();
+                } else if (check.status === 401 && options.redirectToLogin) {
+                    res.redirect(getAuthRedirectUrl(`${req.protocol}://${req.get('host')}${req.originalUrl}`));
+                } else {
+                    res.status(check.status).json({ error: check.error });
+                }
+            })
+            .catch(next);
+    };
+}
+
 /**
  * Get the SSO redirect URL for a return URL
  */
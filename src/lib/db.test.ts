@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createRefreshToken, createSession, createUser, rotateRefreshToken } from './db';
+
+const GRACE_SECONDS = 30;
+
+createUser({
+    id: 'user-1',
+    email: 'member@usgrp.xyz',
+    password_hash: '',
+    discord_id: null,
+    display_name: 'Member',
+    authority_level: 0,
+    roles: '[]',
+    permissions: '[]',
+    enabled: 1,
+    totp_secret: null,
+    totp_enabled: 0,
+});
+
+// A session holding one unused refresh token, named after the test so hashes never collide
+function startSession(name: string, expiresInMs = 60 * 60 * 1000): string {
+    createSession({
+        id: `session-${name}`,
+        user_id: 'user-1',
+        token_hash: `access-${name}`,
+        ip: null,
+        user_agent: null,
+        expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+    });
+    createRefreshToken(`${name}-0`, `session-${name}`);
+    return `session-${name}`;
+}
+
+describe('rotateRefreshToken', () => {
+    it('spends an unused token and stores its successor', () => {
+        const sessionId = startSession('rotate');
+
+        const first = rotateRefreshToken('rotate-0', 'rotate-1', GRACE_SECONDS);
+        expect(first.status).toBe('rotated');
+        expect(first.session?.id).toBe(sessionId);
+
+        expect(rotateRefreshToken('rotate-1', 'rotate-2', GRACE_SECONDS).status).toBe('rotated');
+    });
+
+    it('treats a concurrent refresh inside the grace window as superseded without forking', () => {
+        startSession('race');
+        rotateRefreshToken('race-0', 'race-1', GRACE_SECONDS);
+
+        const second = rotateRefreshToken('race-0', 'race-1b', GRACE_SECONDS);
+        expect(second.status).toBe('superseded');
+
+        // Only the first request's successor exists
+        expect(rotateRefreshToken('race-1b', 'race-2', GRACE_SECONDS).status).toBe('invalid');
+        expect(rotateRefreshToken('race-1', 'race-2', GRACE_SECONDS).status).toBe('rotated');
+    });
+
+    it('deletes the whole family when a spent token is reused after the grace window', () => {
+        startSession('reuse');
+        rotateRefreshToken('reuse-0', 'reuse-1', GRACE_SECONDS);
+
+        expect(rotateRefreshToken('reuse-0', 'reuse-1b', 0).status).toBe('reused');
+        expect(rotateRefreshToken('reuse-1', 'reuse-2', GRACE_SECONDS).status).toBe('invalid');
+    });
+
+    it('rejects unknown tokens and tokens of expired sessions', () => {
+        expect(rotateRefreshToken('unknown', 'unknown-1', GRACE_SECONDS).status).toBe('invalid');
+
+        startSession('expired', -1000);
+        expect(rotateRefreshToken('expired-0', 'expired-1', GRACE_SECONDS).status).toBe('invalid');
+    });
+});
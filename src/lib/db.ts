@@ -6,6 +6,8 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { createHash } from 'crypto';
+import type { AuditAction, AuditDetails } from './auditevents';
 
 const DATA_DIR = process.env.AUTH_DATA_DIR || (
     process.platform === 'win32'
@@ -57,7 +59,12 @@ function initializeSchema() {
             suspended_by TEXT,
             totp_secret TEXT,
             totp_enabled INTEGER DEFAULT 0,
+            totp_last_counter INTEGER,
             mfa_enforced INTEGER DEFAULT 1,
+            security_key_required INTEGER DEFAULT 0,
+            locked_until TEXT,
+            must_change_password INTEGER DEFAULT 0,
+            password_changed_at TEXT,
             recovery_codes TEXT,
             backup_email TEXT,
             created_at TEXT DEFAULT (datetime('now')),
@@ -66,10 +73,23 @@ function initializeSchema() {
     `);
 
     // Add new columns if they don't exist (for existing databases)
-    const userColumns = ['suspended', 'suspended_reason', 'suspended_at', 'suspended_by', 'mfa_enforced', 'recovery_codes', 'backup_email'];
-    userColumns.forEach(col => {
+    const userColumns: Record<string, string> = {
+        suspended: 'INTEGER DEFAULT 0',
+        suspended_reason: 'TEXT',
+        suspended_at: 'TEXT',
+        suspended_by: 'TEXT',
+        mfa_enforced: 'INTEGER DEFAULT 1',
+        recovery_codes: 'TEXT',
+        backup_email: 'TEXT',
+        totp_last_counter: 'INTEGER',
+        security_key_required: 'INTEGER DEFAULT 0',
+        locked_until: 'TEXT',
+        must_change_password: 'INTEGER DEFAULT 0',
+        password_changed_at: 'TEXT',
+    };
+    Object.entries(userColumns).forEach(([col, type]) => {
         try {
-            database.exec(`ALTER TABLE users ADD COLUMN ${col} ${col === 'mfa_enforced' ? 'INTEGER DEFAULT 1' : col === 'suspended' ? 'INTEGER DEFAULT 0' : 'TEXT'}`);
+            database.exec(`ALTER TABLE users ADD COLUMN ${col} ${type}`);
         } catch { /* Column already exists */ }
     });
 
@@ -92,13 +112,38 @@ function initializeSchema() {
     `);
 
     // Add new session columns if they don't exist
-    const sessionColumns = ['device_name', 'device_fingerprint', 'last_active', 'is_remembered'];
+    const sessionColumns = ['device_name', 'device_fingerprint', 'last_active', 'is_remembered', 'authenticated_at'];
     sessionColumns.forEach(col => {
         try {
             database.exec(`ALTER TABLE sessions ADD COLUMN ${col} ${col === 'is_remembered' ? 'INTEGER DEFAULT 0' : col === 'last_active' ? "TEXT DEFAULT (datetime('now'))" : 'TEXT'}`);
         } catch { /* Column already exists */ }
     });
 
+    // Refresh tokens (single use; a session's tokens form one rotation family)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS refresh_tokens (
+            token_hash TEXT PRIMARY KEY,
+            session_id TEXT NOT NULL,
+            used_at TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Revoked sessions, published so services verifying tokens offline can reject them
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS revoked_sessions (
+            session_id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            revoked_at TEXT DEFAULT (datetime('now')),
+            expires_at TEXT NOT NULL,
+            reason TEXT
+        )
+    `);
+    try {
+        database.exec(`ALTER TABLE revoked_sessions ADD COLUMN reason TEXT`);
+    } catch { /* Column already exists */ }
+
     // Remembered devices table
     database.exec(`
         CREATE TABLE IF NOT EXISTS remembered_devices (
@@ -113,6 +158,23 @@ function initializeSchema() {
         )
     `);
 
+    // WebAuthn credentials (security keys and passkeys)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS webauthn_credentials (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            name TEXT NOT NULL,
+            public_key TEXT NOT NULL,
+            alg INTEGER NOT NULL,
+            sign_count INTEGER DEFAULT 0,
+            transports TEXT DEFAULT '[]',
+            is_passkey INTEGER DEFAULT 0,
+            last_used_at TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
     // Approval requests table (two-person rule)
     database.exec(`
         CREATE TABLE IF NOT EXISTS approval_requests (
@@ -142,10 +204,327 @@ function initializeSchema() {
             target TEXT,
             details TEXT,
             ip TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            prev_hash TEXT,
+            hash TEXT
+        )
+    `);
+    for (const col of ['prev_hash', 'hash']) {
+        try {
+            database.exec(`ALTER TABLE audit_log ADD COLUMN ${col} TEXT`);
+        } catch { /* Column already exists */ }
+    }
+    chainUnhashedAuditEntries(database);
+
+    // Signed snapshots of the audit chain head; an attacker rewriting the chain can't re-sign them
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS audit_checkpoints (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            last_entry_id INTEGER NOT NULL,
+            entry_hash TEXT NOT NULL,
+            signature TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        )
+    `);
+
+    // SIEM forwarding: how far each sink has got, and batches it gave up on for now
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS audit_forward_state (
+            sink TEXT PRIMARY KEY,
+            last_entry_id INTEGER NOT NULL,
+            failures INTEGER DEFAULT 0,
+            last_error TEXT,
+            next_attempt_at TEXT,
+            updated_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS audit_dead_letters (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            sink TEXT NOT NULL,
+            entry_id INTEGER NOT NULL,
+            payload TEXT NOT NULL,
+            error TEXT,
+            created_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+
+    // Monthly archive files of entries past their retention
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS audit_archives (
+            month TEXT PRIMARY KEY,
+            file TEXT NOT NULL,
+            entries INTEGER NOT NULL,
+            sha256 TEXT NOT NULL,
+            first_entry_id INTEGER NOT NULL,
+            last_entry_id INTEGER NOT NULL,
+            created_at TEXT DEFAULT (datetime('now')),
+            updated_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+
+    // Chain links of archived entries, so the live chain can still be verified across the gaps
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS audit_archive_links (
+            entry_id INTEGER PRIMARY KEY,
+            prev_hash TEXT NOT NULL,
+            hash TEXT NOT NULL
+        )
+    `);
+
+    // Full-text index over audit details, kept in step by triggers
+    const auditSearchExists = database.prepare(
+        `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'audit_log_fts'`
+    ).get();
+    database.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS audit_log_fts USING fts5(details, content='audit_log', content_rowid='id');
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_fts_insert AFTER INSERT ON audit_log BEGIN
+            INSERT INTO audit_log_fts (rowid, details) VALUES (new.id, new.details);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_fts_delete AFTER DELETE ON audit_log BEGIN
+            INSERT INTO audit_log_fts (audit_log_fts, rowid, details) VALUES ('delete', old.id, old.details);
+        END;
+    `);
+    if (!auditSearchExists) {
+        // Index the entries written before search existed
+        database.exec(`INSERT INTO audit_log_fts (audit_log_fts) VALUES ('rebuild')`);
+    }
+
+    // OAuth / OpenID Connect registered clients
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS oauth_clients (
+            client_id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            client_secret_hash TEXT,
+            redirect_uris TEXT NOT NULL DEFAULT '[]',
+            allowed_scopes TEXT NOT NULL DEFAULT '["openid","profile","email"]',
+            enabled INTEGER DEFAULT 1,
+            created_by TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            updated_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+
+    // OAuth authorization codes (single use, short lived)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS oauth_authorization_codes (
+            code_hash TEXT PRIMARY KEY,
+            client_id TEXT NOT NULL,
+            user_id TEXT NOT NULL,
+            session_id TEXT NOT NULL,
+            redirect_uri TEXT NOT NULL,
+            scope TEXT NOT NULL,
+            nonce TEXT,
+            code_challenge TEXT NOT NULL,
+            code_challenge_method TEXT NOT NULL DEFAULT 'S256',
+            used INTEGER DEFAULT 0,
+            expires_at TEXT NOT NULL,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Mail credential vault (encrypted mail passwords for USGRP Mail SSO)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS mail_credentials (
+            user_id TEXT PRIMARY KEY,
+            encrypted_password TEXT NOT NULL,
+            updated_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // One-time codes a USGRP service exchanges for an access token after the SSO redirect
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS sso_handoff_codes (
+            code_hash TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            session_id TEXT NOT NULL,
+            service TEXT NOT NULL,
+            used INTEGER DEFAULT 0,
+            expires_at TEXT NOT NULL,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // One-time codes USGRP Mail exchanges for vaulted credentials
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS mail_exchange_codes (
+            code_hash TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            session_id TEXT NOT NULL,
+            used INTEGER DEFAULT 0,
+            expires_at TEXT NOT NULL,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Previous password hashes (no-reuse policy)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS password_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT NOT NULL,
+            password_hash TEXT NOT NULL,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Single-use password reset tokens sent to the backup email
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS password_reset_tokens (
+            token_hash TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            ip TEXT,
+            used INTEGER DEFAULT 0,
+            expires_at TEXT NOT NULL,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Where and on what each sign-in happened (new device / network / travel checks)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS login_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id TEXT NOT NULL,
+            session_id TEXT,
+            ip TEXT,
+            ip_range TEXT,
+            device_fingerprint TEXT,
+            device_name TEXT,
+            country TEXT,
+            city TEXT,
+            latitude REAL,
+            longitude REAL,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Suspicious sign-ins the user has been told about
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS login_alerts (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL,
+            session_id TEXT,
+            ip TEXT,
+            device_name TEXT,
+            location TEXT,
+            reasons TEXT NOT NULL DEFAULT '[]',
+            token_hash TEXT UNIQUE NOT NULL,
+            status TEXT NOT NULL DEFAULT 'pending',
+            expires_at TEXT NOT NULL,
+            created_at TEXT DEFAULT (datetime('now')),
+            resolved_at TEXT,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    `);
+
+    // Service API keys (bots and other USGRP services)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            key_prefix TEXT NOT NULL,
+            key_hash TEXT UNIQUE NOT NULL,
+            owner_id TEXT,
+            scopes TEXT NOT NULL DEFAULT '[]',
+            allowed_ips TEXT NOT NULL DEFAULT '[]',
+            expires_at TEXT,
+            last_used_at TEXT,
+            last_used_ip TEXT,
+            revoked_at TEXT,
+            revoked_by TEXT,
+            created_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+
+    // JWT signing keys (asymmetric, rotated; public halves are published as JWKS)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS signing_keys (
+            kid TEXT PRIMARY KEY,
+            alg TEXT NOT NULL,
+            public_jwk TEXT NOT NULL,
+            private_key TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'active',
+            created_at TEXT DEFAULT (datetime('now')),
+            rotated_at TEXT,
+            retired_at TEXT,
+            retired_by TEXT,
+            retired_reason TEXT
+        )
+    `);
+
+    // Failed password / TOTP / recovery code checks (sliding-window rate limits)
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS auth_failures (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            account TEXT NOT NULL,
+            ip TEXT,
+            kind TEXT NOT NULL,
             created_at TEXT DEFAULT (datetime('now'))
         )
     `);
 
+    // Discord role -> authority level / permission mapping
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS discord_role_mappings (
+            discord_role_id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            authority_level INTEGER,
+            permissions TEXT NOT NULL DEFAULT '[]',
+            updated_by TEXT,
+            updated_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+
+    // Last Discord roles the bot reported for each member
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS discord_member_roles (
+            discord_id TEXT PRIMARY KEY,
+            role_ids TEXT NOT NULL DEFAULT '[]',
+            synced_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+
+    // Outbound webhook subscriptions and the log of every delivery made to them
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            url TEXT NOT NULL,
+            secret TEXT NOT NULL,
+            events TEXT NOT NULL DEFAULT '[]',
+            enabled INTEGER DEFAULT 1,
+            created_by TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            updated_at TEXT DEFAULT (datetime('now'))
+        )
+    `);
+    database.exec(`
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+            id TEXT PRIMARY KEY,
+            webhook_id TEXT NOT NULL,
+            event TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'pending',
+            attempts INTEGER DEFAULT 0,
+            response_status INTEGER,
+            response_body TEXT,
+            error TEXT,
+            next_attempt_at TEXT,
+            last_attempt_at TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+        )
+    `);
+
     // Create indexes
     database.exec(`
         CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
@@ -153,11 +532,26 @@ function initializeSchema() {
         CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
         CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
         CREATE INDEX IF NOT EXISTS idx_sessions_last_active ON sessions(last_active);
+        CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
         CREATE INDEX IF NOT EXISTS idx_remembered_devices_user_id ON remembered_devices(user_id);
+        CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON webauthn_credentials(user_id);
         CREATE INDEX IF NOT EXISTS idx_approval_requests_status ON approval_requests(status);
         CREATE INDEX IF NOT EXISTS idx_approval_requests_requester ON approval_requests(requester_id);
+        CREATE INDEX IF NOT EXISTS idx_password_history_user_id ON password_history(user_id);
+        CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+        CREATE INDEX IF NOT EXISTS idx_login_history_user_id ON login_history(user_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_login_alerts_user_id ON login_alerts(user_id, status);
+        CREATE INDEX IF NOT EXISTS idx_auth_failures_account ON auth_failures(account, created_at);
+        CREATE INDEX IF NOT EXISTS idx_auth_failures_ip ON auth_failures(ip, created_at);
         CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON audit_log(user_id);
         CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_ip ON audit_log(ip);
+        CREATE INDEX IF NOT EXISTS idx_audit_dead_letters_sink ON audit_dead_letters(sink, id);
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+        CREATE INDEX IF NOT EXISTS idx_oauth_codes_expires_at ON oauth_authorization_codes(expires_at);
     `);
 }
 
@@ -178,7 +572,12 @@ export interface User {
     suspended_by: string | null;
     totp_secret: string | null;
     totp_enabled: number;
+    totp_last_counter: number | null;  // Last accepted TOTP time step (replay protection)
     mfa_enforced: number;
+    security_key_required: number;  // Second factor must be a WebAuthn credential
+    locked_until: string | null;  // ISO timestamp - sign-in refused until then after repeated failures
+    must_change_password: number;  // Sign-in stops at the change-password interstitial
+    password_changed_at: string | null;  // ISO timestamp - null for passwords set before tracking began
     recovery_codes: string | null;  // JSON array of hashed codes
     backup_email: string | null;
     created_at: string;
@@ -196,6 +595,27 @@ export interface Session {
     last_active: string;
     is_remembered: number;
     expires_at: string;
+    authenticated_at: string | null;  // When the user signed in (OIDC auth_time); null on older rows
+    created_at: string;
+}
+
+export interface RefreshToken {
+    token_hash: string;
+    session_id: string;
+    used_at: string | null;
+    created_at: string;
+}
+
+export interface WebAuthnCredential {
+    id: string;  // Credential ID (base64url)
+    user_id: string;
+    name: string;
+    public_key: string;  // SPKI PEM
+    alg: number;  // COSE algorithm
+    sign_count: number;
+    transports: string;  // JSON array
+    is_passkey: number;  // Discoverable credential, usable for passwordless sign-in
+    last_used_at: string | null;
     created_at: string;
 }
 
@@ -229,87 +649,331 @@ export interface AuditLogEntry {
     user_id: string | null;
     action: string;
     target: string | null;
-    details: string | null;
+    details: string | null;  // JSON object; older entries are plain text
     ip: string | null;
     created_at: string;
+    prev_hash: string | null;
+    hash: string | null;     // SHA-256 of prev_hash + content, see hashAuditEntry
 }
 
-// User operations
-export function createUser(user: Omit<User, 'created_at' | 'updated_at' | 'suspended' | 'suspended_reason' | 'suspended_at' | 'suspended_by' | 'mfa_enforced' | 'recovery_codes' | 'backup_email'> & { suspended?: number; mfa_enforced?: number }): User | null {
-    try {
-        const stmt = getDb().prepare(`
-            INSERT INTO users (id, email, password_hash, discord_id, display_name, 
-                authority_level, roles, permissions, enabled, suspended, mfa_enforced, totp_secret, totp_enabled)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `);
-        stmt.run(
-            user.id,
-            user.email.toLowerCase(),
-            user.password_hash,
-            user.discord_id,
-            user.display_name,
-            user.authority_level,
-            user.roles,
-            user.permissions,
-            user.enabled,
-            user.suspended || 0,
-            user.mfa_enforced ?? 1,  // Default to MFA enforced
-            user.totp_secret,
-            user.totp_enabled
-        );
-        return getUserById(user.id);
-    } catch (e) {
-        console.error('Error creating user:', e);
-        return null;
-    }
+export interface AuditCheckpoint {
+    id: number;
+    last_entry_id: number;
+    entry_hash: string;
+    signature: string;  // HMAC, see auditchain.ts
+    created_at: string;
 }
 
-export function getUserById(id: string): User | null {
-    const stmt = getDb().prepare('SELECT * FROM users WHERE id = ?');
-    return stmt.get(id) as User | null;
+export interface AuditForwardState {
+    sink: string;
+    last_entry_id: number;
+    failures: number;
+    last_error: string | null;
+    next_attempt_at: string | null;  // ISO timestamp
+    updated_at: string;
 }
 
-export function getUserByEmail(email: string): User | null {
-    const stmt = getDb().prepare('SELECT * FROM users WHERE email = ?');
-    return stmt.get(email.toLowerCase()) as User | null;
+export interface AuditDeadLetter {
+    id: number;
+    sink: string;
+    entry_id: number;
+    payload: string;  // JSON, as it would have been sent
+    error: string | null;
+    created_at: string;
 }
 
-export function getUserByDiscordId(discordId: string): User | null {
-    const stmt = getDb().prepare('SELECT * FROM users WHERE discord_id = ?');
-    return stmt.get(discordId) as User | null;
+export interface AuditArchive {
+    month: string;  // YYYY-MM
+    file: string;   // name inside the archive directory
+    entries: number;
+    sha256: string; // of the compressed file
+    first_entry_id: number;
+    last_entry_id: number;
+    created_at: string;
+    updated_at: string;
 }
 
-export function updateUser(id: string, updates: Partial<Omit<User, 'id' | 'created_at'>>): boolean {
-    try {
-        const fields: string[] = [];
-        const values: unknown[] = [];
+export interface AuditArchiveLink {
+    entry_id: number;
+    prev_hash: string;
+    hash: string;
+}
 
-        Object.entries(updates).forEach(([key, value]) => {
-            if (value !== undefined) {
-                fields.push(`${key} = ?`);
-                values.push(key === 'email' ? (value as string).toLowerCase() : value);
-            }
-        });
+export interface AuditLogRow extends AuditLogEntry {
+    actor_name: string | null;
+    actor_email: string | null;
+}
 
-        if (fields.length === 0) return false;
+export interface AuditLogFilters {
+    actor?: string;          // user ID, or part of the actor's email / display name
+    target?: string;
+    actions?: string[];
+    ip?: string;             // prefix match
+    from?: string;           // SQLite datetime, inclusive
+    to?: string;             // SQLite datetime, exclusive
+    search?: string;         // full-text search over details
+}
 
-        fields.push("updated_at = datetime('now')");
-        values.push(id);
+export interface OAuthClient {
+    client_id: string;
+    name: string;
+    client_secret_hash: string | null;  // null for public (PKCE-only) clients
+    redirect_uris: string;  // JSON array
+    allowed_scopes: string;  // JSON array
+    enabled: number;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
 
-        const stmt = getDb().prepare(`UPDATE users SET ${fields.join(', ')} WHERE id = ?`);
-        const result = stmt.run(...values);
-        return result.changes > 0;
-    } catch (e) {
-        console.error('Error updating user:', e);
-        return false;
-    }
+export interface OAuthAuthorizationCode {
+    code_hash: string;
+    client_id: string;
+    user_id: string;
+    session_id: string;
+    redirect_uri: string;
+    scope: string;
+    nonce: string | null;
+    code_challenge: string;
+    code_challenge_method: string;
+    used: number;
+    expires_at: string;
+    created_at: string;
 }
 
-export function deleteUser(id: string): boolean {
-    try {
-        const stmt = getDb().prepare('DELETE FROM users WHERE id = ?');
-        const result = stmt.run(id);
-        return result.changes > 0;
+export interface ApiKey {
+    id: string;
+    name: string;
+    key_prefix: string;  // First characters of the key, for identification
+    key_hash: string;
+    owner_id: string | null;
+    scopes: string;  // JSON array
+    allowed_ips: string;  // JSON array, empty = any
+    expires_at: string | null;  // ISO timestamp
+    last_used_at: string | null;
+    last_used_ip: string | null;
+    revoked_at: string | null;
+    revoked_by: string | null;
+    created_at: string;
+}
+
+export interface MailExchangeCode {
+    code_hash: string;
+    user_id: string;
+    session_id: string;
+    used: number;
+    expires_at: string;
+    created_at: string;
+}
+
+export interface SsoHandoffCode {
+    code_hash: string;
+    user_id: string;
+    session_id: string;
+    service: string;  // Hostname of the service the code was issued to
+    used: number;
+    expires_at: string;
+    created_at: string;
+}
+
+export interface SigningKey {
+    kid: string;
+    alg: string;
+    public_jwk: string;  // JSON
+    private_key: string;  // PKCS#8 PEM
+    status: 'active' | 'previous' | 'retired';
+    created_at: string;
+    rotated_at: string | null;
+    retired_at: string | null;
+    retired_by: string | null;
+    retired_reason: string | null;
+}
+
+export interface DiscordRoleMapping {
+    discord_role_id: string;
+    name: string;
+    authority_level: number | null;  // null = grants permissions only
+    permissions: string;  // JSON array
+    updated_by: string | null;
+    updated_at: string;
+}
+
+export interface PasswordResetToken {
+    token_hash: string;
+    user_id: string;
+    ip: string | null;
+    used: number;
+    expires_at: string;
+    created_at: string;
+}
+
+export interface LoginHistoryEntry {
+    id: number;
+    user_id: string;
+    session_id: string | null;
+    ip: string | null;
+    ip_range: string | null;
+    device_fingerprint: string | null;
+    device_name: string | null;
+    country: string | null;
+    city: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    created_at: string;
+}
+
+export type LoginAlertStatus = 'pending' | 'confirmed' | 'reported';
+
+export interface LoginAlert {
+    id: string;
+    user_id: string;
+    session_id: string | null;
+    ip: string | null;
+    device_name: string | null;
+    location: string | null;
+    reasons: string;  // JSON array of LoginAlertReason
+    token_hash: string;
+    status: LoginAlertStatus;
+    expires_at: string;
+    created_at: string;
+    resolved_at: string | null;
+}
+
+export type AuthFailureKind = 'password' | 'totp' | 'recovery' | 'discord' | 'webauthn';
+
+export interface AuthFailureStats {
+    count: number;
+    first_at: number | null;  // Unix seconds of the oldest failure in the window
+    last_at: number | null;   // Unix seconds of the newest failure in the window
+}
+
+export interface DiscordMemberRoles {
+    discord_id: string;
+    role_ids: string;  // JSON array
+    synced_at: string;
+}
+
+export interface Webhook {
+    id: string;
+    name: string;
+    url: string;
+    secret: string;  // Encrypted signing secret, see webhooks.ts
+    events: string;  // JSON array of WebhookEvent
+    enabled: number;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    webhook_id: string;
+    event: string;
+    payload: string;  // JSON body, sent unchanged on every attempt
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    response_status: number | null;
+    response_body: string | null;  // Truncated
+    error: string | null;
+    next_attempt_at: string | null;  // ISO timestamp, while pending
+    last_attempt_at: string | null;  // ISO timestamp
+    created_at: string;
+}
+
+// User operations
+export function createUser(user: Omit<User, 'created_at' | 'updated_at' | 'suspended' | 'suspended_reason' | 'suspended_at' | 'suspended_by' | 'mfa_enforced' | 'security_key_required' | 'locked_until' | 'must_change_password' | 'password_changed_at' | 'recovery_codes' | 'backup_email' | 'totp_last_counter'> & { suspended?: number; mfa_enforced?: number; must_change_password?: number }): User | null {
+    try {
+        const stmt = getDb().prepare(`
+            INSERT INTO users (id, email, password_hash, discord_id, display_name, 
+                authority_level, roles, permissions, enabled, suspended, mfa_enforced, totp_secret, totp_enabled,
+                must_change_password, password_changed_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        stmt.run(
+            user.id,
+            user.email.toLowerCase(),
+            user.password_hash,
+            user.discord_id,
+            user.display_name,
+            user.authority_level,
+            user.roles,
+            user.permissions,
+            user.enabled,
+            user.suspended || 0,
+            user.mfa_enforced ?? 1,  // Default to MFA enforced
+            user.totp_secret,
+            user.totp_enabled,
+            user.must_change_password || 0,
+            new Date().toISOString()
+        );
+        return getUserById(user.id);
+    } catch (e) {
+        console.error('Error creating user:', e);
+        return null;
+    }
+}
+
+export function getUserById(id: string): User | null {
+    const stmt = getDb().prepare('SELECT * FROM users WHERE id = ?');
+    return stmt.get(id) as User | null;
+}
+
+export function getUserByEmail(email: string): User | null {
+    const stmt = getDb().prepare('SELECT * FROM users WHERE email = ?');
+    return stmt.get(email.toLowerCase()) as User | null;
+}
+
+export function getUserByDiscordId(discordId: string): User | null {
+    const stmt = getDb().prepare('SELECT * FROM users WHERE discord_id = ?');
+    return stmt.get(discordId) as User | null;
+}
+
+export function updateUser(id: string, updates: Partial<Omit<User, 'id' | 'created_at'>>): boolean {
+    try {
+        const fields: string[] = [];
+        const values: unknown[] = [];
+
+        Object.entries(updates).forEach(([key, value]) => {
+            if (value !== undefined) {
+                fields.push(`${key} = ?`);
+                values.push(key === 'email' ? (value as string).toLowerCase() : value);
+            }
+        });
+
+        if (fields.length === 0) return false;
+
+        // Password age counts from the last time the hash changed
+        if (updates.password_hash !== undefined && updates.password_changed_at === undefined) {
+            fields.push('password_changed_at = ?');
+            values.push(new Date().toISOString());
+        }
+
+        fields.push("updated_at = datetime('now')");
+        values.push(id);
+
+        const stmt = getDb().prepare(`UPDATE users SET ${fields.join(', ')} WHERE id = ?`);
+        const result = stmt.run(...values);
+
+        // Disabled users lose their sessions (services verifying offline learn of it via revocation)
+        if (result.changes > 0 && updates.enabled === 0) {
+            deleteAllUserSessions(id);
+        }
+
+        return result.changes > 0;
+    } catch (e) {
+        console.error('Error updating user:', e);
+        return false;
+    }
+}
+
+export function deleteUser(id: string): boolean {
+    try {
+        deleteAllUserSessions(id);
+        const stmt = getDb().prepare('DELETE FROM users WHERE id = ?');
+        const result = stmt.run(id);
+        return result.changes > 0;
     } catch (e) {
         console.error('Error deleting user:', e);
         return false;
@@ -330,7 +994,7 @@ export function enableUser(id: string): boolean {
 }
 
 // Session operations
-type CreateSessionInput = Omit<Session, 'created_at' | 'last_active' | 'device_name' | 'device_fingerprint' | 'is_remembered'> & {
+type CreateSessionInput = Omit<Session, 'created_at' | 'last_active' | 'authenticated_at' | 'device_name' | 'device_fingerprint' | 'is_remembered'> & {
     device_name?: string | null;
     device_fingerprint?: string | null;
     is_remembered?: number;
@@ -338,8 +1002,8 @@ type CreateSessionInput = Omit<Session, 'created_at' | 'last_active' | 'device_n
 export function createSession(session: CreateSessionInput): Session | null {
     try {
         const stmt = getDb().prepare(`
-            INSERT INTO sessions (id, user_id, token_hash, ip, user_agent, device_name, device_fingerprint, last_active, is_remembered, expires_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), ?, ?)
+            INSERT INTO sessions (id, user_id, token_hash, ip, user_agent, device_name, device_fingerprint, last_active, authenticated_at, is_remembered, expires_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'), ?, ?)
         `);
         stmt.run(
             session.id,
@@ -370,179 +1034,668 @@ export function getSessionByTokenHash(tokenHash: string): Session | null {
 }
 
 // Audit log operations
+
+// prev_hash of the very first entry
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+type AuditChainContent = Pick<AuditLogEntry, 'user_id' | 'action' | 'target' | 'details' | 'ip' | 'created_at'>;
+
+// Each entry's hash covers its content and the previous entry's hash, so editing,
+// deleting or reordering any entry breaks every link after it
+export function hashAuditEntry(prevHash: string, entry: AuditChainContent): string {
+    return createHash('sha256').update(JSON.stringify([
+        prevHash,
+        entry.user_id,
+        entry.action,
+        entry.target,
+        entry.details,
+        entry.ip,
+        entry.created_at,
+    ])).digest('hex');
+}
+
+// Entries written before the chain existed are chained once, in id order
+function chainUnhashedAuditEntries(database: Database.Database): void {
+    const unhashed = database.prepare('SELECT * FROM audit_log WHERE hash IS NULL ORDER BY id').all() as AuditLogEntry[];
+    if (unhashed.length === 0) return;
+
+    const update = database.prepare('UPDATE audit_log SET prev_hash = ?, hash = ? WHERE id = ?');
+    database.transaction(() => {
+        let prevHash = AUDIT_GENESIS_HASH;
+        for (const entry of unhashed) {
+            const hash = hashAuditEntry(prevHash, entry);
+            update.run(prevHash, hash, entry.id);
+            prevHash = hash;
+        }
+    })();
+}
+
 export function logAudit(
     userId: string | null,
-    action: string,
+    action: AuditAction,
     target: string | null = null,
-    details: string | null = null,
+    details: string | AuditDetails | null = null,
     ip: string | null = null
 ): void {
     try {
-        const stmt = getDb().prepare(`
-            INSERT INTO audit_log (user_id, action, target, details, ip)
-            VALUES (?, ?, ?, ?, ?)
-        `);
-        stmt.run(userId, action, target, details, ip);
+        const database = getDb();
+        const entry: AuditChainContent = {
+            user_id: userId,
+            action,
+            target,
+            details: serializeAuditDetails(details),
+            ip,
+            // Same format as datetime('now'), set here because it is part of the hash
+            created_at: new Date().toISOString().replace('T', ' ').slice(0, 19),
+        };
+
+        // Reading the head and appending in one write transaction keeps concurrent writers from forking the chain
+        database.transaction(() => {
+            const head = database.prepare('SELECT hash FROM audit_log ORDER BY id DESC LIMIT 1').get() as { hash: string | null } | undefined;
+            const prevHash = head?.hash || AUDIT_GENESIS_HASH;
+            database.prepare(`
+                INSERT INTO audit_log (user_id, action, target, details, ip, created_at, prev_hash, hash)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(entry.user_id, entry.action, entry.target, entry.details, entry.ip, entry.created_at, prevHash, hashAuditEntry(prevHash, entry));
+        }).immediate();
     } catch (e) {
         console.error('Error logging audit:', e);
     }
 }
 
-export function getAuditLog(limit = 100, offset = 0): AuditLogEntry[] {
+// Details are always stored as a JSON object
+function serializeAuditDetails(details: string | AuditDetails | null): string | null {
+    if (details === null || details === undefined) return null;
+    return JSON.stringify(typeof details === 'string' ? { message: details } : details);
+}
+
+export function parseAuditDetails(details: string | null): AuditDetails | null {
+    if (!details) return null;
+    try {
+        const parsed = JSON.parse(details);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch {
+        // Entries written before details were structured
+    }
+    return { message: details };
+}
+
+// Free text to an FTS5 query: every word must match, as a prefix
+function toFullTextQuery(search: string): string | null {
+    const terms = search.split(/\s+/).filter(Boolean).map(term => `"${term.replace(/"/g, '""')}"*`);
+    return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Newest entries first, limit per page; pass the returned cursor back for the next page
+ */
+export function queryAuditLog(
+    filters: AuditLogFilters = {},
+    limit = 100,
+    cursor: number | null = null
+): { entries: AuditLogRow[]; nextCursor: number | null } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (cursor) {
+        conditions.push('a.id < ?');
+        params.push(cursor);
+    }
+    if (filters.actor) {
+        conditions.push('(a.user_id = ? OR u.email LIKE ? OR u.display_name LIKE ?)');
+        params.push(filters.actor, `%${filters.actor}%`, `%${filters.actor}%`);
+    }
+    if (filters.target) {
+        conditions.push('a.target = ?');
+        params.push(filters.target);
+    }
+    if (filters.actions && filters.actions.length > 0) {
+        conditions.push(`a.action IN (${filters.actions.map(() => '?').join(', ')})`);
+        params.push(...filters.actions);
+    }
+    if (filters.ip) {
+        conditions.push('a.ip LIKE ?');
+        params.push(`${filters.ip}%`);
+    }
+    if (filters.from) {
+        conditions.push('a.created_at >= datetime(?)');
+        params.push(filters.from);
+    }
+    if (filters.to) {
+        conditions.push('a.created_at < datetime(?)');
+        params.push(filters.to);
+    }
+    const match = filters.search ? toFullTextQuery(filters.search) : null;
+    if (match) {
+        conditions.push('a.id IN (SELECT rowid FROM audit_log_fts WHERE audit_log_fts MATCH ?)');
+        params.push(match);
+    }
+
+    // One extra row tells us whether there is another page
     const stmt = getDb().prepare(`
-        SELECT 
-            a.id, a.user_id, a.action, a.target_user, a.details, a.ip_address, a.created_at,
-            u.display_name, u.email
+        SELECT a.*, u.display_name AS actor_name, u.email AS actor_email
         FROM audit_log a
         LEFT JOIN users u ON a.user_id = u.id
-        ORDER BY a.created_at DESC 
-        LIMIT ? OFFSET ?
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY a.id DESC
+        LIMIT ?
     `);
-    return stmt.all(limit, offset) as AuditLogEntry[];
+    const rows = stmt.all(...params, limit + 1) as AuditLogRow[];
+
+    const entries = rows.slice(0, limit);
+    return {
+        entries,
+        nextCursor: rows.length > limit ? entries[entries.length - 1].id : null,
+    };
 }
 
-export function getAuditLogByUser(userId: string, limit = 50): AuditLogEntry[] {
+// Oldest first, with the actor - for exporting and forwarding
+export function getAuditLogRowsAfter(afterId: number, limit: number): AuditLogRow[] {
     const stmt = getDb().prepare(`
-        SELECT * FROM audit_log 
-        WHERE user_id = ? 
-        ORDER BY created_at DESC 
+        SELECT a.*, u.display_name AS actor_name, u.email AS actor_email
+        FROM audit_log a
+        LEFT JOIN users u ON a.user_id = u.id
+        WHERE a.id > ?
+        ORDER BY a.id
         LIMIT ?
     `);
-    return stmt.all(userId, limit) as AuditLogEntry[];
+    return stmt.all(afterId, limit) as AuditLogRow[];
 }
 
 // ============================================
-// Session Management
+// Audit Chain
 // ============================================
 
-const MAX_SESSIONS = 2;
-const SESSION_TIMEOUT_MINUTES = 10;
-
-export function getUserSessions(userId: string): Session[] {
-    const stmt = getDb().prepare(`
-        SELECT * FROM sessions 
-        WHERE user_id = ? AND expires_at > datetime('now')
-        ORDER BY last_active DESC
-    `);
-    return stmt.all(userId) as Session[];
+// Oldest first, for walking the chain in batches
+export function getAuditEntriesAfter(afterId: number, limit: number): AuditLogEntry[] {
+    const stmt = getDb().prepare('SELECT * FROM audit_log WHERE id > ? ORDER BY id LIMIT ?');
+    return stmt.all(afterId, limit) as AuditLogEntry[];
 }
 
-export function updateSessionActivity(sessionId: string): void {
-    const stmt = getDb().prepare(`
-        UPDATE sessions 
-        SET last_active = datetime('now')
-        WHERE id = ?
-    `);
-    stmt.run(sessionId);
+export function getAuditEntry(id: number): AuditLogEntry | null {
+    const stmt = getDb().prepare('SELECT * FROM audit_log WHERE id = ?');
+    return stmt.get(id) as AuditLogEntry | null;
 }
 
-export function deleteSession(sessionId: string): boolean {
-    const stmt = getDb().prepare(`DELETE FROM sessions WHERE id = ?`);
-    const result = stmt.run(sessionId);
-    return result.changes > 0;
+export function getAuditChainHead(): AuditLogEntry | null {
+    const stmt = getDb().prepare('SELECT * FROM audit_log ORDER BY id DESC LIMIT 1');
+    return stmt.get() as AuditLogEntry | null;
 }
 
-export function deleteAllUserSessions(userId: string, exceptSessionId?: string): number {
-    let stmt;
-    if (exceptSessionId) {
-        stmt = getDb().prepare(`DELETE FROM sessions WHERE user_id = ? AND id != ?`);
-        return stmt.run(userId, exceptSessionId).changes;
-    } else {
-        stmt = getDb().prepare(`DELETE FROM sessions WHERE user_id = ?`);
-        return stmt.run(userId).changes;
-    }
+export function countAuditEntries(): number {
+    const row = getDb().prepare('SELECT COUNT(*) AS count FROM audit_log').get() as { count: number };
+    return row.count;
 }
 
-export function enforceSessionLimit(userId: string): void {
-    // Get all sessions for user
-    const sessions = getUserSessions(userId);
-
-    // If over limit, delete oldest sessions
-    if (sessions.length >= MAX_SESSIONS) {
-        // Sort by last_active, keep newest (MAX_SESSIONS - 1) to allow new login
-        const sessionsToKeep = sessions
-            .sort((a, b) => new Date(b.last_active).getTime() - new Date(a.last_active).getTime())
-            .slice(0, MAX_SESSIONS - 1)
-            .map(s => s.id);
+export function createAuditCheckpoint(checkpoint: Omit<AuditCheckpoint, 'id'>): AuditCheckpoint {
+    const result = getDb().prepare(`
+        INSERT INTO audit_checkpoints (last_entry_id, entry_hash, signature, created_at)
+        VALUES (?, ?, ?, ?)
+    `).run(checkpoint.last_entry_id, checkpoint.entry_hash, checkpoint.signature, checkpoint.created_at);
+    return { id: Number(result.lastInsertRowid), ...checkpoint };
+}
 
-        sessions.forEach(s => {
-            if (!sessionsToKeep.includes(s.id)) {
-                deleteSession(s.id);
-            }
-        });
-    }
+// Oldest first
+export function getAuditCheckpoints(): AuditCheckpoint[] {
+    const stmt = getDb().prepare('SELECT * FROM audit_checkpoints ORDER BY id');
+    return stmt.all() as AuditCheckpoint[];
 }
 
-export function cleanExpiredSessions(): number {
-    // Delete sessions expired by time OR inactive for more than timeout
-    const stmt = getDb().prepare(`
-        DELETE FROM sessions 
-        WHERE expires_at < datetime('now') 
-        OR last_active < datetime('now', '-${SESSION_TIMEOUT_MINUTES} minutes')
-    `);
-    return stmt.run().changes;
+export function getLatestAuditCheckpoint(): AuditCheckpoint | null {
+    const stmt = getDb().prepare('SELECT * FROM audit_checkpoints ORDER BY id DESC LIMIT 1');
+    return stmt.get() as AuditCheckpoint | null;
 }
 
 // ============================================
-// User Suspension
+// Audit Forwarding
 // ============================================
 
-export function suspendUser(
-    userId: string,
-    reason: string,
-    suspendedBy: string
-): boolean {
+// A sink seen for the first time starts from startEntryId rather than replaying the whole log
+export function getAuditForwardState(sink: string, startEntryId: number): AuditForwardState {
+    const database = getDb();
+    database.prepare(`
+        INSERT OR IGNORE INTO audit_forward_state (sink, last_entry_id) VALUES (?, ?)
+    `).run(sink, startEntryId);
+    return database.prepare('SELECT * FROM audit_forward_state WHERE sink = ?').get(sink) as AuditForwardState;
+}
+
+export function updateAuditForwardState(
+    sink: string,
+    updates: Partial<Pick<AuditForwardState, 'last_entry_id' | 'failures' | 'last_error' | 'next_attempt_at'>>
+): void {
+    const fields = Object.keys(updates);
+    if (fields.length === 0) return;
+
     const stmt = getDb().prepare(`
-        UPDATE users 
-        SET suspended = 1, 
-            suspended_reason = ?, 
-            suspended_at = datetime('now'), 
-            suspended_by = ?,
-            updated_at = datetime('now')
-        WHERE id = ?
+        UPDATE audit_forward_state
+        SET ${fields.map(f => `${f} = ?`).join(', ')}, updated_at = datetime('now')
+        WHERE sink = ?
     `);
-    const result = stmt.run(reason, suspendedBy, userId);
+    stmt.run(...Object.values(updates), sink);
+}
 
-    // Delete all sessions for suspended user
-    if (result.changes > 0) {
-        deleteAllUserSessions(userId);
-    }
+// Park a batch for later, dropping the sink's oldest letters beyond maxLetters - returns how many were dropped
+export function addAuditDeadLetters(
+    sink: string,
+    letters: Pick<AuditDeadLetter, 'entry_id' | 'payload'>[],
+    error: string,
+    maxLetters: number
+): number {
+    const database = getDb();
+    return database.transaction(() => {
+        const insert = database.prepare(`
+            INSERT INTO audit_dead_letters (sink, entry_id, payload, error) VALUES (?, ?, ?, ?)
+        `);
+        for (const letter of letters) {
+            insert.run(sink, letter.entry_id, letter.payload, error);
+        }
+
+        return database.prepare(`
+            DELETE FROM audit_dead_letters
+            WHERE sink = ? AND id NOT IN (
+                SELECT id FROM audit_dead_letters WHERE sink = ? ORDER BY id DESC LIMIT ?
+            )
+        `).run(sink, sink, maxLetters).changes;
+    })();
+}
 
-    return result.changes > 0;
+// Oldest first
+export function getAuditDeadLetters(sink: string, limit: number): AuditDeadLetter[] {
+    const stmt = getDb().prepare('SELECT * FROM audit_dead_letters WHERE sink = ? ORDER BY id LIMIT ?');
+    return stmt.all(sink, limit) as AuditDeadLetter[];
 }
 
-export function unsuspendUser(userId: string): boolean {
-    const stmt = getDb().prepare(`
-        UPDATE users 
-        SET suspended = 0, 
-            suspended_reason = NULL, 
-            suspended_at = NULL, 
-            suspended_by = NULL,
-            updated_at = datetime('now')
-        WHERE id = ?
-    `);
-    return stmt.run(userId).changes > 0;
+export function deleteAuditDeadLetters(ids: number[]): number {
+    if (ids.length === 0) return 0;
+    const stmt = getDb().prepare(`DELETE FROM audit_dead_letters WHERE id IN (${ids.map(() => '?').join(', ')})`);
+    return stmt.run(...ids).changes;
 }
 
-export function isUserSuspended(userId: string): { suspended: boolean; reason?: string } {
-    const stmt = getDb().prepare(`SELECT suspended, suspended_reason FROM users WHERE id = ?`);
-    const result = stmt.get(userId) as { suspended: number; suspended_reason: string | null } | undefined;
-    if (!result) return { suspended: false };
-    return {
-        suspended: result.suspended === 1,
-        reason: result.suspended_reason || undefined
-    };
+export function countAuditDeadLetters(sink: string): number {
+    const row = getDb().prepare('SELECT COUNT(*) AS count FROM audit_dead_letters WHERE sink = ?').get(sink) as { count: number };
+    return row.count;
 }
 
 // ============================================
-// Remembered Devices
+// Audit Archival
 // ============================================
 
-export function getRememberedDevices(userId: string): RememberedDevice[] {
+export function getAuditActionsInUse(): string[] {
+    const rows = getDb().prepare('SELECT DISTINCT action FROM audit_log').all() as { action: string }[];
+    return rows.map(row => row.action);
+}
+
+// Entries of one action written before `before` (SQLite datetime), oldest first.
+// The newest entry is never returned - logAudit chains the next entry onto it
+export function getAuditEntriesToArchive(action: string, before: string, limit: number): AuditLogRow[] {
     const stmt = getDb().prepare(`
-        SELECT * FROM remembered_devices 
-        WHERE user_id = ? 
-        ORDER BY last_used DESC
+        SELECT a.*, u.display_name AS actor_name, u.email AS actor_email
+        FROM audit_log a
+        LEFT JOIN users u ON a.user_id = u.id
+        WHERE a.action = ? AND a.created_at < datetime(?)
+            AND a.id < (SELECT MAX(id) FROM audit_log)
+        ORDER BY a.id
+        LIMIT ?
+    `);
+    return stmt.all(action, before, limit) as AuditLogRow[];
+}
+
+export function getAuditArchive(month: string): AuditArchive | null {
+    const stmt = getDb().prepare('SELECT * FROM audit_archives WHERE month = ?');
+    return stmt.get(month) as AuditArchive | null;
+}
+
+// Oldest month first
+export function getAuditArchives(): AuditArchive[] {
+    const stmt = getDb().prepare('SELECT * FROM audit_archives ORDER BY month');
+    return stmt.all() as AuditArchive[];
+}
+
+/**
+ * Record a written archive file and remove the entries it now holds from the live log
+ */
+export function commitAuditArchive(
+    archive: Pick<AuditArchive, 'month' | 'file' | 'entries' | 'sha256' | 'first_entry_id' | 'last_entry_id'>,
+    archived: Pick<AuditLogEntry, 'id' | 'prev_hash' | 'hash'>[]
+): void {
+    const database = getDb();
+    database.transaction(() => {
+        database.prepare(`
+            INSERT INTO audit_archives (month, file, entries, sha256, first_entry_id, last_entry_id)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(month) DO UPDATE SET
+                file = excluded.file,
+                entries = excluded.entries,
+                sha256 = excluded.sha256,
+                first_entry_id = excluded.first_entry_id,
+                last_entry_id = excluded.last_entry_id,
+                updated_at = datetime('now')
+        `).run(archive.month, archive.file, archive.entries, archive.sha256, archive.first_entry_id, archive.last_entry_id);
+
+        const link = database.prepare(`
+            INSERT OR IGNORE INTO audit_archive_links (entry_id, prev_hash, hash) VALUES (?, ?, ?)
+        `);
+        const remove = database.prepare('DELETE FROM audit_log WHERE id = ?');
+        for (const entry of archived) {
+            link.run(entry.id, entry.prev_hash, entry.hash);
+            remove.run(entry.id);
+        }
+    })();
+}
+
+// Archived links strictly between two entry IDs, in chain order
+export function getAuditArchiveLinks(afterId: number, beforeId: number): AuditArchiveLink[] {
+    const stmt = getDb().prepare(`
+        SELECT * FROM audit_archive_links WHERE entry_id > ? AND entry_id < ? ORDER BY entry_id
+    `);
+    return stmt.all(afterId, beforeId) as AuditArchiveLink[];
+}
+
+export function getAuditArchiveLink(entryId: number): AuditArchiveLink | null {
+    const stmt = getDb().prepare('SELECT * FROM audit_archive_links WHERE entry_id = ?');
+    return stmt.get(entryId) as AuditArchiveLink | null;
+}
+
+// ============================================
+// Session Management
+// ============================================
+
+export function getUserSessions(userId: string): Session[] {
+    const stmt = getDb().prepare(`
+        SELECT * FROM sessions 
+        WHERE user_id = ? AND expires_at > datetime('now')
+        ORDER BY last_active DESC
+    `);
+    return stmt.all(userId) as Session[];
+}
+
+export interface SessionWithUser extends Session {
+    email: string;
+    display_name: string;
+    authority_level: number;
+}
+
+export interface SessionFilters {
+    userId?: string;
+    search?: string;       // email or display name
+    ip?: string;           // prefix match
+    remembered?: boolean;
+    authorityLevel?: number;
+}
+
+// Active sessions across all users, most recently active first (admin session management)
+export function getActiveSessions(filters: SessionFilters = {}, limit = 200): SessionWithUser[] {
+    const conditions = [`datetime(s.expires_at) > datetime('now')`];
+    const params: unknown[] = [];
+
+    if (filters.userId) {
+        conditions.push('s.user_id = ?');
+        params.push(filters.userId);
+    }
+    if (filters.search) {
+        conditions.push('(u.email LIKE ? OR u.display_name LIKE ?)');
+        params.push(`%${filters.search}%`, `%${filters.search}%`);
+    }
+    if (filters.ip) {
+        conditions.push('s.ip LIKE ?');
+        params.push(`${filters.ip}%`);
+    }
+    if (filters.remembered !== undefined) {
+        conditions.push('s.is_remembered = ?');
+        params.push(filters.remembered ? 1 : 0);
+    }
+    if (filters.authorityLevel !== undefined && !isNaN(filters.authorityLevel)) {
+        conditions.push('u.authority_level = ?');
+        params.push(filters.authorityLevel);
+    }
+
+    const stmt = getDb().prepare(`
+        SELECT s.*, u.email, u.display_name, u.authority_level
+        FROM sessions s
+        JOIN users u ON s.user_id = u.id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY s.last_active DESC
+        LIMIT ?
+    `);
+    return stmt.all(...params, limit) as SessionWithUser[];
+}
+
+// Mark a session active - skipped if it was already marked within the last minIntervalSeconds
+export function updateSessionActivity(sessionId: string, minIntervalSeconds = 0): boolean {
+    const stmt = getDb().prepare(`
+        UPDATE sessions 
+        SET last_active = datetime('now')
+        WHERE id = ? AND last_active <= datetime('now', ?)
+    `);
+    return stmt.run(sessionId, `-${minIntervalSeconds} seconds`).changes > 0;
+}
+
+// Record sessions matching a WHERE clause as revoked before they are deleted
+// reason is kept with the revocation so the signed-out browser can be told why (e.g. 'evicted')
+function recordRevokedSessions(reason: string | null, where: string, ...params: unknown[]): void {
+    getDb().prepare(`
+        INSERT OR IGNORE INTO revoked_sessions (session_id, user_id, expires_at, reason)
+        SELECT id, user_id, expires_at, ? FROM sessions WHERE ${where}
+    `).run(reason, ...params);
+}
+
+export function deleteSession(sessionId: string, reason: string | null = null): boolean {
+    recordRevokedSessions(reason, 'id = ?', sessionId);
+    const stmt = getDb().prepare(`DELETE FROM sessions WHERE id = ?`);
+    const result = stmt.run(sessionId);
+    return result.changes > 0;
+}
+
+export function getRevokedSessionReason(sessionId: string): string | null {
+    const row = getDb().prepare(`SELECT reason FROM revoked_sessions WHERE session_id = ?`)
+        .get(sessionId) as { reason: string | null } | undefined;
+    return row?.reason ?? null;
+}
+
+export function deleteAllUserSessions(userId: string, exceptSessionId?: string, reason: string | null = null): number {
+    let stmt;
+    if (exceptSessionId) {
+        recordRevokedSessions(reason, 'user_id = ? AND id != ?', userId, exceptSessionId);
+        stmt = getDb().prepare(`DELETE FROM sessions WHERE user_id = ? AND id != ?`);
+        return stmt.run(userId, exceptSessionId).changes;
+    } else {
+        recordRevokedSessions(reason, 'user_id = ?', userId);
+        stmt = getDb().prepare(`DELETE FROM sessions WHERE user_id = ?`);
+        return stmt.run(userId).changes;
+    }
+}
+
+// Global sign-out: end every session on the system except exceptSessionId
+export function deleteAllSessions(exceptSessionId: string | null, reason: string | null = null): number {
+    const database = getDb();
+    return database.transaction(() => {
+        recordRevokedSessions(reason, 'id != ?', exceptSessionId ?? '');
+        return database.prepare(`DELETE FROM sessions WHERE id != ?`).run(exceptSessionId ?? '').changes;
+    })();
+}
+
+// Delete sessions past their absolute lifetime (expires_at is an ISO timestamp)
+export function cleanExpiredSessions(): number {
+    const stmt = getDb().prepare(`DELETE FROM sessions WHERE datetime(expires_at) < datetime('now')`);
+    return stmt.run().changes;
+}
+
+// Delete sessions of users at one authority level that have been idle longer than idleMinutes
+export function deleteIdleSessions(authorityLevel: number, remembered: boolean, idleMinutes: number): Session[] {
+    const database = getDb();
+    const where = `
+        user_id IN (SELECT id FROM users WHERE authority_level = ?)
+        AND is_remembered = ?
+        AND last_active < datetime('now', ?)
+    `;
+    const params = [authorityLevel, remembered ? 1 : 0, `-${idleMinutes} minutes`];
+
+    return database.transaction(() => {
+        const idle = database.prepare(`SELECT * FROM sessions WHERE ${where}`).all(...params) as Session[];
+        if (idle.length > 0) {
+            // Idle sessions still hold unexpired tokens
+            recordRevokedSessions('idle', where, ...params);
+            database.prepare(`DELETE FROM sessions WHERE ${where}`).run(...params);
+        }
+        return idle;
+    })();
+}
+
+export function createRefreshToken(tokenHash: string, sessionId: string): void {
+    getDb().prepare(`INSERT INTO refresh_tokens (token_hash, session_id) VALUES (?, ?)`).run(tokenHash, sessionId);
+}
+
+/**
+ * Spend a refresh token and store its successor
+ *
+ * - unused token: marked used, successor stored -> 'rotated'
+ * - token used within graceSeconds (concurrent refresh): nothing stored -> 'superseded';
+ *   the request that spent it holds the successor, so the family never forks
+ * - token used earlier than that: the whole family is deleted -> 'reused';
+ *   the caller must revoke the session
+ */
+export function rotateRefreshToken(
+    tokenHash: string,
+    newTokenHash: string,
+    graceSeconds: number
+): { status: 'rotated' | 'superseded' | 'reused' | 'invalid'; session?: Session } {
+    const database = getDb();
+    const rotate = database.transaction(() => {
+        const row = database.prepare(`
+            SELECT *, used_at > datetime('now', ?) AS in_grace FROM refresh_tokens WHERE token_hash = ?
+        `).get(`-${graceSeconds} seconds`, tokenHash) as (RefreshToken & { in_grace: number }) | undefined;
+        if (!row) return { status: 'invalid' as const };
+
+        const session = getSessionById(row.session_id);
+        if (!session || new Date(session.expires_at) < new Date()) return { status: 'invalid' as const };
+
+        if (row.used_at && row.in_grace) return { status: 'superseded' as const, session };
+
+        if (row.used_at) {
+            database.prepare(`DELETE FROM refresh_tokens WHERE session_id = ?`).run(row.session_id);
+            return { status: 'reused' as const, session };
+        }
+
+        database.prepare(`UPDATE refresh_tokens SET used_at = datetime('now') WHERE token_hash = ?`).run(tokenHash);
+        createRefreshToken(newTokenHash, row.session_id);
+        return { status: 'rotated' as const, session };
+    });
+    return rotate();
+}
+
+export function cleanOrphanedRefreshTokens(): number {
+    const stmt = getDb().prepare(`DELETE FROM refresh_tokens WHERE session_id NOT IN (SELECT id FROM sessions)`);
+    return stmt.run().changes;
+}
+
+/**
+ * Sessions revoked before their tokens expire
+ */
+export function getRevokedSessions(): { session_id: string; revoked_at: string; expires_at: string }[] {
+    getDb().prepare(`DELETE FROM revoked_sessions WHERE expires_at < datetime('now')`).run();
+    const stmt = getDb().prepare(`
+        SELECT session_id, revoked_at, expires_at FROM revoked_sessions ORDER BY revoked_at DESC
+    `);
+    return stmt.all() as { session_id: string; revoked_at: string; expires_at: string }[];
+}
+
+// ============================================
+// User Suspension
+// ============================================
+
+export function suspendUser(
+    userId: string,
+    reason: string,
+    suspendedBy: string
+): boolean {
+    const stmt = getDb().prepare(`
+        UPDATE users 
+        SET suspended = 1, 
+            suspended_reason = ?, 
+            suspended_at = datetime('now'), 
+            suspended_by = ?,
+            updated_at = datetime('now')
+        WHERE id = ?
+    `);
+    const result = stmt.run(reason, suspendedBy, userId);
+
+    // Delete all sessions for suspended user
+    if (result.changes > 0) {
+        deleteAllUserSessions(userId);
+    }
+
+    return result.changes > 0;
+}
+
+export function unsuspendUser(userId: string): boolean {
+    const stmt = getDb().prepare(`
+        UPDATE users 
+        SET suspended = 0, 
+            suspended_reason = NULL, 
+            suspended_at = NULL, 
+            suspended_by = NULL,
+            updated_at = datetime('now')
+        WHERE id = ?
+    `);
+    return stmt.run(userId).changes > 0;
+}
+
+export function isUserSuspended(userId: string): { suspended: boolean; reason?: string } {
+    const stmt = getDb().prepare(`SELECT suspended, suspended_reason FROM users WHERE id = ?`);
+    const result = stmt.get(userId) as { suspended: number; suspended_reason: string | null } | undefined;
+    if (!result) return { suspended: false };
+    return {
+        suspended: result.suspended === 1,
+        reason: result.suspended_reason || undefined
+    };
+}
+
+// ============================================
+// Approval Requests
+// ============================================
+
+// Requests not approved within a day expire
+const APPROVAL_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function createApprovalRequest(
+    request: Pick<ApprovalRequest, 'requester_id' | 'action_type' | 'target_user' | 'action_data' | 'reason'>
+): string {
+    const id = crypto.randomUUID();
+    getDb().prepare(`
+        INSERT INTO approval_requests
+        (id, requester_id, action_type, target_user, action_data, reason, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        id,
+        request.requester_id,
+        request.action_type,
+        request.target_user,
+        request.action_data,
+        request.reason,
+        new Date(Date.now() + APPROVAL_REQUEST_TTL_MS).toISOString()
+    );
+    return id;
+}
+
+// The unexpired pending request for this action on this user, if any
+export function getPendingApprovalRequest(actionType: string, targetUser: string): ApprovalRequest | null {
+    const stmt = getDb().prepare(`
+        SELECT * FROM approval_requests
+        WHERE action_type = ? AND target_user = ? AND status = 'pending' AND expires_at > ?
+        ORDER BY created_at DESC LIMIT 1
+    `);
+    return (stmt.get(actionType, targetUser, new Date().toISOString()) as ApprovalRequest | undefined) || null;
+}
+
+// ============================================
+// Remembered Devices
+// ============================================
+
+export function getRememberedDevices(userId: string): RememberedDevice[] {
+    const stmt = getDb().prepare(`
+        SELECT * FROM remembered_devices 
+        WHERE user_id = ? 
+        ORDER BY last_used DESC
     `);
     return stmt.all(userId) as RememberedDevice[];
 }
@@ -554,20 +1707,27 @@ export function addRememberedDevice(
     ip: string | null
 ): string {
     const id = crypto.randomUUID();
+    // Re-trusting a device restarts its expiry window
+    getDb().prepare(`
+        DELETE FROM remembered_devices WHERE user_id = ? AND device_fingerprint = ?
+    `).run(userId, deviceFingerprint);
     const stmt = getDb().prepare(`
-        INSERT OR REPLACE INTO remembered_devices (id, user_id, device_fingerprint, device_name, ip)
+        INSERT INTO remembered_devices (id, user_id, device_fingerprint, device_name, ip)
         VALUES (?, ?, ?, ?, ?)
     `);
     stmt.run(id, userId, deviceFingerprint, deviceName, ip);
     return id;
 }
 
-export function isDeviceRemembered(userId: string, deviceFingerprint: string): boolean {
+export function isDeviceRemembered(userId: string, deviceFingerprint: string, maxAgeDays?: number): boolean {
     const stmt = getDb().prepare(`
         SELECT id FROM remembered_devices 
         WHERE user_id = ? AND device_fingerprint = ?
+        ${maxAgeDays !== undefined ? 'AND created_at > datetime(\'now\', ?)' : ''}
     `);
-    const result = stmt.get(userId, deviceFingerprint);
+    const result = maxAgeDays !== undefined
+        ? stmt.get(userId, deviceFingerprint, `-${maxAgeDays} days`)
+        : stmt.get(userId, deviceFingerprint);
 
     if (result) {
         // Update last used
@@ -580,6 +1740,13 @@ export function isDeviceRemembered(userId: string, deviceFingerprint: string): b
     return !!result;
 }
 
+export function cleanExpiredRememberedDevices(maxAgeDays: number): number {
+    const stmt = getDb().prepare(`
+        DELETE FROM remembered_devices WHERE created_at < datetime('now', ?)
+    `);
+    return stmt.run(`-${maxAgeDays} days`).changes;
+}
+
 export function removeRememberedDevice(deviceId: string): boolean {
     const stmt = getDb().prepare(`DELETE FROM remembered_devices WHERE id = ?`);
     return stmt.run(deviceId).changes > 0;
@@ -590,6 +1757,742 @@ export function removeAllRememberedDevices(userId: string): number {
     return stmt.run(userId).changes;
 }
 
+// ============================================
+// WebAuthn Credentials
+// ============================================
+
+export function createWebAuthnCredential(
+    credential: Pick<WebAuthnCredential, 'id' | 'user_id' | 'name' | 'public_key' | 'alg' | 'sign_count' | 'transports' | 'is_passkey'>
+): boolean {
+    try {
+        getDb().prepare(`
+            INSERT INTO webauthn_credentials (id, user_id, name, public_key, alg, sign_count, transports, is_passkey)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            credential.id,
+            credential.user_id,
+            credential.name,
+            credential.public_key,
+            credential.alg,
+            credential.sign_count,
+            credential.transports,
+            credential.is_passkey
+        );
+        return true;
+    } catch (e) {
+        console.error('Error creating WebAuthn credential:', e);
+        return false;
+    }
+}
+
+export function getWebAuthnCredential(id: string): WebAuthnCredential | null {
+    const stmt = getDb().prepare('SELECT * FROM webauthn_credentials WHERE id = ?');
+    return stmt.get(id) as WebAuthnCredential | null;
+}
+
+export function getUserWebAuthnCredentials(userId: string): WebAuthnCredential[] {
+    const stmt = getDb().prepare('SELECT * FROM webauthn_credentials WHERE user_id = ? ORDER BY created_at');
+    return stmt.all(userId) as WebAuthnCredential[];
+}
+
+export function recordWebAuthnCredentialUse(id: string, signCount: number): void {
+    getDb().prepare(`
+        UPDATE webauthn_credentials SET sign_count = ?, last_used_at = datetime('now') WHERE id = ?
+    `).run(signCount, id);
+}
+
+export function renameWebAuthnCredential(id: string, userId: string, name: string): boolean {
+    const stmt = getDb().prepare('UPDATE webauthn_credentials SET name = ? WHERE id = ? AND user_id = ?');
+    return stmt.run(name, id, userId).changes > 0;
+}
+
+export function deleteWebAuthnCredential(id: string, userId: string): boolean {
+    const stmt = getDb().prepare('DELETE FROM webauthn_credentials WHERE id = ? AND user_id = ?');
+    return stmt.run(id, userId).changes > 0;
+}
+
+// ============================================
+// OAuth / OpenID Connect
+// ============================================
+
+export function createOAuthClient(
+    client: Pick<OAuthClient, 'client_id' | 'name' | 'client_secret_hash' | 'redirect_uris' | 'allowed_scopes' | 'created_by'>
+): OAuthClient | null {
+    try {
+        getDb().prepare(`
+            INSERT INTO oauth_clients (client_id, name, client_secret_hash, redirect_uris, allowed_scopes, created_by)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(
+            client.client_id,
+            client.name,
+            client.client_secret_hash,
+            client.redirect_uris,
+            client.allowed_scopes,
+            client.created_by
+        );
+        return getOAuthClient(client.client_id);
+    } catch (e) {
+        console.error('Error creating OAuth client:', e);
+        return null;
+    }
+}
+
+export function getOAuthClient(clientId: string): OAuthClient | null {
+    const stmt = getDb().prepare('SELECT * FROM oauth_clients WHERE client_id = ?');
+    return stmt.get(clientId) as OAuthClient | null;
+}
+
+export function getAllOAuthClients(): OAuthClient[] {
+    const stmt = getDb().prepare('SELECT * FROM oauth_clients ORDER BY created_at DESC');
+    return stmt.all() as OAuthClient[];
+}
+
+export function updateOAuthClient(
+    clientId: string,
+    updates: Partial<Pick<OAuthClient, 'name' | 'client_secret_hash' | 'redirect_uris' | 'allowed_scopes' | 'enabled'>>
+): boolean {
+    const fields: string[] = [];
+    const values: unknown[] = [];
+
+    Object.entries(updates).forEach(([key, value]) => {
+        if (value !== undefined) {
+            fields.push(`${key} = ?`);
+            values.push(value);
+        }
+    });
+
+    if (fields.length === 0) return false;
+
+    fields.push("updated_at = datetime('now')");
+    values.push(clientId);
+
+    const stmt = getDb().prepare(`UPDATE oauth_clients SET ${fields.join(', ')} WHERE client_id = ?`);
+    return stmt.run(...values).changes > 0;
+}
+
+export function deleteOAuthClient(clientId: string): boolean {
+    const stmt = getDb().prepare('DELETE FROM oauth_clients WHERE client_id = ?');
+    return stmt.run(clientId).changes > 0;
+}
+
+export function createAuthorizationCode(
+    code: Omit<OAuthAuthorizationCode, 'used' | 'created_at'>
+): void {
+    getDb().prepare(`
+        INSERT INTO oauth_authorization_codes
+            (code_hash, client_id, user_id, session_id, redirect_uri, scope, nonce, code_challenge, code_challenge_method, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        code.code_hash,
+        code.client_id,
+        code.user_id,
+        code.session_id,
+        code.redirect_uri,
+        code.scope,
+        code.nonce,
+        code.code_challenge,
+        code.code_challenge_method,
+        code.expires_at
+    );
+}
+
+/**
+ * Atomically mark an authorization code as used and return it
+ * Returns null if the code does not exist; a replayed code comes back with used = 1
+ */
+export function consumeAuthorizationCode(codeHash: string): OAuthAuthorizationCode | null {
+    const database = getDb();
+    const consume = database.transaction((hash: string) => {
+        const row = database.prepare('SELECT * FROM oauth_authorization_codes WHERE code_hash = ?')
+            .get(hash) as OAuthAuthorizationCode | undefined;
+        if (!row || row.used) return row ? { ...row } : null;
+        database.prepare('UPDATE oauth_authorization_codes SET used = 1 WHERE code_hash = ?').run(hash);
+        return { ...row, used: 0 };
+    });
+    return consume(codeHash);
+}
+
+export function cleanExpiredAuthorizationCodes(): number {
+    const stmt = getDb().prepare(`DELETE FROM oauth_authorization_codes WHERE expires_at < ?`);
+    return stmt.run(new Date().toISOString()).changes;
+}
+
+// ============================================
+// Service API Keys
+// ============================================
+
+export function createApiKey(
+    key: Pick<ApiKey, 'id' | 'name' | 'key_prefix' | 'key_hash' | 'owner_id' | 'scopes' | 'allowed_ips' | 'expires_at'>
+): ApiKey | null {
+    try {
+        getDb().prepare(`
+            INSERT INTO api_keys (id, name, key_prefix, key_hash, owner_id, scopes, allowed_ips, expires_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            key.id,
+            key.name,
+            key.key_prefix,
+            key.key_hash,
+            key.owner_id,
+            key.scopes,
+            key.allowed_ips,
+            key.expires_at
+        );
+        return getApiKeyById(key.id);
+    } catch (e) {
+        console.error('Error creating API key:', e);
+        return null;
+    }
+}
+
+export function getApiKeyById(id: string): ApiKey | null {
+    const stmt = getDb().prepare('SELECT * FROM api_keys WHERE id = ?');
+    return stmt.get(id) as ApiKey | null;
+}
+
+export function getApiKeyByHash(keyHash: string): ApiKey | null {
+    const stmt = getDb().prepare('SELECT * FROM api_keys WHERE key_hash = ?');
+    return stmt.get(keyHash) as ApiKey | null;
+}
+
+export function getAllApiKeys(): ApiKey[] {
+    const stmt = getDb().prepare('SELECT * FROM api_keys ORDER BY created_at DESC');
+    return stmt.all() as ApiKey[];
+}
+
+export function recordApiKeyUse(id: string, ip: string | null): void {
+    getDb().prepare(`
+        UPDATE api_keys SET last_used_at = datetime('now'), last_used_ip = ? WHERE id = ?
+    `).run(ip, id);
+}
+
+export function revokeApiKey(id: string, revokedBy: string): boolean {
+    const stmt = getDb().prepare(`
+        UPDATE api_keys SET revoked_at = datetime('now'), revoked_by = ?
+        WHERE id = ? AND revoked_at IS NULL
+    `);
+    return stmt.run(revokedBy, id).changes > 0;
+}
+
+// ============================================
+// Mail Credential Vault
+// ============================================
+
+export function setMailCredential(userId: string, encryptedPassword: string): void {
+    getDb().prepare(`
+        INSERT INTO mail_credentials (user_id, encrypted_password) VALUES (?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET encrypted_password = excluded.encrypted_password, updated_at = datetime('now')
+    `).run(userId, encryptedPassword);
+}
+
+export function getMailCredential(userId: string): string | null {
+    const row = getDb().prepare('SELECT encrypted_password FROM mail_credentials WHERE user_id = ?')
+        .get(userId) as { encrypted_password: string } | undefined;
+    return row?.encrypted_password || null;
+}
+
+export function deleteMailCredential(userId: string): boolean {
+    const stmt = getDb().prepare('DELETE FROM mail_credentials WHERE user_id = ?');
+    return stmt.run(userId).changes > 0;
+}
+
+export function createMailExchangeCode(code: Pick<MailExchangeCode, 'code_hash' | 'user_id' | 'session_id' | 'expires_at'>): void {
+    getDb().prepare(`
+        INSERT INTO mail_exchange_codes (code_hash, user_id, session_id, expires_at)
+        VALUES (?, ?, ?, ?)
+    `).run(code.code_hash, code.user_id, code.session_id, code.expires_at);
+}
+
+/**
+ * Atomically mark an exchange code as used and return it
+ * Returns null if the code does not exist; a replayed code comes back with used = 1
+ */
+export function consumeMailExchangeCode(codeHash: string): MailExchangeCode | null {
+    const database = getDb();
+    const consume = database.transaction((hash: string) => {
+        const row = database.prepare('SELECT * FROM mail_exchange_codes WHERE code_hash = ?')
+            .get(hash) as MailExchangeCode | undefined;
+        if (!row || row.used) return row ? { ...row } : null;
+        database.prepare('UPDATE mail_exchange_codes SET used = 1 WHERE code_hash = ?').run(hash);
+        return { ...row, used: 0 };
+    });
+    return consume(codeHash);
+}
+
+export function cleanExpiredMailExchangeCodes(): number {
+    const stmt = getDb().prepare(`DELETE FROM mail_exchange_codes WHERE expires_at < ?`);
+    return stmt.run(new Date().toISOString()).changes;
+}
+
+// ============================================
+// SSO Handoff Codes
+// ============================================
+
+export function createSsoHandoffCode(code: Pick<SsoHandoffCode, 'code_hash' | 'user_id' | 'session_id' | 'service' | 'expires_at'>): void {
+    getDb().prepare(`
+        INSERT INTO sso_handoff_codes (code_hash, user_id, session_id, service, expires_at)
+        VALUES (?, ?, ?, ?, ?)
+    `).run(code.code_hash, code.user_id, code.session_id, code.service, code.expires_at);
+}
+
+/**
+ * Atomically mark a handoff code as used and return it
+ * Returns null if the code does not exist; a replayed code comes back with used = 1
+ */
+export function consumeSsoHandoffCode(codeHash: string): SsoHandoffCode | null {
+    const database = getDb();
+    const consume = database.transaction((hash: string) => {
+        const row = database.prepare('SELECT * FROM sso_handoff_codes WHERE code_hash = ?')
+            .get(hash) as SsoHandoffCode | undefined;
+        if (!row || row.used) return row ? { ...row } : null;
+        database.prepare('UPDATE sso_handoff_codes SET used = 1 WHERE code_hash = ?').run(hash);
+        return { ...row, used: 0 };
+    });
+    return consume(codeHash);
+}
+
+export function cleanExpiredSsoHandoffCodes(): number {
+    const stmt = getDb().prepare(`DELETE FROM sso_handoff_codes WHERE expires_at < ?`);
+    return stmt.run(new Date().toISOString()).changes;
+}
+
+// ============================================
+// Password History
+// ============================================
+
+// Most recent previous hashes first
+export function getPasswordHistory(userId: string, limit: number): string[] {
+    const stmt = getDb().prepare(`
+        SELECT password_hash FROM password_history WHERE user_id = ?
+        ORDER BY id DESC LIMIT ?
+    `);
+    return (stmt.all(userId, limit) as { password_hash: string }[]).map(row => row.password_hash);
+}
+
+/**
+ * Remember a replaced password hash, keeping only the newest `keep` entries
+ */
+export function addPasswordHistory(userId: string, passwordHash: string, keep: number): void {
+    const database = getDb();
+    database.transaction(() => {
+        database.prepare('INSERT INTO password_history (user_id, password_hash) VALUES (?, ?)').run(userId, passwordHash);
+        database.prepare(`
+            DELETE FROM password_history WHERE user_id = ? AND id NOT IN (
+                SELECT id FROM password_history WHERE user_id = ? ORDER BY id DESC LIMIT ?
+            )
+        `).run(userId, userId, keep);
+    })();
+}
+
+// ============================================
+// Password Reset Tokens
+// ============================================
+
+export function createPasswordResetToken(token: Pick<PasswordResetToken, 'token_hash' | 'user_id' | 'ip' | 'expires_at'>): void {
+    getDb().prepare(`
+        INSERT INTO password_reset_tokens (token_hash, user_id, ip, expires_at)
+        VALUES (?, ?, ?, ?)
+    `).run(token.token_hash, token.user_id, token.ip, token.expires_at);
+}
+
+export function getPasswordResetToken(tokenHash: string): PasswordResetToken | null {
+    const stmt = getDb().prepare('SELECT * FROM password_reset_tokens WHERE token_hash = ?');
+    return stmt.get(tokenHash) as PasswordResetToken | null;
+}
+
+/**
+ * Atomically mark a reset token as used and return it
+ * Returns null if the token does not exist; a replayed token comes back with used = 1
+ */
+export function consumePasswordResetToken(tokenHash: string): PasswordResetToken | null {
+    const database = getDb();
+    const consume = database.transaction((hash: string) => {
+        const row = database.prepare('SELECT * FROM password_reset_tokens WHERE token_hash = ?')
+            .get(hash) as PasswordResetToken | undefined;
+        if (!row || row.used) return row ? { ...row } : null;
+        database.prepare('UPDATE password_reset_tokens SET used = 1 WHERE token_hash = ?').run(hash);
+        return { ...row, used: 0 };
+    });
+    return consume(tokenHash);
+}
+
+// Reset tokens issued to a user within the last windowMinutes (request throttling)
+export function countRecentPasswordResetTokens(userId: string, windowMinutes: number): number {
+    const stmt = getDb().prepare(`
+        SELECT COUNT(*) AS count FROM password_reset_tokens
+        WHERE user_id = ? AND created_at > datetime('now', ?)
+    `);
+    return (stmt.get(userId, `-${windowMinutes} minutes`) as { count: number }).count;
+}
+
+// Invalidate every outstanding token once the password has been reset
+export function deleteUserPasswordResetTokens(userId: string): number {
+    const stmt = getDb().prepare('DELETE FROM password_reset_tokens WHERE user_id = ?');
+    return stmt.run(userId).changes;
+}
+
+export function cleanExpiredPasswordResetTokens(): number {
+    const stmt = getDb().prepare(`DELETE FROM password_reset_tokens WHERE expires_at < ?`);
+    return stmt.run(new Date().toISOString()).changes;
+}
+
+// ============================================
+// Login History & Alerts
+// ============================================
+
+// Most recent sign-ins first
+export function getLoginHistory(userId: string, limit = 200): LoginHistoryEntry[] {
+    const stmt = getDb().prepare(`
+        SELECT * FROM login_history WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?
+    `);
+    return stmt.all(userId, limit) as LoginHistoryEntry[];
+}
+
+// Record a sign-in and drop the user's entries older than retentionDays
+export function recordLoginHistory(entry: Omit<LoginHistoryEntry, 'id' | 'created_at'>, retentionDays: number): void {
+    const database = getDb();
+    database.prepare(`
+        INSERT INTO login_history
+        (user_id, session_id, ip, ip_range, device_fingerprint, device_name, country, city, latitude, longitude)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        entry.user_id,
+        entry.session_id,
+        entry.ip,
+        entry.ip_range,
+        entry.device_fingerprint,
+        entry.device_name,
+        entry.country,
+        entry.city,
+        entry.latitude,
+        entry.longitude
+    );
+    database.prepare(`DELETE FROM login_history WHERE user_id = ? AND created_at < datetime('now', ?)`)
+        .run(entry.user_id, `-${retentionDays} days`);
+}
+
+export function createLoginAlert(alert: Omit<LoginAlert, 'status' | 'created_at' | 'resolved_at'>): void {
+    getDb().prepare(`
+        INSERT INTO login_alerts (id, user_id, session_id, ip, device_name, location, reasons, token_hash, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+        alert.id,
+        alert.user_id,
+        alert.session_id,
+        alert.ip,
+        alert.device_name,
+        alert.location,
+        alert.reasons,
+        alert.token_hash,
+        alert.expires_at
+    );
+}
+
+export function getLoginAlertById(id: string): LoginAlert | null {
+    const stmt = getDb().prepare('SELECT * FROM login_alerts WHERE id = ?');
+    return stmt.get(id) as LoginAlert | null;
+}
+
+export function getLoginAlertByToken(tokenHash: string): LoginAlert | null {
+    const stmt = getDb().prepare('SELECT * FROM login_alerts WHERE token_hash = ?');
+    return stmt.get(tokenHash) as LoginAlert | null;
+}
+
+export function getPendingLoginAlerts(userId: string): LoginAlert[] {
+    const stmt = getDb().prepare(`
+        SELECT * FROM login_alerts
+        WHERE user_id = ? AND status = 'pending' AND expires_at > ?
+        ORDER BY created_at DESC
+    `);
+    return stmt.all(userId, new Date().toISOString()) as LoginAlert[];
+}
+
+// Only a pending alert can be resolved - false if someone got there first
+// A confirmed alert can still be reported - "this was me" may come from whoever holds the session
+export function resolveLoginAlert(id: string, status: Exclude<LoginAlertStatus, 'pending'>): boolean {
+    const stmt = getDb().prepare(`
+        UPDATE login_alerts SET status = ?, resolved_at = datetime('now')
+        WHERE id = ? AND (status = 'pending' OR (status = 'confirmed' AND ? = 'reported'))
+    `);
+    return stmt.run(status, id, status).changes > 0;
+}
+
+// ============================================
+// Login Throttling
+// ============================================
+
+export function recordAuthFailure(account: string, ip: string | null, kind: AuthFailureKind): void {
+    getDb().prepare('INSERT INTO auth_failures (account, ip, kind) VALUES (?, ?, ?)')
+        .run(account.toLowerCase(), ip, kind);
+}
+
+/**
+ * Failures for an account or an IP within the last windowMinutes
+ */
+export function getAuthFailureStats(field: 'account' | 'ip', value: string, windowMinutes: number): AuthFailureStats {
+    const stmt = getDb().prepare(`
+        SELECT COUNT(*) AS count,
+            CAST(strftime('%s', MIN(created_at)) AS INTEGER) AS first_at,
+            CAST(strftime('%s', MAX(created_at)) AS INTEGER) AS last_at
+        FROM auth_failures
+        WHERE ${field === 'account' ? 'account' : 'ip'} = ? AND created_at > datetime('now', ?)
+    `);
+    return stmt.get(field === 'account' ? value.toLowerCase() : value, `-${windowMinutes} minutes`) as AuthFailureStats;
+}
+
+export function clearAuthFailures(account: string): number {
+    const stmt = getDb().prepare('DELETE FROM auth_failures WHERE account = ?');
+    return stmt.run(account.toLowerCase()).changes;
+}
+
+export function cleanOldAuthFailures(windowMinutes: number): number {
+    const stmt = getDb().prepare(`DELETE FROM auth_failures WHERE created_at < datetime('now', ?)`);
+    return stmt.run(`-${windowMinutes} minutes`).changes;
+}
+
+// ============================================
+// Discord Role Sync
+// ============================================
+
+export function getDiscordRoleMappings(): DiscordRoleMapping[] {
+    const stmt = getDb().prepare('SELECT * FROM discord_role_mappings ORDER BY authority_level DESC, name');
+    return stmt.all() as DiscordRoleMapping[];
+}
+
+export function upsertDiscordRoleMapping(
+    mapping: Pick<DiscordRoleMapping, 'discord_role_id' | 'name' | 'authority_level' | 'permissions' | 'updated_by'>
+): void {
+    getDb().prepare(`
+        INSERT INTO discord_role_mappings (discord_role_id, name, authority_level, permissions, updated_by)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(discord_role_id) DO UPDATE SET
+            name = excluded.name,
+            authority_level = excluded.authority_level,
+            permissions = excluded.permissions,
+            updated_by = excluded.updated_by,
+            updated_at = datetime('now')
+    `).run(mapping.discord_role_id, mapping.name, mapping.authority_level, mapping.permissions, mapping.updated_by);
+}
+
+export function deleteDiscordRoleMapping(discordRoleId: string): boolean {
+    const stmt = getDb().prepare('DELETE FROM discord_role_mappings WHERE discord_role_id = ?');
+    return stmt.run(discordRoleId).changes > 0;
+}
+
+export function setDiscordMemberRoles(discordId: string, roleIds: string[]): void {
+    getDb().prepare(`
+        INSERT INTO discord_member_roles (discord_id, role_ids) VALUES (?, ?)
+        ON CONFLICT(discord_id) DO UPDATE SET role_ids = excluded.role_ids, synced_at = datetime('now')
+    `).run(discordId, JSON.stringify(roleIds));
+}
+
+export function getDiscordMemberRoles(discordId: string): DiscordMemberRoles | null {
+    const stmt = getDb().prepare('SELECT * FROM discord_member_roles WHERE discord_id = ?');
+    return stmt.get(discordId) as DiscordMemberRoles | null;
+}
+
+// ============================================
+// JWT Signing Keys
+// ============================================
+
+export function getSigningKey(kid: string): SigningKey | null {
+    const stmt = getDb().prepare('SELECT * FROM signing_keys WHERE kid = ?');
+    return stmt.get(kid) as SigningKey | null;
+}
+
+/**
+ * Get the key currently used for signing
+ * If maxAgeDays is provided, a key older than that is treated as due for rotation and not returned
+ */
+export function getActiveSigningKey(maxAgeDays?: number): SigningKey | null {
+    const stmt = getDb().prepare(`
+        SELECT * FROM signing_keys
+        WHERE status = 'active'
+        ${maxAgeDays !== undefined ? 'AND created_at > datetime(\'now\', ?)' : ''}
+        ORDER BY created_at DESC LIMIT 1
+    `);
+    const result = maxAgeDays !== undefined
+        ? stmt.get(`-${maxAgeDays} days`)
+        : stmt.get();
+    return result as SigningKey | null;
+}
+
+export function getAllSigningKeys(): SigningKey[] {
+    const stmt = getDb().prepare('SELECT * FROM signing_keys ORDER BY created_at DESC');
+    return stmt.all() as SigningKey[];
+}
+
+/**
+ * Insert a new active key and demote the current active key to previous
+ */
+export function rotateSigningKeys(key: Pick<SigningKey, 'kid' | 'alg' | 'public_jwk' | 'private_key'>): void {
+    const database = getDb();
+    database.transaction(() => {
+        database.prepare(`
+            UPDATE signing_keys SET status = 'previous', rotated_at = datetime('now')
+            WHERE status = 'active'
+        `).run();
+        database.prepare(`
+            INSERT INTO signing_keys (kid, alg, public_jwk, private_key, status)
+            VALUES (?, ?, ?, ?, 'active')
+        `).run(key.kid, key.alg, key.public_jwk, key.private_key);
+    })();
+}
+
+export function retireSigningKey(kid: string, retiredBy: string | null, reason: string): boolean {
+    const stmt = getDb().prepare(`
+        UPDATE signing_keys
+        SET status = 'retired', retired_at = datetime('now'), retired_by = ?, retired_reason = ?
+        WHERE kid = ? AND status != 'retired'
+    `);
+    return stmt.run(retiredBy, reason, kid).changes > 0;
+}
+
+/**
+ * Retire previous keys whose overlap window has passed
+ */
+export function retireExpiredSigningKeys(overlapDays: number): number {
+    const stmt = getDb().prepare(`
+        UPDATE signing_keys
+        SET status = 'retired', retired_at = datetime('now'), retired_reason = 'expired'
+        WHERE status = 'previous' AND rotated_at < datetime('now', ?)
+    `);
+    return stmt.run(`-${overlapDays} days`).changes;
+}
+
 // Export the database getter for direct access if needed
-export { getDb };
+export { getDb, DATA_DIR };
+
+// ============================================
+// Webhooks
+// ============================================
+
+export function createWebhook(
+    webhook: Pick<Webhook, 'id' | 'name' | 'url' | 'secret' | 'events' | 'created_by'>
+): Webhook | null {
+    try {
+        getDb().prepare(`
+            INSERT INTO webhooks (id, name, url, secret, events, created_by)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(webhook.id, webhook.name, webhook.url, webhook.secret, webhook.events, webhook.created_by);
+        return getWebhook(webhook.id);
+    } catch (e) {
+        console.error('Error creating webhook:', e);
+        return null;
+    }
+}
+
+export function getWebhook(id: string): Webhook | null {
+    const stmt = getDb().prepare('SELECT * FROM webhooks WHERE id = ?');
+    return stmt.get(id) as Webhook | null;
+}
+
+export function getAllWebhooks(): Webhook[] {
+    const stmt = getDb().prepare('SELECT * FROM webhooks ORDER BY created_at DESC');
+    return stmt.all() as Webhook[];
+}
+
+// Enabled webhooks subscribed to an event
+export function getWebhooksForEvent(event: string): Webhook[] {
+    const stmt = getDb().prepare(`
+        SELECT * FROM webhooks
+        WHERE enabled = 1 AND EXISTS (SELECT 1 FROM json_each(webhooks.events) WHERE value = ?)
+    `);
+    return stmt.all(event) as Webhook[];
+}
+
+export function updateWebhook(
+    id: string,
+    updates: Partial<Pick<Webhook, 'name' | 'url' | 'secret' | 'events' | 'enabled'>>
+): boolean {
+    const fields = Object.keys(updates);
+    if (fields.length === 0) return false;
+
+    const stmt = getDb().prepare(`
+        UPDATE webhooks
+        SET ${fields.map(f => `${f} = ?`).join(', ')}, updated_at = datetime('now')
+        WHERE id = ?
+    `);
+    return stmt.run(...Object.values(updates), id).changes > 0;
+}
+
+// Deliveries go with it - foreign keys aren't enforced on this connection
+export function deleteWebhook(id: string): boolean {
+    const database = getDb();
+    return database.transaction(() => {
+        database.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+        return database.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+    })();
+}
 
+export function createWebhookDelivery(
+    delivery: Pick<WebhookDelivery, 'id' | 'webhook_id' | 'event' | 'payload' | 'next_attempt_at'>
+): void {
+    getDb().prepare(`
+        INSERT INTO webhook_deliveries (id, webhook_id, event, payload, next_attempt_at)
+        VALUES (?, ?, ?, ?, ?)
+    `).run(delivery.id, delivery.webhook_id, delivery.event, delivery.payload, delivery.next_attempt_at);
+}
+
+export function getWebhookDelivery(id: string): WebhookDelivery | null {
+    const stmt = getDb().prepare('SELECT * FROM webhook_deliveries WHERE id = ?');
+    return stmt.get(id) as WebhookDelivery | null;
+}
+
+// Newest first
+export function getWebhookDeliveries(
+    filters: { webhookId?: string; status?: WebhookDeliveryStatus } = {},
+    limit = 100
+): WebhookDelivery[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filters.webhookId) {
+        conditions.push('webhook_id = ?');
+        params.push(filters.webhookId);
+    }
+    if (filters.status) {
+        conditions.push('status = ?');
+        params.push(filters.status);
+    }
+
+    const stmt = getDb().prepare(`
+        SELECT * FROM webhook_deliveries
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY created_at DESC, rowid DESC
+        LIMIT ?
+    `);
+    return stmt.all(...params, limit) as WebhookDelivery[];
+}
+
+// Pending deliveries whose next attempt is due, oldest first; disabled webhooks wait until re-enabled
+export function getDueWebhookDeliveries(now: string, limit: number): WebhookDelivery[] {
+    const stmt = getDb().prepare(`
+        SELECT d.* FROM webhook_deliveries d
+        JOIN webhooks w ON w.id = d.webhook_id
+        WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.enabled = 1
+        ORDER BY d.next_attempt_at
+        LIMIT ?
+    `);
+    return stmt.all(now, limit) as WebhookDelivery[];
+}
+
+export function updateWebhookDelivery(
+    id: string,
+    updates: Partial<Pick<WebhookDelivery, 'status' | 'attempts' | 'response_status' | 'response_body' | 'error' | 'next_attempt_at' | 'last_attempt_at'>>
+): void {
+    const fields = Object.keys(updates);
+    if (fields.length === 0) return;
+
+    const stmt = getDb().prepare(`
+        UPDATE webhook_deliveries SET ${fields.map(f => `${f} = ?`).join(', ')} WHERE id = ?
+    `);
+    stmt.run(...Object.values(updates), id);
+}
+
+// Finished deliveries older than the cutoff (ISO timestamp); pending ones are kept until they finish
+export function cleanOldWebhookDeliveries(before: string): number {
+    const stmt = getDb().prepare(`
+        DELETE FROM webhook_deliveries WHERE status != 'pending' AND last_attempt_at < ?
+    `);
+    return stmt.run(before).changes;
+}
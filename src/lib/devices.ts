@@ -0,0 +1,90 @@
+/**
+ * Trusted device management
+ * Signed device cookie used to skip TOTP on devices a user has chosen to trust
+ */
+
+import crypto from 'crypto';
+import { sealData, unsealData } from 'iron-session';
+import { getServerSecret } from './secrets';
+
+export const DEVICE_COOKIE_NAME = 'usgrp-trusted-device';
+
+// How long a trusted device may skip 2FA before the user must verify again
+export const REMEMBERED_DEVICE_DAYS = parseInt(process.env.REMEMBERED_DEVICE_DAYS || '30');
+
+const DEVICE_COOKIE_SECRET = process.env.DEVICE_COOKIE_SECRET || getServerSecret();
+
+const DEVICE_COOKIE_TTL = REMEMBERED_DEVICE_DAYS * 24 * 60 * 60; // seconds
+
+interface DeviceCookieData {
+    token: string;
+}
+
+// Only the hash of the device token is stored server-side
+function hashDeviceToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Read the device fingerprint hash from a trusted-device cookie value
+ * Returns null if the cookie is missing, tampered with or expired
+ */
+export async function readDeviceFingerprint(cookieValue: string | undefined): Promise<string | null> {
+    if (!cookieValue) return null;
+
+    try {
+        const data = await unsealData<DeviceCookieData>(cookieValue, {
+            password: DEVICE_COOKIE_SECRET,
+            ttl: DEVICE_COOKIE_TTL,
+        });
+        return data.token ? hashDeviceToken(data.token) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Create a new signed trusted-device cookie value and its fingerprint hash
+ */
+export async function createDeviceCookie(): Promise<{ value: string; fingerprint: string }> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const data: DeviceCookieData = { token };
+    const value = await sealData(data, {
+        password: DEVICE_COOKIE_SECRET,
+        ttl: DEVICE_COOKIE_TTL,
+    });
+    return { value, fingerprint: hashDeviceToken(token) };
+}
+
+export const deviceCookieOptions = {
+    secure: process.env.NODE_ENV === 'production',
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: DEVICE_COOKIE_TTL,
+};
+
+/**
+ * Human-readable device name from a user agent string
+ */
+export function parseUserAgent(ua: string): string {
+    if (!ua) return 'Unknown Device';
+
+    // Browser detection
+    let browser = 'Unknown Browser';
+    if (ua.includes('Chrome') && !ua.includes('Edg')) browser = 'Chrome';
+    else if (ua.includes('Firefox')) browser = 'Firefox';
+    else if (ua.includes('Safari') && !ua.includes('Chrome')) browser = 'Safari';
+    else if (ua.includes('Edg')) browser = 'Edge';
+    else if (ua.includes('MSIE') || ua.includes('Trident')) browser = 'Internet Explorer';
+
+    // OS detection
+    let os = 'Unknown OS';
+    if (ua.includes('Windows')) os = 'Windows';
+    else if (ua.includes('Mac OS')) os = 'macOS';
+    else if (ua.includes('Linux')) os = 'Linux';
+    else if (ua.includes('Android')) os = 'Android';
+    else if (ua.includes('iPhone') || ua.includes('iPad')) os = 'iOS';
+
+    return `${browser} on ${os}`;
+}
@@ -0,0 +1,92 @@
+/**
+ * Discord OAuth2 Client
+ *
+ * Authorization code flow used to prove ownership of a Discord account
+ * before it is linked to (or used to sign in to) a USGRP account.
+ * Docs: https://discord.com/developers/docs/topics/oauth2
+ */
+
+import crypto from 'crypto';
+
+// Discord application configuration
+const DISCORD_API_URL = 'https://discord.com/api/v10';
+const DISCORD_CLIENT_ID = process.env.DISCORD_CLIENT_ID || '';
+const DISCORD_CLIENT_SECRET = process.env.DISCORD_CLIENT_SECRET || '';
+const DISCORD_REDIRECT_URI = process.env.DISCORD_REDIRECT_URI ||
+    `${process.env.AUTH_URL || 'https://auth.usgrp.xyz'}/api/auth/discord/callback`;
+
+// How long the user has to approve the request on Discord
+export const DISCORD_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export interface DiscordUser {
+    id: string;
+    username: string;
+    global_name: string | null;
+}
+
+export function isDiscordConfigured(): boolean {
+    return !!DISCORD_CLIENT_ID && !!DISCORD_CLIENT_SECRET;
+}
+
+/**
+ * Random state value tying the Discord callback to the browser that started it
+ */
+export function generateDiscordState(): string {
+    return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Discord authorize URL - only the identify scope is needed to read the account ID
+ */
+export function getDiscordAuthorizeUrl(state: string): string {
+    const params = new URLSearchParams({
+        client_id: DISCORD_CLIENT_ID,
+        redirect_uri: DISCORD_REDIRECT_URI,
+        response_type: 'code',
+        scope: 'identify',
+        state,
+        prompt: 'none',
+    });
+    return `https://discord.com/oauth2/authorize?${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code for the Discord account that approved it
+ */
+export async function exchangeDiscordCode(code: string): Promise<DiscordUser | null> {
+    try {
+        const tokenRes = await fetch(`${DISCORD_API_URL}/oauth2/token`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                client_id: DISCORD_CLIENT_ID,
+                client_secret: DISCORD_CLIENT_SECRET,
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: DISCORD_REDIRECT_URI,
+            }).toString(),
+        });
+
+        if (!tokenRes.ok) {
+            console.error('Discord token exchange failed:', await tokenRes.text());
+            return null;
+        }
+
+        const { access_token } = await tokenRes.json();
+
+        const userRes = await fetch(`${DISCORD_API_URL}/users/@me`, {
+            headers: { 'Authorization': `Bearer ${access_token}` },
+        });
+
+        if (!userRes.ok) {
+            console.error('Discord user lookup failed:', await userRes.text());
+            return null;
+        }
+
+        const user = await userRes.json();
+        return { id: user.id, username: user.username, global_name: user.global_name ?? null };
+    } catch (error) {
+        console.error('Discord API error:', error);
+        return null;
+    }
+}
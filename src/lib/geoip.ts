@@ -0,0 +1,291 @@
+/**
+ * Offline GeoIP lookups
+ * Minimal reader for MaxMind DB (.mmdb) files such as GeoLite2-City or DB-IP City Lite.
+ * Lookups never leave the server; without a database file every lookup returns null
+ */
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { DATA_DIR } from './db';
+
+const GEOIP_DATABASE_PATH = process.env.GEOIP_DATABASE_PATH || path.join(DATA_DIR, 'GeoLite2-City.mmdb');
+
+// The metadata section starts after the last occurrence of this marker
+const METADATA_MARKER = Buffer.from('abcdef4d61784d696e642e636f6d', 'hex'); // \xAB\xCD\xEF MaxMind.com
+
+// The data section follows the search tree and a 16-byte separator
+const DATA_SECTION_SEPARATOR_SIZE = 16;
+
+export interface GeoLocation {
+    country: string | null;   // ISO 3166-1 alpha-2
+    city: string | null;
+    latitude: number | null;
+    longitude: number | null;
+}
+
+interface MmdbMetadata {
+    node_count: number;
+    record_size: number;
+    ip_version: number;
+}
+
+interface MmdbDatabase {
+    buffer: Buffer;
+    metadata: MmdbMetadata;
+    dataSectionStart: number;
+    ipv4StartNode: number;
+}
+
+// Decode one value from the data section - returns the value and the offset after it
+function decode(buffer: Buffer, sectionStart: number, offset: number): [unknown, number] {
+    const control = buffer[offset++];
+    let type = control >> 5;
+
+    // Pointers are resolved relative to the section start; the pointer itself is what gets skipped
+    if (type === 1) {
+        const size = (control >> 3) & 0x3;
+        const high = control & 0x7;
+        let pointer: number;
+        if (size === 0) {
+            pointer = (high << 8) | buffer[offset];
+        } else if (size === 1) {
+            pointer = ((high << 16) | buffer.readUInt16BE(offset)) + 2048;
+        } else if (size === 2) {
+            pointer = (high * 0x1000000 + buffer.readUIntBE(offset, 3)) + 526336;
+        } else {
+            pointer = buffer.readUInt32BE(offset);
+        }
+        const [value] = decode(buffer, sectionStart, sectionStart + pointer);
+        return [value, offset + size + 1];
+    }
+
+    if (type === 0) {
+        type = 7 + buffer[offset++];
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+        size = 29 + buffer[offset++];
+    } else if (size === 30) {
+        size = 285 + buffer.readUInt16BE(offset);
+        offset += 2;
+    } else if (size === 31) {
+        size = 65821 + buffer.readUIntBE(offset, 3);
+        offset += 3;
+    }
+
+    switch (type) {
+        case 2: // UTF-8 string
+            return [buffer.toString('utf8', offset, offset + size), offset + size];
+        case 3: // double
+            return [buffer.readDoubleBE(offset), offset + 8];
+        case 4: // bytes
+            return [buffer.subarray(offset, offset + size), offset + size];
+        case 5: // uint16
+        case 6: // uint32
+        case 8: // int32
+            return [size === 0 ? 0 : buffer.readUIntBE(offset, size), offset + size];
+        case 9: // uint64
+        case 10: { // uint128
+            let value = BigInt(0);
+            for (let i = 0; i < size; i++) value = (value << BigInt(8)) | BigInt(buffer[offset + i]);
+            return [value, offset + size];
+        }
+        case 7: { // map
+            const map: Record<string, unknown> = {};
+            for (let i = 0; i < size; i++) {
+                const [key, afterKey] = decode(buffer, sectionStart, offset);
+                const [value, afterValue] = decode(buffer, sectionStart, afterKey);
+                map[String(key)] = value;
+                offset = afterValue;
+            }
+            return [map, offset];
+        }
+        case 11: { // array
+            const array: unknown[] = [];
+            for (let i = 0; i < size; i++) {
+                const [value, next] = decode(buffer, sectionStart, offset);
+                array.push(value);
+                offset = next;
+            }
+            return [array, offset];
+        }
+        case 14: // boolean - the value is the size
+            return [size !== 0, offset];
+        case 15: // float
+            return [buffer.readFloatBE(offset), offset + 4];
+        default:
+            throw new Error(`Unsupported MMDB data type ${type}`);
+    }
+}
+
+// Left (bit 0) or right (bit 1) record of a search tree node
+function readRecord(db: MmdbDatabase, node: number, bit: number): number {
+    const { buffer, metadata } = db;
+
+    switch (metadata.record_size) {
+        case 24: {
+            const offset = node * 6 + bit * 3;
+            return buffer.readUIntBE(offset, 3);
+        }
+        case 28: {
+            const offset = node * 7;
+            const middle = buffer[offset + 3];
+            return bit === 0
+                ? ((middle & 0xf0) << 20) + buffer.readUIntBE(offset, 3)
+                : ((middle & 0x0f) << 24) + buffer.readUIntBE(offset + 4, 3);
+        }
+        case 32:
+            return buffer.readUInt32BE(node * 8 + bit * 4);
+        default:
+            throw new Error(`Unsupported MMDB record size ${metadata.record_size}`);
+    }
+}
+
+function openDatabase(file: string): MmdbDatabase {
+    const buffer = fs.readFileSync(file);
+
+    const markerAt = buffer.lastIndexOf(METADATA_MARKER);
+    if (markerAt === -1) {
+        throw new Error('Not a MaxMind DB file');
+    }
+
+    const metadataStart = markerAt + METADATA_MARKER.length;
+    const [metadata] = decode(buffer, metadataStart, metadataStart) as [MmdbMetadata, number];
+
+    const treeSize = ((metadata.record_size * 2) / 8) * metadata.node_count;
+    const db: MmdbDatabase = {
+        buffer,
+        metadata,
+        dataSectionStart: treeSize + DATA_SECTION_SEPARATOR_SIZE,
+        ipv4StartNode: 0,
+    };
+
+    // IPv4 addresses live under ::/96 in an IPv6 tree
+    if (metadata.ip_version === 6) {
+        let node = 0;
+        for (let i = 0; i < 96 && node < metadata.node_count; i++) {
+            node = readRecord(db, node, 0);
+        }
+        db.ipv4StartNode = node;
+    }
+
+    return db;
+}
+
+function ipToBytes(ip: string): number[] | null {
+    if (net.isIPv4(ip)) {
+        return ip.split('.').map(Number);
+    }
+
+    if (!net.isIPv6(ip)) return null;
+
+    // IPv4-mapped IPv6 (::ffff:1.2.3.4) is looked up as IPv4
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) return mapped[1].split('.').map(Number);
+
+    const [head, tail = ''] = ip.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = ip.includes('::') && tail ? tail.split(':') : [];
+    const groups = ip.includes('::')
+        ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+        : headGroups;
+
+    return groups.flatMap(group => {
+        const value = parseInt(group, 16);
+        return [value >> 8, value & 0xff];
+    });
+}
+
+function lookupRecord(db: MmdbDatabase, ip: string): Record<string, unknown> | null {
+    const bytes = ipToBytes(ip);
+    if (!bytes) return null;
+
+    const { node_count: nodeCount, ip_version: ipVersion } = db.metadata;
+    if (bytes.length === 16 && ipVersion === 4) return null;
+
+    let node = bytes.length === 4 && ipVersion === 6 ? db.ipv4StartNode : 0;
+    const bitCount = bytes.length * 8;
+
+    for (let i = 0; i < bitCount && node < nodeCount; i++) {
+        const bit = (bytes[i >> 3] >> (7 - (i % 8))) & 1;
+        node = readRecord(db, node, bit);
+    }
+
+    // node_count itself means "no data"; anything above points into the data section
+    if (node <= nodeCount) return null;
+
+    const offset = db.dataSectionStart + (node - nodeCount - DATA_SECTION_SEPARATOR_SIZE);
+    const [record] = decode(db.buffer, db.dataSectionStart, offset);
+    return record as Record<string, unknown>;
+}
+
+// Loaded once per process; false once loading has failed so a missing file is not retried on every login
+let database: MmdbDatabase | false | null = null;
+
+function getDatabase(): MmdbDatabase | null {
+    if (database === null) {
+        try {
+            database = fs.existsSync(GEOIP_DATABASE_PATH) ? openDatabase(GEOIP_DATABASE_PATH) : false;
+        } catch (error) {
+            console.error('GeoIP database load error:', error);
+            database = false;
+        }
+    }
+    return database || null;
+}
+
+export function isGeoIpAvailable(): boolean {
+    return getDatabase() !== null;
+}
+
+/**
+ * Country, city and coordinates for an IP address - null when unknown
+ */
+export function lookupIp(ip: string | null): GeoLocation | null {
+    if (!ip) return null;
+
+    const db = getDatabase();
+    if (!db) return null;
+
+    try {
+        const record = lookupRecord(db, ip.trim());
+        if (!record) return null;
+
+        const country = (record.country || record.registered_country) as { iso_code?: string } | undefined;
+        const city = record.city as { names?: Record<string, string> } | undefined;
+        const location = record.location as { latitude?: number; longitude?: number } | undefined;
+
+        return {
+            country: country?.iso_code ?? null,
+            city: city?.names?.en ?? null,
+            latitude: location?.latitude ?? null,
+            longitude: location?.longitude ?? null,
+        };
+    } catch (error) {
+        console.error('GeoIP lookup error:', error);
+        return null;
+    }
+}
+
+/**
+ * "City, CC" for display
+ */
+export function formatLocation(location: GeoLocation | null): string | null {
+    if (!location) return null;
+    const parts = [location.city, location.country].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function distanceKm(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
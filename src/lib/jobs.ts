@@ -0,0 +1,31 @@
+/**
+ * Background jobs
+ * Interval timers for maintenance work that runs for the life of the server process
+ */
+
+/**
+ * Run task every intervalMs. A run still in progress skips the next tick, so slow work
+ * never overlaps; failures are logged as "<name> error:" and the job carries on
+ */
+export function startBackgroundJob(
+    name: string,
+    intervalMs: number,
+    task: () => unknown
+): NodeJS.Timeout {
+    let running = false;
+
+    const timer = setInterval(() => {
+        if (running) return;
+        running = true;
+        Promise.resolve()
+            .then(task)
+            .catch(error => console.error(`${name} error:`, error))
+            .finally(() => {
+                running = false;
+            });
+    }, intervalMs);
+
+    // Never keep the process alive just for a background job
+    timer.unref();
+    return timer;
+}
@@ -0,0 +1,120 @@
+/**
+ * JWT signing keys
+ * Asymmetric keys with scheduled rotation; public halves are published as a JWKS
+ * so other USGRP services can verify tokens without holding a shared secret
+ */
+
+import {
+    generateKeyPair,
+    exportJWK,
+    exportPKCS8,
+    importPKCS8,
+    importJWK,
+    calculateJwkThumbprint,
+    type JWK,
+    type JWSHeaderParameters
+} from 'jose';
+import {
+    getSigningKey,
+    getActiveSigningKey,
+    getAllSigningKeys,
+    rotateSigningKeys,
+    retireExpiredSigningKeys,
+    type SigningKey
+} from './db';
+
+export type SigningAlgorithm = 'RS256' | 'EdDSA';
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'EdDSA'];
+
+// Algorithm for newly generated keys; existing keys keep verifying with their own algorithm
+export const SIGNING_ALG: SigningAlgorithm = process.env.JWT_SIGNING_ALG === 'EdDSA' ? 'EdDSA' : 'RS256';
+
+// Rotate the active key after this many days
+export const KEY_ROTATION_DAYS = parseInt(process.env.JWT_KEY_ROTATION_DAYS || '90', 10);
+
+// Keep rotated keys published and verifiable for this long (must cover the longest token lifetime plus JWKS caching)
+export const KEY_OVERLAP_DAYS = parseInt(process.env.JWT_KEY_OVERLAP_DAYS || '2', 10);
+
+// Imported keys by kid; status is always re-read from the database so retirement is immediate
+const privateKeyCache = new Map<string, CryptoKey>();
+const publicKeyCache = new Map<string, CryptoKey>();
+
+// Single in-flight rotation so concurrent requests don't each generate a key
+let rotationInFlight: Promise<SigningKey> | null = null;
+
+async function generateSigningKey(): Promise<Pick<SigningKey, 'kid' | 'alg' | 'public_jwk' | 'private_key'>> {
+    const { publicKey, privateKey } = await generateKeyPair(SIGNING_ALG, { extractable: true });
+    const jwk = await exportJWK(publicKey);
+    const kid = await calculateJwkThumbprint(jwk);
+
+    return {
+        kid,
+        alg: SIGNING_ALG,
+        public_jwk: JSON.stringify({ ...jwk, kid, alg: SIGNING_ALG, use: 'sig' }),
+        private_key: await exportPKCS8(privateKey),
+    };
+}
+
+/**
+ * Generate a new active key, demoting the current one to the overlap window
+ */
+export async function rotateSigningKey(): Promise<SigningKey> {
+    if (!rotationInFlight) {
+        rotationInFlight = (async () => {
+            const key = await generateSigningKey();
+            rotateSigningKeys(key);
+            retireExpiredSigningKeys(KEY_OVERLAP_DAYS);
+            return getSigningKey(key.kid)!;
+        })().finally(() => {
+            rotationInFlight = null;
+        });
+    }
+    return rotationInFlight;
+}
+
+/**
+ * Get the key used to sign new tokens, rotating it first if it is due
+ */
+export async function getCurrentSigningKey(): Promise<{ kid: string; alg: SigningAlgorithm; privateKey: CryptoKey }> {
+    const row = getActiveSigningKey(KEY_ROTATION_DAYS) || await rotateSigningKey();
+
+    let privateKey = privateKeyCache.get(row.kid);
+    if (!privateKey) {
+        privateKey = await importPKCS8(row.private_key, row.alg);
+        privateKeyCache.set(row.kid, privateKey);
+    }
+
+    return { kid: row.kid, alg: row.alg as SigningAlgorithm, privateKey };
+}
+
+/**
+ * Resolve the public key for a token header - throws for unknown or retired keys
+ */
+export async function getVerificationKey(header: JWSHeaderParameters): Promise<CryptoKey> {
+    const row = header.kid ? getSigningKey(header.kid) : null;
+    if (!row || row.status === 'retired' || row.alg !== header.alg) {
+        throw new Error('Unknown or retired signing key');
+    }
+
+    let publicKey = publicKeyCache.get(row.kid);
+    if (!publicKey) {
+        publicKey = await importJWK(JSON.parse(row.public_jwk), row.alg) as CryptoKey;
+        publicKeyCache.set(row.kid, publicKey);
+    }
+
+    return publicKey;
+}
+
+/**
+ * Public JWK Set: the active key plus rotated keys still inside the overlap window
+ */
+export function getJwks(): { keys: JWK[] } {
+    retireExpiredSigningKeys(KEY_OVERLAP_DAYS);
+
+    return {
+        keys: getAllSigningKeys()
+            .filter(k => k.status !== 'retired')
+            .map(k => JSON.parse(k.public_jwk) as JWK),
+    };
+}
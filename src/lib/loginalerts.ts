@@ -0,0 +1,199 @@
+/**
+ * Suspicious sign-in detection
+ * Compares each new session with the account's sign-in history and tells the user
+ * (email + dashboard) about unfamiliar devices, networks and impossible travel
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import {
+    getLoginHistory,
+    recordLoginHistory,
+    createLoginAlert,
+    logAudit,
+    type LoginHistoryEntry,
+    type User
+} from './db';
+import { parseUserAgent } from './devices';
+import { lookupIp, formatLocation, distanceKm } from './geoip';
+import { sendMail } from './mailer';
+import { parseDbTimestamp } from './sessionpolicy';
+
+// Sign-ins kept per user for comparison
+const LOGIN_HISTORY_DAYS = parseInt(process.env.LOGIN_HISTORY_DAYS || '180');
+
+// Faster than this between two sign-ins is treated as impossible travel
+const IMPOSSIBLE_TRAVEL_KMH = parseInt(process.env.IMPOSSIBLE_TRAVEL_KMH || '900');
+
+// GeoIP is city-level at best, so shorter hops are never flagged
+const IMPOSSIBLE_TRAVEL_MIN_KM = 500;
+
+// How long the "this wasn't me" link in the email works
+export const LOGIN_ALERT_LINK_DAYS = 7;
+
+const AUTH_URL = process.env.AUTH_URL || 'https://auth.usgrp.xyz';
+
+export type LoginAlertReason = 'new_device' | 'new_network' | 'impossible_travel';
+
+export const LOGIN_ALERT_REASON_LABELS: Record<LoginAlertReason, string> = {
+    new_device: 'a device not seen on your account before',
+    new_network: 'a network not seen on your account before',
+    impossible_travel: 'a location too far from your last sign-in to have travelled in the time between',
+};
+
+export interface NewLogin {
+    sessionId: string;
+    ip: string | null;
+    userAgent: string | null;
+    deviceFingerprint: string | null;
+}
+
+export function hashAlertToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The network an address belongs to: /24 for IPv4, /48 for IPv6 - null for anything unparseable
+ */
+export function getIpRange(ip: string | null): string | null {
+    if (!ip) return null;
+    const address = ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+    if (net.isIPv4(address)) {
+        return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+    }
+
+    if (net.isIPv6(address)) {
+        const [head] = address.split('::');
+        const groups = head.split(':').filter(Boolean);
+        while (groups.length < 3) groups.push('0');
+        return `${groups.slice(0, 3).map(g => parseInt(g, 16).toString(16)).join(':')}::/48`;
+    }
+
+    return null;
+}
+
+function detectReasons(
+    history: LoginHistoryEntry[],
+    current: Omit<LoginHistoryEntry, 'id' | 'created_at'>
+): LoginAlertReason[] {
+    const reasons: LoginAlertReason[] = [];
+
+    // A trusted-device fingerprint identifies the browser; otherwise fall back to browser + OS
+    const knownDevice = current.device_fingerprint
+        ? history.some(entry => entry.device_fingerprint === current.device_fingerprint)
+        : history.some(entry => entry.device_name === current.device_name);
+    if (!knownDevice) reasons.push('new_device');
+
+    if (current.ip_range && !history.some(entry => entry.ip_range === current.ip_range)) {
+        reasons.push('new_network');
+    }
+
+    // Compare with the most recent sign-in that had a location
+    const previous = history.find(entry => entry.latitude !== null && entry.longitude !== null);
+    if (previous && current.latitude !== null && current.longitude !== null) {
+        const km = distanceKm(
+            { latitude: previous.latitude!, longitude: previous.longitude! },
+            { latitude: current.latitude, longitude: current.longitude }
+        );
+        const hours = Math.max((Date.now() - parseDbTimestamp(previous.created_at).getTime()) / 3600000, 1 / 60);
+        if (km >= IMPOSSIBLE_TRAVEL_MIN_KM && km / hours > IMPOSSIBLE_TRAVEL_KMH) {
+            reasons.push('impossible_travel');
+        }
+    }
+
+    return reasons;
+}
+
+async function sendLoginAlertEmail(
+    user: User,
+    login: NewLogin,
+    location: string | null,
+    reasons: LoginAlertReason[],
+    token: string
+): Promise<{ ok: boolean; error?: string }> {
+    return sendMail({
+        to: user.backup_email || user.email,
+        subject: 'New sign-in to your USGRP account',
+        text: [
+            `Hello ${user.display_name},`,
+            '',
+            `Your account ${user.email} was just signed in to from ${reasons.map(r => LOGIN_ALERT_REASON_LABELS[r]).join(', and ')}.`,
+            '',
+            `Device:   ${parseUserAgent(login.userAgent || '')}`,
+            `IP:       ${login.ip || 'unknown'}`,
+            `Location: ${location || 'unknown'}`,
+            `Time:     ${new Date().toUTCString()}`,
+            '',
+            'If this was you, there is nothing to do.',
+            '',
+            'If this was not you, open this link to sign that device out and lock your password:',
+            '',
+            `${AUTH_URL}/login-alert?token=${token}`,
+            '',
+            `The link works for ${LOGIN_ALERT_LINK_DAYS} days.`,
+            '',
+            'USGRP Auth',
+        ].join('\n'),
+    });
+}
+
+/**
+ * Record a completed sign-in and alert the user if it looks unfamiliar
+ * The very first sign-in only sets the baseline. The email is sent in the background
+ */
+export function checkNewLogin(user: User, login: NewLogin): LoginAlertReason[] {
+    const history = getLoginHistory(user.id);
+    const geo = lookupIp(login.ip);
+
+    const current = {
+        user_id: user.id,
+        session_id: login.sessionId,
+        ip: login.ip,
+        ip_range: getIpRange(login.ip),
+        device_fingerprint: login.deviceFingerprint,
+        device_name: parseUserAgent(login.userAgent || ''),
+        country: geo?.country ?? null,
+        city: geo?.city ?? null,
+        latitude: geo?.latitude ?? null,
+        longitude: geo?.longitude ?? null,
+    };
+    recordLoginHistory(current, LOGIN_HISTORY_DAYS);
+
+    if (history.length === 0) return [];
+
+    const reasons = detectReasons(history, current);
+    if (reasons.length === 0) return [];
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const location = formatLocation(geo);
+
+    createLoginAlert({
+        id: crypto.randomUUID(),
+        user_id: user.id,
+        session_id: login.sessionId,
+        ip: login.ip,
+        device_name: current.device_name,
+        location,
+        reasons: JSON.stringify(reasons),
+        token_hash: hashAlertToken(token),
+        expires_at: new Date(Date.now() + LOGIN_ALERT_LINK_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    logAudit(
+        user.id,
+        'SUSPICIOUS_LOGIN',
+        login.sessionId,
+        { reasons, device: current.device_name, location },
+        login.ip
+    );
+
+    // Never hold up the sign-in on SMTP
+    sendLoginAlertEmail(user, login, location, reasons, token)
+        .then(result => {
+            if (!result.ok) console.error('Login alert email failed:', result.error);
+        })
+        .catch(error => console.error('Login alert email error:', error));
+
+    return reasons;
+}
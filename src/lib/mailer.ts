@@ -0,0 +1,226 @@
+/**
+ * Outgoing mail
+ * Pluggable transport: SMTP in production, file or console stand-ins for development
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { once } from 'events';
+import { DATA_DIR } from './db';
+
+// smtp | file | console - defaults to smtp when a host is configured
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+const MAIL_FROM = process.env.MAIL_FROM || 'USGRP Auth <noreply@usgrp.xyz>';
+
+const SMTP_HOST = process.env.SMTP_HOST || '';
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || '587');
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true';  // Implicit TLS (465); otherwise STARTTLS when offered
+const SMTP_USER = process.env.SMTP_USER || '';
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD || '';
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+// Where the file transport drops .eml files
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(DATA_DIR, 'outbox');
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface MailTransport {
+    name: string;
+    send(message: MailMessage): Promise<{ ok: boolean; error?: string }>;
+}
+
+// Bare address from "Name <address>"
+function envelopeAddress(address: string): string {
+    return address.match(/<([^>]+)>/)?.[1] || address.trim();
+}
+
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Render an RFC 5322 message with CRLF line endings
+ */
+function buildMessage(message: MailMessage): string {
+    const domain = envelopeAddress(MAIL_FROM).split('@')[1] || 'localhost';
+    const headers = [
+        `From: ${MAIL_FROM}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+    ];
+    return `${headers.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}`;
+}
+
+// Reads multi-line SMTP replies ("250-..." continuation, "250 ..." final) from a socket
+function attachReplyReader(socket: net.Socket) {
+    let buffer = '';
+    let failure: Error | null = null;
+    let wake: (() => void) | null = null;
+    const lines: string[] = [];
+
+    const onData = (chunk: Buffer) => {
+        buffer += chunk.toString('utf8');
+        let index;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+            lines.push(buffer.substring(0, index));
+            buffer = buffer.substring(index + 2);
+        }
+        wake?.();
+    };
+    const onFailure = (error?: Error) => {
+        failure = error || new Error('SMTP connection closed');
+        wake?.();
+    };
+
+    socket.on('data', onData);
+    socket.on('error', onFailure);
+    socket.on('close', () => onFailure());
+
+    async function read(expected: number[]): Promise<string> {
+        const reply: string[] = [];
+        for (;;) {
+            while (lines.length === 0) {
+                if (failure) throw failure;
+                await new Promise<void>(resolve => { wake = resolve; });
+                wake = null;
+            }
+            const line = lines.shift()!;
+            reply.push(line.substring(4));
+            if (line[3] !== '-') {
+                const code = parseInt(line.substring(0, 3));
+                if (!expected.includes(code)) {
+                    throw new Error(`SMTP ${code}: ${reply.join(' ')}`);
+                }
+                return reply.join('\n');
+            }
+        }
+    }
+
+    function detach() {
+        socket.off('data', onData);
+    }
+
+    return { read, detach };
+}
+
+async function sendSmtp(message: MailMessage): Promise<void> {
+    let socket: net.Socket = SMTP_SECURE
+        ? tls.connect({ host: SMTP_HOST, port: SMTP_PORT, servername: SMTP_HOST })
+        : net.connect({ host: SMTP_HOST, port: SMTP_PORT });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+
+    try {
+        await once(socket, SMTP_SECURE ? 'secureConnect' : 'connect');
+        let reader = attachReplyReader(socket);
+        const command = async (line: string, expected: number[]) => {
+            socket.write(`${line}\r\n`);
+            return reader.read(expected);
+        };
+
+        await reader.read([220]);
+        let capabilities = await command(`EHLO ${os.hostname()}`, [250]);
+
+        // Upgrade plain connections whenever the server offers it
+        if (!SMTP_SECURE && /^STARTTLS/im.test(capabilities)) {
+            await command('STARTTLS', [220]);
+            reader.detach();
+            socket = tls.connect({ socket, servername: SMTP_HOST });
+            socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+            await once(socket, 'secureConnect');
+            reader = attachReplyReader(socket);
+            capabilities = await command(`EHLO ${os.hostname()}`, [250]);
+        }
+
+        if (SMTP_USER) {
+            const credentials = Buffer.from(`\0${SMTP_USER}\0${SMTP_PASSWORD}`, 'utf8').toString('base64');
+            await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${envelopeAddress(MAIL_FROM)}>`, [250]);
+        await command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+        await command('DATA', [354]);
+
+        // Dot-stuff lines starting with "." so they are not read as the terminator
+        const body = buildMessage(message).replace(/^\./gm, '..');
+        await command(`${body}\r\n.`, [250]);
+        await command('QUIT', [221]).catch(() => undefined);
+    } finally {
+        socket.destroy();
+    }
+}
+
+const smtpTransport: MailTransport = {
+    name: 'smtp',
+    async send(message) {
+        if (!SMTP_HOST) {
+            return { ok: false, error: 'SMTP_HOST not configured' };
+        }
+        try {
+            await sendSmtp(message);
+            return { ok: true };
+        } catch (error: unknown) {
+            return { ok: false, error: error instanceof Error ? error.message : 'SMTP send failed' };
+        }
+    },
+};
+
+const fileTransport: MailTransport = {
+    name: 'file',
+    async send(message) {
+        try {
+            fs.mkdirSync(MAIL_OUTBOX_DIR, { recursive: true });
+            const file = path.join(MAIL_OUTBOX_DIR, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+            fs.writeFileSync(file, buildMessage(message), { mode: 0o600 });
+            return { ok: true };
+        } catch (error: unknown) {
+            return { ok: false, error: error instanceof Error ? error.message : 'Could not write mail file' };
+        }
+    },
+};
+
+const consoleTransport: MailTransport = {
+    name: 'console',
+    async send(message) {
+        console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+        return { ok: true };
+    },
+};
+
+export function getMailTransport(): MailTransport {
+    switch (MAIL_TRANSPORT) {
+        case 'smtp': return smtpTransport;
+        case 'file': return fileTransport;
+        default: return consoleTransport;
+    }
+}
+
+/**
+ * Send a plain-text email through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<{ ok: boolean; error?: string }> {
+    // Refuse header injection through user-supplied addresses or subjects
+    if (/[\r\n]/.test(message.to) || /[\r\n]/.test(message.subject)) {
+        return { ok: false, error: 'Invalid mail header' };
+    }
+
+    const result = await getMailTransport().send(message);
+    if (!result.ok) {
+        console.error(`Mail send via ${getMailTransport().name} failed:`, result.error);
+    }
+    return result;
+}
@@ -0,0 +1,356 @@
+/**
+ * OAuth 2.0 / OpenID Connect provider
+ * Authorization code flow with PKCE for USGRP services
+ */
+
+import crypto from 'crypto';
+import {
+    getOAuthClient,
+    createAuthorizationCode,
+    consumeAuthorizationCode,
+    cleanExpiredAuthorizationCodes,
+    type OAuthClient,
+    type OAuthAuthorizationCode,
+    type Session,
+    type User
+} from './db';
+import { signJwt, verifyJwt } from './auth';
+import { SIGNING_ALGORITHMS } from './keys';
+import { getActiveSession, parseDbTimestamp } from './sessionpolicy';
+import { type AuthorityLevel, type Permission, getEffectivePermissions } from './roles';
+
+export const OIDC_ISSUER = process.env.AUTH_URL || 'https://auth.usgrp.xyz';
+
+const AUTHORIZATION_CODE_TTL = 60; // seconds
+export const ACCESS_TOKEN_TTL = 15 * 60; // 15 minutes in seconds
+const ID_TOKEN_TTL = 15 * 60; // 15 minutes in seconds
+
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+
+export const SUPPORTED_SCOPES = ['openid', 'profile', 'email', 'roles'] as const;
+export type OAuthScope = typeof SUPPORTED_SCOPES[number];
+
+export const DEFAULT_CLIENT_SCOPES: OAuthScope[] = ['openid', 'profile', 'email'];
+
+export interface OAuthError {
+    error: string;
+    error_description: string;
+}
+
+export interface AccessTokenClaims {
+    sub: string;
+    client_id: string;
+    scope: string;
+    sid: string;
+}
+
+// Hash a code or client secret for storage
+function hashValue(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function timingSafeEqualHex(a: string, b: string): boolean {
+    const bufA = Buffer.from(a, 'hex');
+    const bufB = Buffer.from(b, 'hex');
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+export function parseClientList(value: string): string[] {
+    try {
+        const parsed = JSON.parse(value || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+// ============================================
+// Clients
+// ============================================
+
+/**
+ * Generate a client secret and its storage hash
+ */
+export function generateClientSecret(): { secret: string; hash: string } {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    return { secret, hash: hashValue(secret) };
+}
+
+/**
+ * Redirect URIs must be absolute https URLs (http allowed for localhost) without fragments
+ */
+export function isValidRedirectUri(uri: string): boolean {
+    try {
+        const url = new URL(uri);
+        if (url.hash) return false;
+        if (url.protocol === 'https:') return true;
+        return url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Look up an enabled client and check the redirect URI against its allowlist (exact match)
+ */
+export function getClientForRedirect(clientId: string, redirectUri: string): OAuthClient | null {
+    const client = getOAuthClient(clientId);
+    if (!client || !client.enabled) return null;
+    return parseClientList(client.redirect_uris).includes(redirectUri) ? client : null;
+}
+
+/**
+ * Authenticate a client at the token endpoint
+ * Confidential clients must present their secret; public clients rely on PKCE alone
+ */
+export function authenticateClient(
+    clientId: string,
+    clientSecret: string | null
+): OAuthClient | null {
+    const client = getOAuthClient(clientId);
+    if (!client || !client.enabled) return null;
+
+    if (client.client_secret_hash) {
+        if (!clientSecret) return null;
+        return timingSafeEqualHex(hashValue(clientSecret), client.client_secret_hash) ? client : null;
+    }
+
+    return client;
+}
+
+/**
+ * Reduce a requested scope string to the scopes this client may receive
+ */
+export function resolveScopes(requested: string, client: OAuthClient): OAuthScope[] {
+    const allowed = parseClientList(client.allowed_scopes);
+    return requested
+        .split(' ')
+        .filter((s): s is OAuthScope => (SUPPORTED_SCOPES as readonly string[]).includes(s))
+        .filter(s => allowed.includes(s))
+        .filter((s, i, arr) => arr.indexOf(s) === i);
+}
+
+// ============================================
+// Authorization codes
+// ============================================
+
+/**
+ * Verify a PKCE code_verifier against the stored S256 challenge
+ */
+export function verifyPkce(codeVerifier: string, codeChallenge: string): boolean {
+    // RFC 7636: 43-128 characters from the unreserved set
+    if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) return false;
+    const computed = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const a = Buffer.from(computed);
+    const b = Buffer.from(codeChallenge);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Issue a single-use authorization code bound to the user's Auth session
+ */
+export function issueAuthorizationCode(params: {
+    clientId: string;
+    userId: string;
+    sessionId: string;
+    redirectUri: string;
+    scope: string;
+    nonce: string | null;
+    codeChallenge: string;
+}): string {
+    cleanExpiredAuthorizationCodes();
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    createAuthorizationCode({
+        code_hash: hashValue(code),
+        client_id: params.clientId,
+        user_id: params.userId,
+        session_id: params.sessionId,
+        redirect_uri: params.redirectUri,
+        scope: params.scope,
+        nonce: params.nonce,
+        code_challenge: params.codeChallenge,
+        code_challenge_method: 'S256',
+        expires_at: new Date(Date.now() + AUTHORIZATION_CODE_TTL * 1000).toISOString(),
+    });
+
+    return code;
+}
+
+/**
+ * Redeem an authorization code at the token endpoint
+ */
+export function redeemAuthorizationCode(
+    code: string,
+    client: OAuthClient,
+    redirectUri: string,
+    codeVerifier: string
+): { grant?: OAuthAuthorizationCode; error?: OAuthError } {
+    const grant = consumeAuthorizationCode(hashValue(code));
+
+    if (!grant) {
+        return { error: { error: 'invalid_grant', error_description: 'Authorization code is invalid' } };
+    }
+
+    if (grant.used) {
+        return { error: { error: 'invalid_grant', error_description: 'Authorization code has already been used' } };
+    }
+
+    if (new Date(grant.expires_at) < new Date()) {
+        return { error: { error: 'invalid_grant', error_description: 'Authorization code has expired' } };
+    }
+
+    if (grant.client_id !== client.client_id || grant.redirect_uri !== redirectUri) {
+        return { error: { error: 'invalid_grant', error_description: 'Authorization code was not issued to this client' } };
+    }
+
+    if (!verifyPkce(codeVerifier, grant.code_challenge)) {
+        return { error: { error: 'invalid_grant', error_description: 'PKCE verification failed' } };
+    }
+
+    return { grant };
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+/**
+ * Build the OIDC claims released for a set of scopes
+ */
+export function buildUserClaims(user: User, scopes: string[]): Record<string, unknown> {
+    const claims: Record<string, unknown> = { sub: user.id };
+
+    if (scopes.includes('profile')) {
+        claims.name = user.display_name;
+        claims.preferred_username = user.email.split('@')[0];
+        claims.discord_id = user.discord_id;
+        claims.updated_at = Math.floor(new Date(user.updated_at).getTime() / 1000) || undefined;
+    }
+
+    if (scopes.includes('email')) {
+        claims.email = user.email;
+        claims.email_verified = true; // Accounts are provisioned by admins on our own domain
+    }
+
+    if (scopes.includes('roles')) {
+        const explicitPermissions: Permission[] = JSON.parse(user.permissions || '[]');
+        claims.authority_level = user.authority_level;
+        claims.roles = JSON.parse(user.roles || '[]');
+        claims.permissions = getEffectivePermissions(
+            user.authority_level as AuthorityLevel,
+            explicitPermissions
+        );
+    }
+
+    return claims;
+}
+
+/**
+ * Issue the access token and ID token for a redeemed authorization code
+ */
+export async function issueTokens(grant: OAuthAuthorizationCode, user: User, session: Session): Promise<{
+    access_token: string;
+    id_token: string;
+    token_type: 'Bearer';
+    expires_in: number;
+    scope: string;
+}> {
+    const now = Date.now();
+    const scopes = grant.scope.split(' ');
+
+    const accessToken = await signJwt({
+        client_id: grant.client_id,
+        scope: grant.scope,
+        sid: grant.session_id,
+    }, {
+        issuer: OIDC_ISSUER,
+        audience: grant.client_id,
+        subject: user.id,
+        expiresAt: new Date(now + ACCESS_TOKEN_TTL * 1000),
+        type: ACCESS_TOKEN_TYPE,
+    });
+
+    const idToken = await signJwt({
+        ...buildUserClaims(user, scopes),
+        sid: grant.session_id,
+        // When the user signed in to Auth - not when the client redeemed its code
+        auth_time: Math.floor(parseDbTimestamp(session.authenticated_at || session.created_at).getTime() / 1000),
+        ...(grant.nonce ? { nonce: grant.nonce } : {}),
+    }, {
+        issuer: OIDC_ISSUER,
+        audience: grant.client_id,
+        subject: user.id,
+        expiresAt: new Date(now + ID_TOKEN_TTL * 1000),
+    });
+
+    return {
+        access_token: accessToken,
+        id_token: idToken,
+        token_type: 'Bearer',
+        expires_in: ACCESS_TOKEN_TTL,
+        scope: grant.scope,
+    };
+}
+
+/**
+ * Validate an OAuth access token and the Auth session it is bound to
+ */
+export async function validateAccessToken(
+    token: string
+): Promise<{ valid: boolean; claims?: AccessTokenClaims; user?: User; error?: string }> {
+    let claims: AccessTokenClaims;
+    try {
+        const payload = await verifyJwt(token, {
+            issuer: OIDC_ISSUER,
+            type: ACCESS_TOKEN_TYPE,
+        });
+        // The audience of an access token is the client it was issued to
+        if (payload.aud !== payload.client_id) {
+            return { valid: false, error: 'Invalid access token audience' };
+        }
+        claims = payload as unknown as AccessTokenClaims;
+    } catch {
+        return { valid: false, error: 'Invalid or expired access token' };
+    }
+
+    // Tokens die with the Auth session that produced them, including at its idle and absolute limits
+    const active = getActiveSession(claims.sid, null);
+    if (!active || active.session.user_id !== claims.sub) {
+        return { valid: false, error: 'Session not found or expired' };
+    }
+
+    const { user } = active;
+    if (!user.enabled || user.suspended) {
+        return { valid: false, error: 'User disabled' };
+    }
+
+    return { valid: true, claims, user };
+}
+
+/**
+ * OpenID Provider discovery document
+ */
+export function getDiscoveryDocument() {
+    return {
+        issuer: OIDC_ISSUER,
+        authorization_endpoint: `${OIDC_ISSUER}/oauth/authorize`,
+        token_endpoint: `${OIDC_ISSUER}/oauth/token`,
+        userinfo_endpoint: `${OIDC_ISSUER}/oauth/userinfo`,
+        jwks_uri: `${OIDC_ISSUER}/.well-known/jwks.json`,
+        response_types_supported: ['code'],
+        response_modes_supported: ['query'],
+        grant_types_supported: ['authorization_code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: SIGNING_ALGORITHMS,
+        scopes_supported: [...SUPPORTED_SCOPES],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        code_challenge_methods_supported: ['S256'],
+        claims_supported: [
+            'sub', 'iss', 'aud', 'exp', 'iat', 'auth_time', 'nonce', 'sid',
+            'name', 'preferred_username', 'discord_id', 'updated_at',
+            'email', 'email_verified',
+            'authority_level', 'roles', 'permissions',
+        ],
+    };
+}
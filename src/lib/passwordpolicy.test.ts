@@ -0,0 +1,21 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createTestUser } from '@/test/fixtures';
+import { getPasswordChangeReason, getPasswordExpiry } from './passwordpolicy';
+
+// Read when passwordpolicy.ts loads - level 0 passwords last 90 days
+vi.hoisted(() => {
+    process.env.PASSWORD_MAX_AGE_DAYS = '0:90';
+});
+
+describe('getPasswordExpiry', () => {
+    it('counts from the last password change', () => {
+        const user = { ...createTestUser(), password_changed_at: '2026-03-01T12:00:00.000Z' };
+        expect(getPasswordExpiry(user)?.toISOString()).toBe('2026-05-30T12:00:00.000Z');
+    });
+
+    it('counts from account creation, stored as SQLite UTC, when the password was never changed', () => {
+        const user = { ...createTestUser(), password_changed_at: null, created_at: '2026-03-01 12:00:00' };
+        expect(getPasswordExpiry(user)?.toISOString()).toBe('2026-05-30T12:00:00.000Z');
+        expect(getPasswordChangeReason(user)).toBe('expired');
+    });
+});
@@ -0,0 +1,317 @@
+/**
+ * Password policy
+ * Length, character classes, guessability, personal info, breached passwords and reuse -
+ * checked by every route that sets a password
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { NextResponse } from 'next/server';
+import { getUserById, getPasswordHistory, addPasswordHistory, type User } from './db';
+import { parseAuthorityLevelSetting, getAuthorityLevelSetting } from './roles';
+import { parseDbTimestamp } from './sessionpolicy';
+
+// Offline Pwned Passwords range files: <dir>/<5-char SHA-1 prefix>.txt with "SUFFIX:COUNT" lines
+const PWNED_PASSWORDS_DIR = process.env.PWNED_PASSWORDS_DIR || '';
+
+export const PASSWORD_POLICY = {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10'),
+    maxLength: 72,  // bcrypt ignores anything past 72 bytes
+    minCharClasses: parseInt(process.env.PASSWORD_MIN_CHAR_CLASSES || '3'),
+    passphraseLength: 20,  // Passphrases this long are exempt from the character class rule
+    minScore: parseInt(process.env.PASSWORD_MIN_SCORE || '3'),  // 0-4
+    historyCount: parseInt(process.env.PASSWORD_HISTORY_COUNT || '5'),  // Includes the current password
+    breachCheck: !!PWNED_PASSWORDS_DIR,
+};
+
+// Maximum password age by authority level: "level:days" pairs, e.g. "0:365,3:90,5:60"
+// A user gets the entry for the highest level at or below their own; unset means passwords never expire
+const PASSWORD_MAX_AGE_DAYS = parseAuthorityLevelSetting(process.env.PASSWORD_MAX_AGE_DAYS || '');
+
+export interface PasswordContext {
+    email?: string | null;
+    displayName?: string | null;
+    userId?: string;  // Existing user - enables the reuse check
+}
+
+export interface PasswordCheckResult {
+    valid: boolean;
+    errors: string[];
+    score: number;
+}
+
+// Human-readable rules for the UI
+export function describePasswordPolicy(): string[] {
+    const rules = [
+        `At least ${PASSWORD_POLICY.minLength} characters (at most ${PASSWORD_POLICY.maxLength})`,
+        `At least ${PASSWORD_POLICY.minCharClasses} of: lowercase, uppercase, numbers, symbols - or a passphrase of ${PASSWORD_POLICY.passphraseLength}+ characters`,
+        'Not easy to guess: no common words, keyboard runs, sequences or years on their own',
+        'Must not contain your email or name',
+    ];
+    if (PASSWORD_POLICY.breachCheck) {
+        rules.push('Must not appear in known data breaches');
+    }
+    if (PASSWORD_POLICY.historyCount > 0) {
+        rules.push(`Must differ from your last ${PASSWORD_POLICY.historyCount} passwords`);
+    }
+    return rules;
+}
+
+// ============================================
+// Strength estimate (zxcvbn-style)
+// ============================================
+
+const COMMON_WORDS = [
+    'password', 'passwort', 'qwerty', 'letmein', 'welcome', 'admin', 'administrator', 'login', 'usgrp',
+    'master', 'secret', 'shadow', 'dragon', 'monkey', 'iloveyou', 'football', 'baseball', 'soccer',
+    'hockey', 'sunshine', 'princess', 'superman', 'batman', 'trustno', 'freedom', 'whatever', 'starwars',
+    'summer', 'winter', 'spring', 'autumn', 'january', 'february', 'august', 'october', 'november',
+    'december', 'monday', 'friday', 'hello', 'charlie', 'michael', 'jordan', 'jennifer', 'hunter',
+    'killer', 'pokemon', 'computer', 'internet', 'changeme', 'default', 'government', 'staff', 'access',
+];
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', '1234567890'];
+
+const LEET: Record<string, string> = {
+    '@': 'a', '4': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't',
+};
+
+// Guesses (as bits) an attacker spends on each kind of pattern
+const WORD_BITS = 11;
+const KEYBOARD_BITS = 6;
+const SEQUENCE_BITS = 4;
+const YEAR_BITS = 7;
+
+function characterPool(password: string): number {
+    let pool = 0;
+    if (/[a-z]/.test(password)) pool += 26;
+    if (/[A-Z]/.test(password)) pool += 26;
+    if (/[0-9]/.test(password)) pool += 10;
+    if (/[^a-zA-Z0-9]/.test(password)) pool += 33;
+    return Math.max(pool, 10);
+}
+
+export function countCharClasses(password: string): number {
+    return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(re => re.test(password)).length;
+}
+
+/**
+ * Estimate how guessable a password is, 0 (trivial) to 4 (strong)
+ * Common words, the user's own details, keyboard runs, sequences, repeats and years
+ * each cost an attacker a handful of guesses; everything else costs the full character pool
+ */
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): { score: number; bits: number } {
+    const lower = password.toLowerCase();
+    const normalized = [...lower].map(c => LEET[c] || c).join('');
+    const used = new Array<boolean>(lower.length).fill(false);
+    const poolBits = Math.log2(characterPool(password));
+    let bits = 0;
+
+    const claim = (start: number, length: number, cost: number) => {
+        for (let i = start; i < start + length; i++) {
+            if (used[i]) return;
+        }
+        for (let i = start; i < start + length; i++) used[i] = true;
+        bits += cost;
+    };
+
+    // Dictionary words, including leetspeak and the user's own details
+    const words = [...COMMON_WORDS, ...userInputs.map(w => w.toLowerCase())]
+        .filter(w => w.length >= 3)
+        .sort((a, b) => b.length - a.length);
+    for (const word of words) {
+        let index = normalized.indexOf(word);
+        while (index >= 0) {
+            claim(index, word.length, WORD_BITS);
+            index = normalized.indexOf(word, index + word.length);
+        }
+    }
+
+    // Keyboard runs of four or more, forwards or backwards
+    for (const row of KEYBOARD_ROWS) {
+        for (const candidate of [row, [...row].reverse().join('')]) {
+            for (let length = candidate.length; length >= 4; length--) {
+                for (let start = 0; start + length <= candidate.length; start++) {
+                    const run = candidate.substring(start, start + length);
+                    let index = lower.indexOf(run);
+                    while (index >= 0) {
+                        claim(index, length, KEYBOARD_BITS);
+                        index = lower.indexOf(run, index + length);
+                    }
+                }
+            }
+        }
+    }
+
+    // Years
+    for (const match of lower.matchAll(/(19|20)\d\d/g)) {
+        claim(match.index!, 4, YEAR_BITS);
+    }
+
+    // Repeats (aaa) and sequences (abc, 987)
+    let i = 0;
+    while (i < lower.length) {
+        let j = i + 1;
+        const step = j < lower.length ? lower.charCodeAt(j) - lower.charCodeAt(i) : 0;
+        if (Math.abs(step) <= 1) {
+            while (j < lower.length && lower.charCodeAt(j) - lower.charCodeAt(j - 1) === step) j++;
+        }
+        if (j - i >= 3) {
+            claim(i, j - i, step === 0 ? poolBits + 2 : SEQUENCE_BITS);
+            i = j;
+        } else {
+            i++;
+        }
+    }
+
+    bits += used.filter(u => !u).length * poolBits;
+
+    const score = bits < 20 ? 0 : bits < 30 ? 1 : bits < 40 ? 2 : bits < 55 ? 3 : 4;
+    return { score, bits: Math.round(bits) };
+}
+
+// ============================================
+// Breached passwords (k-anonymity range files)
+// ============================================
+
+export async function isBreachedPassword(password: string): Promise<boolean> {
+    if (!PWNED_PASSWORDS_DIR) return false;
+
+    const hash = crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+    const prefix = hash.substring(0, 5);
+    const suffix = hash.substring(5);
+
+    try {
+        const range = await fs.promises.readFile(path.join(PWNED_PASSWORDS_DIR, `${prefix}.txt`), 'utf8');
+        return range.split('\n').some(line => {
+            const [lineSuffix, count] = line.trim().split(':');
+            return lineSuffix === suffix && count !== '0';
+        });
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('Breached password lookup failed:', error);
+        }
+        return false;
+    }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+// Email local part and name pieces a password must not contain
+function personalTokens(context: PasswordContext): string[] {
+    const tokens: string[] = [];
+    if (context.email) {
+        const local = context.email.toLowerCase().split('@')[0];
+        tokens.push(local, ...local.split(/[._+-]+/));
+    }
+    if (context.displayName) {
+        tokens.push(...context.displayName.toLowerCase().split(/\s+/));
+    }
+    return [...new Set(tokens.filter(t => t.length >= 3))];
+}
+
+/**
+ * Check a new password against the whole policy
+ * The reuse check runs last and only for otherwise acceptable passwords (it is the slow part)
+ */
+export async function validatePassword(password: string, context: PasswordContext = {}): Promise<PasswordCheckResult> {
+    const errors: string[] = [];
+
+    if (typeof password !== 'string' || password.length < PASSWORD_POLICY.minLength) {
+        errors.push(`Password must be at least ${PASSWORD_POLICY.minLength} characters`);
+        return { valid: false, errors, score: 0 };
+    }
+
+    if (Buffer.byteLength(password, 'utf8') > PASSWORD_POLICY.maxLength) {
+        errors.push(`Password must be at most ${PASSWORD_POLICY.maxLength} characters`);
+    }
+
+    if (password.length < PASSWORD_POLICY.passphraseLength &&
+        countCharClasses(password) < PASSWORD_POLICY.minCharClasses) {
+        errors.push(
+            `Use at least ${PASSWORD_POLICY.minCharClasses} of lowercase, uppercase, numbers and symbols, ` +
+            `or a passphrase of ${PASSWORD_POLICY.passphraseLength}+ characters`
+        );
+    }
+
+    const tokens = personalTokens(context);
+    const normalized = [...password.toLowerCase()].map(c => LEET[c] || c).join('');
+    if (tokens.some(token => normalized.includes(token))) {
+        errors.push('Password must not contain your email or name');
+    }
+
+    const { score } = estimatePasswordStrength(password, tokens);
+    if (score < PASSWORD_POLICY.minScore) {
+        errors.push('Password is too easy to guess - try a longer passphrase or fewer common words and patterns');
+    }
+
+    if (errors.length === 0 && await isBreachedPassword(password)) {
+        errors.push('This password has appeared in a data breach - choose a different one');
+    }
+
+    if (errors.length === 0 && context.userId && PASSWORD_POLICY.historyCount > 0) {
+        const user = getUserById(context.userId);
+        const previous = user
+            ? [user.password_hash, ...getPasswordHistory(user.id, PASSWORD_POLICY.historyCount - 1)]
+            : [];
+        for (const hash of previous) {
+            if (await bcrypt.compare(password, hash)) {
+                errors.push(`Password must differ from your last ${PASSWORD_POLICY.historyCount} passwords`);
+                break;
+            }
+        }
+    }
+
+    return { valid: errors.length === 0, errors, score };
+}
+
+/**
+ * 400 response shared by every route that sets a password: { error, errors }
+ */
+export function passwordPolicyResponse(result: PasswordCheckResult): NextResponse {
+    return NextResponse.json({ error: result.errors[0], errors: result.errors }, { status: 400 });
+}
+
+/**
+ * Remember the hash being replaced so it cannot be reused
+ * Call before writing the new hash
+ */
+export function rememberPreviousPassword(userId: string): void {
+    const user = getUserById(userId);
+    if (user && PASSWORD_POLICY.historyCount > 1) {
+        addPasswordHistory(user.id, user.password_hash, PASSWORD_POLICY.historyCount - 1);
+    }
+}
+
+// ============================================
+// Forced changes and expiry
+// ============================================
+
+export type PasswordChangeReason = 'required' | 'expired';
+
+export function getPasswordMaxAgeDays(authorityLevel: number): number | null {
+    return getAuthorityLevelSetting(PASSWORD_MAX_AGE_DAYS, authorityLevel);
+}
+
+// When the user's password expires - null if their authority level has no maximum age
+export function getPasswordExpiry(user: User): Date | null {
+    const maxAgeDays = getPasswordMaxAgeDays(user.authority_level);
+    if (!maxAgeDays) return null;
+
+    // Passwords set before tracking began count from account creation
+    const changedAt = parseDbTimestamp(user.password_changed_at || user.created_at);
+    return new Date(changedAt.getTime() + maxAgeDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Why the user must set a new password before their sign-in completes - null if they need not
+ */
+export function getPasswordChangeReason(user: User): PasswordChangeReason | null {
+    if (user.must_change_password) return 'required';
+    const expiry = getPasswordExpiry(user);
+    return expiry && expiry.getTime() <= Date.now() ? 'expired' : null;
+}
@@ -0,0 +1,150 @@
+/**
+ * Self-service password reset
+ * Single-use, short-lived reset links sent to the user's backup email
+ */
+
+import crypto from 'crypto';
+import {
+    getUserByEmail,
+    getUserById,
+    updateUser,
+    deleteAllUserSessions,
+    createPasswordResetToken,
+    getPasswordResetToken,
+    consumePasswordResetToken,
+    countRecentPasswordResetTokens,
+    deleteUserPasswordResetTokens,
+    cleanExpiredPasswordResetTokens,
+    logAudit
+} from './db';
+import { hashPassword } from './auth';
+import { changeMailPassword } from './miab';
+import { storeMailPassword } from './vault';
+import { sendMail } from './mailer';
+import { resetLoginFailures } from './ratelimit';
+import { validatePassword, rememberPreviousPassword } from './passwordpolicy';
+
+export const RESET_TOKEN_TTL_MINUTES = 30;
+
+// Reset emails a single account may trigger per TTL window
+const MAX_RESET_REQUESTS = 3;
+
+const AUTH_URL = process.env.AUTH_URL || 'https://auth.usgrp.xyz';
+
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Email a reset link to the account's backup email
+ * Resolves the same way whether or not the account exists - callers must not reveal the outcome
+ */
+export async function requestPasswordReset(email: string, ip: string | null): Promise<void> {
+    const user = getUserByEmail(email);
+
+    if (!user || !user.enabled || !user.backup_email) {
+        const reason = !user ? 'unknown account' : !user.enabled ? 'account disabled' : 'no backup email';
+        logAudit(user?.id ?? null, 'PASSWORD_RESET_REQUESTED', email, `Ignored: ${reason}`, ip);
+        return;
+    }
+
+    cleanExpiredPasswordResetTokens();
+
+    if (countRecentPasswordResetTokens(user.id, RESET_TOKEN_TTL_MINUTES) >= MAX_RESET_REQUESTS) {
+        logAudit(user.id, 'PASSWORD_RESET_REQUESTED', email, 'Ignored: too many requests', ip);
+        return;
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    createPasswordResetToken({
+        token_hash: hashToken(token),
+        user_id: user.id,
+        ip,
+        expires_at: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000).toISOString(),
+    });
+
+    const result = await sendMail({
+        to: user.backup_email,
+        subject: 'Reset your USGRP password',
+        text: [
+            `Hello ${user.display_name},`,
+            '',
+            `Someone (hopefully you) asked to reset the password for ${user.email}.`,
+            `Open this link within ${RESET_TOKEN_TTL_MINUTES} minutes to choose a new password:`,
+            '',
+            `${AUTH_URL}/reset-password?token=${token}`,
+            '',
+            'The link works once. If you did not ask for this, ignore this email - your password has not changed.',
+            '',
+            'USGRP Auth',
+        ].join('\n'),
+    });
+
+    logAudit(
+        user.id,
+        'PASSWORD_RESET_REQUESTED',
+        email,
+        result.ok ? 'Reset link sent to backup email' : `Reset email failed: ${result.error}`,
+        ip
+    );
+}
+
+/**
+ * Redeem a reset token: set the new password in Auth and Mail, then sign out everywhere
+ */
+export async function resetPassword(
+    token: string,
+    newPassword: string,
+    ip: string | null
+): Promise<{ success?: boolean; mailUpdated?: boolean; error?: string; errors?: string[] }> {
+    const tokenHash = hashToken(token);
+    const pending = getPasswordResetToken(tokenHash);
+
+    if (!pending || pending.used || new Date(pending.expires_at) < new Date()) {
+        logAudit(pending?.user_id ?? null, 'PASSWORD_RESET_FAILED', null, pending ? 'Used or expired token' : 'Unknown token', ip);
+        return { error: 'This reset link is invalid or has expired' };
+    }
+
+    const user = getUserById(pending.user_id);
+    if (!user || !user.enabled) {
+        logAudit(pending.user_id, 'PASSWORD_RESET_FAILED', null, 'Account disabled', ip);
+        return { error: 'This reset link is invalid or has expired' };
+    }
+
+    // Check the policy before spending the token so the user can try another password
+    const policy = await validatePassword(newPassword, {
+        email: user.email,
+        displayName: user.display_name,
+        userId: user.id,
+    });
+    if (!policy.valid) {
+        return { error: policy.errors[0], errors: policy.errors };
+    }
+
+    // Another request may have redeemed it while the policy ran
+    const grant = consumePasswordResetToken(tokenHash);
+    if (!grant || grant.used) {
+        logAudit(user.id, 'PASSWORD_RESET_FAILED', null, 'Used or expired token', ip);
+        return { error: 'This reset link is invalid or has expired' };
+    }
+
+    rememberPreviousPassword(user.id);
+    updateUser(user.id, { password_hash: await hashPassword(newPassword), must_change_password: 0 });
+
+    // Keep Mail-in-a-Box and the mail vault in step with Auth
+    const mailResult = await changeMailPassword(user.email, newPassword);
+    if (mailResult.ok) {
+        storeMailPassword(user.id, newPassword);
+    } else {
+        console.error('Failed to update MIAB password after reset:', mailResult.error);
+    }
+
+    // Whoever knew the old password loses every session and any other pending link
+    deleteUserPasswordResetTokens(user.id);
+    deleteAllUserSessions(user.id);
+    resetLoginFailures(user);
+
+    logAudit(user.id, 'PASSWORD_RESET', user.email, mailResult.ok ? null : 'Mail password not updated', ip);
+
+    return { success: true, mailUpdated: mailResult.ok };
+}
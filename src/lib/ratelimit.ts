@@ -0,0 +1,145 @@
+/**
+ * Login rate limiting and account lockout
+ * Sliding-window limits per account and per IP across password, TOTP and recovery code checks
+ */
+
+import { NextResponse } from 'next/server';
+import {
+    recordAuthFailure,
+    getAuthFailureStats,
+    clearAuthFailures,
+    cleanOldAuthFailures,
+    updateUser,
+    logAudit,
+    type AuthFailureKind,
+    type User
+} from './db';
+
+// Failures older than this no longer count against an account or IP
+export const RATE_LIMIT_WINDOW_MINUTES = parseInt(process.env.LOGIN_RATE_LIMIT_WINDOW_MINUTES || '15');
+
+// Failures within the window before the account is locked
+const ACCOUNT_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10');
+export const ACCOUNT_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+
+// Failures within the window from one IP, across all accounts
+const IP_FAILURE_LIMIT = parseInt(process.env.LOGIN_IP_FAILURE_LIMIT || '50');
+
+// After this many failures each attempt must wait 1s, 2s, 4s... (capped) since the last one
+const PROGRESSIVE_DELAY_AFTER = 3;
+const MAX_DELAY_SECONDS = 60;
+
+export interface RateLimitResult {
+    allowed: boolean;
+    retryAfter?: number;  // Seconds until the next attempt is accepted
+    error?: string;
+}
+
+function formatWait(seconds: number): string {
+    if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+function blocked(retryAfter: number, reason: string): RateLimitResult {
+    const seconds = Math.max(1, Math.ceil(retryAfter));
+    return { allowed: false, retryAfter: seconds, error: `${reason} Try again in ${formatWait(seconds)}.` };
+}
+
+/**
+ * Whether a credential check may run for this account and IP right now
+ * The account is the email address, so unknown emails are limited exactly like real ones
+ */
+export function checkLoginRateLimit(account: string, ip: string | null, user?: User | null): RateLimitResult {
+    const now = Date.now() / 1000;
+    const windowSeconds = RATE_LIMIT_WINDOW_MINUTES * 60;
+
+    if (user?.locked_until) {
+        const lockedUntil = new Date(user.locked_until).getTime() / 1000;
+        if (lockedUntil > now) {
+            return blocked(lockedUntil - now, 'Account temporarily locked after too many failed attempts.');
+        }
+    }
+
+    if (ip && ip !== 'unknown') {
+        const ipStats = getAuthFailureStats('ip', ip, RATE_LIMIT_WINDOW_MINUTES);
+        if (ipStats.count >= IP_FAILURE_LIMIT && ipStats.first_at) {
+            return blocked(ipStats.first_at + windowSeconds - now, 'Too many failed attempts from this network.');
+        }
+    }
+
+    const accountStats = getAuthFailureStats('account', account, RATE_LIMIT_WINDOW_MINUTES);
+
+    // Unknown accounts never get a lock row - hold them off until the window slides instead
+    if (!user && accountStats.count >= ACCOUNT_LOCKOUT_THRESHOLD && accountStats.first_at) {
+        return blocked(accountStats.first_at + windowSeconds - now, 'Account temporarily locked after too many failed attempts.');
+    }
+
+    if (accountStats.count >= PROGRESSIVE_DELAY_AFTER && accountStats.last_at) {
+        const delay = Math.min(2 ** (accountStats.count - PROGRESSIVE_DELAY_AFTER), MAX_DELAY_SECONDS);
+        const wait = accountStats.last_at + delay - now;
+        if (wait > 0) {
+            return blocked(wait, 'Too many failed attempts.');
+        }
+    }
+
+    return { allowed: true };
+}
+
+/**
+ * Record a failed check, locking the account once it crosses the threshold
+ */
+export function recordLoginFailure(kind: AuthFailureKind, account: string, ip: string | null, user?: User | null): void {
+    recordAuthFailure(account, ip, kind);
+    cleanOldAuthFailures(RATE_LIMIT_WINDOW_MINUTES);
+
+    if (!user) return;
+
+    const stats = getAuthFailureStats('account', account, RATE_LIMIT_WINDOW_MINUTES);
+    if (stats.count < ACCOUNT_LOCKOUT_THRESHOLD) return;
+
+    const lockedUntil = new Date(Date.now() + ACCOUNT_LOCKOUT_MINUTES * 60 * 1000).toISOString();
+    updateUser(user.id, { locked_until: lockedUntil });
+    clearAuthFailures(account);
+
+    logAudit(
+        user.id,
+        'ACCOUNT_LOCKED',
+        user.email,
+        `${stats.count} failed ${kind} attempts in ${RATE_LIMIT_WINDOW_MINUTES} minutes - locked for ${ACCOUNT_LOCKOUT_MINUTES} minutes`,
+        ip
+    );
+}
+
+/**
+ * Forget failures after a completed sign-in or password reset
+ */
+export function resetLoginFailures(user: User): void {
+    clearAuthFailures(user.email);
+    if (user.locked_until) {
+        updateUser(user.id, { locked_until: null });
+    }
+}
+
+/**
+ * Admin unlock - clears the lock and the failures that led to it
+ */
+export function unlockAccount(user: User, actorId: string, ip: string | null): void {
+    updateUser(user.id, { locked_until: null });
+    clearAuthFailures(user.email);
+    logAudit(actorId, 'ACCOUNT_UNLOCKED', user.id, user.email, ip);
+}
+
+export function isAccountLocked(user: User): boolean {
+    return !!user.locked_until && new Date(user.locked_until).getTime() > Date.now();
+}
+
+/**
+ * 429 response shared by every throttled endpoint: { error, retryAfter } plus a Retry-After header
+ */
+export function rateLimitedResponse(result: RateLimitResult): NextResponse {
+    return NextResponse.json(
+        { error: result.error, retryAfter: result.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+    );
+}
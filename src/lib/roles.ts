@@ -153,3 +153,24 @@ export function getRoleName(level: AuthorityLevel): RoleName {
     const entry = Object.entries(AUTHORITY_LEVELS).find(([, v]) => v === level);
     return (entry?.[0] as RoleName) || 'USER';
 }
+
+/**
+ * Parse a per-authority-level setting: "level:value" pairs, e.g. "0:60,3:30,5:15"
+ */
+export function parseAuthorityLevelSetting(value: string): { level: number; value: number }[] {
+    return value.split(',')
+        .map(pair => pair.split(':').map(part => parseInt(part.trim())))
+        .filter(([level, amount]) => !isNaN(level) && amount > 0)
+        .map(([level, amount]) => ({ level, value: amount }))
+        .sort((a, b) => b.level - a.level);
+}
+
+/**
+ * Value of a per-level setting for a user - the entry for the highest level at or below theirs
+ */
+export function getAuthorityLevelSetting(
+    setting: { level: number; value: number }[],
+    level: number
+): number | null {
+    return setting.find(entry => entry.level <= level)?.value ?? null;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { computeRoleSync, MAX_SYNCED_LEVEL } from './rolesync';
+import { AUTHORITY_LEVELS } from './roles';
+import type { DiscordRoleMapping, User } from './db';
+
+function makeUser(overrides: Partial<User> = {}): User {
+    return {
+        id: 'user-1',
+        email: 'member@usgrp.xyz',
+        password_hash: '',
+        discord_id: '100',
+        display_name: 'Member',
+        authority_level: AUTHORITY_LEVELS.USER,
+        roles: '[]',
+        permissions: '[]',
+        enabled: 1,
+        suspended: 0,
+        suspended_reason: null,
+        suspended_at: null,
+        suspended_by: null,
+        totp_secret: null,
+        totp_enabled: 0,
+        totp_last_counter: null,
+        mfa_enforced: 0,
+        security_key_required: 0,
+        locked_until: null,
+        must_change_password: 0,
+        password_changed_at: null,
+        recovery_codes: null,
+        backup_email: null,
+        created_at: '2026-01-01 00:00:00',
+        updated_at: '2026-01-01 00:00:00',
+        ...overrides,
+    };
+}
+
+function mapping(discordRoleId: string, name: string, authorityLevel: number | null, permissions: string[] = []): DiscordRoleMapping {
+    return {
+        discord_role_id: discordRoleId,
+        name,
+        authority_level: authorityLevel,
+        permissions: JSON.stringify(permissions),
+        updated_by: null,
+        updated_at: '2026-01-01 00:00:00',
+    };
+}
+
+const MAPPINGS = [
+    mapping('r-mod', 'Moderator', AUTHORITY_LEVELS.MODERATOR, ['reports:read']),
+    mapping('r-senior', 'Senior Moderator', AUTHORITY_LEVELS.SENIOR_MOD),
+    mapping('r-admin', 'Admin', AUTHORITY_LEVELS.ADMIN),
+    mapping('r-super', 'Superuser', AUTHORITY_LEVELS.SUPERUSER),
+    mapping('r-mail', 'Mail', null, ['mail:access']),
+];
+
+describe('computeRoleSync', () => {
+    it('grants the highest matched level with the mapped roles and permissions', () => {
+        const change = computeRoleSync(makeUser(), ['r-mod', 'r-senior', 'r-mail'], MAPPINGS);
+
+        expect(change?.to.authorityLevel).toBe(AUTHORITY_LEVELS.SENIOR_MOD);
+        expect(change?.to.roles.sort()).toEqual(['Mail', 'Moderator', 'Senior Moderator']);
+        expect(change?.to.permissions.sort()).toEqual(['mail:access', 'reports:read']);
+        expect(change?.approvalRequired).toBe(false);
+    });
+
+    it('never grants more than MAX_SYNCED_LEVEL', () => {
+        const change = computeRoleSync(makeUser(), ['r-super'], MAPPINGS);
+        expect(change?.to.authorityLevel).toBe(MAX_SYNCED_LEVEL);
+    });
+
+    it('leaves a level set by hand alone when only permission mappings match', () => {
+        const user = makeUser({ authority_level: AUTHORITY_LEVELS.SENIOR_MOD });
+        const change = computeRoleSync(user, ['r-mail'], MAPPINGS);
+
+        expect(change?.to.authorityLevel).toBe(AUTHORITY_LEVELS.SENIOR_MOD);
+        expect(change?.to.permissions).toEqual(['mail:access']);
+    });
+
+    it('demotes to the highest remaining level when a synced level role is removed', () => {
+        const user = makeUser({
+            authority_level: AUTHORITY_LEVELS.SENIOR_MOD,
+            roles: JSON.stringify(['Senior Moderator', 'Moderator']),
+            permissions: JSON.stringify(['reports:read']),
+        });
+        const change = computeRoleSync(user, ['r-mod'], MAPPINGS);
+
+        expect(change?.to.authorityLevel).toBe(AUTHORITY_LEVELS.MODERATOR);
+        expect(change?.to.roles).toEqual(['Moderator']);
+        expect(change?.approvalRequired).toBe(false);
+    });
+
+    it('demotes to USER when the last synced level role is removed', () => {
+        const user = makeUser({
+            authority_level: AUTHORITY_LEVELS.SENIOR_MOD,
+            roles: JSON.stringify(['Senior Moderator']),
+        });
+        const change = computeRoleSync(user, ['r-mail'], MAPPINGS);
+
+        expect(change?.to.authorityLevel).toBe(AUTHORITY_LEVELS.USER);
+        expect(change?.to.roles).toEqual(['Mail']);
+    });
+
+    it('keeps manual grants and removes managed ones the member lost', () => {
+        const user = makeUser({
+            roles: JSON.stringify(['Moderator', 'Event Team']),
+            permissions: JSON.stringify(['reports:read', 'events:manage']),
+        });
+        const change = computeRoleSync(user, [], MAPPINGS);
+
+        expect(change?.to.roles).toEqual(['Event Team']);
+        expect(change?.to.permissions).toEqual(['events:manage']);
+    });
+
+    it('returns null when nothing would change', () => {
+        const user = makeUser({
+            authority_level: AUTHORITY_LEVELS.MODERATOR,
+            roles: JSON.stringify(['Moderator']),
+            permissions: JSON.stringify(['reports:read']),
+        });
+        expect(computeRoleSync(user, ['r-mod'], MAPPINGS)).toBeNull();
+    });
+
+    it('skips accounts without Discord or above MAX_SYNCED_LEVEL', () => {
+        expect(computeRoleSync(makeUser({ discord_id: null }), ['r-mod'], MAPPINGS)).toBeNull();
+        expect(computeRoleSync(makeUser({ authority_level: AUTHORITY_LEVELS.SUPERUSER }), [], MAPPINGS)).toBeNull();
+    });
+
+    it('requires approval for level changes into or out of admin levels', () => {
+        expect(computeRoleSync(makeUser(), ['r-admin'], MAPPINGS)?.approvalRequired).toBe(true);
+
+        const admin = makeUser({ authority_level: AUTHORITY_LEVELS.ADMIN, roles: JSON.stringify(['Admin']) });
+        const demotion = computeRoleSync(admin, ['r-mod'], MAPPINGS);
+        expect(demotion?.to.authorityLevel).toBe(AUTHORITY_LEVELS.MODERATOR);
+        expect(demotion?.approvalRequired).toBe(true);
+    });
+
+    it('does not require approval when an admin only gains permissions', () => {
+        const admin = makeUser({ authority_level: AUTHORITY_LEVELS.ADMIN, roles: JSON.stringify(['Admin']) });
+        const change = computeRoleSync(admin, ['r-admin', 'r-mail'], MAPPINGS);
+
+        expect(change?.to.authorityLevel).toBe(AUTHORITY_LEVELS.ADMIN);
+        expect(change?.approvalRequired).toBe(false);
+    });
+});
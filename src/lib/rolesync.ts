@@ -0,0 +1,241 @@
+/**
+ * Discord role synchronization
+ * Derives authority level, roles and permissions from a member's Discord roles
+ * using the configured role mapping, so staff changes in Discord reach Auth
+ */
+
+import {
+    getAllUsers,
+    getUserById,
+    getUserByDiscordId,
+    updateUser,
+    getDiscordRoleMappings,
+    getDiscordMemberRoles,
+    setDiscordMemberRoles,
+    createApprovalRequest,
+    getPendingApprovalRequest,
+    logAudit,
+    type User,
+    type DiscordRoleMapping
+} from './db';
+import { AUTHORITY_LEVELS } from './roles';
+import { emitUserChanges } from './webhooks';
+
+// Highest level a mapping may grant; accounts above it are never changed by sync
+export const MAX_SYNCED_LEVEL: number = AUTHORITY_LEVELS.HR;
+
+export interface RoleSyncState {
+    authorityLevel: number;
+    roles: string[];
+    permissions: string[];
+}
+
+export interface RoleSyncChange {
+    userId: string;
+    email: string;
+    discordId: string;
+    from: RoleSyncState;
+    to: RoleSyncState;
+    // The level change touches an admin level, so it waits for AUTHORITY_CHANGE_ADMIN approval
+    approvalRequired: boolean;
+}
+
+function parseList(value: string | null): string[] {
+    try {
+        const parsed = JSON.parse(value || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every(v => b.includes(v));
+}
+
+/**
+ * Work out what a user should have for the given Discord roles
+ * Only roles and permissions that appear in some mapping are managed; manual grants are kept.
+ * The level follows the highest matched level-granting mapping. When none matches, a level that came
+ * from sync (the user holds a level-granting role) drops to USER; a level set by hand is left alone
+ * Returns null when nothing would change or the account is above MAX_SYNCED_LEVEL
+ */
+export function computeRoleSync(
+    user: User,
+    roleIds: string[],
+    mappings: DiscordRoleMapping[]
+): RoleSyncChange | null {
+    if (!user.discord_id || user.authority_level > MAX_SYNCED_LEVEL) return null;
+
+    const matched = mappings.filter(m => roleIds.includes(m.discord_role_id));
+    const matchedLevels = matched
+        .map(m => m.authority_level)
+        .filter((level): level is number => level !== null);
+    const levelRoles = new Set(mappings.filter(m => m.authority_level !== null).map(m => m.name));
+    const managedRoles = new Set(mappings.map(m => m.name));
+    const managedPermissions = new Set(mappings.flatMap(m => parseList(m.permissions)));
+
+    const from: RoleSyncState = {
+        authorityLevel: user.authority_level,
+        roles: parseList(user.roles),
+        permissions: parseList(user.permissions),
+    };
+
+    const hadSyncedLevel = from.roles.some(r => levelRoles.has(r));
+
+    const to: RoleSyncState = {
+        authorityLevel: matchedLevels.length > 0
+            ? Math.min(Math.max(AUTHORITY_LEVELS.USER, ...matchedLevels), MAX_SYNCED_LEVEL)
+            : hadSyncedLevel ? AUTHORITY_LEVELS.USER : from.authorityLevel,
+        roles: Array.from(new Set([
+            ...from.roles.filter(r => !managedRoles.has(r)),
+            ...matched.map(m => m.name),
+        ])),
+        permissions: Array.from(new Set([
+            ...from.permissions.filter(p => !managedPermissions.has(p)),
+            ...matched.flatMap(m => parseList(m.permissions)),
+        ])),
+    };
+
+    if (
+        from.authorityLevel === to.authorityLevel &&
+        sameSet(from.roles, to.roles) &&
+        sameSet(from.permissions, to.permissions)
+    ) {
+        return null;
+    }
+
+    const approvalRequired = from.authorityLevel !== to.authorityLevel &&
+        Math.max(from.authorityLevel, to.authorityLevel) >= AUTHORITY_LEVELS.ADMIN;
+
+    return { userId: user.id, email: user.email, discordId: user.discord_id, from, to, approvalRequired };
+}
+
+/**
+ * Ask for a second admin to approve an admin-level change, unless the same change is already waiting
+ * Bot pushes have no actor, so the member is recorded as requester - nobody approves their own change
+ * Returns false when the request already existed
+ */
+function requestAuthorityApproval(
+    change: RoleSyncChange,
+    actorId: string | null,
+    source: 'bot' | 'reconcile',
+    ip: string | null
+): boolean {
+    const pending = getPendingApprovalRequest('AUTHORITY_CHANGE_ADMIN', change.userId);
+    if (pending && JSON.parse(pending.action_data || '{}').newLevel === change.to.authorityLevel) return false;
+
+    createApprovalRequest({
+        requester_id: actorId ?? change.userId,
+        action_type: 'AUTHORITY_CHANGE_ADMIN',
+        target_user: change.userId,
+        action_data: JSON.stringify({ newLevel: change.to.authorityLevel, source: 'discord' }),
+        reason: `Discord role sync (${source}): authority ${change.from.authorityLevel} -> ${change.to.authorityLevel}`,
+    });
+
+    logAudit(
+        actorId,
+        'APPROVAL_REQUESTED',
+        change.userId,
+        `Requested approval for AUTHORITY_CHANGE_ADMIN: Discord role sync (${source})`,
+        ip
+    );
+    return true;
+}
+
+/**
+ * Write a computed change to the user and audit it
+ * Admin-level changes are not written - they go to the approvals queue instead
+ */
+export function applyRoleSync(
+    change: RoleSyncChange,
+    actorId: string | null,
+    source: 'bot' | 'reconcile',
+    ip: string | null
+): void {
+    const listsChanged = !sameSet(change.from.roles, change.to.roles) ||
+        !sameSet(change.from.permissions, change.to.permissions);
+
+    // Every bot push recomputes a change still waiting for approval - only record it once
+    if (change.approvalRequired && !requestAuthorityApproval(change, actorId, source, ip) && !listsChanged) return;
+
+    const before = getUserById(change.userId);
+    updateUser(change.userId, {
+        ...(change.approvalRequired ? {} : { authority_level: change.to.authorityLevel }),
+        roles: JSON.stringify(change.to.roles),
+        permissions: JSON.stringify(change.to.permissions),
+    });
+
+    logAudit(
+        actorId,
+        'DISCORD_ROLE_SYNC',
+        change.userId,
+        JSON.stringify({
+            source,
+            discordId: change.discordId,
+            from: change.from,
+            to: change.to,
+            approvalRequired: change.approvalRequired,
+        }),
+        ip
+    );
+    emitUserChanges(before, getUserById(change.userId), { source: 'discord' });
+}
+
+/**
+ * Record a member's current Discord roles (pushed by the bot) and apply them to the linked account
+ */
+export function syncMemberRoles(
+    discordId: string,
+    roleIds: string[],
+    ip: string | null
+): { linked: boolean; change: RoleSyncChange | null } {
+    setDiscordMemberRoles(discordId, roleIds);
+
+    const user = getUserByDiscordId(discordId);
+    if (!user) {
+        return { linked: false, change: null };
+    }
+
+    const change = computeRoleSync(user, roleIds, getDiscordRoleMappings());
+    if (change) {
+        applyRoleSync(change, null, 'bot', ip);
+    }
+
+    return { linked: true, change };
+}
+
+/**
+ * Compare every linked account with its last reported Discord roles
+ * Reports drift, and applies it when asked
+ */
+export function reconcileDiscordRoles(
+    apply: boolean,
+    actorId: string | null,
+    ip: string | null
+): RoleSyncChange[] {
+    const mappings = getDiscordRoleMappings();
+    const changes: RoleSyncChange[] = [];
+
+    for (const user of getAllUsers()) {
+        if (!user.discord_id) continue;
+
+        // Members the bot has never reported are left alone
+        const snapshot = getDiscordMemberRoles(user.discord_id);
+        if (!snapshot) continue;
+
+        const change = computeRoleSync(user, parseList(snapshot.role_ids), mappings);
+        if (!change) continue;
+
+        changes.push(change);
+        if (apply) {
+            applyRoleSync(change, actorId, 'reconcile', ip);
+        }
+    }
+
+    if (apply && changes.length > 0) {
+        logAudit(actorId, 'DISCORD_ROLE_RECONCILE', null, `Applied role drift for ${changes.length} users`, ip);
+    }
+
+    return changes;
+}
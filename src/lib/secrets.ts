@@ -0,0 +1,41 @@
+/**
+ * Server secrets
+ * The server secret every other key falls back to, key derivation, and the cipher for values
+ * Auth must read back in plaintext (vaulted mail passwords, webhook signing secrets)
+ */
+
+import crypto from 'crypto';
+
+// Development only - production refuses to start without SESSION_SECRET (see instrumentation.ts)
+const DEV_SERVER_SECRET = 'usgrp-auth-session-secret-at-least-32-characters';
+
+export function getServerSecret(): string {
+    return process.env.SESSION_SECRET || DEV_SERVER_SECRET;
+}
+
+/**
+ * 256-bit key from its own environment variable, or from the server secret when that is unset
+ */
+export function deriveKey(envVar: string): Buffer {
+    return crypto.createHash('sha256').update(process.env[envVar] || getServerSecret()).digest();
+}
+
+// AES-256-GCM, stored as iv.tag.ciphertext (base64url)
+export function encryptValue(key: Buffer, plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64url')).join('.');
+}
+
+// Null if the value was tampered with or encrypted under another key
+export function decryptValue(key: Buffer, value: string): string | null {
+    try {
+        const [iv, tag, ciphertext] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { fakeSession } from '@/test/fixtures';
+import {
+    beginPending2FA,
+    beginPendingPasswordChange,
+    hasPending2FA,
+    hasPendingPasswordChange
+} from './session';
+
+describe('pending login state', () => {
+    it('drops an earlier pending password change when a second factor is required', async () => {
+        const session = fakeSession();
+        await beginPendingPasswordChange(session as never, 'user-1', false);
+        expect(hasPendingPasswordChange(session)).toBe(true);
+
+        await beginPending2FA(session as never, 'user-1', false);
+        expect(hasPending2FA(session)).toBe(true);
+        expect(hasPendingPasswordChange(session)).toBe(false);
+        expect(session.pendingPasswordChange).toBeUndefined();
+    });
+
+    it('never treats a login waiting for its second factor as password-verified', () => {
+        const session = fakeSession({
+            pending2FA: true,
+            pendingPasswordChange: true,
+            pendingUserId: 'user-1',
+            pendingExpiresAt: Date.now() + 60 * 1000,
+        });
+        expect(hasPendingPasswordChange(session)).toBe(false);
+    });
+});
@@ -1,19 +1,31 @@
-import { SessionOptions } from 'iron-session';
-import { AuthToken } from './auth';
+import { IronSession, SessionOptions, getIronSession } from 'iron-session';
+import { cookies, headers } from 'next/headers';
+import { AuthToken, SessionTokens, refreshSession, buildAuthUser } from './auth';
+import { getActiveSession } from './sessionpolicy';
+import { getServerSecret } from './secrets';
 
 export interface SessionData {
     authToken?: string;
+    refreshToken?: string;
+    accessTokenExpiresAt?: number;
     user?: AuthToken;
     isLoggedIn: boolean;
     lastActivity?: number;
     pending2FA?: boolean;
     pendingUserId?: string;
-    // Stored for SSO credential passing to other services (base64 encoded)
-    mailCredentials?: string;
+    pendingRememberMe?: boolean;
+    pendingExpiresAt?: number;
+    pendingPasswordChange?: boolean;
+    discordState?: string;
+    discordIntent?: 'login' | 'link';
+    discordReturnUrl?: string;
+    discordStateExpiresAt?: number;
+    webauthnChallenge?: string;
+    webauthnChallengeExpiresAt?: number;
 }
 
 export const sessionOptions: SessionOptions = {
-    password: process.env.SESSION_SECRET || 'usgrp-auth-session-secret-at-least-32-characters',
+    password: getServerSecret(),
     cookieName: 'usgrp-auth-session',
     cookieOptions: {
         secure: process.env.NODE_ENV === 'production',
@@ -31,6 +43,178 @@ export const extendedSessionOptions: SessionOptions = {
     },
 };
 
+// How long a password-verified login may wait for its second factor
+export const PENDING_2FA_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// How long a verified login may sit at the change-password interstitial
+export const PENDING_PASSWORD_CHANGE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Refresh the access token when it has less than this left
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 60 * 1000; // 1 minute
+
 export const defaultSession: SessionData = {
     isLoggedIn: false,
 };
+
+// A cookie session whose Auth session is alive, with the user as the account is now
+export type AuthenticatedSession = IronSession<SessionData> & { user: AuthToken };
+
+// Check whether the session holds a pending 2FA login that has not expired
+export function hasPending2FA(session: SessionData): boolean {
+    return !!session.pending2FA &&
+        !!session.pendingUserId &&
+        !!session.pendingExpiresAt &&
+        session.pendingExpiresAt > Date.now();
+}
+
+// Check whether the session holds a verified login that must set a new password first
+// A login still waiting for its second factor is not verified, whatever an earlier attempt left behind
+export function hasPendingPasswordChange(session: SessionData): boolean {
+    return !session.pending2FA &&
+        !!session.pendingPasswordChange &&
+        !!session.pendingUserId &&
+        !!session.pendingExpiresAt &&
+        session.pendingExpiresAt > Date.now();
+}
+
+// Hold a password-verified login until its second factor is checked
+export async function beginPending2FA(
+    session: IronSession<SessionData>,
+    userId: string,
+    rememberMe: boolean
+): Promise<void> {
+    session.pending2FA = true;
+    session.pendingPasswordChange = undefined;
+    session.pendingUserId = userId;
+    session.pendingRememberMe = rememberMe;
+    session.pendingExpiresAt = Date.now() + PENDING_2FA_TTL_MS;
+    session.isLoggedIn = false;
+    await session.save();
+}
+
+// Park a fully verified login at the change-password interstitial - no Auth session exists until it is done
+export async function beginPendingPasswordChange(
+    session: IronSession<SessionData>,
+    userId: string,
+    rememberMe: boolean
+): Promise<void> {
+    session.pending2FA = false;
+    session.pendingPasswordChange = true;
+    session.pendingUserId = userId;
+    session.pendingRememberMe = rememberMe;
+    session.pendingExpiresAt = Date.now() + PENDING_PASSWORD_CHANGE_TTL_MS;
+    session.isLoggedIn = false;
+    await session.save();
+}
+
+export function clearPending2FA(session: SessionData): void {
+    session.pending2FA = false;
+    session.pendingPasswordChange = undefined;
+    session.pendingUserId = undefined;
+    session.pendingRememberMe = undefined;
+    session.pendingExpiresAt = undefined;
+}
+
+// Take the pending WebAuthn challenge - single use, null if missing or expired
+export function takeWebAuthnChallenge(session: SessionData): string | null {
+    const challenge = session.webauthnChallenge &&
+        (session.webauthnChallengeExpiresAt || 0) > Date.now()
+        ? session.webauthnChallenge
+        : null;
+    session.webauthnChallenge = undefined;
+    session.webauthnChallengeExpiresAt = undefined;
+    return challenge;
+}
+
+// Store a session's access and refresh tokens in the cookie
+export function setSessionTokens(session: IronSession<SessionData>, tokens: SessionTokens): void {
+    // Keep "remember me" cookies long-lived across refreshes
+    if (tokens.remembered) {
+        session.updateConfig(extendedSessionOptions);
+    }
+    session.authToken = tokens.token;
+    session.refreshToken = tokens.refreshToken;
+    session.accessTokenExpiresAt = Date.now() + tokens.expiresIn * 1000;
+}
+
+// Renew the access token shortly before it expires, and reload the user from the account
+// Returns false (and logs the cookie out) if the Auth session ended or the refresh token was rejected
+export async function ensureFreshAccessToken(
+    session: IronSession<SessionData>,
+    ip: string | null
+): Promise<boolean> {
+    if (!session.isLoggedIn || !session.user) return false;
+
+    // Idle, expired, revoked or disabled sessions end here rather than at the next refresh
+    const active = getActiveSession(session.user.sessionId, ip);
+    if (!active || active.session.user_id !== session.user.userId || !active.user.enabled || active.user.suspended) {
+        session.destroy();
+        return false;
+    }
+
+    // A demotion or permission change applies to the next request, not the next sign-in
+    const user = { ...buildAuthUser(active.user), sessionId: active.session.id };
+    const userChanged = JSON.stringify(user) !== JSON.stringify(session.user);
+    session.user = user;
+
+    // Sessions created before refresh tokens keep their long-lived token until it expires
+    if (!session.refreshToken || (session.accessTokenExpiresAt || 0) - Date.now() > ACCESS_TOKEN_REFRESH_MARGIN_MS) {
+        if (userChanged) await session.save();
+        return true;
+    }
+
+    const result = await refreshSession(session.refreshToken, ip);
+    // A parallel request won the refresh and is setting the new cookie - leave this one alone
+    if (result.superseded) {
+        return (session.accessTokenExpiresAt || 0) > Date.now();
+    }
+    if (!result.success || !result.tokens) {
+        session.destroy();
+        return false;
+    }
+
+    setSessionTokens(session, result.tokens);
+    session.user = {
+        ...result.tokens.user,
+        sessionId: result.tokens.sessionId,
+    };
+    await session.save();
+    return true;
+}
+
+/**
+ * Guard for every cookie-authenticated route - null unless the Auth session behind the cookie
+ * is still alive. Sessions ended by an admin, a global sign-out, the idle or concurrent-session
+ * limits or "this wasn't me" are rejected and their cookie cleared; session.user is reloaded
+ * from the account. Pass the route's session when it will also be saved, so both see one cookie
+ */
+export async function getAuthenticatedSession(
+    session?: IronSession<SessionData>
+): Promise<AuthenticatedSession | null> {
+    const current = session ?? await getIronSession<SessionData>(await cookies(), sessionOptions);
+    if (!current.isLoggedIn || !current.user) return null;
+
+    const headerList = await headers();
+    const ip = headerList.get('x-forwarded-for')?.split(',')[0] ||
+        headerList.get('x-real-ip') ||
+        'unknown';
+
+    if (!await ensureFreshAccessToken(current, ip)) return null;
+    return current as AuthenticatedSession;
+}
+
+// Finish a pending 2FA login (or password change) with a freshly created Auth session
+export async function completePendingLogin(
+    session: IronSession<SessionData>,
+    result: SessionTokens
+): Promise<void> {
+    setSessionTokens(session, result);
+    session.user = {
+        ...result.user,
+        sessionId: result.sessionId,
+    };
+    session.isLoggedIn = true;
+    session.lastActivity = Date.now();
+    clearPending2FA(session);
+    await session.save();
+}
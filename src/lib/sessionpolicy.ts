@@ -0,0 +1,235 @@
+/**
+ * Session lifetime policy
+ * Idle timeouts per authority level on top of each session's absolute lifetime,
+ * checked on every validated request and swept in the background; plus the
+ * per-level limit on concurrent sessions
+ */
+
+import {
+    getSessionById,
+    getUserById,
+    getUserSessions,
+    updateSessionActivity,
+    deleteSession,
+    deleteIdleSessions,
+    cleanExpiredSessions,
+    logAudit,
+    type Session,
+    type User
+} from './db';
+import { AUTHORITY_LEVELS, parseAuthorityLevelSetting, getAuthorityLevelSetting } from './roles';
+import { startBackgroundJob } from './jobs';
+
+// Minutes without activity before a session ends, by authority level ("level:minutes" pairs)
+const SESSION_IDLE_TIMEOUT_MINUTES = parseAuthorityLevelSetting(
+    process.env.SESSION_IDLE_TIMEOUT_MINUTES || '0:60,3:30,5:15'
+);
+
+// "Remember me" sessions are meant to outlive a closed browser, so they get their own (longer) limits
+const REMEMBERED_SESSION_IDLE_TIMEOUT_MINUTES = parseAuthorityLevelSetting(
+    process.env.REMEMBERED_SESSION_IDLE_TIMEOUT_MINUTES || '0:10080,3:1440'
+);
+
+// Validated requests only write last_active this often
+const ACTIVITY_UPDATE_INTERVAL_SECONDS = 60;
+
+// The dashboard warns this long before an idle session ends
+export const IDLE_WARNING_SECONDS = 120;
+
+const SESSION_SWEEP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Concurrent sessions by authority level: "level:max:mode" triplets, e.g. "0:5:evict,5:2:deny"
+// evict signs out the least recently used session to make room; deny refuses the new sign-in
+const SESSION_LIMITS = parseSessionLimits(process.env.SESSION_LIMITS || '0:5:evict,5:3:evict');
+
+export type SessionLimitMode = 'evict' | 'deny';
+
+export interface SessionLimit {
+    max: number;
+    mode: SessionLimitMode;
+}
+
+export type SessionLifetimeStatus = 'active' | 'idle' | 'expired';
+
+export interface ActiveSession {
+    session: Session;
+    user: User;
+    expiresAt: Date;
+    idleExpiresAt: Date | null;  // null when the user's level has no idle limit
+    idleTimeoutMinutes: number | null;
+}
+
+function parseSessionLimits(value: string): (SessionLimit & { level: number })[] {
+    return value.split(',')
+        .map(triplet => triplet.split(':').map(part => part.trim()))
+        .map(([level, max, mode]) => ({
+            level: parseInt(level),
+            max: parseInt(max),
+            mode: (mode === 'deny' ? 'deny' : 'evict') as SessionLimitMode,
+        }))
+        .filter(limit => !isNaN(limit.level) && limit.max > 0)
+        .sort((a, b) => b.level - a.level);
+}
+
+// SQLite datetime('now') values are UTC without a zone
+export function parseDbTimestamp(value: string): Date {
+    return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+export function getIdleTimeoutMinutes(authorityLevel: number, remembered: boolean): number | null {
+    return getAuthorityLevelSetting(
+        remembered ? REMEMBERED_SESSION_IDLE_TIMEOUT_MINUTES : SESSION_IDLE_TIMEOUT_MINUTES,
+        authorityLevel
+    );
+}
+
+export function getIdleExpiry(session: Session, authorityLevel: number): Date | null {
+    const minutes = getIdleTimeoutMinutes(authorityLevel, session.is_remembered === 1);
+    if (!minutes) return null;
+    return new Date(parseDbTimestamp(session.last_active).getTime() + minutes * 60 * 1000);
+}
+
+export function checkSessionLifetime(session: Session, authorityLevel: number): SessionLifetimeStatus {
+    const now = Date.now();
+    if (new Date(session.expires_at).getTime() <= now) return 'expired';
+
+    const idleExpiry = getIdleExpiry(session, authorityLevel);
+    return idleExpiry && idleExpiry.getTime() <= now ? 'idle' : 'active';
+}
+
+/**
+ * End a session that outlived its idle or absolute limit
+ */
+export function endInactiveSession(session: Session, status: Exclude<SessionLifetimeStatus, 'active'>, ip: string | null): void {
+    if (!deleteSession(session.id, status)) return;
+    logAudit(
+        session.user_id,
+        status === 'idle' ? 'SESSION_IDLE_TIMEOUT' : 'SESSION_EXPIRED',
+        session.id,
+        session.device_name,
+        ip
+    );
+}
+
+/**
+ * Look up a session and its user, ending it first if it is idle or past its lifetime
+ * Returns null for missing, ended or disabled sessions
+ */
+export function getActiveSession(sessionId: string, ip: string | null): ActiveSession | null {
+    const session = getSessionById(sessionId);
+    if (!session) return null;
+
+    const user = getUserById(session.user_id);
+    if (!user) return null;
+
+    const status = checkSessionLifetime(session, user.authority_level);
+    if (status !== 'active') {
+        endInactiveSession(session, status, ip);
+        return null;
+    }
+
+    return {
+        session,
+        user,
+        expiresAt: new Date(session.expires_at),
+        idleExpiresAt: getIdleExpiry(session, user.authority_level),
+        idleTimeoutMinutes: getIdleTimeoutMinutes(user.authority_level, session.is_remembered === 1),
+    };
+}
+
+/**
+ * Count a validated request as activity (throttled - at most one write per interval)
+ */
+export function recordSessionActivity(sessionId: string, force = false): void {
+    updateSessionActivity(sessionId, force ? 0 : ACTIVITY_UPDATE_INTERVAL_SECONDS);
+}
+
+/**
+ * Delete expired and idle sessions - returns how many ended
+ */
+export function sweepSessions(): number {
+    let ended = cleanExpiredSessions();
+
+    for (const level of Object.values(AUTHORITY_LEVELS)) {
+        for (const remembered of [false, true]) {
+            const minutes = getIdleTimeoutMinutes(level, remembered);
+            if (!minutes) continue;
+
+            for (const session of deleteIdleSessions(level, remembered, minutes)) {
+                logAudit(session.user_id, 'SESSION_IDLE_TIMEOUT', session.id, session.device_name, null);
+                ended++;
+            }
+        }
+    }
+
+    return ended;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+/**
+ * Run the sweeper on a timer for the life of the server process
+ */
+export function startSessionSweeper(): void {
+    if (sweeper) return;
+
+    sweeper = startBackgroundJob('Session sweep', SESSION_SWEEP_INTERVAL_MS, sweepSessions);
+}
+
+// ============================================
+// Concurrent session limit
+// ============================================
+
+// null when the user's level has no limit
+export function getSessionLimit(authorityLevel: number): SessionLimit | null {
+    const limit = SESSION_LIMITS.find(entry => entry.level <= authorityLevel);
+    return limit ? { max: limit.max, mode: limit.mode } : null;
+}
+
+/**
+ * Whether the user may open another session - only deny-mode limits refuse
+ * Call once the user has proven who they are, before creating the session
+ */
+export function checkSessionLimit(user: User): { allowed: boolean; error?: string } {
+    const limit = getSessionLimit(user.authority_level);
+    if (!limit || limit.mode !== 'deny') return { allowed: true };
+
+    const active = getUserSessions(user.id).length;
+    if (active < limit.max) return { allowed: true };
+
+    return {
+        allowed: false,
+        error: `You are already signed in on ${active} device${active === 1 ? '' : 's'}, the most allowed for your account. ` +
+            'Sign out on another device first.',
+    };
+}
+
+/**
+ * Sign out the least recently used sessions beyond the user's limit
+ * keepSessionId (a session being created) is never evicted; returns the evicted sessions
+ */
+export function enforceSessionLimit(user: User, ip: string | null, keepSessionId?: string): Session[] {
+    const limit = getSessionLimit(user.authority_level);
+    if (!limit) return [];
+
+    // Most recently active first; the kept session always counts against the limit
+    const others = getUserSessions(user.id)
+        .filter(s => s.id !== keepSessionId)
+        .sort((a, b) => parseDbTimestamp(b.last_active).getTime() - parseDbTimestamp(a.last_active).getTime());
+    const room = keepSessionId ? limit.max - 1 : limit.max;
+    const evicted = others.slice(Math.max(room, 0));
+
+    for (const session of evicted) {
+        if (deleteSession(session.id, 'evicted')) {
+            logAudit(
+                user.id,
+                'SESSION_EVICTED',
+                session.id,
+                { device: session.device_name, ip: session.ip, lastActive: session.last_active, limit: limit.max },
+                ip
+            );
+        }
+    }
+
+    return evicted;
+}
@@ -0,0 +1,66 @@
+/**
+ * SSO handoff
+ * The browser carries only a short-lived, single-use code back to the service; the service
+ * trades it server-to-server for an access token, so tokens never appear in a URL
+ */
+
+import crypto from 'crypto';
+import { createSsoHandoffCode, consumeSsoHandoffCode, cleanExpiredSsoHandoffCodes } from './db';
+import { ACCESS_TOKEN_DURATION, buildAuthUser, createToken, type AuthToken } from './auth';
+import { getActiveSession } from './sessionpolicy';
+
+const SSO_CODE_TTL = 60; // seconds
+
+function hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Issue a one-time code for the signed-in session, to hand to the service at hostname
+ */
+export function issueSsoCode(userId: string, sessionId: string, service: string): string {
+    cleanExpiredSsoHandoffCodes();
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    createSsoHandoffCode({
+        code_hash: hashCode(code),
+        user_id: userId,
+        session_id: sessionId,
+        service,
+        expires_at: new Date(Date.now() + SSO_CODE_TTL * 1000).toISOString(),
+    });
+
+    return code;
+}
+
+/**
+ * Redeem a handoff code for a fresh access token on the session that issued it
+ */
+export async function redeemSsoCode(
+    code: string,
+    ip: string | null
+): Promise<{ grant?: { token: string; expiresIn: number; user: AuthToken; service: string }; error?: string }> {
+    const handoff = consumeSsoHandoffCode(hashCode(code));
+
+    if (!handoff || handoff.used || new Date(handoff.expires_at) < new Date()) {
+        return { error: 'Invalid or expired code' };
+    }
+
+    // The code dies with the Auth session that requested it
+    const active = getActiveSession(handoff.session_id, ip);
+    if (!active || active.user.id !== handoff.user_id) {
+        return { error: 'Session not found or expired' };
+    }
+    if (!active.user.enabled || active.user.suspended) {
+        return { error: 'User disabled' };
+    }
+
+    return {
+        grant: {
+            token: await createToken(active.user, active.session.id),
+            expiresIn: ACCESS_TOKEN_DURATION,
+            user: { ...buildAuthUser(active.user), sessionId: active.session.id },
+            service: handoff.service,
+        },
+    };
+}
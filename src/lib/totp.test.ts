@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyTotp } from './totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890"); codes are the last 6 digits of its SHA-1 vectors
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const CODE_AT_59S = '287082';           // counter 1
+const CODE_AT_1111111109S = '081804';   // counter 37037036
+
+describe('verifyTotp', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('accepts the current code and returns its counter', () => {
+        vi.setSystemTime(59 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_59S)).toBe(1);
+        expect(verifyTotp(SECRET, '287 082')).toBe(1);
+    });
+
+    it('accepts a code from one step before or after', () => {
+        vi.setSystemTime(1111111079 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_1111111109S)).toBe(37037036);
+
+        vi.setSystemTime(1111111110 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_1111111109S)).toBe(37037036);
+    });
+
+    it('rejects a code outside the drift window', () => {
+        vi.setSystemTime(1111111049 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_1111111109S)).toBeNull();
+
+        vi.setSystemTime(1111111140 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_1111111109S)).toBeNull();
+    });
+
+    it('rejects a replayed code', () => {
+        vi.setSystemTime(59 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_59S, 1)).toBeNull();
+        expect(verifyTotp(SECRET, CODE_AT_59S, 2)).toBeNull();
+    });
+
+    it('accepts a code newer than the last used one', () => {
+        vi.setSystemTime(59 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_59S, 0)).toBe(1);
+
+        vi.setSystemTime(1111111109 * 1000);
+        expect(verifyTotp(SECRET, CODE_AT_1111111109S, 37037035)).toBe(37037036);
+    });
+
+    it('rejects malformed codes and secrets', () => {
+        vi.setSystemTime(59 * 1000);
+        expect(verifyTotp(SECRET, '28708')).toBeNull();
+        expect(verifyTotp(SECRET, '2870820')).toBeNull();
+        expect(verifyTotp(SECRET, 'abcdef')).toBeNull();
+        expect(verifyTotp('not base32!', CODE_AT_59S)).toBeNull();
+    });
+});
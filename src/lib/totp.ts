@@ -0,0 +1,140 @@
+/**
+ * TOTP (RFC 6238) implementation
+ * Generates authenticator secrets and verifies time-based one-time codes
+ */
+
+import crypto from 'crypto';
+
+const TOTP_ISSUER = 'USGRP Auth';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD = 30; // seconds
+const TOTP_DRIFT_STEPS = 1; // Accept codes from one step before/after
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+}
+
+function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+// HOTP (RFC 4226) for a single counter value
+function generateHotp(secret: Buffer, counter: number): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+        ((hmac[offset] & 0x7f) << 24) |
+        (hmac[offset + 1] << 16) |
+        (hmac[offset + 2] << 8) |
+        hmac[offset + 3];
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Generate a new random base32 TOTP secret (160 bits)
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Build the otpauth:// URI used by authenticator apps
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Get the TOTP time-step counter for a timestamp
+ */
+export function getTotpCounter(timestamp = Date.now()): number {
+    return Math.floor(timestamp / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Verify a TOTP code against a secret
+ *
+ * Returns the matched time-step counter, or null if the code is invalid.
+ * Codes for a counter at or below lastUsedCounter are rejected to prevent replay.
+ */
+export function verifyTotp(
+    secret: string,
+    code: string,
+    lastUsedCounter: number | null = null
+): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+        return null;
+    }
+
+    let key: Buffer;
+    try {
+        key = base32Decode(secret);
+    } catch {
+        return null;
+    }
+
+    const current = getTotpCounter();
+    for (let step = -TOTP_DRIFT_STEPS; step <= TOTP_DRIFT_STEPS; step++) {
+        const counter = current + step;
+        if (lastUsedCounter !== null && counter <= lastUsedCounter) {
+            continue;
+        }
+
+        const expected = generateHotp(key, counter);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return counter;
+        }
+    }
+
+    return null;
+}
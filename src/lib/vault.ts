@@ -0,0 +1,91 @@
+/**
+ * Mail credential vault
+ * Keeps mail passwords encrypted server-side and releases them to USGRP Mail
+ * only through short-lived, single-use exchange codes
+ */
+
+import crypto from 'crypto';
+import {
+    getUserById,
+    getSessionById,
+    setMailCredential,
+    getMailCredential,
+    deleteMailCredential,
+    createMailExchangeCode,
+    consumeMailExchangeCode,
+    cleanExpiredMailExchangeCodes
+} from './db';
+import { deriveKey, encryptValue, decryptValue } from './secrets';
+
+const VAULT_KEY = deriveKey('MAIL_VAULT_KEY');
+
+const EXCHANGE_CODE_TTL = 60; // seconds
+
+function hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Store the user's current mail password (called whenever a correct password is presented)
+ */
+export function storeMailPassword(userId: string, password: string): void {
+    setMailCredential(userId, encryptValue(VAULT_KEY, password));
+}
+
+/**
+ * Drop the user's vaulted mail password - outstanding exchange codes then redeem nothing
+ */
+export function forgetMailPassword(userId: string): void {
+    deleteMailCredential(userId);
+}
+
+/**
+ * Issue a one-time code USGRP Mail can exchange for the user's mail credentials
+ * Returns null if nothing is vaulted for the user
+ */
+export function issueMailExchangeCode(userId: string, sessionId: string): string | null {
+    if (!getMailCredential(userId)) return null;
+
+    cleanExpiredMailExchangeCodes();
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    createMailExchangeCode({
+        code_hash: hashCode(code),
+        user_id: userId,
+        session_id: sessionId,
+        expires_at: new Date(Date.now() + EXCHANGE_CODE_TTL * 1000).toISOString(),
+    });
+
+    return code;
+}
+
+/**
+ * Redeem an exchange code for mail credentials
+ */
+export function redeemMailExchangeCode(
+    code: string
+): { credentials?: { userId: string; email: string; password: string }; error?: string } {
+    const grant = consumeMailExchangeCode(hashCode(code));
+
+    if (!grant || grant.used || new Date(grant.expires_at) < new Date()) {
+        return { error: 'Invalid or expired code' };
+    }
+
+    // The code dies with the Auth session that requested it
+    if (!getSessionById(grant.session_id)) {
+        return { error: 'Session not found or expired' };
+    }
+
+    const user = getUserById(grant.user_id);
+    if (!user || !user.enabled || user.suspended) {
+        return { error: 'User disabled' };
+    }
+
+    const encrypted = getMailCredential(user.id);
+    const password = encrypted ? decryptValue(VAULT_KEY, encrypted) : null;
+    if (!password) {
+        return { error: 'No mail credentials stored' };
+    }
+
+    return { credentials: { userId: user.id, email: user.email, password } };
+}
@@ -0,0 +1,98 @@
+/**
+ * Browser side of the WebAuthn ceremonies
+ * Converts the JSON options from /api/auth/webauthn/* to the binary form
+ * navigator.credentials expects, and serializes the result back to JSON
+ */
+
+function fromBase64url(value: string): ArrayBuffer {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+}
+
+function toBase64url(buffer: ArrayBuffer): string {
+    let binary = '';
+    for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+interface CredentialDescriptorJSON {
+    type: 'public-key';
+    id: string;
+    transports?: AuthenticatorTransport[];
+}
+
+function toDescriptors(list: CredentialDescriptorJSON[] = []): PublicKeyCredentialDescriptor[] {
+    return list.map(c => ({ ...c, id: fromBase64url(c.id) }));
+}
+
+export function isWebAuthnSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.PublicKeyCredential;
+}
+
+/**
+ * Create a credential from registration options
+ */
+export async function createCredential(options: {
+    rp: PublicKeyCredentialRpEntity;
+    user: { id: string; name: string; displayName: string };
+    challenge: string;
+    pubKeyCredParams: PublicKeyCredentialParameters[];
+    timeout: number;
+    attestation: AttestationConveyancePreference;
+    excludeCredentials: CredentialDescriptorJSON[];
+    authenticatorSelection: AuthenticatorSelectionCriteria;
+    extensions: AuthenticationExtensionsClientInputs;
+}) {
+    const credential = await navigator.credentials.create({
+        publicKey: {
+            ...options,
+            user: { ...options.user, id: fromBase64url(options.user.id) },
+            challenge: fromBase64url(options.challenge),
+            excludeCredentials: toDescriptors(options.excludeCredentials),
+        },
+    }) as PublicKeyCredential;
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    return {
+        id: credential.id,
+        response: {
+            clientDataJSON: toBase64url(response.clientDataJSON),
+            attestationObject: toBase64url(response.attestationObject),
+            transports: response.getTransports?.() || [],
+        },
+        clientExtensionResults: credential.getClientExtensionResults(),
+    };
+}
+
+/**
+ * Sign a challenge with an existing credential
+ */
+export async function getAssertion(options: {
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: UserVerificationRequirement;
+    allowCredentials: CredentialDescriptorJSON[];
+}) {
+    const credential = await navigator.credentials.get({
+        publicKey: {
+            ...options,
+            challenge: fromBase64url(options.challenge),
+            allowCredentials: toDescriptors(options.allowCredentials),
+        },
+    }) as PublicKeyCredential;
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return {
+        id: credential.id,
+        response: {
+            clientDataJSON: toBase64url(response.clientDataJSON),
+            authenticatorData: toBase64url(response.authenticatorData),
+            signature: toBase64url(response.signature),
+            userHandle: response.userHandle ? toBase64url(response.userHandle) : null,
+        },
+    };
+}
@@ -0,0 +1,338 @@
+/**
+ * WebAuthn (security keys and passkeys)
+ * Registration and assertion ceremonies verified with Node crypto.
+ * Attestation is not requested, so only the credential's public key is trusted.
+ */
+
+import crypto from 'crypto';
+import type { User, WebAuthnCredential } from './db';
+
+const WEBAUTHN_ORIGIN = process.env.WEBAUTHN_ORIGIN || process.env.AUTH_URL || 'https://auth.usgrp.xyz';
+const WEBAUTHN_RP_ID = process.env.WEBAUTHN_RP_ID || new URL(WEBAUTHN_ORIGIN).hostname;
+const WEBAUTHN_RP_NAME = 'USGRP Auth';
+const WEBAUTHN_TIMEOUT_MS = 5 * 60 * 1000;
+
+// How long a ceremony's challenge stays valid
+export const WEBAUTHN_CHALLENGE_TTL_MS = WEBAUTHN_TIMEOUT_MS;
+
+// COSE algorithms we accept: ES256, EdDSA, RS256
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_RS256 = -257;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_DATA = 0x40;
+
+// JSON forms of PublicKeyCredential sent by the browser (binary fields base64url)
+export interface RegistrationResponseJSON {
+    id: string;
+    response: {
+        clientDataJSON: string;
+        attestationObject: string;
+        transports?: string[];
+    };
+    clientExtensionResults?: { credProps?: { rk?: boolean } };
+}
+
+export interface AuthenticationResponseJSON {
+    id: string;
+    response: {
+        clientDataJSON: string;
+        authenticatorData: string;
+        signature: string;
+        userHandle?: string | null;
+    };
+}
+
+// ============================================
+// CBOR / COSE decoding
+// ============================================
+
+type CborValue = number | string | boolean | null | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+// Minimal CBOR decoder covering what authenticators emit (no tags, floats or indefinite lengths)
+function decodeCbor(buffer: Buffer, start = 0): { value: CborValue; end: number } {
+    let offset = start;
+
+    const readLength = (info: number): number => {
+        if (info < 24) return info;
+        if (info === 24) return buffer.readUInt8(offset++);
+        if (info === 25) { offset += 2; return buffer.readUInt16BE(offset - 2); }
+        if (info === 26) { offset += 4; return buffer.readUInt32BE(offset - 4); }
+        throw new Error('Unsupported CBOR length');
+    };
+
+    const read = (): CborValue => {
+        const initial = buffer.readUInt8(offset++);
+        const info = initial & 0x1f;
+
+        switch (initial >> 5) {
+            case 0:
+                return readLength(info);
+            case 1:
+                return -1 - readLength(info);
+            case 2: {
+                const length = readLength(info);
+                offset += length;
+                return Buffer.from(buffer.subarray(offset - length, offset));
+            }
+            case 3: {
+                const length = readLength(info);
+                offset += length;
+                return buffer.subarray(offset - length, offset).toString('utf8');
+            }
+            case 4: {
+                const length = readLength(info);
+                const items: CborValue[] = [];
+                for (let i = 0; i < length; i++) items.push(read());
+                return items;
+            }
+            case 5: {
+                const length = readLength(info);
+                const map = new Map<CborValue, CborValue>();
+                for (let i = 0; i < length; i++) {
+                    const key = read();
+                    map.set(key, read());
+                }
+                return map;
+            }
+            case 7:
+                if (info === 20) return false;
+                if (info === 21) return true;
+                if (info === 22) return null;
+        }
+        throw new Error('Unsupported CBOR item');
+    };
+
+    const value = read();
+    return { value, end: offset };
+}
+
+// Convert a COSE_Key to an SPKI PEM public key
+function coseToPublicKey(cose: Map<CborValue, CborValue>): { publicKey: string; alg: number } {
+    const alg = cose.get(3) as number;
+    const b64 = (label: number) => (cose.get(label) as Buffer).toString('base64url');
+
+    let jwk: crypto.JsonWebKey;
+    if (alg === COSE_ALG_ES256 && cose.get(1) === 2 && cose.get(-1) === 1) {
+        jwk = { kty: 'EC', crv: 'P-256', x: b64(-2), y: b64(-3) };
+    } else if (alg === COSE_ALG_EDDSA && cose.get(1) === 1 && cose.get(-1) === 6) {
+        jwk = { kty: 'OKP', crv: 'Ed25519', x: b64(-2) };
+    } else if (alg === COSE_ALG_RS256 && cose.get(1) === 3) {
+        jwk = { kty: 'RSA', n: b64(-1), e: b64(-2) };
+    } else {
+        throw new Error('Unsupported credential algorithm');
+    }
+
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' })
+        .export({ type: 'spki', format: 'pem' }) as string;
+    return { publicKey, alg };
+}
+
+function parseAuthenticatorData(authData: Buffer): {
+    rpIdHash: Buffer;
+    flags: number;
+    signCount: number;
+    credentialId?: string;
+    cose?: Map<CborValue, CborValue>;
+} {
+    const rpIdHash = authData.subarray(0, 32);
+    const flags = authData.readUInt8(32);
+    const signCount = authData.readUInt32BE(33);
+
+    if (!(flags & FLAG_ATTESTED_DATA)) {
+        return { rpIdHash, flags, signCount };
+    }
+
+    // aaguid (16 bytes) precedes the credential ID length
+    const idLength = authData.readUInt16BE(53);
+    const credentialId = authData.subarray(55, 55 + idLength).toString('base64url');
+    const { value } = decodeCbor(authData, 55 + idLength);
+
+    return { rpIdHash, flags, signCount, credentialId, cose: value as Map<CborValue, CborValue> };
+}
+
+// ============================================
+// Ceremonies
+// ============================================
+
+export function generateWebAuthnChallenge(): string {
+    return crypto.randomBytes(32).toString('base64url');
+}
+
+// Common checks on clientDataJSON and authenticator data; returns an error message or null
+function checkCeremony(
+    clientDataJSON: string,
+    type: 'webauthn.create' | 'webauthn.get',
+    expectedChallenge: string,
+    rpIdHash: Buffer,
+    flags: number,
+    requireUserVerification: boolean
+): string | null {
+    let clientData: { type?: string; challenge?: string; origin?: string };
+    try {
+        clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+    } catch {
+        return 'Malformed client data';
+    }
+
+    if (clientData.type !== type) return 'Unexpected ceremony type';
+    if (clientData.challenge !== expectedChallenge) return 'Challenge mismatch';
+    if (clientData.origin !== WEBAUTHN_ORIGIN) return 'Origin mismatch';
+
+    const expectedRpIdHash = crypto.createHash('sha256').update(WEBAUTHN_RP_ID).digest();
+    if (!crypto.timingSafeEqual(rpIdHash, expectedRpIdHash)) return 'Relying party mismatch';
+    if (!(flags & FLAG_USER_PRESENT)) return 'User presence required';
+    if (requireUserVerification && !(flags & FLAG_USER_VERIFIED)) return 'User verification required';
+
+    return null;
+}
+
+/**
+ * Options for navigator.credentials.create()
+ */
+export function getRegistrationOptions(user: User, existing: WebAuthnCredential[], challenge: string) {
+    return {
+        rp: { id: WEBAUTHN_RP_ID, name: WEBAUTHN_RP_NAME },
+        user: {
+            id: Buffer.from(user.id).toString('base64url'),
+            name: user.email,
+            displayName: user.display_name,
+        },
+        challenge,
+        pubKeyCredParams: [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256].map(alg => ({ type: 'public-key', alg })),
+        timeout: WEBAUTHN_TIMEOUT_MS,
+        attestation: 'none',
+        excludeCredentials: existing.map(c => ({
+            type: 'public-key',
+            id: c.id,
+            transports: JSON.parse(c.transports || '[]'),
+        })),
+        authenticatorSelection: {
+            residentKey: 'preferred',
+            userVerification: 'preferred',
+        },
+        extensions: { credProps: true },
+    };
+}
+
+/**
+ * Verify a registration response against the challenge that was issued
+ */
+export function verifyRegistration(
+    response: RegistrationResponseJSON,
+    expectedChallenge: string
+): {
+    credential?: { id: string; publicKey: string; alg: number; signCount: number; transports: string[]; isPasskey: boolean };
+    error?: string;
+} {
+    try {
+        const { value } = decodeCbor(Buffer.from(response.response.attestationObject, 'base64url'));
+        const authData = (value as Map<CborValue, CborValue>).get('authData') as Buffer;
+        const parsed = parseAuthenticatorData(authData);
+
+        const error = checkCeremony(
+            response.response.clientDataJSON,
+            'webauthn.create',
+            expectedChallenge,
+            parsed.rpIdHash,
+            parsed.flags,
+            false
+        );
+        if (error) return { error };
+
+        if (!parsed.credentialId || !parsed.cose || parsed.credentialId !== response.id) {
+            return { error: 'Missing credential data' };
+        }
+
+        const { publicKey, alg } = coseToPublicKey(parsed.cose);
+
+        return {
+            credential: {
+                id: parsed.credentialId,
+                publicKey,
+                alg,
+                signCount: parsed.signCount,
+                transports: response.response.transports || [],
+                isPasskey: response.clientExtensionResults?.credProps?.rk === true,
+            },
+        };
+    } catch (e) {
+        console.error('WebAuthn registration parse error:', e);
+        return { error: 'Invalid registration response' };
+    }
+}
+
+/**
+ * Options for navigator.credentials.get()
+ * Without credentials the browser offers any discoverable passkey for this site
+ */
+export function getAuthenticationOptions(challenge: string, credentials?: WebAuthnCredential[]) {
+    return {
+        challenge,
+        rpId: WEBAUTHN_RP_ID,
+        timeout: WEBAUTHN_TIMEOUT_MS,
+        userVerification: credentials ? 'preferred' : 'required',
+        allowCredentials: (credentials || []).map(c => ({
+            type: 'public-key',
+            id: c.id,
+            transports: JSON.parse(c.transports || '[]'),
+        })),
+    };
+}
+
+/**
+ * Verify an assertion made with a stored credential
+ * Passwordless sign-in requires user verification (PIN or biometric) so the key counts as both factors
+ */
+export function verifyAuthentication(
+    response: AuthenticationResponseJSON,
+    expectedChallenge: string,
+    credential: WebAuthnCredential,
+    requireUserVerification: boolean
+): { signCount?: number; error?: string } {
+    try {
+        const authData = Buffer.from(response.response.authenticatorData, 'base64url');
+        const parsed = parseAuthenticatorData(authData);
+
+        const error = checkCeremony(
+            response.response.clientDataJSON,
+            'webauthn.get',
+            expectedChallenge,
+            parsed.rpIdHash,
+            parsed.flags,
+            requireUserVerification
+        );
+        if (error) return { error };
+
+        const clientDataHash = crypto.createHash('sha256')
+            .update(Buffer.from(response.response.clientDataJSON, 'base64url'))
+            .digest();
+        const valid = crypto.verify(
+            credential.alg === COSE_ALG_EDDSA ? null : 'sha256',
+            Buffer.concat([authData, clientDataHash]),
+            credential.public_key,
+            Buffer.from(response.response.signature, 'base64url')
+        );
+        if (!valid) return { error: 'Invalid signature' };
+
+        // A counter that fails to increase suggests a cloned authenticator
+        if ((parsed.signCount > 0 || credential.sign_count > 0) && parsed.signCount <= credential.sign_count) {
+            return { error: 'Signature counter did not increase' };
+        }
+
+        return { signCount: parsed.signCount };
+    } catch (e) {
+        console.error('WebAuthn assertion parse error:', e);
+        return { error: 'Invalid authentication response' };
+    }
+}
+
+/**
+ * The user handle a passkey returns is the base64url user ID set at registration
+ */
+export function userIdFromHandle(userHandle: string): string {
+    return Buffer.from(userHandle, 'base64url').toString('utf8');
+}
@@ -0,0 +1,326 @@
+/**
+ * Outbound webhooks
+ * Identity lifecycle events are queued for every endpoint subscribed to them and delivered in the
+ * background, signed with the endpoint's secret. Failed deliveries are retried with exponential
+ * backoff, and every attempt is recorded in the delivery log
+ *
+ * Receivers verify X-USGRP-Signature ("t=<unix seconds>,v1=<hex>") by computing
+ * HMAC-SHA256(secret, `${t}.${body}`) and rejecting stale timestamps to stop replays
+ */
+
+import crypto from 'crypto';
+import {
+    getWebhook,
+    getWebhooksForEvent,
+    createWebhookDelivery,
+    getWebhookDelivery,
+    getDueWebhookDeliveries,
+    updateWebhookDelivery,
+    cleanOldWebhookDeliveries,
+    logAudit,
+    type User,
+    type Webhook,
+    type WebhookDelivery
+} from './db';
+import { deriveKey, encryptValue, decryptValue } from './secrets';
+import { startBackgroundJob } from './jobs';
+
+export const WEBHOOK_EVENTS = {
+    'user.created': 'User created',
+    'user.updated': 'Email, name, Discord link, roles, permissions or enabled changed',
+    'user.suspended': 'User suspended',
+    'user.unsuspended': 'User unsuspended',
+    'user.authority_changed': 'Authority level changed',
+    'user.deleted': 'User deleted',
+} as const;
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+// Sent by "Send test event" whatever the webhook subscribes to
+const TEST_EVENT = 'webhook.test';
+
+const SECRET_PREFIX = 'whsec_';
+
+// Signing secrets are needed in plaintext to sign, so they are stored encrypted rather than hashed
+const SECRET_KEY = deriveKey('WEBHOOK_SECRET_KEY');
+
+const DELIVERY_INTERVAL_MS = parseInt(process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS || '5') * 1000;
+
+// Attempts before a delivery is marked failed - about three hours with the default backoff
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10');
+
+// Finished deliveries stay in the log this long
+const DELIVERY_RETENTION_DAYS = parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30');
+
+const BATCH_SIZE = 50;
+const SEND_TIMEOUT_MS = 10000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const RESPONSE_BODY_MAX = 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface WebhookPayload {
+    id: string;
+    type: WebhookEvent | typeof TEST_EVENT;
+    createdAt: string;
+    data: Record<string, unknown>;
+}
+
+// ============================================
+// Secrets & signing
+// ============================================
+
+/**
+ * Generate a signing secret - the plaintext is only ever shown once
+ */
+export function generateWebhookSecret(): { secret: string; encrypted: string } {
+    const secret = `${SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    return { secret, encrypted: encryptValue(SECRET_KEY, secret) };
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+export function parseWebhookEvents(value: string): WebhookEvent[] {
+    try {
+        const parsed = JSON.parse(value || '[]');
+        return Array.isArray(parsed) ? parsed.filter(isWebhookEvent) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function isWebhookEvent(event: unknown): event is WebhookEvent {
+    return typeof event === 'string' && event in WEBHOOK_EVENTS;
+}
+
+// ============================================
+// Events
+// ============================================
+
+function parseList(value: string | null): string[] {
+    try {
+        const parsed = JSON.parse(value || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+// Same shape as GET /api/users/discord/[discordId], plus suspension
+function webhookUser(user: User) {
+    return {
+        userId: user.id,
+        email: user.email,
+        discordId: user.discord_id,
+        displayName: user.display_name,
+        authorityLevel: user.authority_level,
+        roles: parseList(user.roles),
+        permissions: parseList(user.permissions),
+        enabled: !!user.enabled,
+        suspended: !!user.suspended,
+    };
+}
+
+function buildPayload(type: WebhookPayload['type'], data: Record<string, unknown>): string {
+    const payload: WebhookPayload = {
+        id: `evt_${crypto.randomUUID()}`,
+        type,
+        createdAt: new Date().toISOString(),
+        data,
+    };
+    return JSON.stringify(payload);
+}
+
+/**
+ * Queue an event for every enabled webhook subscribed to it.
+ * Never throws - a webhook problem must not fail the change that raised the event
+ */
+export function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): void {
+    try {
+        const webhooks = getWebhooksForEvent(event);
+        if (webhooks.length === 0) return;
+
+        // One event ID for all endpoints, so receivers can de-duplicate across them
+        const payload = buildPayload(event, data);
+        const now = new Date().toISOString();
+        for (const webhook of webhooks) {
+            createWebhookDelivery({
+                id: crypto.randomUUID(),
+                webhook_id: webhook.id,
+                event,
+                payload,
+                next_attempt_at: now,
+            });
+        }
+    } catch (error) {
+        console.error(`Webhook event ${event} could not be queued:`, error);
+    }
+}
+
+export function emitUserEvent(event: WebhookEvent, user: User, data: Record<string, unknown> = {}): void {
+    emitWebhookEvent(event, { user: webhookUser(user), ...data });
+}
+
+/**
+ * Raise the events for whatever changed between two snapshots of a user
+ */
+export function emitUserChanges(before: User | null, after: User | null, data: Record<string, unknown> = {}): void {
+    if (!before || !after) return;
+
+    if (before.authority_level !== after.authority_level) {
+        emitUserEvent('user.authority_changed', after, { ...data, from: before.authority_level, to: after.authority_level });
+    }
+
+    if (!before.suspended && after.suspended) {
+        emitUserEvent('user.suspended', after, { ...data, reason: after.suspended_reason });
+    } else if (before.suspended && !after.suspended) {
+        emitUserEvent('user.unsuspended', after, data);
+    }
+
+    const from = webhookUser(before);
+    const to = webhookUser(after);
+    const changes = (['email', 'displayName', 'discordId', 'roles', 'permissions', 'enabled'] as const)
+        .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]));
+    if (changes.length > 0) {
+        emitUserEvent('user.updated', after, { ...data, changes });
+    }
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+function nextAttemptAt(attempts: number): string {
+    return new Date(Date.now() + Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS)).toISOString();
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+        const secret = decryptValue(SECRET_KEY, webhook.secret);
+        if (!secret) {
+            throw new Error('Signing secret cannot be decrypted - rotate it');
+        }
+
+        const res = await fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'USGRP-Auth-Webhooks',
+                'X-USGRP-Event': delivery.event,
+                'X-USGRP-Delivery': delivery.id,
+                'X-USGRP-Signature': signWebhookPayload(secret, delivery.payload, Math.floor(Date.now() / 1000)),
+            },
+            body: delivery.payload,
+            // A redirect counts as a failure rather than sending the payload somewhere else
+            redirect: 'manual',
+            signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+        });
+        responseStatus = res.status;
+        responseBody = (await res.text()).slice(0, RESPONSE_BODY_MAX);
+        if (!res.ok) {
+            error = `Endpoint responded ${res.status}`;
+        }
+    } catch (e) {
+        error = errorMessage(e);
+    }
+
+    const gaveUp = error !== null && attempts >= MAX_ATTEMPTS;
+    updateWebhookDelivery(delivery.id, {
+        status: error === null ? 'delivered' : gaveUp ? 'failed' : 'pending',
+        attempts,
+        response_status: responseStatus,
+        response_body: responseBody,
+        error,
+        next_attempt_at: error === null || gaveUp ? null : nextAttemptAt(attempts),
+        last_attempt_at: new Date().toISOString(),
+    });
+
+    if (gaveUp) {
+        logAudit(null, 'WEBHOOK_DELIVERY_FAILED', webhook.id, {
+            webhook: webhook.name,
+            delivery: delivery.id,
+            event: delivery.event,
+            attempts,
+            error,
+        }, null);
+    }
+
+    return getWebhookDelivery(delivery.id)!;
+}
+
+let lastCleanup = 0;
+
+/**
+ * Attempt every delivery whose next attempt is due (one batch)
+ */
+export async function deliverDueWebhooks(): Promise<void> {
+    const webhooks = new Map<string, Webhook | null>();
+
+    for (const delivery of getDueWebhookDeliveries(new Date().toISOString(), BATCH_SIZE)) {
+        if (!webhooks.has(delivery.webhook_id)) {
+            webhooks.set(delivery.webhook_id, getWebhook(delivery.webhook_id));
+        }
+        const webhook = webhooks.get(delivery.webhook_id);
+        if (!webhook) continue;
+
+        try {
+            await attemptDelivery(delivery, webhook);
+        } catch (error) {
+            console.error(`Webhook delivery ${delivery.id} error:`, error);
+        }
+    }
+
+    if (Date.now() - lastCleanup > CLEANUP_INTERVAL_MS) {
+        lastCleanup = Date.now();
+        cleanOldWebhookDeliveries(new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString());
+    }
+}
+
+/**
+ * Send a test event to one webhook now and return the logged delivery; failures are retried like any other
+ */
+export async function sendTestWebhookEvent(webhook: Webhook, sentBy: string): Promise<WebhookDelivery> {
+    const id = crypto.randomUUID();
+    createWebhookDelivery({
+        id,
+        webhook_id: webhook.id,
+        event: TEST_EVENT,
+        payload: buildPayload(TEST_EVENT, { webhook: { id: webhook.id, name: webhook.name }, sentBy }),
+        // Not due, so the deliverer can't pick it up while this attempt is in flight
+        next_attempt_at: null,
+    });
+    return attemptDelivery(getWebhookDelivery(id)!, webhook);
+}
+
+/**
+ * Queue a failed delivery again with a fresh set of attempts
+ */
+export function retryWebhookDelivery(delivery: WebhookDelivery): void {
+    updateWebhookDelivery(delivery.id, {
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+    });
+}
+
+let deliverer: NodeJS.Timeout | null = null;
+
+/**
+ * Deliver on a timer for the life of the server process
+ */
+export function startWebhookDeliverer(): void {
+    if (deliverer) return;
+
+    deliverer = startBackgroundJob('Webhook delivery', DELIVERY_INTERVAL_MS, deliverDueWebhooks);
+}
@@ -0,0 +1,72 @@
+/**
+ * Shared fixtures for route tests
+ * Routes run against the throwaway database from vitest.setup.ts; the cookie session is
+ * replaced by fakeSession through a vi.mock of iron-session in each test file
+ */
+
+import crypto from 'crypto';
+import { vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSession, createUser, getUserById, updateUser, type User } from '@/lib/db';
+import { buildAuthUser } from '@/lib/auth';
+import type { SessionData } from '@/lib/session';
+
+export type FakeSession = SessionData & {
+    save: () => Promise<void>;
+    destroy: () => void;
+    updateConfig: () => void;
+};
+
+export function fakeSession(data: Partial<SessionData> = {}): FakeSession {
+    return {
+        isLoggedIn: false,
+        ...data,
+        save: vi.fn(async () => undefined),
+        destroy: vi.fn(),
+        updateConfig: vi.fn(),
+    };
+}
+
+// A fresh account with a unique email; the password hash is whatever the test needs
+export function createTestUser(overrides: Partial<Omit<User, 'id' | 'created_at'>> = {}): User {
+    const id = crypto.randomUUID();
+    createUser({
+        id,
+        email: `${id}@usgrp.xyz`,
+        password_hash: '',
+        discord_id: null,
+        display_name: 'Test User',
+        authority_level: 0,
+        roles: '[]',
+        permissions: '[]',
+        enabled: 1,
+        totp_secret: null,
+        totp_enabled: 0,
+    });
+    if (Object.keys(overrides).length > 0) {
+        updateUser(id, overrides);
+    }
+    return getUserById(id)!;
+}
+
+// Cookie contents for a user signed in on a live Auth session
+export function signedInSessionData(user: User): Partial<SessionData> {
+    const sessionId = crypto.randomUUID();
+    createSession({
+        id: sessionId,
+        user_id: user.id,
+        token_hash: `access-${sessionId}`,
+        ip: null,
+        user_agent: null,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    return { isLoggedIn: true, user: { ...buildAuthUser(user), sessionId } };
+}
+
+export function jsonRequest(url: string, body: unknown, headers: Record<string, string> = {}, method = 'POST'): NextRequest {
+    return new NextRequest(new URL(url, 'https://auth.usgrp.xyz'), {
+        method,
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+    });
+}
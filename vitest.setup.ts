@@ -0,0 +1,12 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// Every test file gets its own throwaway database (db.ts reads AUTH_DATA_DIR when first imported)
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usgrp-auth-test-'));
+process.env.AUTH_DATA_DIR = dataDir;
+
+afterAll(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+});